@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import ExternalAPI from '@server/api/externalapi';
 import { ApiErrorCode } from '@server/constants/error';
+import type { JellyfinUserPolicy } from '@server/interfaces/api/jellyfinInterfaces';
 import availabilitySync from '@server/lib/availabilitySync';
 import logger from '@server/logger';
 import { ApiError } from '@server/types/error';
@@ -104,6 +105,23 @@ export interface JellyfinUser {
   };
 }
 
+export interface JellyfinSession {
+  Id: string;
+  UserId?: string;
+  UserName?: string;
+  Client: string;
+  DeviceId: string;
+  DeviceName: string;
+  RemoteEndPoint?: string;
+  LastActivityDate: string;
+  NowPlayingItem?: {
+    Id: string;
+    Name: string;
+    Type: string;
+    SeriesName?: string;
+  };
+}
+
 class JellyfinAPI extends ExternalAPI {
   private userId?: string;
 
@@ -435,6 +453,7 @@ class JellyfinAPI extends ExternalAPI {
   public async createUser(options: {
     Name: string;
     Password?: string;
+    Policy: JellyfinUserPolicy;
   }): Promise<JellyfinUser> {
     try {
       const newUser = await this.post<JellyfinUser>('/Users/New', {
@@ -447,18 +466,7 @@ class JellyfinAPI extends ExternalAPI {
       }
 
       await this.post(`/Users/${newUser.Id}/Policy`, {
-        IsAdministrator: false,
-        IsDisabled: false,
-        EnableUserPreferenceAccess: true,
-        EnableRemoteAccess: true,
-        EnableMediaPlayback: false,
-        EnableVideoPlayback: false,
-        EnableAudioPlayback: false,
-        EnableAudioPlaybackTranscoding: false,
-        EnableVideoPlaybackTranscoding: false,
-        EnablePlaybackRemuxing: false,
         ForceRemoteSourceTranscoding: false,
-        EnableMediaConversion: false,
         EnableSyncTranscoding: false,
         EnableAllDevices: true,
         EnabledDevices: [],
@@ -466,13 +474,7 @@ class JellyfinAPI extends ExternalAPI {
         EnabledChannels: [],
         EnableAllFolders: true,
         EnabledFolders: [],
-        EnableContentDownloading: false,
-        EnableLiveTvAccess: false,
-        EnableLiveTvManagement: false,
-        AuthenticationProviderId:
-          'Jellyfin.Server.Implementations.Users.DefaultAuthenticationProvider',
-        PasswordResetProviderId:
-          'Jellyfin.Server.Implementations.Users.DefaultPasswordResetProvider',
+        ...options.Policy,
       });
 
       return newUser;
@@ -480,7 +482,7 @@ class JellyfinAPI extends ExternalAPI {
       logger.error(`Failed to create Jellyfin user: ${e.message}`, {
         label: 'Jellyfin API',
       });
-      throw new ApiError(e.response?.status, ApiErrorCode.InvalidJellyfinUser);
+      throw new ApiError(e.cause?.status, ApiErrorCode.InvalidJellyfinUser);
     }
   }
 
@@ -491,7 +493,7 @@ class JellyfinAPI extends ExternalAPI {
       logger.error(`Failed to delete user from Jellyfin: ${e.message}`, {
         label: 'Jellyfin API',
       });
-      throw new ApiError(e.response?.status, ApiErrorCode.InvalidJellyfinUser);
+      throw new ApiError(e.cause?.status, ApiErrorCode.InvalidJellyfinUser);
     }
   }
 
@@ -507,30 +509,73 @@ class JellyfinAPI extends ExternalAPI {
       logger.error(`Failed to reset password for Jellyfin user: ${e.message}`, {
         label: 'Jellyfin API',
       });
-      throw new ApiError(e.response?.status, ApiErrorCode.InvalidJellyfinUser);
+      throw new ApiError(e.cause?.status, ApiErrorCode.InvalidJellyfinUser);
+    }
+  }
+
+  public async getSessions(
+    activeWithinSeconds = 60
+  ): Promise<JellyfinSession[]> {
+    try {
+      return await this.get<JellyfinSession[]>('/Sessions', {
+        ActiveWithinSeconds: activeWithinSeconds.toString(),
+      });
+    } catch (e) {
+      logger.error(`Failed to get sessions from Jellyfin: ${e.message}`, {
+        label: 'Jellyfin API',
+      });
+      throw new ApiError(e.cause?.status, ApiErrorCode.InvalidAuthToken);
+    }
+  }
+
+  public async stopSession(sessionId: string): Promise<void> {
+    try {
+      await this.post<void>(`/Sessions/${sessionId}/Playing/Stop`);
+    } catch (e) {
+      logger.error(`Failed to stop Jellyfin session: ${e.message}`, {
+        label: 'Jellyfin API',
+      });
+      throw new ApiError(e.cause?.status, ApiErrorCode.InvalidAuthToken);
+    }
+  }
+
+  public async sendSessionMessage(
+    sessionId: string,
+    header: string,
+    text: string
+  ): Promise<void> {
+    try {
+      await this.post<void>(`/Sessions/${sessionId}/Message`, {
+        Header: header,
+        Text: text,
+        TimeoutMs: 10000,
+      });
+    } catch (e) {
+      logger.error(`Failed to send message to Jellyfin session: ${e.message}`, {
+        label: 'Jellyfin API',
+      });
+      throw new ApiError(e.cause?.status, ApiErrorCode.InvalidAuthToken);
+    }
+  }
+
+  public async getUserPolicy(userId: string): Promise<JellyfinUserPolicy> {
+    try {
+      const userResponse = await this.get<{ Policy: JellyfinUserPolicy }>(
+        `/Users/${userId}`
+      );
+
+      return userResponse.Policy;
+    } catch (e) {
+      logger.error(`Failed to get policy for Jellyfin user: ${e.message}`, {
+        label: 'Jellyfin API',
+      });
+      throw new ApiError(e.cause?.status, ApiErrorCode.InvalidJellyfinUser);
     }
   }
 
   public async updateUserPolicy(
     userId: string,
-    policy: {
-      IsAdministrator: boolean;
-      IsDisabled: boolean;
-      EnableUserPreferenceAccess: boolean;
-      EnableLiveTvAccess: boolean;
-      EnableLiveTvManagement: boolean;
-      EnableRemoteAccess: boolean;
-      EnableMediaPlayback: boolean;
-      EnableVideoPlayback: boolean;
-      EnableAudioPlayback: boolean;
-      EnableMediaConversion: boolean;
-      EnableVideoPlaybackTranscoding: boolean;
-      EnableAudioPlaybackTranscoding: boolean;
-      EnableContentDownloading: boolean;
-      EnablePlaybackRemuxing: boolean;
-      PasswordResetProviderId: string;
-      AuthenticationProviderId: string;
-    }
+    policy: JellyfinUserPolicy
   ): Promise<void> {
     await this.post(`/Users/${userId}/Policy`, {
       ...policy,
@@ -98,6 +98,39 @@ interface UsersResponse {
   };
 }
 
+interface SharedServersResponse {
+  MediaContainer: {
+    SharedServer?: {
+      $: {
+        id: string;
+        userID: string;
+        username: string;
+      };
+      Section?: {
+        $: {
+          id: string;
+          key: string;
+          shared: string;
+        };
+      }[];
+    }[];
+  };
+}
+
+interface ServerSectionsResponse {
+  MediaContainer: {
+    Server?: {
+      Section?: {
+        $: {
+          id: string;
+          key: string;
+          title: string;
+        };
+      }[];
+    }[];
+  };
+}
+
 interface WatchlistResponse {
   MediaContainer: {
     totalSize: number;
@@ -257,6 +290,108 @@ class PlexTvAPI extends ExternalAPI {
     return parsedXml;
   }
 
+  private getMachineId(): string {
+    const { machineId } = getSettings().plex;
+
+    if (!machineId) {
+      throw new Error('Plex is not configured!');
+    }
+
+    return machineId;
+  }
+
+  private async getSharedServer(plexUserId: number) {
+    const data = await this.get(
+      `/api/servers/${this.getMachineId()}/shared_servers`,
+      {},
+      0
+    );
+
+    const parsedXml = (await xml2js.parseStringPromise(
+      data as string
+    )) as SharedServersResponse;
+
+    return parsedXml.MediaContainer.SharedServer?.find(
+      (sharedServer) => Number(sharedServer.$.userID) === plexUserId
+    );
+  }
+
+  /**
+   * Returns the plex.tv IDs of the libraries shared with a user, or null when
+   * the server is not shared with them.
+   */
+  public async getSharedLibraryIds(
+    plexUserId: number
+  ): Promise<number[] | null> {
+    const sharedServer = await this.getSharedServer(plexUserId);
+
+    if (!sharedServer) {
+      return null;
+    }
+
+    return (sharedServer.Section ?? [])
+      .filter((section) => section.$.shared === '1')
+      .map((section) => Number(section.$.id));
+  }
+
+  /**
+   * Stops sharing the server with a user, revoking their access to all libraries.
+   *
+   * @returns Whether the server was shared with the user
+   */
+  public async removeLibraryShare(plexUserId: number): Promise<boolean> {
+    const sharedServer = await this.getSharedServer(plexUserId);
+
+    if (!sharedServer) {
+      return false;
+    }
+
+    await this.delete(
+      `/api/servers/${this.getMachineId()}/shared_servers/${sharedServer.$.id}`
+    );
+
+    return true;
+  }
+
+  /**
+   * Shares the server with a user, replacing any existing share.
+   *
+   * @param plexUserId Plex ID of the user
+   * @param libraryIds plex.tv IDs of the libraries to share. All libraries
+   * are shared when not provided.
+   */
+  public async addLibraryShare(
+    plexUserId: number,
+    libraryIds?: number[]
+  ): Promise<void> {
+    const machineId = this.getMachineId();
+
+    if (!libraryIds) {
+      const data = await this.get(`/api/servers/${machineId}`, {}, 0);
+      const parsedXml = (await xml2js.parseStringPromise(
+        data as string
+      )) as ServerSectionsResponse;
+
+      libraryIds = (parsedXml.MediaContainer.Server?.[0]?.Section ?? []).map(
+        (section) => Number(section.$.id)
+      );
+    }
+
+    await this.removeLibraryShare(plexUserId);
+    await this.post(
+      `/api/servers/${machineId}/shared_servers`,
+      {
+        server_id: machineId,
+        shared_server: {
+          library_section_ids: libraryIds,
+          invited_id: plexUserId,
+        },
+      },
+      {},
+      0
+    );
+  }
+
   public async getWatchlist({
     offset = 0,
     size = 20,
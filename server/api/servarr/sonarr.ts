@@ -99,8 +99,17 @@ export interface AddSeriesOptions {
   seriesType: SonarrSeries['seriesType'];
   monitored?: boolean;
   searchNow?: boolean;
+  /**
+   * Single episodes to monitor and search for, in seasons that are not
+   * requested as a whole
+   */
+  episodes?: { seasonNumber: number; episodeNumber: number }[];
 }
 
+// Episodes of newly added series are only known once Sonarr refreshed them
+const EPISODE_RETRY_COUNT = 6;
+const EPISODE_RETRY_DELAY = 10 * 1000;
+
 export interface LanguageProfile {
   id: number;
   name: string;
@@ -203,10 +212,18 @@ class SonarrAPI extends ServarrBase<{
             movie: newSeriesData,
           });
 
-          if (options.searchNow) {
+          if (options.searchNow && options.seasons.length > 0) {
             this.searchSeries(newSeriesData.id);
           }
 
+          if (options.episodes?.length) {
+            this.monitorRequestedEpisodes(
+              newSeriesData.id,
+              options.episodes,
+              options.searchNow
+            );
+          }
+
           return newSeriesData;
         } else {
           logger.error('Failed to update series in Sonarr', {
@@ -247,6 +264,14 @@ class SonarrAPI extends ServarrBase<{
           label: 'Sonarr',
           movie: createdSeriesData,
         });
+
+        if (options.episodes?.length) {
+          this.monitorRequestedEpisodes(
+            createdSeriesData.id,
+            options.episodes,
+            options.searchNow
+          );
+        }
       } else {
         logger.error('Failed to add movie to Sonarr', {
           label: 'Sonarr',
@@ -316,6 +341,97 @@ class SonarrAPI extends ServarrBase<{
     }
   }
 
+  public async getEpisodes(seriesId: number): Promise<EpisodeResult[]> {
+    try {
+      const data = await this.get<EpisodeResult[]>(
+        '/episode',
+        { seriesId: seriesId.toString() },
+        0
+      );
+
+      return data;
+    } catch (e) {
+      throw new Error(`[Sonarr] Failed to retrieve episodes: ${e.message}`);
+    }
+  }
+
+  public async searchEpisodes(episodeIds: number[]): Promise<void> {
+    logger.info('Executing episode search command.', {
+      label: 'Sonarr API',
+      episodeIds,
+    });
+
+    try {
+      await this.runCommand('EpisodeSearch', { episodeIds });
+    } catch (e) {
+      logger.error(
+        'Something went wrong while executing Sonarr episode search.',
+        {
+          label: 'Sonarr API',
+          errorMessage: e.message,
+          episodeIds,
+        }
+      );
+    }
+  }
+
+  private async monitorRequestedEpisodes(
+    seriesId: number,
+    requestedEpisodes: NonNullable<AddSeriesOptions['episodes']>,
+    searchNow?: boolean
+  ): Promise<void> {
+    try {
+      let episodes = await this.getEpisodes(seriesId);
+
+      for (
+        let retry = 0;
+        episodes.length === 0 && retry < EPISODE_RETRY_COUNT;
+        retry++
+      ) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, EPISODE_RETRY_DELAY)
+        );
+        episodes = await this.getEpisodes(seriesId);
+      }
+
+      const episodeIds = episodes
+        .filter((episode) =>
+          requestedEpisodes.some(
+            (requested) =>
+              requested.seasonNumber === episode.seasonNumber &&
+              requested.episodeNumber === episode.episodeNumber
+          )
+        )
+        .map((episode) => episode.id);
+
+      if (episodeIds.length === 0) {
+        throw new Error('Requested episodes not found');
+      }
+
+      await this.put('/episode/monitor', { episodeIds, monitored: true });
+
+      logger.info('Monitored requested episodes in Sonarr.', {
+        label: 'Sonarr',
+        seriesId,
+        episodeIds,
+      });
+
+      if (searchNow) {
+        await this.searchEpisodes(episodeIds);
+      }
+    } catch (e) {
+      logger.error(
+        'Something went wrong while monitoring episodes in Sonarr.',
+        {
+          label: 'Sonarr API',
+          errorMessage: e.message,
+          seriesId,
+          requestedEpisodes,
+        }
+      );
+    }
+  }
+
   private buildSeasonList(
     seasons: number[],
     existingSeasons?: SonarrSeason[]
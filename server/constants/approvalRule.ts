@@ -0,0 +1,4 @@
+export enum ApprovalRuleAction {
+  APPROVE = 'approve',
+  DECLINE = 'decline',
+}
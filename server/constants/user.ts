@@ -4,3 +4,20 @@ export enum UserType {
   JELLYFIN = 3,
   EMBY = 4,
 }
+
+export type SubscriptionStatus = 'active' | 'grace' | 'expired' | 'lifetime';
+
+export enum SubscriptionEventType {
+  GRANT = 'grant',
+  EXTENSION = 'extension',
+  EXPIRY = 'expiry',
+  LIFETIME = 'lifetime',
+  MANUAL_EDIT = 'manual_edit',
+}
+
+export enum PolicyTemplateId {
+  ACTIVE = 'active',
+  EXPIRED = 'expired',
+  READ_ONLY = 'read-only',
+  KIDS = 'kids',
+}
@@ -0,0 +1,78 @@
+import type { ApprovalRuleAction } from '@server/constants/approvalRule';
+import type { MediaType } from '@server/constants/media';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+@Entity()
+class ApprovalRule {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @Column({ type: 'varchar' })
+  public name: string;
+
+  @Column({ type: 'varchar' })
+  public action: ApprovalRuleAction;
+
+  // Rules without a media type apply to both movies and series
+  @Column({ type: 'varchar', nullable: true })
+  public mediaType?: MediaType | null;
+
+  @Column({ type: 'float', nullable: true })
+  public minVoteAverage?: number | null;
+
+  @Column({ type: 'float', nullable: true })
+  public maxVoteAverage?: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  public minReleaseYear?: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  public maxReleaseYear?: number | null;
+
+  // Movie runtime or series episode runtime, in minutes
+  @Column({ type: 'int', nullable: true })
+  public minRuntime?: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  public maxRuntime?: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  public minSeasonCount?: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  public maxSeasonCount?: number | null;
+
+  // Share of the requester's past requests that were declined, in percent
+  @Column({ type: 'int', nullable: true })
+  public minDeclineRate?: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  public maxDeclineRate?: number | null;
+
+  @Column({ nullable: true })
+  public genre?: string;
+
+  @Column({ nullable: true })
+  public language?: string;
+
+  @Column({ nullable: true })
+  public certification?: string;
+
+  @CreateDateColumn()
+  public createdAt: Date;
+
+  @UpdateDateColumn()
+  public updatedAt: Date;
+
+  constructor(init?: Partial<ApprovalRule>) {
+    Object.assign(this, init);
+  }
+}
+
+export default ApprovalRule;
@@ -0,0 +1,42 @@
+import { MediaStatus } from '@server/constants/media';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import Season from './Season';
+
+@Entity()
+class Episode {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @Column()
+  public episodeNumber: number;
+
+  @Column({ type: 'int', default: MediaStatus.UNKNOWN })
+  public status: MediaStatus;
+
+  @Column({ type: 'int', default: MediaStatus.UNKNOWN })
+  public status4k: MediaStatus;
+
+  @ManyToOne(() => Season, (season) => season.episodes, {
+    onDelete: 'CASCADE',
+  })
+  public season: Promise<Season>;
+
+  @CreateDateColumn()
+  public createdAt: Date;
+
+  @UpdateDateColumn()
+  public updatedAt: Date;
+
+  constructor(init?: Partial<Episode>) {
+    Object.assign(this, init);
+  }
+}
+
+export default Episode;
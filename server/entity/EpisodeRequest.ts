@@ -0,0 +1,39 @@
+import { MediaRequestStatus } from '@server/constants/media';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import SeasonRequest from './SeasonRequest';
+
+@Entity()
+class EpisodeRequest {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @Column()
+  public episodeNumber: number;
+
+  @Column({ type: 'int', default: MediaRequestStatus.PENDING })
+  public status: MediaRequestStatus;
+
+  @ManyToOne(() => SeasonRequest, (season) => season.episodes, {
+    onDelete: 'CASCADE',
+  })
+  public season: SeasonRequest;
+
+  @CreateDateColumn()
+  public createdAt: Date;
+
+  @UpdateDateColumn()
+  public updatedAt: Date;
+
+  constructor(init?: Partial<EpisodeRequest>) {
+    Object.assign(this, init);
+  }
+}
+
+export default EpisodeRequest;
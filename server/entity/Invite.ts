@@ -0,0 +1,70 @@
+import type { JellyfinLibraryAccess } from '@server/interfaces/api/jellyfinInterfaces';
+import { DbAwareColumn } from '@server/utils/DbColumnHelper';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import SubscriptionPlan from './SubscriptionPlan';
+import { User } from './User';
+
+@Entity()
+class Invite {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @Column({ unique: true })
+  public code: string;
+
+  // Empty for invites that can be used any number of times
+  @Column({ type: 'integer', nullable: true })
+  public maxUses?: number | null;
+
+  @Column({ type: 'integer', default: 0 })
+  public usesCount: number;
+
+  @DbAwareColumn({ type: 'datetime', nullable: true })
+  public expiresAt?: Date | null;
+
+  // Permissions given to invited users. A subscription plan replaces them.
+  @Column({ type: 'integer', default: 0 })
+  public permissions: number;
+
+  @ManyToOne(() => SubscriptionPlan, {
+    eager: true,
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  public subscriptionPlan?: SubscriptionPlan | null;
+
+  // Length of the subscription started on signup. Empty to use the length of
+  // the plan, or for no subscription when there is no plan either.
+  @Column({ type: 'integer', nullable: true })
+  public subscriptionDays?: number | null;
+
+  // Libraries invited users can access. Empty to keep the default access.
+  @Column({ type: 'simple-json', nullable: true })
+  public libraryAccess?: JellyfinLibraryAccess | null;
+
+  @ManyToOne(() => User, {
+    eager: true,
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  public createdBy?: User | null;
+
+  @CreateDateColumn()
+  public createdAt: Date;
+
+  @UpdateDateColumn()
+  public updatedAt: Date;
+
+  constructor(init?: Partial<Invite>) {
+    Object.assign(this, init);
+  }
+}
+
+export default Invite;
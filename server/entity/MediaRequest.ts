@@ -8,6 +8,7 @@ import SonarrAPI from '@server/api/servarr/sonarr';
 import TheMovieDb from '@server/api/themoviedb';
 import { ANIME_KEYWORD_ID } from '@server/api/themoviedb/constants';
 import type { TmdbKeyword } from '@server/api/themoviedb/interfaces';
+import { ApprovalRuleAction } from '@server/constants/approvalRule';
 import {
   MediaRequestStatus,
   MediaStatus,
@@ -16,11 +17,14 @@ import {
 import { getRepository } from '@server/datasource';
 import OverrideRule from '@server/entity/OverrideRule';
 import type { MediaRequestBody } from '@server/interfaces/api/requestInterfaces';
+import { findApprovalRule } from '@server/lib/approvalRules';
 import notificationManager, { Notification } from '@server/lib/notifications';
 import { Permission } from '@server/lib/permissions';
+import { addRequestVote, RequestVoteError } from '@server/lib/requestVotes';
 import { getSettings } from '@server/lib/settings';
 import logger from '@server/logger';
-import { isEqual, truncate } from 'lodash';
+import { DbAwareColumn } from '@server/utils/DbColumnHelper';
+import { isEqual, truncate, uniq } from 'lodash';
 import {
   AfterInsert,
   AfterRemove,
@@ -34,7 +38,11 @@ import {
   RelationCount,
   UpdateDateColumn,
 } from 'typeorm';
+import ApprovalRule from './ApprovalRule';
+import EpisodeRequest from './EpisodeRequest';
 import Media from './Media';
+import RequestComment from './RequestComment';
+import RequestVote from './RequestVote';
 import SeasonRequest from './SeasonRequest';
 import { User } from './User';
 
@@ -48,6 +56,24 @@ type MediaRequestOptions = {
   isAutoRequest?: boolean;
 };
 
+const getRequestStatus = (
+  isAutoApproved: boolean,
+  approvalRule?: ApprovalRule
+): MediaRequestStatus => {
+  if (isAutoApproved || approvalRule?.action === ApprovalRuleAction.APPROVE) {
+    return MediaRequestStatus.APPROVED;
+  }
+
+  return approvalRule?.action === ApprovalRuleAction.DECLINE
+    ? MediaRequestStatus.DECLINED
+    : MediaRequestStatus.PENDING;
+};
+
+const getRuleDeclineReason = (approvalRule?: ApprovalRule): string | null =>
+  approvalRule?.action === ApprovalRuleAction.DECLINE
+    ? `Automatically declined by the "${approvalRule.name}" rule.`
+    : null;
+
 @Entity()
 export class MediaRequest {
   public static async request(
@@ -178,6 +204,30 @@ export class MediaRequest {
       .getMany();
 
     if (existing && existing.length > 0) {
+      // Users who can vote back the pending request of someone else instead of
+      // making a duplicate one
+      const pendingRequest = existing.find(
+        (r) => r.status === MediaRequestStatus.PENDING
+      );
+
+      if (
+        requestBody.mediaType === MediaType.MOVIE &&
+        pendingRequest &&
+        pendingRequest.requestedBy.id !== requestUser.id &&
+        !options.isAutoRequest &&
+        requestUser.hasPermission(Permission.VOTE)
+      ) {
+        try {
+          return await addRequestVote(pendingRequest, requestUser);
+        } catch (e) {
+          if (e instanceof RequestVoteError) {
+            throw new DuplicateMediaRequestError(e.message);
+          }
+
+          throw e;
+        }
+      }
+
       // If there is an existing movie request that isn't declined, don't allow a new one.
       if (
         requestBody.mediaType === MediaType.MOVIE &&
@@ -337,47 +387,40 @@ export class MediaRequest {
     }
 
     if (requestBody.mediaType === MediaType.MOVIE) {
+      // If the user is an admin or has the "auto approve" permission, automatically approve the request
+      const isAutoApproved = user.hasPermission(
+        [
+          requestBody.is4k
+            ? Permission.AUTO_APPROVE_4K
+            : Permission.AUTO_APPROVE,
+          requestBody.is4k
+            ? Permission.AUTO_APPROVE_4K_MOVIE
+            : Permission.AUTO_APPROVE_MOVIE,
+          Permission.MANAGE_REQUESTS,
+        ],
+        { type: 'or' }
+      );
+      const approvalRule = isAutoApproved
+        ? undefined
+        : await findApprovalRule(requestBody.mediaType, tmdbMedia, requestUser);
+
       await mediaRepository.save(media);
 
       const request = new MediaRequest({
         type: MediaType.MOVIE,
         media,
         requestedBy: requestUser,
-        // If the user is an admin or has the "auto approve" permission, automatically approve the request
-        status: user.hasPermission(
-          [
-            requestBody.is4k
-              ? Permission.AUTO_APPROVE_4K
-              : Permission.AUTO_APPROVE,
-            requestBody.is4k
-              ? Permission.AUTO_APPROVE_4K_MOVIE
-              : Permission.AUTO_APPROVE_MOVIE,
-            Permission.MANAGE_REQUESTS,
-          ],
-          { type: 'or' }
-        )
-          ? MediaRequestStatus.APPROVED
-          : MediaRequestStatus.PENDING,
-        modifiedBy: user.hasPermission(
-          [
-            requestBody.is4k
-              ? Permission.AUTO_APPROVE_4K
-              : Permission.AUTO_APPROVE,
-            requestBody.is4k
-              ? Permission.AUTO_APPROVE_4K_MOVIE
-              : Permission.AUTO_APPROVE_MOVIE,
-            Permission.MANAGE_REQUESTS,
-          ],
-          { type: 'or' }
-        )
-          ? user
-          : undefined,
+        status: getRequestStatus(isAutoApproved, approvalRule),
+        modifiedBy: isAutoApproved ? user : undefined,
+        approvalRule,
+        declineReason: getRuleDeclineReason(approvalRule),
         is4k: requestBody.is4k,
         serverId: requestBody.serverId,
         profileId: profileId,
         rootFolder: rootFolder,
         tags: tags,
         isAutoRequest: options.isAutoRequest ?? false,
+        reason: requestBody.reason?.trim() || null,
       });
 
       await requestRepository.save(request);
@@ -395,26 +438,34 @@ export class MediaRequest {
                 .filter((sn) => sn > 0)
           : (requestBody.seasons as number[]);
       let existingSeasons: number[] = [];
+      let existingEpisodeRequests: SeasonRequest[] = [];
 
       // We need to check existing requests on this title to make sure we don't double up on seasons that were
       // already requested. In the case they were, we just throw out any duplicates but still approve the request.
       // (Unless there are no seasons, in which case we abort)
       if (media.requests) {
-        existingSeasons = media.requests
+        const existingSeasonRequests = media.requests
           .filter(
             (request) =>
               request.is4k === requestBody.is4k &&
               request.status !== MediaRequestStatus.DECLINED
           )
-          .reduce((seasons, request) => {
-            const combinedSeasons = request.seasons.map(
-              (season) => season.seasonNumber
-            );
+          .reduce(
+            (seasons, request) => [...seasons, ...request.seasons],
+            [] as SeasonRequest[]
+          );
 
-            return [...seasons, ...combinedSeasons];
-          }, [] as number[]);
+        // Seasons of which only single episodes were requested can still be requested as a whole
+        existingSeasons = existingSeasonRequests
+          .filter((season) => !season.episodes?.length)
+          .map((season) => season.seasonNumber);
+        existingEpisodeRequests = existingSeasonRequests.filter(
+          (season) => season.episodes?.length
+        );
       }
 
+      const requestedFullSeasons = [...existingSeasons];
+
       // We should also check seasons that are available/partially available but don't have existing requests
       if (media.seasons) {
         existingSeasons = [
@@ -433,76 +484,136 @@ export class MediaRequest {
         (rs) => !existingSeasons.includes(rs)
       );
 
-      if (finalSeasons.length === 0) {
+      // Single episodes can be requested from any season that is neither
+      // requested as a whole nor fully available. Episodes that were already
+      // requested or are available are thrown out like duplicate seasons.
+      const finalEpisodes = new Map<number, number[]>();
+
+      for (const [key, episodeNumbers] of Object.entries(
+        requestBody.episodes ?? {}
+      )) {
+        const seasonNumber = Number(key);
+        const tmdbSeason = tmdbMediaShow.seasons.find(
+          (season) => season.season_number === seasonNumber
+        );
+        const mediaSeason = media.seasons?.find(
+          (season) => season.seasonNumber === seasonNumber
+        );
+
+        if (
+          !tmdbSeason ||
+          requestedSeasons.includes(seasonNumber) ||
+          requestedFullSeasons.includes(seasonNumber) ||
+          mediaSeason?.[requestBody.is4k ? 'status4k' : 'status'] ===
+            MediaStatus.AVAILABLE
+        ) {
+          continue;
+        }
+
+        const existingEpisodes = [
+          ...existingEpisodeRequests
+            .filter((season) => season.seasonNumber === seasonNumber)
+            .reduce(
+              (episodes, season) => [
+                ...episodes,
+                ...season.episodes.map((episode) => episode.episodeNumber),
+              ],
+              [] as number[]
+            ),
+          ...(mediaSeason?.episodes ?? [])
+            .filter(
+              (episode) =>
+                episode[requestBody.is4k ? 'status4k' : 'status'] !==
+                MediaStatus.UNKNOWN
+            )
+            .map((episode) => episode.episodeNumber),
+        ];
+
+        const episodes = uniq(episodeNumbers.map(Number)).filter(
+          (en) =>
+            en > 0 &&
+            en <= tmdbSeason.episode_count &&
+            !existingEpisodes.includes(en)
+        );
+
+        if (episodes.length > 0) {
+          finalEpisodes.set(
+            seasonNumber,
+            episodes.sort((a, b) => a - b)
+          );
+        }
+      }
+
+      if (finalSeasons.length === 0 && finalEpisodes.size === 0) {
         throw new NoSeasonsAvailableError('No seasons available to request');
       } else if (
         quotas.tv.limit &&
-        finalSeasons.length > (quotas.tv.remaining ?? 0)
+        finalSeasons.length + finalEpisodes.size > (quotas.tv.remaining ?? 0)
       ) {
         throw new QuotaRestrictedError('Series Quota exceeded.');
       }
 
+      // If the user is an admin or has the "auto approve" permission, automatically approve the request
+      const isAutoApproved = user.hasPermission(
+        [
+          requestBody.is4k
+            ? Permission.AUTO_APPROVE_4K
+            : Permission.AUTO_APPROVE,
+          requestBody.is4k
+            ? Permission.AUTO_APPROVE_4K_TV
+            : Permission.AUTO_APPROVE_TV,
+          Permission.MANAGE_REQUESTS,
+        ],
+        { type: 'or' }
+      );
+      const approvalRule = isAutoApproved
+        ? undefined
+        : await findApprovalRule(requestBody.mediaType, tmdbMedia, requestUser);
+      const seasonRequestStatus = getRequestStatus(
+        isAutoApproved,
+        approvalRule
+      );
+
       await mediaRepository.save(media);
 
       const request = new MediaRequest({
         type: MediaType.TV,
         media,
         requestedBy: requestUser,
-        // If the user is an admin or has the "auto approve" permission, automatically approve the request
-        status: user.hasPermission(
-          [
-            requestBody.is4k
-              ? Permission.AUTO_APPROVE_4K
-              : Permission.AUTO_APPROVE,
-            requestBody.is4k
-              ? Permission.AUTO_APPROVE_4K_TV
-              : Permission.AUTO_APPROVE_TV,
-            Permission.MANAGE_REQUESTS,
-          ],
-          { type: 'or' }
-        )
-          ? MediaRequestStatus.APPROVED
-          : MediaRequestStatus.PENDING,
-        modifiedBy: user.hasPermission(
-          [
-            requestBody.is4k
-              ? Permission.AUTO_APPROVE_4K
-              : Permission.AUTO_APPROVE,
-            requestBody.is4k
-              ? Permission.AUTO_APPROVE_4K_TV
-              : Permission.AUTO_APPROVE_TV,
-            Permission.MANAGE_REQUESTS,
-          ],
-          { type: 'or' }
-        )
-          ? user
-          : undefined,
+        status: seasonRequestStatus,
+        modifiedBy: isAutoApproved ? user : undefined,
+        approvalRule,
+        declineReason: getRuleDeclineReason(approvalRule),
         is4k: requestBody.is4k,
         serverId: requestBody.serverId,
         profileId: profileId,
         rootFolder: rootFolder,
         languageProfileId: requestBody.languageProfileId,
         tags: tags,
-        seasons: finalSeasons.map(
-          (sn) =>
-            new SeasonRequest({
-              seasonNumber: sn,
-              status: user.hasPermission(
-                [
-                  requestBody.is4k
-                    ? Permission.AUTO_APPROVE_4K
-                    : Permission.AUTO_APPROVE,
-                  requestBody.is4k
-                    ? Permission.AUTO_APPROVE_4K_TV
-                    : Permission.AUTO_APPROVE_TV,
-                  Permission.MANAGE_REQUESTS,
-                ],
-                { type: 'or' }
-              )
-                ? MediaRequestStatus.APPROVED
-                : MediaRequestStatus.PENDING,
-            })
-        ),
+        reason: requestBody.reason?.trim() || null,
+        seasons: [
+          ...finalSeasons.map(
+            (sn) =>
+              new SeasonRequest({
+                seasonNumber: sn,
+                status: seasonRequestStatus,
+              })
+          ),
+          ...[...finalEpisodes].map(
+            ([sn, episodes]) =>
+              new SeasonRequest({
+                seasonNumber: sn,
+                status: seasonRequestStatus,
+                episodes: episodes.map(
+                  (en) =>
+                    new EpisodeRequest({
+                      episodeNumber: en,
+                      status: seasonRequestStatus,
+                    })
+                ),
+              })
+          ),
+        ],
         isAutoRequest: options.isAutoRequest ?? false,
       });
 
@@ -604,6 +715,38 @@ export class MediaRequest {
   @Column({ default: false })
   public isAutoRequest: boolean;
 
+  @Column({ type: 'text', nullable: true })
+  public reason?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  public declineReason?: string | null;
+
+  @OneToMany(() => RequestVote, (vote) => vote.request)
+  public votes: RequestVote[];
+
+  @OneToMany(() => RequestComment, (comment) => comment.request)
+  public comments: RequestComment[];
+
+  // Rule that automatically approved or declined the request
+  @ManyToOne(() => ApprovalRule, {
+    nullable: true,
+    eager: true,
+    onDelete: 'SET NULL',
+  })
+  public approvalRule?: ApprovalRule | null;
+
+  // Kept in sync with the votes so requests can be sorted by demand
+  @Column({ type: 'integer', default: 0 })
+  public voteCount: number;
+
+  // Set while an approved request is held back until shortly before release
+  @DbAwareColumn({ type: 'datetime', nullable: true })
+  public scheduledAt?: Date | null;
+
+  // Set once admins were notified that the request has been pending too long
+  @DbAwareColumn({ type: 'datetime', nullable: true })
+  public escalatedAt?: Date | null;
+
   constructor(init?: Partial<MediaRequest>) {
     Object.assign(this, init);
   }
@@ -611,9 +754,121 @@ export class MediaRequest {
   @AfterUpdate()
   @AfterInsert()
   public async sendMedia(): Promise<void> {
+    if (await this.deferUntilRelease()) {
+      return;
+    }
+
     await Promise.all([this.sendToRadarr(), this.sendToSonarr()]);
   }
 
+  /**
+   * Returns the date an approved request should be sent to Radarr or Sonarr,
+   * or null if it can be sent right away.
+   *
+   * Movies use their earliest digital or physical release and series the
+   * earliest air date of the requested seasons.
+   */
+  public async getScheduledDate(): Promise<Date | null> {
+    const settings = getSettings().main;
+
+    if (!settings.deferUnreleasedRequests) {
+      return null;
+    }
+
+    const tmdb = new TheMovieDb();
+    let releaseDates: string[] = [];
+
+    try {
+      if (this.type === MediaType.MOVIE) {
+        const movie = await tmdb.getMovie({ movieId: this.media.tmdbId });
+
+        releaseDates = movie.release_dates.results.flatMap((result) =>
+          result.release_dates
+            .filter((release) => release.type === 4 || release.type === 5)
+            .map((release) => release.release_date)
+        );
+
+        if (!releaseDates.length && movie.release_date) {
+          releaseDates = [movie.release_date];
+        }
+      } else {
+        const tv = await tmdb.getTvShow({ tvId: this.media.tmdbId });
+        const seasonNumbers = this.seasons.map((season) => season.seasonNumber);
+
+        releaseDates = tv.seasons
+          .filter(
+            (season) =>
+              seasonNumbers.includes(season.season_number) && season.air_date
+          )
+          .map((season) => season.air_date);
+      }
+    } catch (e) {
+      logger.error('Failed to fetch release dates, not deferring request', {
+        label: 'Media Request',
+        requestId: this.id,
+        mediaId: this.media.id,
+        errorMessage: e.message,
+      });
+      return null;
+    }
+
+    const releaseTimes = releaseDates
+      .map((date) => new Date(date).getTime())
+      .filter((time) => !isNaN(time));
+
+    if (!releaseTimes.length) {
+      return null;
+    }
+
+    const scheduledDate = new Date(Math.min(...releaseTimes));
+    scheduledDate.setDate(
+      scheduledDate.getDate() - settings.deferUnreleasedRequestsDays
+    );
+
+    return scheduledDate > new Date() ? scheduledDate : null;
+  }
+
+  /**
+   * Holds approved requests for unreleased media back in Jellyseerr. The
+   * deferred requests job sends them once their scheduled date has passed.
+   *
+   * Uses plain updates so that storing the date does not trigger the entity
+   * listeners again.
+   */
+  private async deferUntilRelease(): Promise<boolean> {
+    if (this.status !== MediaRequestStatus.APPROVED) {
+      return false;
+    }
+
+    const requestRepository = getRepository(MediaRequest);
+    const scheduledAt = await this.getScheduledDate();
+
+    if (scheduledAt) {
+      if (this.scheduledAt?.getTime() !== scheduledAt.getTime()) {
+        this.scheduledAt = scheduledAt;
+        await requestRepository.update(this.id, { scheduledAt });
+
+        logger.info(
+          `Deferring request until ${scheduledAt.toISOString().slice(0, 10)}`,
+          {
+            label: 'Media Request',
+            requestId: this.id,
+            mediaId: this.media.id,
+          }
+        );
+      }
+
+      return true;
+    }
+
+    if (this.scheduledAt) {
+      this.scheduledAt = null;
+      await requestRepository.update(this.id, { scheduledAt: null });
+    }
+
+    return false;
+  }
+
   @AfterInsert()
   public async notifyNewRequest(): Promise<void> {
     if (this.status === MediaRequestStatus.PENDING) {
@@ -690,9 +945,38 @@ export class MediaRequest {
     }
   }
 
+  /**
+   * Tells request managers and the requester about a request that has been
+   * pending for too long, or only request managers once it was declined for it
+   */
+  public async notifyStale(): Promise<void> {
+    const media = await getRepository(Media).findOne({
+      where: { id: this.media.id },
+    });
+    if (!media) {
+      logger.error('Media data not found', {
+        label: 'Media Request',
+        requestId: this.id,
+        mediaId: this.media.id,
+      });
+      return;
+    }
+
+    await this.sendNotification(
+      media,
+      this.status === MediaRequestStatus.DECLINED
+        ? Notification.MEDIA_DECLINED
+        : Notification.MEDIA_PENDING,
+      true
+    );
+  }
+
   @AfterInsert()
   public async autoapprovalNotification(): Promise<void> {
-    if (this.status === MediaRequestStatus.APPROVED) {
+    if (
+      this.status === MediaRequestStatus.APPROVED ||
+      (this.status === MediaRequestStatus.DECLINED && this.approvalRule)
+    ) {
       this.notifyApprovedOrDeclined(true);
     }
   }
@@ -758,6 +1042,9 @@ export class MediaRequest {
     ) {
       this.seasons.forEach((season) => {
         season.status = MediaRequestStatus.APPROVED;
+        season.episodes?.forEach((episode) => {
+          episode.status = MediaRequestStatus.APPROVED;
+        });
         seasonRequestRepository.save(season);
       });
     }
@@ -1240,7 +1527,19 @@ export class MediaRequest {
           rootFolderPath: rootFolder,
           title: series.name,
           tvdbid: tvdbId,
-          seasons: this.seasons.map((season) => season.seasonNumber),
+          seasons: this.seasons
+            .filter((season) => !season.episodes?.length)
+            .map((season) => season.seasonNumber),
+          episodes: this.seasons.reduce(
+            (episodes, season) => [
+              ...episodes,
+              ...(season.episodes ?? []).map((episode) => ({
+                seasonNumber: season.seasonNumber,
+                episodeNumber: episode.episodeNumber,
+              })),
+            ],
+            [] as NonNullable<AddSeriesOptions['episodes']>
+          ),
           seasonFolder: sonarrSettings.enableSeasonFolders,
           seriesType,
           tags,
@@ -1305,7 +1604,11 @@ export class MediaRequest {
     }
   }
 
-  private async sendNotification(media: Media, type: Notification) {
+  private async sendNotification(
+    media: Media,
+    type: Notification,
+    stale = false
+  ) {
     const tmdb = new TheMovieDb();
 
     try {
@@ -1320,11 +1623,17 @@ export class MediaRequest {
           notifyAdmin = false;
           break;
         case Notification.MEDIA_DECLINED:
-          event = `${this.is4k ? '4K ' : ''}${mediaType} Request Declined`;
-          notifyAdmin = false;
+          event = `${stale ? 'Stale ' : ''}${
+            this.is4k ? '4K ' : ''
+          }${mediaType} Request Declined`;
+          // The requester already heard about the decline itself
+          notifyAdmin = stale;
+          notifySystem = !stale;
           break;
         case Notification.MEDIA_PENDING:
-          event = `New ${this.is4k ? '4K ' : ''}${mediaType} Request`;
+          event = `${stale ? 'Stale' : 'New'} ${
+            this.is4k ? '4K ' : ''
+          }${mediaType} Request`;
           break;
         case Notification.MEDIA_AUTO_REQUESTED:
           event = `${
@@ -1343,6 +1652,12 @@ export class MediaRequest {
           break;
       }
 
+      // Requesters are also told when their request is still waiting
+      const notifyUser =
+        !notifyAdmin || (stale && type === Notification.MEDIA_PENDING)
+          ? this.requestedBy
+          : undefined;
+
       if (this.type === MediaType.MOVIE) {
         const movie = await tmdb.getMovie({ movieId: media.tmdbId });
         notificationManager.sendNotification(type, {
@@ -1350,7 +1665,7 @@ export class MediaRequest {
           request: this,
           notifyAdmin,
           notifySystem,
-          notifyUser: notifyAdmin ? undefined : this.requestedBy,
+          notifyUser,
           event,
           subject: `${movie.title}${
             movie.release_date ? ` (${movie.release_date.slice(0, 4)})` : ''
@@ -1369,7 +1684,7 @@ export class MediaRequest {
           request: this,
           notifyAdmin,
           notifySystem,
-          notifyUser: notifyAdmin ? undefined : this.requestedBy,
+          notifyUser,
           event,
           subject: `${tv.name}${
             tv.first_air_date ? ` (${tv.first_air_date.slice(0, 4)})` : ''
@@ -1384,7 +1699,13 @@ export class MediaRequest {
             {
               name: 'Requested Seasons',
               value: this.seasons
-                .map((season) => season.seasonNumber)
+                .map((season) =>
+                  season.episodes?.length
+                    ? `${season.seasonNumber} (${season.episodes
+                        .map((episode) => `E${episode.episodeNumber}`)
+                        .join(', ')})`
+                    : season.seasonNumber
+                )
                 .join(', '),
             },
           ],
@@ -0,0 +1,42 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { MediaRequest } from './MediaRequest';
+import { User } from './User';
+
+@Entity()
+class RequestComment {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @ManyToOne(() => User, {
+    eager: true,
+    onDelete: 'CASCADE',
+  })
+  public user: User;
+
+  @ManyToOne(() => MediaRequest, (request) => request.comments, {
+    onDelete: 'CASCADE',
+  })
+  public request: MediaRequest;
+
+  @Column({ type: 'text' })
+  public message: string;
+
+  @CreateDateColumn()
+  public createdAt: Date;
+
+  @UpdateDateColumn()
+  public updatedAt: Date;
+
+  constructor(init?: Partial<RequestComment>) {
+    Object.assign(this, init);
+  }
+}
+
+export default RequestComment;
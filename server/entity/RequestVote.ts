@@ -0,0 +1,36 @@
+import {
+  CreateDateColumn,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+import { MediaRequest } from './MediaRequest';
+import { User } from './User';
+
+// An upvote from a user who wants a pending request of someone else approved
+@Entity()
+@Unique('UNIQUE_REQUEST_VOTE', ['request', 'user'])
+class RequestVote {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @ManyToOne(() => MediaRequest, (request) => request.votes, {
+    onDelete: 'CASCADE',
+  })
+  public request: MediaRequest;
+
+  @ManyToOne(() => User, {
+    onDelete: 'CASCADE',
+  })
+  public user: User;
+
+  @CreateDateColumn()
+  public createdAt: Date;
+
+  constructor(init?: Partial<RequestVote>) {
+    Object.assign(this, init);
+  }
+}
+
+export default RequestVote;
@@ -4,9 +4,11 @@ import {
   CreateDateColumn,
   Entity,
   ManyToOne,
+  OneToMany,
   PrimaryGeneratedColumn,
   UpdateDateColumn,
 } from 'typeorm';
+import Episode from './Episode';
 import Media from './Media';
 
 @Entity()
@@ -28,6 +30,12 @@ class Season {
   })
   public media: Promise<Media>;
 
+  @OneToMany(() => Episode, (episode) => episode.season, {
+    cascade: true,
+    eager: true,
+  })
+  public episodes: Episode[];
+
   @CreateDateColumn()
   public createdAt: Date;
 
@@ -37,6 +45,34 @@ class Season {
   constructor(init?: Partial<Season>) {
     Object.assign(this, init);
   }
+
+  /**
+   * Marks the given episodes of this season as available. Episodes that were
+   * already available stay that way (to avoid competing scanners), removals are
+   * handled by the availability sync instead.
+   */
+  public setAvailableEpisodes(episodeNumbers: number[], is4k = false): void {
+    if (!this.episodes) {
+      this.episodes = [];
+    }
+
+    for (const episodeNumber of episodeNumbers) {
+      let episode = this.episodes.find(
+        (e) => e.episodeNumber === episodeNumber
+      );
+
+      if (!episode) {
+        episode = new Episode({
+          episodeNumber,
+          status: MediaStatus.UNKNOWN,
+          status4k: MediaStatus.UNKNOWN,
+        });
+        this.episodes.push(episode);
+      }
+
+      episode[is4k ? 'status4k' : 'status'] = MediaStatus.AVAILABLE;
+    }
+  }
 }
 
 export default Season;
@@ -6,9 +6,11 @@ import {
   CreateDateColumn,
   Entity,
   ManyToOne,
+  OneToMany,
   PrimaryGeneratedColumn,
   UpdateDateColumn,
 } from 'typeorm';
+import EpisodeRequest from './EpisodeRequest';
 import { MediaRequest } from './MediaRequest';
 
 @Entity()
@@ -27,6 +29,16 @@ class SeasonRequest {
   })
   public request: MediaRequest;
 
+  /**
+   * Requested episodes of this season. When empty, the whole season was
+   * requested.
+   */
+  @OneToMany(() => EpisodeRequest, (episode) => episode.season, {
+    eager: true,
+    cascade: true,
+  })
+  public episodes: EpisodeRequest[];
+
   @CreateDateColumn()
   public createdAt: Date;
 
@@ -0,0 +1,63 @@
+import type {
+  SubscriptionEventType,
+  SubscriptionStatus,
+} from '@server/constants/user';
+import { DbAwareColumn } from '@server/utils/DbColumnHelper';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from './User';
+
+@Entity()
+class SubscriptionEvent {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @ManyToOne(() => User, {
+    onDelete: 'CASCADE',
+  })
+  public user: User;
+
+  // Admin who made the change. Empty for changes made by background jobs.
+  @ManyToOne(() => User, {
+    eager: true,
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  public actor?: User | null;
+
+  @Column({ type: 'varchar' })
+  public type: SubscriptionEventType;
+
+  @Column({ type: 'varchar', nullable: true })
+  public previousStatus?: SubscriptionStatus | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  public newStatus?: SubscriptionStatus | null;
+
+  @DbAwareColumn({ type: 'datetime', nullable: true })
+  public previousExpirationDate?: Date | null;
+
+  @DbAwareColumn({ type: 'datetime', nullable: true })
+  public newExpirationDate?: Date | null;
+
+  // Name of the plan at the time of the event, kept even if the plan is later deleted
+  @Column({ type: 'varchar', nullable: true })
+  public planName?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  public note?: string | null;
+
+  @CreateDateColumn()
+  public createdAt: Date;
+
+  constructor(init?: Partial<SubscriptionEvent>) {
+    Object.assign(this, init);
+  }
+}
+
+export default SubscriptionEvent;
@@ -0,0 +1,77 @@
+import type {
+  JellyfinLibraryAccess,
+  JellyfinUserPolicy,
+} from '@server/interfaces/api/jellyfinInterfaces';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from './User';
+
+@Entity()
+class SubscriptionPlan {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @Column({ unique: true })
+  public name: string;
+
+  // Number of days a subscription to this plan lasts. Empty for plans that never expire.
+  @Column({ type: 'integer', nullable: true })
+  public durationDays?: number | null;
+
+  @Column({ type: 'integer', default: 0 })
+  public permissions: number;
+
+  @Column({ type: 'integer', nullable: true })
+  public movieQuotaLimit?: number | null;
+
+  @Column({ type: 'integer', nullable: true })
+  public movieQuotaDays?: number | null;
+
+  @Column({ type: 'integer', nullable: true })
+  public tvQuotaLimit?: number | null;
+
+  @Column({ type: 'integer', nullable: true })
+  public tvQuotaDays?: number | null;
+
+  // Number of streams subscribers can run at once. Empty or 0 for no limit.
+  @Column({ type: 'integer', nullable: true })
+  public maxActiveSessions?: number | null;
+
+  // Policy template applied to subscribers. Empty to use the template matching
+  // the subscription status.
+  @Column({ type: 'varchar', nullable: true })
+  public policyTemplate?: string | null;
+
+  // Libraries subscribers can access. Empty to leave their library access untouched.
+  @Column({ type: 'simple-json', nullable: true })
+  public libraryAccess?: JellyfinLibraryAccess | null;
+
+  // Applied on top of the policy template
+  @Column({ type: 'simple-json', nullable: true })
+  public jellyfinPolicy?: Partial<JellyfinUserPolicy> | null;
+
+  // The expired profile is applied to users whose subscription has lapsed
+  @Column({ default: false })
+  public isExpiredProfile: boolean;
+
+  @OneToMany(() => User, (user) => user.subscriptionPlan)
+  public users: User[];
+
+  @CreateDateColumn()
+  public createdAt: Date;
+
+  @UpdateDateColumn()
+  public updatedAt: Date;
+
+  constructor(init?: Partial<SubscriptionPlan>) {
+    Object.assign(this, init);
+  }
+}
+
+export default SubscriptionPlan;
@@ -0,0 +1,60 @@
+import { DbAwareColumn } from '@server/utils/DbColumnHelper';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import SubscriptionVoucherRedemption from './SubscriptionVoucherRedemption';
+import { User } from './User';
+
+@Entity()
+class SubscriptionVoucher {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @Column({ unique: true })
+  public code: string;
+
+  // Number of days a redemption adds to the subscription. Empty for lifetime vouchers.
+  @Column({ type: 'integer', nullable: true })
+  public durationDays?: number | null;
+
+  // Empty for vouchers that can be redeemed any number of times
+  @Column({ type: 'integer', nullable: true })
+  public maxUses?: number | null;
+
+  @Column({ type: 'integer', default: 0 })
+  public usesCount: number;
+
+  @DbAwareColumn({ type: 'datetime', nullable: true })
+  public expiresAt?: Date | null;
+
+  @ManyToOne(() => User, {
+    eager: true,
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  public createdBy?: User | null;
+
+  @OneToMany(
+    () => SubscriptionVoucherRedemption,
+    (redemption) => redemption.voucher
+  )
+  public redemptions: SubscriptionVoucherRedemption[];
+
+  @CreateDateColumn()
+  public createdAt: Date;
+
+  @UpdateDateColumn()
+  public updatedAt: Date;
+
+  constructor(init?: Partial<SubscriptionVoucher>) {
+    Object.assign(this, init);
+  }
+}
+
+export default SubscriptionVoucher;
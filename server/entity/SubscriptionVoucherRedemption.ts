@@ -0,0 +1,36 @@
+import {
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import SubscriptionVoucher from './SubscriptionVoucher';
+import { User } from './User';
+
+@Entity()
+@Index('UNIQUE_VOUCHER_REDEMPTION', ['voucher', 'user'], { unique: true })
+class SubscriptionVoucherRedemption {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @ManyToOne(() => SubscriptionVoucher, (voucher) => voucher.redemptions, {
+    onDelete: 'CASCADE',
+  })
+  public voucher: SubscriptionVoucher;
+
+  @ManyToOne(() => User, {
+    eager: true,
+    onDelete: 'CASCADE',
+  })
+  public user: User;
+
+  @CreateDateColumn()
+  public createdAt: Date;
+
+  constructor(init?: Partial<SubscriptionVoucherRedemption>) {
+    Object.assign(this, init);
+  }
+}
+
+export default SubscriptionVoucherRedemption;
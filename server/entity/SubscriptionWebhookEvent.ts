@@ -0,0 +1,31 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from './User';
+
+// Payment webhook events that have already been processed, so that retried
+// deliveries are not applied twice
+@Entity()
+class SubscriptionWebhookEvent {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @Column({ unique: true })
+  public eventId: string;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  public user?: User | null;
+
+  @CreateDateColumn()
+  public createdAt: Date;
+
+  constructor(init?: Partial<SubscriptionWebhookEvent>) {
+    Object.assign(this, init);
+  }
+}
+
+export default SubscriptionWebhookEvent;
@@ -0,0 +1,40 @@
+import type { SuspiciousActivitySession } from '@server/interfaces/api/userInterfaces';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from './User';
+
+// Evidence recorded each time a user is caught streaming from more addresses
+// or devices at once than the account sharing limits allow
+@Entity()
+class SuspiciousActivity {
+  @PrimaryGeneratedColumn()
+  public id: number;
+
+  @ManyToOne(() => User, {
+    onDelete: 'CASCADE',
+  })
+  public user: User;
+
+  @Column({ type: 'integer' })
+  public addressCount: number;
+
+  @Column({ type: 'integer' })
+  public deviceCount: number;
+
+  @Column({ type: 'simple-json' })
+  public sessions: SuspiciousActivitySession[];
+
+  @CreateDateColumn()
+  public createdAt: Date;
+
+  constructor(init?: Partial<SuspiciousActivity>) {
+    Object.assign(this, init);
+  }
+}
+
+export default SuspiciousActivity;
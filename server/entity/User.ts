@@ -1,7 +1,9 @@
 import { MediaRequestStatus, MediaType } from '@server/constants/media';
+import type { SubscriptionStatus } from '@server/constants/user';
 import { UserType } from '@server/constants/user';
 import { getRepository } from '@server/datasource';
 import { Watchlist } from '@server/entity/Watchlist';
+import type { SubscriptionSnapshot } from '@server/interfaces/api/subscriptionInterfaces';
 import type { QuotaResponse } from '@server/interfaces/api/userInterfaces';
 import PreparedEmail from '@server/lib/email';
 import type { PermissionCheckOptions } from '@server/lib/permissions';
@@ -9,6 +11,7 @@ import { hasPermission, Permission } from '@server/lib/permissions';
 import { getSettings } from '@server/lib/settings';
 import logger from '@server/logger';
 import { AfterDate } from '@server/utils/dateHelpers';
+import { DbAwareColumn } from '@server/utils/DbColumnHelper';
 import bcrypt from 'bcrypt';
 import { randomUUID } from 'crypto';
 import path from 'path';
@@ -18,6 +21,7 @@ import {
   Column,
   CreateDateColumn,
   Entity,
+  ManyToOne,
   Not,
   OneToMany,
   OneToOne,
@@ -28,6 +32,7 @@ import {
 import Issue from './Issue';
 import { MediaRequest } from './MediaRequest';
 import SeasonRequest from './SeasonRequest';
+import SubscriptionPlan from './SubscriptionPlan';
 import { UserPushSubscription } from './UserPushSubscription';
 import { UserSettings } from './UserSettings';
 
@@ -86,6 +91,10 @@ export class User {
   @Column({ nullable: true })
   public jellyfinDeviceId?: string;
 
+  // Set when the linked Jellyfin account no longer exists on the server
+  @DbAwareColumn({ type: 'datetime', nullable: true })
+  public jellyfinOrphanedAt?: Date | null;
+
   @Column({ nullable: true })
   public jellyfinAuthToken?: string;
 
@@ -120,11 +129,30 @@ export class User {
   public tvQuotaDays?: number;
 
   @Column({ type: 'varchar', nullable: true })
-  public subscriptionStatus: 'active' | 'expired' | 'lifetime' | null;
+  public subscriptionStatus: SubscriptionStatus | null;
 
-  @Column({ type: 'datetime', nullable: true })
+  @DbAwareColumn({ type: 'datetime', nullable: true })
   public subscriptionExpirationDate: Date | null;
 
+  // Expiration date the last expiry reminder was sent for, so each period is only reminded once
+  @DbAwareColumn({ type: 'datetime', nullable: true })
+  public subscriptionReminderSentFor: Date | null;
+
+  // Permissions, request limits and Jellyfin policy saved when the subscription lapsed
+  @Column({ type: 'simple-json', nullable: true, select: false })
+  public subscriptionSnapshot?: SubscriptionSnapshot | null;
+
+  @ManyToOne(() => SubscriptionPlan, (plan) => plan.users, {
+    eager: true,
+    nullable: true,
+    onDelete: 'SET NULL',
+  })
+  public subscriptionPlan?: SubscriptionPlan | null;
+
+  // Overrides the concurrent stream limit of the subscription plan. 0 means unlimited.
+  @Column({ type: 'integer', nullable: true })
+  public maxActiveSessions?: number | null;
+
   @Column({ default: 0 })
   public suspiciousActivityCount: number;
 
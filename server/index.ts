@@ -140,7 +140,16 @@ app
       server.enable('trust proxy');
     }
     server.use(cookieParser());
-    server.use(express.json());
+    server.use(
+      express.json({
+        // Keep the raw body of signed webhooks so the signature can be verified
+        verify: (req, _res, buf) => {
+          if (req.url?.startsWith('/api/v1/subscription/webhook')) {
+            Object.assign(req, { rawBody: buf });
+          }
+        },
+      })
+    );
     server.use(express.urlencoded({ extended: true }));
     server.use((req, _res, next) => {
       try {
@@ -158,16 +167,24 @@ app
       }
     });
     if (settings.main.csrfProtection) {
-      server.use(
-        csurf({
-          cookie: {
-            httpOnly: true,
-            sameSite: true,
-            secure: !dev,
-          },
-        })
-      );
+      const csrfProtection = csurf({
+        cookie: {
+          httpOnly: true,
+          sameSite: true,
+          secure: !dev,
+        },
+      });
       server.use((req, res, next) => {
+        // Signed webhooks are posted by external services without a CSRF token
+        if (req.rawBody) {
+          return next();
+        }
+        csrfProtection(req, res, next);
+      });
+      server.use((req, res, next) => {
+        if (req.rawBody) {
+          return next();
+        }
         res.cookie('XSRF-TOKEN', req.csrfToken(), {
           sameSite: true,
           secure: !dev,
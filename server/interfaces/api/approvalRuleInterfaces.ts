@@ -0,0 +1,24 @@
+import type { ApprovalRuleAction } from '@server/constants/approvalRule';
+import type { MediaType } from '@server/constants/media';
+import type ApprovalRule from '@server/entity/ApprovalRule';
+
+export type ApprovalRuleResultsResponse = ApprovalRule[];
+
+export interface ApprovalRuleBody {
+  name: string;
+  action: ApprovalRuleAction;
+  mediaType?: MediaType | null;
+  minVoteAverage?: number | null;
+  maxVoteAverage?: number | null;
+  minReleaseYear?: number | null;
+  maxReleaseYear?: number | null;
+  minRuntime?: number | null;
+  maxRuntime?: number | null;
+  minSeasonCount?: number | null;
+  maxSeasonCount?: number | null;
+  minDeclineRate?: number | null;
+  maxDeclineRate?: number | null;
+  genre?: string;
+  language?: string;
+  certification?: string;
+}
@@ -0,0 +1,28 @@
+import type Invite from '@server/entity/Invite';
+import type { JellyfinLibraryAccess } from '@server/interfaces/api/jellyfinInterfaces';
+
+export type InviteResultsResponse = Invite[];
+
+export interface InviteRequest {
+  maxUses?: number | null;
+  expiresAt?: string | null;
+  permissions?: number;
+  subscriptionPlanId?: number | null;
+  subscriptionDays?: number | null;
+  libraryAccess?: JellyfinLibraryAccess | null;
+}
+
+export interface InviteInfoResponse {
+  code: string;
+  expiresAt?: Date | null;
+  subscriptionPlanName?: string | null;
+  // Empty for lifetime subscriptions or when the invite starts no subscription
+  subscriptionDays?: number | null;
+  applicationTitle: string;
+}
+
+export interface InviteAcceptRequest {
+  username: string;
+  password: string;
+  email?: string;
+}
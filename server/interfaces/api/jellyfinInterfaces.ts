@@ -0,0 +1,69 @@
+export interface JellyfinUserPolicy {
+  IsAdministrator: boolean;
+  IsDisabled: boolean;
+  EnableUserPreferenceAccess: boolean;
+  EnableLiveTvAccess: boolean;
+  EnableLiveTvManagement: boolean;
+  EnableRemoteAccess: boolean;
+  EnableMediaPlayback: boolean;
+  EnableVideoPlayback: boolean;
+  EnableAudioPlayback: boolean;
+  EnableMediaConversion: boolean;
+  EnableVideoPlaybackTranscoding: boolean;
+  EnableAudioPlaybackTranscoding: boolean;
+  EnableContentDownloading: boolean;
+  EnablePlaybackRemuxing: boolean;
+  MaxActiveSessions?: number;
+  MaxParentalRating?: number | null;
+  EnableAllFolders?: boolean;
+  EnabledFolders?: string[];
+  PasswordResetProviderId: string;
+  AuthenticationProviderId: string;
+}
+
+export interface JellyfinPolicyTemplate {
+  id: string;
+  name: string;
+  policy: Partial<JellyfinUserPolicy>;
+}
+
+export interface JellyfinPolicyTemplateResponse extends JellyfinPolicyTemplate {
+  // Built-in templates can be edited and reset, but not removed
+  builtIn: boolean;
+}
+
+export type JellyfinPolicyTemplateResultsResponse =
+  JellyfinPolicyTemplateResponse[];
+
+export interface JellyfinLibraryAccess {
+  enableAllFolders: boolean;
+  // Library IDs, only used when access to all libraries is disabled
+  enabledFolders: string[];
+}
+
+export interface JellyfinLibraryOption {
+  id: string;
+  name: string;
+  type: 'show' | 'movie';
+}
+
+export type JellyfinLibraryResultsResponse = JellyfinLibraryOption[];
+
+export interface JellyfinLibraryAccessResponse extends JellyfinLibraryAccess {
+  libraries: JellyfinLibraryOption[];
+}
+
+export interface JellyfinLibraryAccessBulkRequest
+  extends JellyfinLibraryAccess {
+  ids: number[];
+}
+
+export interface JellyfinLibraryAccessBulkResult {
+  userId: number;
+  success: boolean;
+  message?: string;
+}
+
+export interface JellyfinLibraryAccessBulkResponse {
+  results: JellyfinLibraryAccessBulkResult[];
+}
@@ -11,6 +11,8 @@ export type MediaRequestBody = {
   mediaId: number;
   tvdbId?: number;
   seasons?: number[] | 'all';
+  // Single episodes to request, keyed by season number
+  episodes?: Record<number, number[]>;
   is4k?: boolean;
   serverId?: number;
   profileId?: number;
@@ -19,4 +21,28 @@ export type MediaRequestBody = {
   languageProfileId?: number;
   userId?: number;
   tags?: number[];
+  reason?: string;
 };
+
+export interface RequestVoteResponse {
+  voteCount: number;
+  hasVoted: boolean;
+}
+
+export type RequestBulkAction = 'approve' | 'decline' | 'retry' | 'delete';
+
+export interface RequestBulkRequest {
+  ids: number[];
+  action: RequestBulkAction;
+  reason?: string;
+}
+
+export interface RequestBulkResult {
+  requestId: number;
+  success: boolean;
+  message?: string;
+}
+
+export interface RequestBulkResponse {
+  results: RequestBulkResult[];
+}
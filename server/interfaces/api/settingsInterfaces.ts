@@ -38,6 +38,7 @@ export interface PublicSettingsResponse {
   mediaServerType: number;
   partialRequestsEnabled: boolean;
   enableSpecialEpisodes: boolean;
+  requireDeclineReason: boolean;
   cacheImages: boolean;
   vapidPublic: string;
   enablePushRegistration: boolean;
@@ -0,0 +1,84 @@
+import type { SubscriptionStatus } from '@server/constants/user';
+import type SubscriptionEvent from '@server/entity/SubscriptionEvent';
+import type SubscriptionPlan from '@server/entity/SubscriptionPlan';
+import type SubscriptionVoucher from '@server/entity/SubscriptionVoucher';
+import type { User } from '@server/entity/User';
+import type { JellyfinUserPolicy } from '@server/interfaces/api/jellyfinInterfaces';
+
+export type SubscriptionPlanResultsResponse = SubscriptionPlan[];
+
+export interface SubscriptionSnapshot {
+  permissions: number;
+  movieQuotaLimit?: number | null;
+  movieQuotaDays?: number | null;
+  tvQuotaLimit?: number | null;
+  tvQuotaDays?: number | null;
+  jellyfinPolicy?: JellyfinUserPolicy | null;
+  // plex.tv IDs of the libraries shared with the user, null if none were
+  plexLibraryIds?: number[] | null;
+  createdAt: Date;
+}
+
+export type SubscriptionHistoryResponse = (Omit<SubscriptionEvent, 'actor'> & {
+  actor: Pick<User, 'id' | 'displayName' | 'avatar'> | null;
+})[];
+
+export interface SubscriptionDetailsResponse {
+  subscriptionStatus: SubscriptionStatus | null;
+  subscriptionExpirationDate: Date | null;
+  // When access is removed for users in their grace period
+  gracePeriodEndDate: Date | null;
+  daysRemaining: number | null;
+  subscriptionPlan: Pick<
+    SubscriptionPlan,
+    'id' | 'name' | 'durationDays'
+  > | null;
+  renewalInstructions: string;
+}
+
+export type SubscriptionBulkAction =
+  | 'extend'
+  | 'set_expiry'
+  | 'lifetime'
+  | 'expire';
+
+export interface SubscriptionBulkRequest {
+  ids: number[];
+  action: SubscriptionBulkAction;
+  days?: number;
+  expirationDate?: string;
+  note?: string;
+}
+
+export interface SubscriptionBulkResult {
+  userId: number;
+  success: boolean;
+  message?: string;
+}
+
+export interface SubscriptionBulkResponse {
+  results: SubscriptionBulkResult[];
+}
+
+export type SubscriptionVoucherResultsResponse = SubscriptionVoucher[];
+
+export interface SubscriptionVoucherRedeemResponse {
+  subscriptionStatus: SubscriptionStatus | null;
+  subscriptionExpirationDate: Date | null;
+}
+
+export interface SubscriptionWebhookRequest {
+  eventId: string;
+  userId?: number;
+  email?: string;
+  // Name or ID of the plan that was paid for
+  plan?: string | number;
+  paidUntil: string;
+}
+
+export interface SubscriptionWebhookResponse {
+  result: 'processed' | 'duplicate' | 'ignored';
+  userId?: number;
+  subscriptionStatus?: SubscriptionStatus | null;
+  subscriptionExpirationDate?: Date | null;
+}
@@ -1,5 +1,6 @@
 import type Media from '@server/entity/Media';
 import type { MediaRequest } from '@server/entity/MediaRequest';
+import type SuspiciousActivity from '@server/entity/SuspiciousActivity';
 import type { User } from '@server/entity/User';
 import type { PaginatedResponse } from './common';
 
@@ -28,3 +29,12 @@ export interface UserWatchDataResponse {
   recentlyWatched: Media[];
   playCount: number;
 }
+
+export interface SuspiciousActivitySession {
+  client: string;
+  deviceName: string;
+  remoteAddress?: string;
+  nowPlaying?: string;
+}
+
+export type SuspiciousActivityResponse = SuspiciousActivity[];
@@ -1,3 +1,4 @@
+import type { SubscriptionStatus } from '@server/constants/user';
 import type { NotificationAgentKey } from '@server/lib/settings';
 
 export interface UserSettingsGeneralResponse {
@@ -18,10 +19,13 @@ export interface UserSettingsGeneralResponse {
   globalTvQuotaDays?: number;
   watchlistSyncMovies?: boolean;
   watchlistSyncTv?: boolean;
+  maxActiveSessions?: number | null;
   subscriptionEnabled?: boolean;
   subscriptionType?: 'standard' | 'lifetime';
-  subscriptionStatus?: 'active' | 'expired' | 'lifetime' | null;
+  subscriptionStatus?: SubscriptionStatus | null;
+  subscriptionPlanId?: number | null;
   subscriptionExpirationDate?: Date | null;
+  subscriptionNote?: string;
 }
 
 export type NotificationAgentTypes = Record<NotificationAgentKey, number>;
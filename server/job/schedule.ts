@@ -1,7 +1,10 @@
 import { MediaServerType } from '@server/constants/server';
+import accountSharingDetector from '@server/lib/accountSharing';
 import availabilitySync from '@server/lib/availabilitySync';
+import deferredRequests from '@server/lib/deferredRequests';
 import downloadTracker from '@server/lib/downloadtracker';
 import ImageProxy from '@server/lib/imageproxy';
+import jellyfinUserSync from '@server/lib/jellyfinUserSync';
 import refreshToken from '@server/lib/refreshToken';
 import {
   jellyfinFullScanner,
@@ -10,9 +13,13 @@ import {
 import { plexFullScanner, plexRecentScanner } from '@server/lib/scanners/plex';
 import { radarrScanner } from '@server/lib/scanners/radarr';
 import { sonarrScanner } from '@server/lib/scanners/sonarr';
+import sessionLimitWatchdog from '@server/lib/sessionLimits';
 import type { JobId } from '@server/lib/settings';
 import { getSettings } from '@server/lib/settings';
-import subscriptionsSync from '@server/lib/subscriptions';
+import staleRequests from '@server/lib/staleRequests';
+import subscriptionsSync, {
+  subscriptionReminders,
+} from '@server/lib/subscriptions';
 import watchlistSync from '@server/lib/watchlistsync';
 import logger from '@server/logger';
 import schedule from 'node-schedule';
@@ -111,6 +118,54 @@ export const startJobs = (): void => {
       running: () => jellyfinFullScanner.status().running,
       cancelFn: () => jellyfinFullScanner.cancel(),
     });
+
+    // Check active sessions for account sharing every 2 minutes
+    scheduledJobs.push({
+      id: 'account-sharing-detection',
+      name: 'Account Sharing Detection',
+      type: 'process',
+      interval: 'minutes',
+      cronSchedule: jobs['account-sharing-detection'].schedule,
+      job: schedule.scheduleJob(
+        jobs['account-sharing-detection'].schedule,
+        () => {
+          logger.debug('Starting scheduled job: Account Sharing Detection', {
+            label: 'Jobs',
+          });
+          accountSharingDetector.run();
+        }
+      ),
+    });
+
+    // Stop streams over the user's limit every minute
+    scheduledJobs.push({
+      id: 'session-limit-watchdog',
+      name: 'Session Limit Watchdog',
+      type: 'process',
+      interval: 'minutes',
+      cronSchedule: jobs['session-limit-watchdog'].schedule,
+      job: schedule.scheduleJob(jobs['session-limit-watchdog'].schedule, () => {
+        logger.debug('Starting scheduled job: Session Limit Watchdog', {
+          label: 'Jobs',
+        });
+        sessionLimitWatchdog.run();
+      }),
+    });
+
+    // Reconcile users with the media server every day
+    scheduledJobs.push({
+      id: 'jellyfin-user-sync',
+      name: 'Jellyfin User Sync',
+      type: 'process',
+      interval: 'hours',
+      cronSchedule: jobs['jellyfin-user-sync'].schedule,
+      job: schedule.scheduleJob(jobs['jellyfin-user-sync'].schedule, () => {
+        logger.info('Starting scheduled job: Jellyfin User Sync', {
+          label: 'Jobs',
+        });
+        jellyfinUserSync.run();
+      }),
+    });
   }
 
   // Watchlist Sync
@@ -252,5 +307,49 @@ export const startJobs = (): void => {
     }),
   });
 
+  scheduledJobs.push({
+    id: 'subscription-reminders',
+    name: 'Subscription Reminders',
+    type: 'process',
+    interval: 'hours',
+    cronSchedule: jobs['subscription-reminders'].schedule,
+    job: schedule.scheduleJob(jobs['subscription-reminders'].schedule, () => {
+      logger.info('Starting scheduled job: Subscription Reminders', {
+        label: 'Jobs',
+      });
+      subscriptionReminders.run();
+    }),
+  });
+
+  // Send deferred requests once their release is close enough
+  scheduledJobs.push({
+    id: 'deferred-requests',
+    name: 'Deferred Requests',
+    type: 'process',
+    interval: 'hours',
+    cronSchedule: jobs['deferred-requests'].schedule,
+    job: schedule.scheduleJob(jobs['deferred-requests'].schedule, () => {
+      logger.info('Starting scheduled job: Deferred Requests', {
+        label: 'Jobs',
+      });
+      deferredRequests.run();
+    }),
+  });
+
+  // Decline or escalate pending requests nobody has decided on
+  scheduledJobs.push({
+    id: 'stale-requests',
+    name: 'Stale Pending Requests',
+    type: 'process',
+    interval: 'hours',
+    cronSchedule: jobs['stale-requests'].schedule,
+    job: schedule.scheduleJob(jobs['stale-requests'].schedule, () => {
+      logger.info('Starting scheduled job: Stale Pending Requests', {
+        label: 'Jobs',
+      });
+      staleRequests.run();
+    }),
+  });
+
   logger.info('Scheduled jobs loaded', { label: 'Jobs' });
 };
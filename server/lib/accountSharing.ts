@@ -0,0 +1,224 @@
+import type { JellyfinSession } from '@server/api/jellyfin';
+import JellyfinAPI from '@server/api/jellyfin';
+import { PolicyTemplateId } from '@server/constants/user';
+import { getRepository } from '@server/datasource';
+import SuspiciousActivity from '@server/entity/SuspiciousActivity';
+import { User } from '@server/entity/User';
+import type { SuspiciousActivitySession } from '@server/interfaces/api/userInterfaces';
+import {
+  getLibraryAccess,
+  getLibraryAccessPolicy,
+} from '@server/lib/libraryAccess';
+import notificationManager, { Notification } from '@server/lib/notifications';
+import { buildJellyfinPolicy } from '@server/lib/policyTemplates';
+import { getSettings } from '@server/lib/settings';
+import { getMaxActiveSessions } from '@server/lib/subscriptions';
+import logger from '@server/logger';
+import { getHostname } from '@server/utils/getHostname';
+import { In } from 'typeorm';
+
+// Sessions that reported activity within this window are considered active
+const ACTIVE_SESSION_SECONDS = 180;
+
+// Jellyfin reports IPv4 clients as IPv6 mapped addresses
+const getRemoteAddress = (session: JellyfinSession): string | undefined =>
+  session.RemoteEndPoint?.replace(/^::ffff:/, '');
+
+const getNowPlaying = (session: JellyfinSession): string | undefined =>
+  session.NowPlayingItem
+    ? session.NowPlayingItem.SeriesName
+      ? `${session.NowPlayingItem.SeriesName} - ${session.NowPlayingItem.Name}`
+      : session.NowPlayingItem.Name
+    : undefined;
+
+class AccountSharingDetector {
+  private running = false;
+  // Session IDs flagged on the previous run for each user, so that an ongoing
+  // incident is only counted once
+  private flaggedSessions = new Map<number, Set<string>>();
+
+  public async run() {
+    const settings = getSettings();
+    const {
+      accountSharingMaxAddresses: maxAddresses,
+      accountSharingMaxDevices: maxDevices,
+    } = settings.main;
+
+    if ((!maxAddresses && !maxDevices) || this.running) {
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      const jellyfinClient = new JellyfinAPI(
+        getHostname(),
+        settings.jellyfin.apiKey
+      );
+
+      const sessions = (
+        await jellyfinClient.getSessions(ACTIVE_SESSION_SECONDS)
+      ).filter((session) => session.UserId && session.NowPlayingItem);
+
+      const sessionsByJellyfinUser = new Map<string, JellyfinSession[]>();
+
+      for (const session of sessions) {
+        const jellyfinUserId = session.UserId as string;
+        sessionsByJellyfinUser.set(jellyfinUserId, [
+          ...(sessionsByJellyfinUser.get(jellyfinUserId) ?? []),
+          session,
+        ]);
+      }
+
+      const users = sessionsByJellyfinUser.size
+        ? await getRepository(User).find({
+            where: { jellyfinUserId: In([...sessionsByJellyfinUser.keys()]) },
+          })
+        : [];
+
+      const flaggedSessions = new Map<number, Set<string>>();
+
+      for (const user of users) {
+        const userSessions =
+          sessionsByJellyfinUser.get(user.jellyfinUserId as string) ?? [];
+        const addressCount = new Set(
+          userSessions.map(getRemoteAddress).filter(Boolean)
+        ).size;
+        const deviceCount = new Set(
+          userSessions.map((session) => session.DeviceId)
+        ).size;
+
+        if (
+          (!maxAddresses || addressCount <= maxAddresses) &&
+          (!maxDevices || deviceCount <= maxDevices)
+        ) {
+          continue;
+        }
+
+        const sessionIds = new Set(userSessions.map((session) => session.Id));
+        const previousSessionIds = this.flaggedSessions.get(user.id);
+        flaggedSessions.set(user.id, sessionIds);
+
+        if (
+          previousSessionIds &&
+          [...sessionIds].every((sessionId) =>
+            previousSessionIds.has(sessionId)
+          )
+        ) {
+          continue;
+        }
+
+        try {
+          await this.flagUser(user, addressCount, deviceCount, userSessions);
+        } catch (e) {
+          logger.error('Failed to flag user for account sharing', {
+            label: 'Account Sharing',
+            userId: user.id,
+            errorMessage: e.message,
+          });
+        }
+      }
+
+      this.flaggedSessions = flaggedSessions;
+    } catch (e) {
+      logger.error('Failed to run Account Sharing Detection job', {
+        label: 'Account Sharing',
+        errorMessage: e.message,
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async flagUser(
+    user: User,
+    addressCount: number,
+    deviceCount: number,
+    sessions: JellyfinSession[]
+  ) {
+    const settings = getSettings();
+    const {
+      accountSharingThreshold: threshold,
+      accountSharingNotifyAdmins: notifyAdmins,
+      accountSharingDisablePlayback: disablePlayback,
+    } = settings.main;
+
+    const evidence: SuspiciousActivitySession[] = sessions.map((session) => ({
+      client: session.Client,
+      deviceName: session.DeviceName,
+      remoteAddress: getRemoteAddress(session),
+      nowPlaying: getNowPlaying(session),
+    }));
+
+    await getRepository(User).increment(
+      { id: user.id },
+      'suspiciousActivityCount',
+      1
+    );
+    await getRepository(SuspiciousActivity).save(
+      new SuspiciousActivity({
+        user,
+        addressCount,
+        deviceCount,
+        sessions: evidence,
+      })
+    );
+
+    const count = user.suspiciousActivityCount + 1;
+
+    logger.info(
+      `User ${user.id} is streaming from ${addressCount} address(es) on ${deviceCount} device(s)`,
+      { label: 'Account Sharing', suspiciousActivityCount: count }
+    );
+
+    // Act on every new incident once the threshold is reached, so users
+    // already past a lowered threshold are not left alone
+    if (!threshold || count < threshold) {
+      return;
+    }
+
+    if (disablePlayback && user.jellyfinUserId) {
+      const jellyfinClient = new JellyfinAPI(
+        getHostname(),
+        settings.jellyfin.apiKey
+      );
+      const policy = await jellyfinClient.getUserPolicy(user.jellyfinUserId);
+
+      await jellyfinClient.updateUserPolicy(
+        user.jellyfinUserId,
+        buildJellyfinPolicy(PolicyTemplateId.EXPIRED, {
+          ...getLibraryAccessPolicy(getLibraryAccess(policy)),
+          MaxActiveSessions: getMaxActiveSessions(user),
+        })
+      );
+
+      logger.info(`Disabled playback for user ${user.id}`, {
+        label: 'Account Sharing',
+      });
+    }
+
+    if (notifyAdmins) {
+      notificationManager.sendNotification(Notification.SUSPICIOUS_ACTIVITY, {
+        event: 'Suspicious Activity',
+        subject: user.displayName,
+        message: `${
+          user.displayName
+        } has been flagged for account sharing ${count} ${
+          count === 1 ? 'time' : 'times'
+        }${disablePlayback ? ' and playback has been disabled' : ''}.`,
+        extra: evidence.map((session) => ({
+          name: `${session.deviceName} (${session.client})`,
+          value: [session.remoteAddress, session.nowPlaying]
+            .filter(Boolean)
+            .join(' - '),
+        })),
+        notifyAdmin: true,
+        notifySystem: true,
+      });
+    }
+  }
+}
+
+const accountSharingDetector = new AccountSharingDetector();
+
+export default accountSharingDetector;
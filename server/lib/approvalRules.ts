@@ -0,0 +1,179 @@
+import type {
+  TmdbMovieDetails,
+  TmdbTvDetails,
+} from '@server/api/themoviedb/interfaces';
+import { MediaRequestStatus, MediaType } from '@server/constants/media';
+import { getRepository } from '@server/datasource';
+import ApprovalRule from '@server/entity/ApprovalRule';
+import { MediaRequest } from '@server/entity/MediaRequest';
+import type { User } from '@server/entity/User';
+import { getSettings } from '@server/lib/settings';
+
+interface ApprovalRuleMetadata {
+  mediaType: MediaType;
+  voteAverage?: number;
+  releaseYear?: number;
+  runtime?: number;
+  seasonCount?: number;
+  genres: number[];
+  language?: string;
+  certification?: string;
+}
+
+const getMetadata = (
+  mediaType: MediaType,
+  tmdbMedia: TmdbMovieDetails | TmdbTvDetails
+): ApprovalRuleMetadata => {
+  const region = getSettings().main.discoverRegion || 'US';
+
+  if (mediaType === MediaType.MOVIE) {
+    const movie = tmdbMedia as TmdbMovieDetails;
+
+    return {
+      mediaType,
+      voteAverage: movie.vote_average,
+      releaseYear: Number(movie.release_date?.slice(0, 4)) || undefined,
+      runtime: movie.runtime || undefined,
+      genres: movie.genres.map((genre) => genre.id),
+      language: movie.original_language,
+      certification: movie.release_dates?.results
+        .find((result) => result.iso_3166_1 === region)
+        ?.release_dates.find((release) => release.certification)?.certification,
+    };
+  }
+
+  const tv = tmdbMedia as TmdbTvDetails;
+
+  return {
+    mediaType,
+    voteAverage: tv.vote_average,
+    releaseYear: Number(tv.first_air_date?.slice(0, 4)) || undefined,
+    runtime: tv.episode_run_time?.[0] || undefined,
+    seasonCount: tv.number_of_seasons,
+    genres: tv.genres.map((genre) => genre.id),
+    language: tv.original_language,
+    certification:
+      tv.content_ratings?.results.find((result) => result.iso_3166_1 === region)
+        ?.rating || undefined,
+  };
+};
+
+const getDeclineRate = async (user: User): Promise<number> => {
+  const requestRepository = getRepository(MediaRequest);
+
+  const [total, declined] = await Promise.all([
+    requestRepository.count({ where: { requestedBy: { id: user.id } } }),
+    requestRepository.count({
+      where: {
+        requestedBy: { id: user.id },
+        status: MediaRequestStatus.DECLINED,
+      },
+    }),
+  ]);
+
+  return total ? Math.round((declined / total) * 100) : 0;
+};
+
+// A condition on a value TMDB does not know never matches
+const inRange = (
+  value: number | undefined,
+  min?: number | null,
+  max?: number | null
+): boolean => {
+  if (typeof min !== 'number' && typeof max !== 'number') {
+    return true;
+  }
+
+  if (value === undefined) {
+    return false;
+  }
+
+  return (
+    (typeof min !== 'number' || value >= min) &&
+    (typeof max !== 'number' || value <= max)
+  );
+};
+
+const matchesRule = (
+  rule: ApprovalRule,
+  metadata: ApprovalRuleMetadata,
+  declineRate?: number
+): boolean => {
+  if (rule.mediaType && rule.mediaType !== metadata.mediaType) {
+    return false;
+  }
+
+  if (
+    !inRange(metadata.voteAverage, rule.minVoteAverage, rule.maxVoteAverage) ||
+    !inRange(metadata.releaseYear, rule.minReleaseYear, rule.maxReleaseYear) ||
+    !inRange(metadata.runtime, rule.minRuntime, rule.maxRuntime) ||
+    !inRange(metadata.seasonCount, rule.minSeasonCount, rule.maxSeasonCount) ||
+    !inRange(declineRate, rule.minDeclineRate, rule.maxDeclineRate)
+  ) {
+    return false;
+  }
+
+  if (
+    rule.genre &&
+    !rule.genre
+      .split(',')
+      .some((genreId) => metadata.genres.includes(Number(genreId)))
+  ) {
+    return false;
+  }
+
+  if (
+    rule.language &&
+    !rule.language
+      .split('|')
+      .some((languageId) => languageId === metadata.language)
+  ) {
+    return false;
+  }
+
+  if (
+    rule.certification &&
+    !rule.certification
+      .split(',')
+      .some(
+        (certification) =>
+          certification.trim().toLowerCase() ===
+          metadata.certification?.toLowerCase()
+      )
+  ) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Returns the first approval rule, in creation order, whose conditions all
+ * match the requested media and the requesting user.
+ */
+export const findApprovalRule = async (
+  mediaType: MediaType,
+  tmdbMedia: TmdbMovieDetails | TmdbTvDetails,
+  user: User
+): Promise<ApprovalRule | undefined> => {
+  const rules = await getRepository(ApprovalRule).find({
+    order: { id: 'ASC' },
+  });
+
+  if (!rules.length) {
+    return undefined;
+  }
+
+  const metadata = getMetadata(mediaType, tmdbMedia);
+
+  // Only count past requests when a rule needs them
+  const declineRate = rules.some(
+    (rule) =>
+      typeof rule.minDeclineRate === 'number' ||
+      typeof rule.maxDeclineRate === 'number'
+  )
+    ? await getDeclineRate(user)
+    : undefined;
+
+  return rules.find((rule) => matchesRule(rule, metadata, declineRate));
+};
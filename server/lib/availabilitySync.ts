@@ -649,6 +649,9 @@ class AvailabilitySync {
       for (const mediaSeason of media.seasons) {
         if (seasonsPendingRemoval.has(mediaSeason.seasonNumber)) {
           mediaSeason[is4k ? 'status4k' : 'status'] = MediaStatus.UNKNOWN;
+          mediaSeason.episodes?.forEach((episode) => {
+            episode[is4k ? 'status4k' : 'status'] = MediaStatus.UNKNOWN;
+          });
         }
       }
 
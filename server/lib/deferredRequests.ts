@@ -0,0 +1,63 @@
+import { MediaRequestStatus } from '@server/constants/media';
+import { getRepository } from '@server/datasource';
+import { MediaRequest } from '@server/entity/MediaRequest';
+import logger from '@server/logger';
+import { IsNull, LessThanOrEqual, Not } from 'typeorm';
+
+class DeferredRequests {
+  private running = false;
+
+  public async run() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      const requests = await getRepository(MediaRequest).find({
+        where: {
+          status: MediaRequestStatus.APPROVED,
+          scheduledAt: LessThanOrEqual(new Date()),
+        },
+      });
+
+      for (const request of requests) {
+        try {
+          // Release dates move around, so this either sends the request or
+          // defers it again with its new date
+          await request.sendMedia();
+        } catch (e) {
+          logger.error('Failed to send deferred request', {
+            label: 'Deferred Requests',
+            requestId: request.id,
+            errorMessage: e.message,
+          });
+        }
+      }
+
+      const remaining = await getRepository(MediaRequest).count({
+        where: {
+          status: MediaRequestStatus.APPROVED,
+          scheduledAt: Not(IsNull()),
+        },
+      });
+
+      logger.info(
+        `Processed ${requests.length} deferred request(s), ${remaining} still waiting for release`,
+        { label: 'Deferred Requests' }
+      );
+    } catch (e) {
+      logger.error('Failed to process deferred requests', {
+        label: 'Deferred Requests',
+        errorMessage: e.message,
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+const deferredRequests = new DeferredRequests();
+
+export default deferredRequests;
@@ -0,0 +1,163 @@
+import { MediaServerType } from '@server/constants/server';
+import { PolicyTemplateId } from '@server/constants/user';
+import { getRepository } from '@server/datasource';
+import Invite from '@server/entity/Invite';
+import { User } from '@server/entity/User';
+import { createJellyfinUser } from '@server/lib/jellyfinUsers';
+import { updateLibraryAccess } from '@server/lib/libraryAccess';
+import { getSettings } from '@server/lib/settings';
+import {
+  applySubscriptionPlan,
+  updateSubscription,
+} from '@server/lib/subscriptions';
+import logger from '@server/logger';
+import { randomBytes } from 'crypto';
+import * as EmailValidator from 'email-validator';
+
+export class InviteError extends Error {}
+
+interface InviteSignup {
+  username: string;
+  password: string;
+  email?: string;
+}
+
+export const generateInviteCode = (): string =>
+  randomBytes(12).toString('base64url');
+
+/**
+ * Looks up an invite that can still be used to sign up.
+ *
+ * @throws InviteError if the invite does not exist, has expired or is used up
+ */
+export const getUsableInvite = async (code: string): Promise<Invite> => {
+  const invite = await getRepository(Invite).findOne({ where: { code } });
+
+  if (!invite) {
+    throw new InviteError('Invite not found.');
+  }
+
+  if (invite.expiresAt && new Date(invite.expiresAt) < new Date()) {
+    throw new InviteError('This invite has expired.');
+  }
+
+  if (invite.maxUses && invite.usesCount >= invite.maxUses) {
+    throw new InviteError('This invite has already been used.');
+  }
+
+  return invite;
+};
+
+/**
+ * Signs up with an invite, creating the Jellyfin account and the matching
+ * user, then starting their subscription and setting their library access.
+ *
+ * @throws InviteError if the invite cannot be used or the signup is invalid
+ */
+export const acceptInvite = async (
+  code: string,
+  { username, password, email }: InviteSignup
+): Promise<User> => {
+  const settings = getSettings();
+
+  if (
+    settings.main.mediaServerType !== MediaServerType.JELLYFIN &&
+    settings.main.mediaServerType !== MediaServerType.EMBY
+  ) {
+    throw new InviteError('Invites require a Jellyfin or Emby media server.');
+  }
+
+  const invite = await getUsableInvite(code);
+
+  if (!username?.trim() || !password) {
+    throw new InviteError('You must provide a username and a password.');
+  }
+
+  if (email && !EmailValidator.validate(email)) {
+    throw new InviteError('You must provide a valid email address.');
+  }
+
+  const userRepository = getRepository(User);
+  const userEmail = (email || username).trim().toLowerCase();
+
+  const existingUser = await userRepository
+    .createQueryBuilder('user')
+    .where('LOWER(user.jellyfinUsername) = :username', {
+      username: username.trim().toLowerCase(),
+    })
+    .orWhere('user.email = :email', { email: userEmail })
+    .getOne();
+
+  if (existingUser) {
+    throw new InviteError('A user with this username or email already exists.');
+  }
+
+  // Claim a use before creating the account so that concurrent signups
+  // cannot go over the limit
+  const inviteRepository = getRepository(Invite);
+  const { affected } = await inviteRepository
+    .createQueryBuilder()
+    .update(Invite)
+    .set({ usesCount: () => '"usesCount" + 1' })
+    .where('id = :id', { id: invite.id })
+    .andWhere('("maxUses" IS NULL OR "usesCount" < "maxUses")')
+    .execute();
+
+  if (!affected) {
+    throw new InviteError('This invite has already been used.');
+  }
+
+  let user: User;
+
+  try {
+    user = await createJellyfinUser({
+      username: username.trim(),
+      password,
+      email: userEmail,
+      permissions: invite.permissions,
+    });
+  } catch (e) {
+    await inviteRepository.decrement({ id: invite.id }, 'usesCount', 1);
+    throw e;
+  }
+
+  // The account exists at this point, so failures are logged rather than
+  // thrown and the admin can fix the access from the user settings
+  try {
+    const subscriptionDays =
+      invite.subscriptionDays ?? invite.subscriptionPlan?.durationDays;
+
+    if (invite.subscriptionPlan || subscriptionDays) {
+      await updateSubscription(
+        user,
+        subscriptionDays
+          ? {
+              action: 'extend',
+              days: subscriptionDays,
+              plan: invite.subscriptionPlan,
+            }
+          : { action: 'lifetime', plan: invite.subscriptionPlan },
+        { note: `Signed up with invite ${invite.code}` }
+      );
+    } else {
+      await applySubscriptionPlan(user, null, PolicyTemplateId.ACTIVE);
+    }
+
+    if (invite.libraryAccess && user.jellyfinUserId) {
+      await updateLibraryAccess(user.jellyfinUserId, invite.libraryAccess);
+    }
+  } catch (e) {
+    logger.error('Failed to set up access for invited user', {
+      label: 'Invites',
+      userId: user.id,
+      inviteId: invite.id,
+      errorMessage: e.message,
+    });
+  }
+
+  logger.info(`User ${user.id} signed up with invite ${invite.code}`, {
+    label: 'Invites',
+  });
+
+  return user;
+};
@@ -0,0 +1,173 @@
+import JellyfinAPI from '@server/api/jellyfin';
+import { UserType } from '@server/constants/user';
+import { getRepository } from '@server/datasource';
+import MediaRequest from '@server/entity/MediaRequest';
+import { User } from '@server/entity/User';
+import { buildImportedJellyfinUser } from '@server/lib/jellyfinUsers';
+import { Permission } from '@server/lib/permissions';
+import { getSettings } from '@server/lib/settings';
+import logger from '@server/logger';
+import { getHostname } from '@server/utils/getHostname';
+import { In } from 'typeorm';
+
+class JellyfinUserSync {
+  private running = false;
+
+  public async run() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      const settings = getSettings();
+      const userRepository = getRepository(User);
+
+      const jellyfinClient = new JellyfinAPI(
+        getHostname(),
+        settings.jellyfin.apiKey
+      );
+
+      const jellyfinUsers = (await jellyfinClient.getUsers()).users;
+
+      // An empty list most likely means the server did not answer properly, so
+      // do not treat every user as deleted
+      if (!jellyfinUsers.length) {
+        logger.warn('Media server returned no users, skipping user sync', {
+          label: 'Jellyfin User Sync',
+        });
+        return;
+      }
+
+      const jellyfinUsersById = new Map(
+        jellyfinUsers.map((jellyfinUser) => [jellyfinUser.Id, jellyfinUser])
+      );
+
+      const users = await userRepository.find({
+        where: { userType: In([UserType.JELLYFIN, UserType.EMBY]) },
+      });
+
+      for (const user of users) {
+        if (!user.jellyfinUserId) {
+          continue;
+        }
+
+        const jellyfinUser = jellyfinUsersById.get(user.jellyfinUserId);
+
+        if (!jellyfinUser) {
+          await this.handleDeletedUser(user);
+          continue;
+        }
+
+        const avatar = `/avatarproxy/${jellyfinUser.Id}`;
+
+        if (
+          user.jellyfinUsername === jellyfinUser.Name &&
+          user.avatar === avatar &&
+          !user.jellyfinOrphanedAt
+        ) {
+          continue;
+        }
+
+        if (user.jellyfinUsername !== jellyfinUser.Name) {
+          logger.info(
+            `Renaming user ${user.id} from ${user.jellyfinUsername} to ${jellyfinUser.Name}`,
+            { label: 'Jellyfin User Sync' }
+          );
+        }
+
+        if (user.jellyfinOrphanedAt) {
+          logger.info(
+            `User ${user.id} exists on the media server again, no longer orphaned`,
+            { label: 'Jellyfin User Sync' }
+          );
+        }
+
+        user.jellyfinUsername = jellyfinUser.Name;
+        user.avatar = avatar;
+        user.jellyfinOrphanedAt = null;
+        await userRepository.save(user);
+      }
+
+      if (settings.main.jellyfinUserSyncImportUsers) {
+        const linkedIds = new Set(users.map((user) => user.jellyfinUserId));
+
+        for (const jellyfinUser of jellyfinUsers) {
+          if (linkedIds.has(jellyfinUser.Id)) {
+            continue;
+          }
+
+          try {
+            const newUser = await userRepository.save(
+              buildImportedJellyfinUser(jellyfinUser)
+            );
+
+            logger.info(
+              `Imported media server user ${jellyfinUser.Name} as user ${newUser.id}`,
+              { label: 'Jellyfin User Sync' }
+            );
+          } catch (e) {
+            logger.error('Failed to import media server user', {
+              label: 'Jellyfin User Sync',
+              jellyfinUsername: jellyfinUser.Name,
+              errorMessage: e.message,
+            });
+          }
+        }
+      }
+    } catch (e) {
+      logger.error('Failed to run Jellyfin User Sync job', {
+        label: 'Jellyfin User Sync',
+        errorMessage: e.message,
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async handleDeletedUser(user: User) {
+    const settings = getSettings();
+    const userRepository = getRepository(User);
+
+    // Never remove the owner or other administrators automatically
+    if (
+      settings.main.jellyfinUserSyncDeletedUsers === 'delete' &&
+      user.id !== 1 &&
+      !user.hasPermission(Permission.ADMIN)
+    ) {
+      const requests = await getRepository(MediaRequest).find({
+        where: { requestedBy: { id: user.id } },
+      });
+
+      // Remove the requests through the repository so the parent media are
+      // updated, as when deleting a user from the users page
+      await getRepository(MediaRequest).remove(requests, {
+        chunk: requests.length / 1000,
+      });
+      await userRepository.delete(user.id);
+
+      logger.info(
+        `Deleted user ${user.id} whose media server account no longer exists`,
+        { label: 'Jellyfin User Sync' }
+      );
+      return;
+    }
+
+    if (user.jellyfinOrphanedAt) {
+      return;
+    }
+
+    user.jellyfinOrphanedAt = new Date();
+    await userRepository.save(user);
+
+    logger.info(
+      `Marked user ${user.id} as orphaned, their media server account no longer exists`,
+      { label: 'Jellyfin User Sync' }
+    );
+  }
+}
+
+const jellyfinUserSync = new JellyfinUserSync();
+
+export default jellyfinUserSync;
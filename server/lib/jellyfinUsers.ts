@@ -0,0 +1,97 @@
+import type { JellyfinUserResponse } from '@server/api/jellyfin';
+import JellyfinAPI from '@server/api/jellyfin';
+import { MediaServerType } from '@server/constants/server';
+import { PolicyTemplateId, UserType } from '@server/constants/user';
+import { getRepository } from '@server/datasource';
+import { User } from '@server/entity/User';
+import { buildJellyfinPolicy } from '@server/lib/policyTemplates';
+import { getSettings } from '@server/lib/settings';
+import { getHostname } from '@server/utils/getHostname';
+
+interface JellyfinUserOptions {
+  username: string;
+  password: string;
+  email: string;
+  permissions: number;
+}
+
+/**
+ * Creates a Jellyfin account and the matching Jellyseerr user. The account
+ * starts with the expired policy template, so it only gets playback once a
+ * subscription or another template is applied.
+ */
+export const createJellyfinUser = async ({
+  username,
+  password,
+  email,
+  permissions,
+}: JellyfinUserOptions): Promise<User> => {
+  const settings = getSettings();
+
+  const jellyfinClient = new JellyfinAPI(
+    getHostname(),
+    settings.jellyfin.apiKey
+  );
+
+  const jellyfinUser = await jellyfinClient.createUser({
+    Name: username,
+    Password: password,
+    Policy: buildJellyfinPolicy(PolicyTemplateId.EXPIRED),
+  });
+
+  if (!jellyfinUser?.Id) {
+    throw new Error('Failed to create Jellyfin user');
+  }
+
+  const user = new User({
+    email,
+    jellyfinUsername: username,
+    jellyfinUserId: jellyfinUser.Id,
+    jellyfinDeviceId: Buffer.from(`BOT_jellyseerr_${username}`).toString(
+      'base64'
+    ),
+    permissions,
+    avatar: `/avatarproxy/${jellyfinUser.Id}`,
+    userType: UserType.JELLYFIN,
+  });
+
+  await user.setPassword(password);
+
+  return getRepository(User).save(user);
+};
+
+/**
+ * Builds the Jellyseerr user for an existing Jellyfin or Emby account, as done
+ * when importing users from the media server.
+ */
+export const buildImportedJellyfinUser = (
+  jellyfinUser: JellyfinUserResponse
+): User => {
+  const settings = getSettings();
+
+  let displayName = jellyfinUser.Name;
+  if (jellyfinUser.Name.includes('.')) {
+    const [firstname, lastname] = jellyfinUser.Name.split('.');
+    if (firstname && lastname) {
+      displayName = `${firstname.charAt(0).toUpperCase()}${firstname.slice(
+        1
+      )} ${lastname.toUpperCase()}`;
+    }
+  }
+
+  return new User({
+    jellyfinUsername: jellyfinUser.Name,
+    username: displayName,
+    jellyfinUserId: jellyfinUser.Id,
+    jellyfinDeviceId: Buffer.from(
+      `BOT_jellyseerr_${jellyfinUser.Name}`
+    ).toString('base64'),
+    email: jellyfinUser.Name,
+    permissions: settings.main.defaultPermissions,
+    avatar: `/avatarproxy/${jellyfinUser.Id}`,
+    userType:
+      settings.main.mediaServerType === MediaServerType.JELLYFIN
+        ? UserType.JELLYFIN
+        : UserType.EMBY,
+  });
+};
@@ -0,0 +1,83 @@
+import JellyfinAPI from '@server/api/jellyfin';
+import type {
+  JellyfinLibraryAccess,
+  JellyfinLibraryOption,
+  JellyfinUserPolicy,
+} from '@server/interfaces/api/jellyfinInterfaces';
+import { getSettings } from '@server/lib/settings';
+import { getHostname } from '@server/utils/getHostname';
+
+const getJellyfinClient = (): JellyfinAPI => {
+  const settings = getSettings();
+
+  return new JellyfinAPI(getHostname(), settings.jellyfin.apiKey);
+};
+
+export const getLibraryOptions = async (): Promise<JellyfinLibraryOption[]> =>
+  (await getJellyfinClient().getLibraries()).map((library) => ({
+    id: library.key,
+    name: library.title,
+    type: library.type,
+  }));
+
+export const getLibraryAccess = (
+  policy: Partial<JellyfinUserPolicy>
+): JellyfinLibraryAccess => ({
+  // Jellyfin gives users access to all libraries unless told otherwise
+  enableAllFolders: policy.EnableAllFolders ?? true,
+  enabledFolders: policy.EnabledFolders ?? [],
+});
+
+export const getUserLibraryAccess = async (
+  jellyfinUserId: string
+): Promise<JellyfinLibraryAccess> =>
+  getLibraryAccess(await getJellyfinClient().getUserPolicy(jellyfinUserId));
+
+export const getLibraryAccessPolicy = (
+  access: JellyfinLibraryAccess
+): Pick<JellyfinUserPolicy, 'EnableAllFolders' | 'EnabledFolders'> => ({
+  EnableAllFolders: access.enableAllFolders,
+  EnabledFolders: access.enableAllFolders ? [] : access.enabledFolders,
+});
+
+/**
+ * Updates the libraries a user can access, leaving the rest of their policy
+ * untouched. Libraries that are not listed, such as music libraries, keep
+ * their current access.
+ *
+ * @param jellyfinUserId Jellyfin ID of the user to update
+ * @param access Libraries the user can access
+ * @param libraries Listed libraries. Fetched when not provided.
+ * @throws Error if no libraries could be listed
+ */
+export const updateLibraryAccess = async (
+  jellyfinUserId: string,
+  access: JellyfinLibraryAccess,
+  libraries?: JellyfinLibraryOption[]
+): Promise<void> => {
+  const jellyfinClient = getJellyfinClient();
+  const policy = await jellyfinClient.getUserPolicy(jellyfinUserId);
+  const libraryIds = (libraries ?? (await getLibraryOptions())).map(
+    (library) => library.id
+  );
+
+  // Listing libraries fails silently, which would leave the access unchanged
+  if (!libraryIds.length) {
+    throw new Error('Unable to retrieve libraries from the media server.');
+  }
+  const currentAccess = getLibraryAccess(policy);
+  const unlistedFolders = currentAccess.enableAllFolders
+    ? []
+    : currentAccess.enabledFolders.filter((id) => !libraryIds.includes(id));
+
+  await jellyfinClient.updateUserPolicy(jellyfinUserId, {
+    ...policy,
+    ...getLibraryAccessPolicy({
+      enableAllFolders: access.enableAllFolders,
+      enabledFolders: [
+        ...access.enabledFolders.filter((id) => libraryIds.includes(id)),
+        ...unlistedFolders,
+      ],
+    }),
+  });
+};
@@ -2,6 +2,7 @@ import type Issue from '@server/entity/Issue';
 import type IssueComment from '@server/entity/IssueComment';
 import type Media from '@server/entity/Media';
 import type { MediaRequest } from '@server/entity/MediaRequest';
+import type RequestComment from '@server/entity/RequestComment';
 import type { User } from '@server/entity/User';
 import type { NotificationAgentConfig } from '@server/lib/settings';
 import type { Notification } from '..';
@@ -18,7 +19,7 @@ export interface NotificationPayload {
   extra?: { name: string; value: string }[];
   request?: MediaRequest;
   issue?: Issue;
-  comment?: IssueComment;
+  comment?: IssueComment | RequestComment;
 }
 
 export abstract class BaseAgent<T extends NotificationAgentConfig> {
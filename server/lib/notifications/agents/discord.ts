@@ -143,6 +143,9 @@ class DiscordAgent
           color = EmbedColors.RED;
           status = 'Failed';
           break;
+        case Notification.REQUEST_COMMENT:
+          color = EmbedColors.ORANGE;
+          break;
       }
 
       if (status) {
@@ -152,7 +155,28 @@ class DiscordAgent
           inline: true,
         });
       }
-    } else if (payload.comment) {
+
+      if (payload.request.reason) {
+        fields.push({
+          name: 'Request Reason',
+          value: payload.request.reason,
+          inline: false,
+        });
+      }
+
+      if (
+        type === Notification.MEDIA_DECLINED &&
+        payload.request.declineReason
+      ) {
+        fields.push({
+          name: 'Decline Reason',
+          value: payload.request.declineReason,
+          inline: false,
+        });
+      }
+    }
+
+    if (payload.comment) {
       fields.push({
         name: `Comment from ${payload.comment.user.displayName}`,
         value: payload.comment.message,
@@ -190,6 +214,19 @@ class DiscordAgent
           color = EmbedColors.GREEN;
           break;
       }
+    } else if (!payload.request) {
+      switch (type) {
+        case Notification.SUBSCRIPTION_EXPIRING:
+          color = EmbedColors.ORANGE;
+          break;
+        case Notification.SUBSCRIPTION_EXPIRED:
+        case Notification.SUSPICIOUS_ACTIVITY:
+          color = EmbedColors.RED;
+          break;
+        case Notification.SUBSCRIPTION_RENEWED:
+          color = EmbedColors.GREEN;
+          break;
+      }
     }
 
     for (const extra of payload.extra ?? []) {
@@ -114,6 +114,13 @@ class EmailAgent
             payload.media?.mediaType === MediaType.MOVIE ? 'Radarr' : 'Sonarr'
           }:`;
           break;
+        case Notification.REQUEST_COMMENT:
+          body = `${
+            payload.comment?.user.displayName
+          } commented on the request for the following ${mediaType}${
+            is4k ? ' in 4K' : ''
+          }:`;
+          break;
       }
 
       return {
@@ -132,6 +139,12 @@ class EmailAgent
           imageUrl: payload.image,
           timestamp: new Date().toTimeString(),
           requestedBy: payload.request.requestedBy.displayName,
+          requestReason: payload.request.reason,
+          declineReason:
+            type === Notification.MEDIA_DECLINED
+              ? payload.request.declineReason
+              : undefined,
+          requestComment: payload.comment?.message,
           actionUrl: applicationUrl
             ? `${applicationUrl}/${payload.media?.mediaType}/${payload.media?.tmdbId}`
             : undefined,
@@ -187,6 +200,31 @@ class EmailAgent
           recipientEmail,
         },
       };
+    } else if (
+      type === Notification.SUBSCRIPTION_EXPIRING ||
+      type === Notification.SUBSCRIPTION_EXPIRED ||
+      type === Notification.SUBSCRIPTION_RENEWED ||
+      type === Notification.SUSPICIOUS_ACTIVITY
+    ) {
+      return {
+        template: path.join(__dirname, '../../../templates/email/subscription'),
+        message: {
+          to: recipientEmail,
+        },
+        locals: {
+          event: payload.event,
+          body: payload.message ?? payload.subject,
+          extra: payload.extra ?? [],
+          actionUrl: applicationUrl
+            ? `${applicationUrl}/${payload.notifyAdmin ? 'users' : 'profile'}`
+            : undefined,
+          actionText: payload.notifyAdmin ? 'View Users' : 'View Profile',
+          applicationUrl,
+          applicationTitle,
+          recipientName,
+          recipientEmail,
+        },
+      };
     }
 
     return undefined;
@@ -75,7 +75,9 @@ class GotifyAgent
       if (status) {
         message += `\nRequest Status: ${status}`;
       }
-    } else if (payload.comment) {
+    }
+
+    if (payload.comment) {
       message += `\nComment from ${payload.comment.user.displayName}:\n${payload.comment.message}`;
     } else if (payload.issue) {
       message += `\n\nReported By: ${payload.issue.createdBy.displayName}`;
@@ -79,7 +79,9 @@ class PushbulletAgent
       if (status) {
         body += `\nRequest Status: ${status}`;
       }
-    } else if (payload.comment) {
+    }
+
+    if (payload.comment) {
       body += `\n\nComment from ${payload.comment.user.displayName}:\n${payload.comment.message}`;
     } else if (payload.issue) {
       body += `\n\nReported By: ${payload.issue.createdBy.displayName}`;
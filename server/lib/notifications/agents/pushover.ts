@@ -131,7 +131,9 @@ class PushoverAgent
       if (status) {
         message += `<small>\n<b>Request Status:</b> ${status}</small>`;
       }
-    } else if (payload.comment) {
+    }
+
+    if (payload.comment) {
       message += `<small>\n\n<b>Comment from ${payload.comment.user.displayName}:</b> ${payload.comment.message}</small>`;
     } else if (payload.issue) {
       message += `<small>\n\n<b>Reported By:</b> ${payload.issue.createdBy.displayName}</small>`;
@@ -98,7 +98,9 @@ class SlackAgent
           text: `*Request Status*\n${status}`,
         });
       }
-    } else if (payload.comment) {
+    }
+
+    if (payload.comment) {
       fields.push({
         type: 'mrkdwn',
         text: `*Comment from ${payload.comment.user.displayName}*\n${payload.comment.message}`,
@@ -108,7 +108,9 @@ class TelegramAgent
       if (status) {
         message += `\n\*Request Status:\* ${status}`;
       }
-    } else if (payload.comment) {
+    }
+
+    if (payload.comment) {
       message += `\n\n\*Comment from ${this.escapeText(
         payload.comment.user.displayName
       )}:\* ${this.escapeText(payload.comment.message)}`;
@@ -32,6 +32,8 @@ const KeyMap: Record<string, string | KeyMapFunction> = {
   media_status4k: (payload) =>
     payload.media ? MediaStatus[payload.media.status4k] : '',
   request_id: 'request.id',
+  request_reason: 'request.reason',
+  request_declineReason: 'request.declineReason',
   requestedBy_username: 'request.requestedBy.displayName',
   requestedBy_email: 'request.requestedBy.email',
   requestedBy_avatar: 'request.requestedBy.avatar',
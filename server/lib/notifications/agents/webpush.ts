@@ -85,6 +85,11 @@ class WebPushAgent
       case Notification.MEDIA_FAILED:
         message = `Failed to process ${is4k ? '4K ' : ''}${mediaType} request.`;
         break;
+      case Notification.REQUEST_COMMENT:
+        message = `${payload.comment?.user.displayName} commented on the ${
+          is4k ? '4K ' : ''
+        }${mediaType} request.`;
+        break;
       case Notification.MEDIA_PENDING:
         message = `Approval required for a new ${
           is4k ? '4K ' : ''
@@ -104,6 +109,12 @@ class WebPushAgent
       case Notification.ISSUE_REOPENED:
         message = `The ${issueType} was reopened by ${payload.issue?.modifiedBy?.displayName}.`;
         break;
+      case Notification.SUBSCRIPTION_EXPIRING:
+      case Notification.SUBSCRIPTION_EXPIRED:
+      case Notification.SUBSCRIPTION_RENEWED:
+      case Notification.SUSPICIOUS_ACTIVITY:
+        message = payload.message ?? payload.subject;
+        break;
       default:
         return {
           notificationType: Notification[type],
@@ -111,6 +122,22 @@ class WebPushAgent
         };
     }
 
+    const isAccountNotification =
+      type === Notification.SUBSCRIPTION_EXPIRING ||
+      type === Notification.SUBSCRIPTION_EXPIRED ||
+      type === Notification.SUBSCRIPTION_RENEWED ||
+      type === Notification.SUSPICIOUS_ACTIVITY;
+
+    if (isAccountNotification) {
+      return {
+        notificationType: Notification[type],
+        subject: payload.event ?? payload.subject,
+        message,
+        actionUrl: payload.notifyAdmin ? '/users' : '/profile',
+        actionUrlTitle: payload.notifyAdmin ? 'View Users' : 'View Profile',
+      };
+    }
+
     const actionUrl = payload.issue
       ? `/issues/${payload.issue.id}`
       : payload.media
@@ -17,6 +17,11 @@ export enum Notification {
   ISSUE_RESOLVED = 1024,
   ISSUE_REOPENED = 2048,
   MEDIA_AUTO_REQUESTED = 4096,
+  SUBSCRIPTION_EXPIRING = 8192,
+  SUBSCRIPTION_EXPIRED = 16384,
+  SUBSCRIPTION_RENEWED = 32768,
+  SUSPICIOUS_ACTIVITY = 65536,
+  REQUEST_COMMENT = 131072,
 }
 
 export const hasNotificationType = (
@@ -53,12 +58,18 @@ export const getAdminPermission = (type: Notification): Permission => {
     case Notification.MEDIA_FAILED:
     case Notification.MEDIA_DECLINED:
     case Notification.MEDIA_AUTO_APPROVED:
+    case Notification.REQUEST_COMMENT:
       return Permission.MANAGE_REQUESTS;
     case Notification.ISSUE_CREATED:
     case Notification.ISSUE_COMMENT:
     case Notification.ISSUE_RESOLVED:
     case Notification.ISSUE_REOPENED:
       return Permission.MANAGE_ISSUES;
+    case Notification.SUBSCRIPTION_EXPIRING:
+    case Notification.SUBSCRIPTION_EXPIRED:
+    case Notification.SUBSCRIPTION_RENEWED:
+    case Notification.SUSPICIOUS_ACTIVITY:
+      return Permission.MANAGE_USERS;
     default:
       return Permission.ADMIN;
   }
@@ -79,8 +90,9 @@ export const shouldSendAdminNotification = (
     // Check if the user created this issue
     (type !== Notification.ISSUE_CREATED ||
       user.id !== payload.issue?.createdBy.id) &&
-    // Check if the user submitted this issue comment
-    (type !== Notification.ISSUE_COMMENT ||
+    // Check if the user submitted this issue or request comment
+    ((type !== Notification.ISSUE_COMMENT &&
+      type !== Notification.REQUEST_COMMENT) ||
       user.id !== payload.comment?.user.id) &&
     // Check if the user resolved/reopened this issue
     ((type !== Notification.ISSUE_RESOLVED &&
@@ -0,0 +1,212 @@
+import { PolicyTemplateId } from '@server/constants/user';
+import type {
+  JellyfinPolicyTemplate,
+  JellyfinPolicyTemplateResponse,
+  JellyfinUserPolicy,
+} from '@server/interfaces/api/jellyfinInterfaces';
+import { getSettings } from '@server/lib/settings';
+import logger from '@server/logger';
+
+export class PolicyTemplateError extends Error {}
+
+// Fields every policy pushed to Jellyfin starts from, whatever the template
+const BASE_POLICY: JellyfinUserPolicy = {
+  IsAdministrator: false,
+  IsDisabled: false,
+  EnableUserPreferenceAccess: true,
+  EnableLiveTvAccess: false,
+  EnableLiveTvManagement: false,
+  EnableRemoteAccess: true,
+  EnableMediaPlayback: false,
+  EnableVideoPlayback: false,
+  EnableAudioPlayback: false,
+  EnableMediaConversion: false,
+  EnableVideoPlaybackTranscoding: false,
+  EnableAudioPlaybackTranscoding: false,
+  EnableContentDownloading: false,
+  EnablePlaybackRemuxing: false,
+  AuthenticationProviderId:
+    'Jellyfin.Server.Implementations.Users.DefaultAuthenticationProvider',
+  PasswordResetProviderId:
+    'Jellyfin.Server.Implementations.Users.DefaultPasswordResetProvider',
+};
+
+const PLAYBACK_POLICY: Partial<JellyfinUserPolicy> = {
+  EnableMediaPlayback: true,
+  EnableVideoPlayback: true,
+  EnableAudioPlayback: true,
+  EnableVideoPlaybackTranscoding: true,
+  EnableAudioPlaybackTranscoding: true,
+  EnablePlaybackRemuxing: true,
+};
+
+export const DEFAULT_POLICY_TEMPLATES: JellyfinPolicyTemplate[] = [
+  {
+    id: PolicyTemplateId.ACTIVE,
+    name: 'Active Member',
+    policy: {
+      ...PLAYBACK_POLICY,
+      EnableLiveTvAccess: true,
+      EnableLiveTvManagement: true,
+      EnableMediaConversion: true,
+      EnableContentDownloading: true,
+    },
+  },
+  {
+    id: PolicyTemplateId.EXPIRED,
+    name: 'Expired',
+    policy: {},
+  },
+  {
+    id: PolicyTemplateId.READ_ONLY,
+    name: 'Read-Only',
+    policy: {
+      ...PLAYBACK_POLICY,
+      EnableUserPreferenceAccess: false,
+    },
+  },
+  {
+    id: PolicyTemplateId.KIDS,
+    name: 'Kids',
+    policy: {
+      ...PLAYBACK_POLICY,
+      EnableUserPreferenceAccess: false,
+      MaxParentalRating: 10,
+    },
+  },
+];
+
+const isBuiltInTemplate = (id: string): boolean =>
+  DEFAULT_POLICY_TEMPLATES.some((template) => template.id === id);
+
+/**
+ * Returns the built-in templates, including any edits made to them, followed
+ * by the custom templates.
+ */
+export const getPolicyTemplates = (): JellyfinPolicyTemplateResponse[] => {
+  const { policyTemplates } = getSettings().jellyfin;
+
+  return [
+    ...DEFAULT_POLICY_TEMPLATES.map((template) => ({
+      ...(policyTemplates.find((stored) => stored.id === template.id) ??
+        template),
+      builtIn: true,
+    })),
+    ...policyTemplates
+      .filter((template) => !isBuiltInTemplate(template.id))
+      .map((template) => ({ ...template, builtIn: false })),
+  ];
+};
+
+export const getPolicyTemplate = (
+  id: string
+): JellyfinPolicyTemplateResponse | undefined =>
+  getPolicyTemplates().find((template) => template.id === id);
+
+/**
+ * Builds the full Jellyfin policy for a template. Templates that no longer
+ * exist fall back to the expired template, so a missing template never grants
+ * access by accident.
+ *
+ * @param id ID of the template to apply
+ * @param overrides Fields applied on top of the template
+ */
+export const buildJellyfinPolicy = (
+  id: string,
+  overrides?: Partial<JellyfinUserPolicy> | null
+): JellyfinUserPolicy => {
+  let template = getPolicyTemplate(id);
+
+  if (!template) {
+    logger.warn(`Policy template ${id} not found, using the expired template`, {
+      label: 'Policy Templates',
+    });
+    template = getPolicyTemplate(PolicyTemplateId.EXPIRED);
+  }
+
+  return {
+    ...BASE_POLICY,
+    ...template?.policy,
+    ...overrides,
+  };
+};
+
+const slugify = (name: string): string =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * Creates a custom template, or edits an existing one when an ID is given.
+ *
+ * @throws PolicyTemplateError if the name is empty or already in use
+ */
+export const savePolicyTemplate = async (
+  { name, policy }: Omit<JellyfinPolicyTemplate, 'id'>,
+  id?: string
+): Promise<JellyfinPolicyTemplateResponse> => {
+  const settings = getSettings();
+  const templateId = id ?? slugify(name ?? '');
+
+  if (!name?.trim() || !templateId) {
+    throw new PolicyTemplateError('You must provide a template name.');
+  }
+
+  if (id && !getPolicyTemplate(id)) {
+    throw new PolicyTemplateError('Policy template not found.');
+  }
+
+  if (
+    getPolicyTemplates().some(
+      (template) =>
+        template.id !== id &&
+        (template.id === templateId ||
+          template.name.toLowerCase() === name.trim().toLowerCase())
+    )
+  ) {
+    throw new PolicyTemplateError(
+      'A policy template with this name already exists.'
+    );
+  }
+
+  const template: JellyfinPolicyTemplate = {
+    id: templateId,
+    name: name.trim(),
+    policy: policy ?? {},
+  };
+
+  settings.jellyfin.policyTemplates = [
+    ...settings.jellyfin.policyTemplates.filter(
+      (stored) => stored.id !== templateId
+    ),
+    template,
+  ];
+  await settings.save();
+
+  return { ...template, builtIn: isBuiltInTemplate(templateId) };
+};
+
+/**
+ * Removes a custom template. Built-in templates are reset to their defaults.
+ *
+ * @returns The removed template, or the built-in template after the reset
+ */
+export const deletePolicyTemplate = async (
+  id: string
+): Promise<JellyfinPolicyTemplateResponse | undefined> => {
+  const settings = getSettings();
+  const template = getPolicyTemplate(id);
+
+  if (!template) {
+    return undefined;
+  }
+
+  settings.jellyfin.policyTemplates = settings.jellyfin.policyTemplates.filter(
+    (stored) => stored.id !== id
+  );
+  await settings.save();
+
+  return isBuiltInTemplate(id) ? getPolicyTemplate(id) : template;
+};
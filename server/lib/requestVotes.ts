@@ -0,0 +1,109 @@
+import { MediaRequestStatus } from '@server/constants/media';
+import { getRepository } from '@server/datasource';
+import { MediaRequest } from '@server/entity/MediaRequest';
+import RequestVote from '@server/entity/RequestVote';
+import type { User } from '@server/entity/User';
+import type { RequestVoteResponse } from '@server/interfaces/api/requestInterfaces';
+import { getSettings } from '@server/lib/settings';
+import logger from '@server/logger';
+
+export class RequestVoteError extends Error {}
+
+const updateVoteCount = async (request: MediaRequest, change: 1 | -1) => {
+  await getRepository(MediaRequest)
+    .createQueryBuilder()
+    .update()
+    .set({ voteCount: () => `"voteCount" ${change > 0 ? '+' : '-'} 1` })
+    .where('id = :id', { id: request.id })
+    .execute();
+
+  return getRepository(MediaRequest).findOneOrFail({
+    where: { id: request.id },
+  });
+};
+
+export const getRequestVotes = async (
+  request: MediaRequest,
+  user: User
+): Promise<RequestVoteResponse> => {
+  const vote = await getRepository(RequestVote).findOne({
+    where: { request: { id: request.id }, user: { id: user.id } },
+  });
+
+  return { voteCount: request.voteCount, hasVoted: !!vote };
+};
+
+/**
+ * Adds the vote of a user to a pending request of someone else, approving the
+ * request once it reaches the auto-approve vote threshold.
+ *
+ * @throws RequestVoteError if the request cannot be voted on by the user
+ */
+export const addRequestVote = async (
+  request: MediaRequest,
+  user: User
+): Promise<MediaRequest> => {
+  const voteRepository = getRepository(RequestVote);
+
+  if (request.status !== MediaRequestStatus.PENDING) {
+    throw new RequestVoteError('Only pending requests can be voted on.');
+  }
+
+  if (request.requestedBy.id === user.id) {
+    throw new RequestVoteError('You cannot vote for your own request.');
+  }
+
+  const existingVote = await voteRepository.findOne({
+    where: { request: { id: request.id }, user: { id: user.id } },
+  });
+
+  if (existingVote) {
+    throw new RequestVoteError('You have already voted for this request.');
+  }
+
+  await voteRepository.save(new RequestVote({ request, user }));
+  const votedRequest = await updateVoteCount(request, 1);
+
+  const threshold = getSettings().main.requestVoteAutoApproveThreshold;
+
+  if (
+    threshold &&
+    votedRequest.voteCount >= threshold &&
+    votedRequest.status === MediaRequestStatus.PENDING
+  ) {
+    // Saving the new status sends the request to Radarr or Sonarr
+    votedRequest.status = MediaRequestStatus.APPROVED;
+    await getRepository(MediaRequest).save(votedRequest);
+
+    logger.info(
+      `Approved request ${votedRequest.id} after it reached ${votedRequest.voteCount} votes`,
+      { label: 'Media Request' }
+    );
+  }
+
+  return votedRequest;
+};
+
+/**
+ * Takes back the vote of a user on a request.
+ *
+ * @throws RequestVoteError if the user did not vote for the request
+ */
+export const removeRequestVote = async (
+  request: MediaRequest,
+  user: User
+): Promise<MediaRequest> => {
+  const voteRepository = getRepository(RequestVote);
+
+  const vote = await voteRepository.findOne({
+    where: { request: { id: request.id }, user: { id: user.id } },
+  });
+
+  if (!vote) {
+    throw new RequestVoteError('You have not voted for this request.');
+  }
+
+  await voteRepository.remove(vote);
+
+  return updateVoteCount(request, -1);
+};
@@ -46,6 +46,9 @@ export interface ProcessableSeason {
   totalEpisodes: number;
   episodes: number;
   episodes4k: number;
+  /** Episode numbers available in the media server or Sonarr, if known */
+  availableEpisodes?: number[];
+  availableEpisodes4k?: number[];
   is4kOverride?: boolean;
   processing?: boolean;
 }
@@ -297,30 +300,46 @@ class BaseScanner<T> {
               : season.is4kOverride && season.processing
               ? MediaStatus.PROCESSING
               : existingSeason.status4k;
+
+          existingSeason.setAvailableEpisodes(season.availableEpisodes ?? []);
+          if (this.enable4kShow) {
+            existingSeason.setAvailableEpisodes(
+              season.availableEpisodes4k ?? [],
+              true
+            );
+          }
         } else {
-          newSeasons.push(
-            new Season({
-              seasonNumber: season.seasonNumber,
-              status:
-                season.totalEpisodes === season.episodes && season.episodes > 0
-                  ? MediaStatus.AVAILABLE
-                  : season.episodes > 0
-                  ? MediaStatus.PARTIALLY_AVAILABLE
-                  : !season.is4kOverride && season.processing
-                  ? MediaStatus.PROCESSING
-                  : MediaStatus.UNKNOWN,
-              status4k:
-                this.enable4kShow &&
-                season.totalEpisodes === season.episodes4k &&
-                season.episodes4k > 0
-                  ? MediaStatus.AVAILABLE
-                  : this.enable4kShow && season.episodes4k > 0
-                  ? MediaStatus.PARTIALLY_AVAILABLE
-                  : season.is4kOverride && season.processing
-                  ? MediaStatus.PROCESSING
-                  : MediaStatus.UNKNOWN,
-            })
-          );
+          const newSeason = new Season({
+            seasonNumber: season.seasonNumber,
+            status:
+              season.totalEpisodes === season.episodes && season.episodes > 0
+                ? MediaStatus.AVAILABLE
+                : season.episodes > 0
+                ? MediaStatus.PARTIALLY_AVAILABLE
+                : !season.is4kOverride && season.processing
+                ? MediaStatus.PROCESSING
+                : MediaStatus.UNKNOWN,
+            status4k:
+              this.enable4kShow &&
+              season.totalEpisodes === season.episodes4k &&
+              season.episodes4k > 0
+                ? MediaStatus.AVAILABLE
+                : this.enable4kShow && season.episodes4k > 0
+                ? MediaStatus.PARTIALLY_AVAILABLE
+                : season.is4kOverride && season.processing
+                ? MediaStatus.PROCESSING
+                : MediaStatus.UNKNOWN,
+          });
+
+          newSeason.setAvailableEpisodes(season.availableEpisodes ?? []);
+          if (this.enable4kShow) {
+            newSeason.setAvailableEpisodes(
+              season.availableEpisodes4k ?? [],
+              true
+            );
+          }
+
+          newSeasons.push(newSeason);
         }
       }
 
@@ -14,7 +14,7 @@ import logger from '@server/logger';
 import AsyncLock from '@server/utils/asyncLock';
 import { getHostname } from '@server/utils/getHostname';
 import { randomUUID as uuid } from 'crypto';
-import { uniqWith } from 'lodash';
+import { range, uniqWith } from 'lodash';
 
 const BUNDLE_SIZE = 20;
 const UPDATE_RATE = 4 * 1000;
@@ -279,6 +279,8 @@ class JellyfinScanner {
               //Get count of episodes that are HD and 4K
               let totalStandard = 0;
               let total4k = 0;
+              const standardEpisodes: number[] = [];
+              const episodes4k: number[] = [];
 
               //use for loop to make sure this loop _completes_ in full
               //before the next section
@@ -294,8 +296,17 @@ class JellyfinScanner {
                     episode.IndexNumberEnd - episode.IndexNumber + 1;
                 }
 
+                const episodeNumbers =
+                  episode.IndexNumber !== undefined
+                    ? range(
+                        episode.IndexNumber,
+                        episode.IndexNumber + episodeCount
+                      )
+                    : [];
+
                 if (!this.enable4kShow) {
                   totalStandard += episodeCount;
+                  standardEpisodes.push(...episodeNumbers);
                 } else {
                   const ExtendedEpisodeData = await this.jfClient.getItemData(
                     episode.Id
@@ -306,8 +317,10 @@ class JellyfinScanner {
                       if (MediaStream.Type === 'Video') {
                         if ((MediaStream.Width ?? 0) >= 2000) {
                           total4k += episodeCount;
+                          episodes4k.push(...episodeNumbers);
                         } else {
                           totalStandard += episodeCount;
+                          standardEpisodes.push(...episodeNumbers);
                         }
                       }
                     });
@@ -350,26 +363,36 @@ class JellyfinScanner {
                     : this.enable4kShow && total4k > 0
                     ? MediaStatus.PARTIALLY_AVAILABLE
                     : existingSeason.status4k;
+
+                existingSeason.setAvailableEpisodes(standardEpisodes);
+                if (this.enable4kShow) {
+                  existingSeason.setAvailableEpisodes(episodes4k, true);
+                }
               } else {
-                newSeasons.push(
-                  new Season({
-                    seasonNumber: season.season_number,
-                    // This ternary is the same as the ones above, but it just falls back to "UNKNOWN"
-                    // if we dont have any items for the season
-                    status:
-                      totalStandard >= season.episode_count
-                        ? MediaStatus.AVAILABLE
-                        : totalStandard > 0
-                        ? MediaStatus.PARTIALLY_AVAILABLE
-                        : MediaStatus.UNKNOWN,
-                    status4k:
-                      this.enable4kShow && total4k >= season.episode_count
-                        ? MediaStatus.AVAILABLE
-                        : this.enable4kShow && total4k > 0
-                        ? MediaStatus.PARTIALLY_AVAILABLE
-                        : MediaStatus.UNKNOWN,
-                  })
-                );
+                const newSeason = new Season({
+                  seasonNumber: season.season_number,
+                  // This ternary is the same as the ones above, but it just falls back to "UNKNOWN"
+                  // if we dont have any items for the season
+                  status:
+                    totalStandard >= season.episode_count
+                      ? MediaStatus.AVAILABLE
+                      : totalStandard > 0
+                      ? MediaStatus.PARTIALLY_AVAILABLE
+                      : MediaStatus.UNKNOWN,
+                  status4k:
+                    this.enable4kShow && total4k >= season.episode_count
+                      ? MediaStatus.AVAILABLE
+                      : this.enable4kShow && total4k > 0
+                      ? MediaStatus.PARTIALLY_AVAILABLE
+                      : MediaStatus.UNKNOWN,
+                });
+
+                newSeason.setAvailableEpisodes(standardEpisodes);
+                if (this.enable4kShow) {
+                  newSeason.setAvailableEpisodes(episodes4k, true);
+                }
+
+                newSeasons.push(newSeason);
               }
             }
           }
@@ -293,25 +293,27 @@ class PlexScanner
         const episodes = await this.plexClient.getChildrenMetadata(
           matchedPlexSeason.ratingKey
         );
-        // Total episodes that are in standard definition (not 4k)
-        const totalStandard = episodes.filter((episode) =>
+        // Episodes that are in standard definition (not 4k)
+        const standardEpisodes = episodes.filter((episode) =>
           !this.enable4kShow
             ? true
             : episode.Media.some((media) => media.videoResolution !== '4k')
-        ).length;
+        );
 
-        // Total episodes that are in 4k
-        const total4k = this.enable4kShow
+        // Episodes that are in 4k
+        const episodes4k = this.enable4kShow
           ? episodes.filter((episode) =>
               episode.Media.some((media) => media.videoResolution === '4k')
-            ).length
-          : 0;
+            )
+          : [];
 
         processableSeasons.push({
           seasonNumber: season.season_number,
-          episodes: totalStandard,
-          episodes4k: total4k,
+          episodes: standardEpisodes.length,
+          episodes4k: episodes4k.length,
           totalEpisodes: season.episode_count,
+          availableEpisodes: standardEpisodes.map((episode) => episode.index),
+          availableEpisodes4k: episodes4k.map((episode) => episode.index),
         });
       } else {
         processableSeasons.push({
@@ -110,14 +110,35 @@ class SonarrScanner
           (!settings.main.partialRequestsEnabled ? sn.seasonNumber !== 0 : true)
       );
 
+      // Episode files are only needed to know what is missing from partially
+      // downloaded seasons, so we skip the extra call for everything else
+      const hasPartialSeasons = filteredSeasons.some(
+        (season) =>
+          (season.statistics?.episodeFileCount ?? 0) > 0 &&
+          (season.statistics?.episodeFileCount ?? 0) <
+            (season.statistics?.totalEpisodeCount ?? 0)
+      );
+      const episodes =
+        hasPartialSeasons && sonarrSeries.id
+          ? await this.sonarrApi.getEpisodes(sonarrSeries.id)
+          : [];
+
       for (const season of filteredSeasons) {
         const totalAvailableEpisodes = season.statistics?.episodeFileCount ?? 0;
+        const availableEpisodes = episodes
+          .filter(
+            (episode) =>
+              episode.seasonNumber === season.seasonNumber && episode.hasFile
+          )
+          .map((episode) => episode.episodeNumber);
 
         processableSeasons.push({
           seasonNumber: season.seasonNumber,
           episodes: !server4k ? totalAvailableEpisodes : 0,
           episodes4k: server4k ? totalAvailableEpisodes : 0,
           totalEpisodes: season.statistics?.totalEpisodeCount ?? 0,
+          availableEpisodes: !server4k ? availableEpisodes : [],
+          availableEpisodes4k: server4k ? availableEpisodes : [],
           processing: season.monitored && totalAvailableEpisodes === 0,
           is4kOverride: server4k,
         });
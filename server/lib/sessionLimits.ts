@@ -0,0 +1,119 @@
+import type { JellyfinSession } from '@server/api/jellyfin';
+import JellyfinAPI from '@server/api/jellyfin';
+import { getRepository } from '@server/datasource';
+import { User } from '@server/entity/User';
+import { getSettings } from '@server/lib/settings';
+import { getMaxActiveSessions } from '@server/lib/subscriptions';
+import logger from '@server/logger';
+import { getHostname } from '@server/utils/getHostname';
+import { In } from 'typeorm';
+
+// Sessions that reported activity within this window are considered active
+const ACTIVE_SESSION_SECONDS = 60;
+
+class SessionLimitWatchdog {
+  private running = false;
+  // When each session was first seen streaming, so the newest streams are the
+  // ones stopped when a user goes over their limit
+  private firstSeen = new Map<string, number>();
+
+  public async run() {
+    const settings = getSettings();
+
+    if (!settings.main.sessionLimitWatchdog || this.running) {
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      const jellyfinClient = new JellyfinAPI(
+        getHostname(),
+        settings.jellyfin.apiKey
+      );
+
+      const sessions = (
+        await jellyfinClient.getSessions(ACTIVE_SESSION_SECONDS)
+      ).filter((session) => session.UserId && session.NowPlayingItem);
+
+      const now = Date.now();
+      const firstSeen = new Map<string, number>();
+      const sessionsByJellyfinUser = new Map<string, JellyfinSession[]>();
+
+      for (const session of sessions) {
+        firstSeen.set(session.Id, this.firstSeen.get(session.Id) ?? now);
+
+        const jellyfinUserId = session.UserId as string;
+        sessionsByJellyfinUser.set(jellyfinUserId, [
+          ...(sessionsByJellyfinUser.get(jellyfinUserId) ?? []),
+          session,
+        ]);
+      }
+
+      this.firstSeen = firstSeen;
+
+      const users = sessionsByJellyfinUser.size
+        ? await getRepository(User).find({
+            where: { jellyfinUserId: In([...sessionsByJellyfinUser.keys()]) },
+          })
+        : [];
+
+      for (const user of users) {
+        const maxActiveSessions = getMaxActiveSessions(user);
+        const userSessions =
+          sessionsByJellyfinUser.get(user.jellyfinUserId as string) ?? [];
+
+        if (!maxActiveSessions || userSessions.length <= maxActiveSessions) {
+          continue;
+        }
+
+        const excessSessions = userSessions
+          .sort(
+            (a, b) =>
+              (firstSeen.get(a.Id) ?? now) - (firstSeen.get(b.Id) ?? now)
+          )
+          .slice(maxActiveSessions);
+
+        for (const session of excessSessions) {
+          try {
+            await jellyfinClient.sendSessionMessage(
+              session.Id,
+              'Stream Limit Reached',
+              `Your account is limited to ${maxActiveSessions} ${
+                maxActiveSessions === 1 ? 'stream' : 'streams'
+              } at a time.`
+            );
+            await jellyfinClient.stopSession(session.Id);
+
+            logger.info(
+              `Stopped session ${session.Id} of user ${user.id} over their limit of ${maxActiveSessions} stream(s)`,
+              {
+                label: 'Session Limits',
+                device: session.DeviceName,
+                client: session.Client,
+              }
+            );
+          } catch (e) {
+            logger.error('Failed to stop session over the stream limit', {
+              label: 'Session Limits',
+              userId: user.id,
+              sessionId: session.Id,
+              errorMessage: e.message,
+            });
+          }
+        }
+      }
+    } catch (e) {
+      logger.error('Failed to run Session Limit Watchdog job', {
+        label: 'Session Limits',
+        errorMessage: e.message,
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+const sessionLimitWatchdog = new SessionLimitWatchdog();
+
+export default sessionLimitWatchdog;
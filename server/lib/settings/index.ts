@@ -1,4 +1,5 @@
 import { MediaServerType } from '@server/constants/server';
+import type { JellyfinPolicyTemplate } from '@server/interfaces/api/jellyfinInterfaces';
 import { Permission } from '@server/lib/permissions';
 import { runMigrations } from '@server/lib/settings/migrator';
 import { randomUUID } from 'crypto';
@@ -48,6 +49,8 @@ export interface JellyfinSettings {
   libraries: Library[];
   serverId: string;
   apiKey: string;
+  // Custom templates and edited built-in templates
+  policyTemplates: JellyfinPolicyTemplate[];
 }
 export interface TautulliSettings {
   hostname?: string;
@@ -134,6 +137,24 @@ export interface MainSettings {
   enableSpecialEpisodes: boolean;
   locale: string;
   proxy: ProxySettings;
+  subscriptionReminderDays: number;
+  subscriptionGracePeriodDays: number;
+  subscriptionWebhookSecret: string;
+  subscriptionRenewalInstructions: string;
+  accountSharingMaxAddresses: number;
+  accountSharingMaxDevices: number;
+  accountSharingThreshold: number;
+  accountSharingNotifyAdmins: boolean;
+  accountSharingDisablePlayback: boolean;
+  sessionLimitWatchdog: boolean;
+  jellyfinUserSyncImportUsers: boolean;
+  jellyfinUserSyncDeletedUsers: 'orphan' | 'delete';
+  requestVoteAutoApproveThreshold: number;
+  requireDeclineReason: boolean;
+  deferUnreleasedRequests: boolean;
+  deferUnreleasedRequestsDays: number;
+  stalePendingRequestDays: number;
+  stalePendingRequestAction: 'decline' | 'escalate';
 }
 
 interface PublicSettings {
@@ -156,6 +177,7 @@ interface FullPublicSettings extends PublicSettings {
   jellyfinServerName?: string;
   partialRequestsEnabled: boolean;
   enableSpecialEpisodes: boolean;
+  requireDeclineReason: boolean;
   cacheImages: boolean;
   vapidPublic: string;
   enablePushRegistration: boolean;
@@ -297,7 +319,13 @@ export type JobId =
   | 'jellyfin-full-scan'
   | 'image-cache-cleanup'
   | 'availability-sync'
-  | 'subscription-check';
+  | 'subscription-check'
+  | 'subscription-reminders'
+  | 'account-sharing-detection'
+  | 'session-limit-watchdog'
+  | 'jellyfin-user-sync'
+  | 'deferred-requests'
+  | 'stale-requests';
 
 export interface AllSettings {
   clientId: string;
@@ -358,6 +386,24 @@ class Settings {
           bypassFilter: '',
           bypassLocalAddresses: true,
         },
+        subscriptionReminderDays: 7,
+        subscriptionGracePeriodDays: 0,
+        subscriptionWebhookSecret: '',
+        subscriptionRenewalInstructions: '',
+        accountSharingMaxAddresses: 0,
+        accountSharingMaxDevices: 0,
+        accountSharingThreshold: 3,
+        accountSharingNotifyAdmins: true,
+        accountSharingDisablePlayback: false,
+        sessionLimitWatchdog: false,
+        jellyfinUserSyncImportUsers: false,
+        jellyfinUserSyncDeletedUsers: 'orphan',
+        requestVoteAutoApproveThreshold: 0,
+        requireDeclineReason: false,
+        deferUnreleasedRequests: false,
+        deferUnreleasedRequestsDays: 7,
+        stalePendingRequestDays: 0,
+        stalePendingRequestAction: 'escalate',
       },
       plex: {
         name: '',
@@ -377,6 +423,7 @@ class Settings {
         libraries: [],
         serverId: '',
         apiKey: '',
+        policyTemplates: [],
       },
       tautulli: {},
       radarr: [],
@@ -455,7 +502,7 @@ class Settings {
             options: {
               webhookUrl: '',
               jsonPayload:
-                'IntcbiAgXCJub3RpZmljYXRpb25fdHlwZVwiOiBcInt7bm90aWZpY2F0aW9uX3R5cGV9fVwiLFxuICBcImV2ZW50XCI6IFwie3tldmVudH19XCIsXG4gIFwic3ViamVjdFwiOiBcInt7c3ViamVjdH19XCIsXG4gIFwibWVzc2FnZVwiOiBcInt7bWVzc2FnZX19XCIsXG4gIFwiaW1hZ2VcIjogXCJ7e2ltYWdlfX1cIixcbiAgXCJ7e21lZGlhfX1cIjoge1xuICAgIFwibWVkaWFfdHlwZVwiOiBcInt7bWVkaWFfdHlwZX19XCIsXG4gICAgXCJ0bWRiSWRcIjogXCJ7e21lZGlhX3RtZGJpZH19XCIsXG4gICAgXCJ0dmRiSWRcIjogXCJ7e21lZGlhX3R2ZGJpZH19XCIsXG4gICAgXCJzdGF0dXNcIjogXCJ7e21lZGlhX3N0YXR1c319XCIsXG4gICAgXCJzdGF0dXM0a1wiOiBcInt7bWVkaWFfc3RhdHVzNGt9fVwiXG4gIH0sXG4gIFwie3tyZXF1ZXN0fX1cIjoge1xuICAgIFwicmVxdWVzdF9pZFwiOiBcInt7cmVxdWVzdF9pZH19XCIsXG4gICAgXCJyZXF1ZXN0ZWRCeV9lbWFpbFwiOiBcInt7cmVxdWVzdGVkQnlfZW1haWx9fVwiLFxuICAgIFwicmVxdWVzdGVkQnlfdXNlcm5hbWVcIjogXCJ7e3JlcXVlc3RlZEJ5X3VzZXJuYW1lfX1cIixcbiAgICBcInJlcXVlc3RlZEJ5X2F2YXRhclwiOiBcInt7cmVxdWVzdGVkQnlfYXZhdGFyfX1cIixcbiAgICBcInJlcXVlc3RlZEJ5X3NldHRpbmdzX2Rpc2NvcmRJZFwiOiBcInt7cmVxdWVzdGVkQnlfc2V0dGluZ3NfZGlzY29yZElkfX1cIixcbiAgICBcInJlcXVlc3RlZEJ5X3NldHRpbmdzX3RlbGVncmFtQ2hhdElkXCI6IFwie3tyZXF1ZXN0ZWRCeV9zZXR0aW5nc190ZWxlZ3JhbUNoYXRJZH19XCJcbiAgfSxcbiAgXCJ7e2lzc3VlfX1cIjoge1xuICAgIFwiaXNzdWVfaWRcIjogXCJ7e2lzc3VlX2lkfX1cIixcbiAgICBcImlzc3VlX3R5cGVcIjogXCJ7e2lzc3VlX3R5cGV9fVwiLFxuICAgIFwiaXNzdWVfc3RhdHVzXCI6IFwie3tpc3N1ZV9zdGF0dXN9fVwiLFxuICAgIFwicmVwb3J0ZWRCeV9lbWFpbFwiOiBcInt7cmVwb3J0ZWRCeV9lbWFpbH19XCIsXG4gICAgXCJyZXBvcnRlZEJ5X3VzZXJuYW1lXCI6IFwie3tyZXBvcnRlZEJ5X3VzZXJuYW1lfX1cIixcbiAgICBcInJlcG9ydGVkQnlfYXZhdGFyXCI6IFwie3tyZXBvcnRlZEJ5X2F2YXRhcn19XCIsXG4gICAgXCJyZXBvcnRlZEJ5X3NldHRpbmdzX2Rpc2NvcmRJZFwiOiBcInt7cmVwb3J0ZWRCeV9zZXR0aW5nc19kaXNjb3JkSWR9fVwiLFxuICAgIFwicmVwb3J0ZWRCeV9zZXR0aW5nc190ZWxlZ3JhbUNoYXRJZFwiOiBcInt7cmVwb3J0ZWRCeV9zZXR0aW5nc190ZWxlZ3JhbUNoYXRJZH19XCJcbiAgfSxcbiAgXCJ7e2NvbW1lbnR9fVwiOiB7XG4gICAgXCJjb21tZW50X21lc3NhZ2VcIjogXCJ7e2NvbW1lbnRfbWVzc2FnZX19XCIsXG4gICAgXCJjb21tZW50ZWRCeV9lbWFpbFwiOiBcInt7Y29tbWVudGVkQnlfZW1haWx9fVwiLFxuICAgIFwiY29tbWVudGVkQnlfdXNlcm5hbWVcIjogXCJ7e2NvbW1lbnRlZEJ5X3VzZXJuYW1lfX1cIixcbiAgICBcImNvbW1lbnRlZEJ5X2F2YXRhclwiOiBcInt7Y29tbWVudGVkQnlfYXZhdGFyfX1cIixcbiAgICBcImNvbW1lbnRlZEJ5X3NldHRpbmdzX2Rpc2NvcmRJZFwiOiBcInt7Y29tbWVudGVkQnlfc2V0dGluZ3NfZGlzY29yZElkfX1cIixcbiAgICBcImNvbW1lbnRlZEJ5X3NldHRpbmdzX3RlbGVncmFtQ2hhdElkXCI6IFwie3tjb21tZW50ZWRCeV9zZXR0aW5nc190ZWxlZ3JhbUNoYXRJZH19XCJcbiAgfSxcbiAgXCJ7e2V4dHJhfX1cIjogW11cbn0i',
+                'IntcbiAgXCJub3RpZmljYXRpb25fdHlwZVwiOiBcInt7bm90aWZpY2F0aW9uX3R5cGV9fVwiLFxuICBcImV2ZW50XCI6IFwie3tldmVudH19XCIsXG4gIFwic3ViamVjdFwiOiBcInt7c3ViamVjdH19XCIsXG4gIFwibWVzc2FnZVwiOiBcInt7bWVzc2FnZX19XCIsXG4gIFwiaW1hZ2VcIjogXCJ7e2ltYWdlfX1cIixcbiAgXCJ7e21lZGlhfX1cIjoge1xuICAgIFwibWVkaWFfdHlwZVwiOiBcInt7bWVkaWFfdHlwZX19XCIsXG4gICAgXCJ0bWRiSWRcIjogXCJ7e21lZGlhX3RtZGJpZH19XCIsXG4gICAgXCJ0dmRiSWRcIjogXCJ7e21lZGlhX3R2ZGJpZH19XCIsXG4gICAgXCJzdGF0dXNcIjogXCJ7e21lZGlhX3N0YXR1c319XCIsXG4gICAgXCJzdGF0dXM0a1wiOiBcInt7bWVkaWFfc3RhdHVzNGt9fVwiXG4gIH0sXG4gIFwie3tyZXF1ZXN0fX1cIjoge1xuICAgIFwicmVxdWVzdF9pZFwiOiBcInt7cmVxdWVzdF9pZH19XCIsXG4gICAgXCJyZXF1ZXN0X3JlYXNvblwiOiBcInt7cmVxdWVzdF9yZWFzb259fVwiLFxuICAgIFwicmVxdWVzdF9kZWNsaW5lUmVhc29uXCI6IFwie3tyZXF1ZXN0X2RlY2xpbmVSZWFzb259fVwiLFxuICAgIFwicmVxdWVzdGVkQnlfZW1haWxcIjogXCJ7e3JlcXVlc3RlZEJ5X2VtYWlsfX1cIixcbiAgICBcInJlcXVlc3RlZEJ5X3VzZXJuYW1lXCI6IFwie3tyZXF1ZXN0ZWRCeV91c2VybmFtZX19XCIsXG4gICAgXCJyZXF1ZXN0ZWRCeV9hdmF0YXJcIjogXCJ7e3JlcXVlc3RlZEJ5X2F2YXRhcn19XCIsXG4gICAgXCJyZXF1ZXN0ZWRCeV9zZXR0aW5nc19kaXNjb3JkSWRcIjogXCJ7e3JlcXVlc3RlZEJ5X3NldHRpbmdzX2Rpc2NvcmRJZH19XCIsXG4gICAgXCJyZXF1ZXN0ZWRCeV9zZXR0aW5nc190ZWxlZ3JhbUNoYXRJZFwiOiBcInt7cmVxdWVzdGVkQnlfc2V0dGluZ3NfdGVsZWdyYW1DaGF0SWR9fVwiXG4gIH0sXG4gIFwie3tpc3N1ZX19XCI6IHtcbiAgICBcImlzc3VlX2lkXCI6IFwie3tpc3N1ZV9pZH19XCIsXG4gICAgXCJpc3N1ZV90eXBlXCI6IFwie3tpc3N1ZV90eXBlfX1cIixcbiAgICBcImlzc3VlX3N0YXR1c1wiOiBcInt7aXNzdWVfc3RhdHVzfX1cIixcbiAgICBcInJlcG9ydGVkQnlfZW1haWxcIjogXCJ7e3JlcG9ydGVkQnlfZW1haWx9fVwiLFxuICAgIFwicmVwb3J0ZWRCeV91c2VybmFtZVwiOiBcInt7cmVwb3J0ZWRCeV91c2VybmFtZX19XCIsXG4gICAgXCJyZXBvcnRlZEJ5X2F2YXRhclwiOiBcInt7cmVwb3J0ZWRCeV9hdmF0YXJ9fVwiLFxuICAgIFwicmVwb3J0ZWRCeV9zZXR0aW5nc19kaXNjb3JkSWRcIjogXCJ7e3JlcG9ydGVkQnlfc2V0dGluZ3NfZGlzY29yZElkfX1cIixcbiAgICBcInJlcG9ydGVkQnlfc2V0dGluZ3NfdGVsZWdyYW1DaGF0SWRcIjogXCJ7e3JlcG9ydGVkQnlfc2V0dGluZ3NfdGVsZWdyYW1DaGF0SWR9fVwiXG4gIH0sXG4gIFwie3tjb21tZW50fX1cIjoge1xuICAgIFwiY29tbWVudF9tZXNzYWdlXCI6IFwie3tjb21tZW50X21lc3NhZ2V9fVwiLFxuICAgIFwiY29tbWVudGVkQnlfZW1haWxcIjogXCJ7e2NvbW1lbnRlZEJ5X2VtYWlsfX1cIixcbiAgICBcImNvbW1lbnRlZEJ5X3VzZXJuYW1lXCI6IFwie3tjb21tZW50ZWRCeV91c2VybmFtZX19XCIsXG4gICAgXCJjb21tZW50ZWRCeV9hdmF0YXJcIjogXCJ7e2NvbW1lbnRlZEJ5X2F2YXRhcn19XCIsXG4gICAgXCJjb21tZW50ZWRCeV9zZXR0aW5nc19kaXNjb3JkSWRcIjogXCJ7e2NvbW1lbnRlZEJ5X3NldHRpbmdzX2Rpc2NvcmRJZH19XCIsXG4gICAgXCJjb21tZW50ZWRCeV9zZXR0aW5nc190ZWxlZ3JhbUNoYXRJZFwiOiBcInt7Y29tbWVudGVkQnlfc2V0dGluZ3NfdGVsZWdyYW1DaGF0SWR9fVwiXG4gIH0sXG4gIFwie3tleHRyYX19XCI6IFtdXG59Ig==',
             },
           },
           webpush: {
@@ -512,6 +559,24 @@ class Settings {
         'subscription-check': {
           schedule: '0 */12 * * *',
         },
+        'subscription-reminders': {
+          schedule: '0 0 9 * * *',
+        },
+        'account-sharing-detection': {
+          schedule: '0 */2 * * * *',
+        },
+        'session-limit-watchdog': {
+          schedule: '0 * * * * *',
+        },
+        'jellyfin-user-sync': {
+          schedule: '0 30 3 * * *',
+        },
+        'deferred-requests': {
+          schedule: '0 0 5 * * *',
+        },
+        'stale-requests': {
+          schedule: '0 0 6 * * *',
+        },
       },
     };
     if (initialSettings) {
@@ -595,6 +660,7 @@ class Settings {
       mediaServerType: this.main.mediaServerType,
       partialRequestsEnabled: this.data.main.partialRequestsEnabled,
       enableSpecialEpisodes: this.data.main.enableSpecialEpisodes,
+      requireDeclineReason: this.data.main.requireDeclineReason,
       cacheImages: this.data.main.cacheImages,
       vapidPublic: this.vapidPublic,
       enablePushRegistration: this.data.notifications.agents.webpush.enabled,
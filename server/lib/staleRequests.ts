@@ -0,0 +1,82 @@
+import { MediaRequestStatus } from '@server/constants/media';
+import { getRepository } from '@server/datasource';
+import { MediaRequest } from '@server/entity/MediaRequest';
+import { getSettings } from '@server/lib/settings';
+import logger from '@server/logger';
+import { IsNull, LessThan } from 'typeorm';
+
+class StaleRequests {
+  private running = false;
+
+  public async run() {
+    const { stalePendingRequestDays, stalePendingRequestAction } =
+      getSettings().main;
+
+    if (this.running || !stalePendingRequestDays) {
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      const requestRepository = getRepository(MediaRequest);
+      const staleDate = new Date();
+      staleDate.setDate(staleDate.getDate() - stalePendingRequestDays);
+
+      const requests = await requestRepository.find({
+        where: {
+          status: MediaRequestStatus.PENDING,
+          createdAt: LessThan(staleDate),
+          // Only remind request managers once per request
+          ...(stalePendingRequestAction === 'escalate'
+            ? { escalatedAt: IsNull() }
+            : {}),
+        },
+      });
+
+      for (const request of requests) {
+        try {
+          if (stalePendingRequestAction === 'decline') {
+            // Saving the new status notifies the requester, request managers
+            // are told separately
+            request.status = MediaRequestStatus.DECLINED;
+            request.declineReason = `Automatically declined after being pending for more than ${stalePendingRequestDays} days.`;
+            await requestRepository.save(request);
+            await request.notifyStale();
+          } else {
+            await request.notifyStale();
+            await requestRepository.update(request.id, {
+              escalatedAt: new Date(),
+            });
+          }
+        } catch (e) {
+          logger.error('Failed to process stale request', {
+            label: 'Stale Requests',
+            requestId: request.id,
+            errorMessage: e.message,
+          });
+        }
+      }
+
+      if (requests.length) {
+        logger.info(
+          `${
+            stalePendingRequestAction === 'decline' ? 'Declined' : 'Escalated'
+          } ${requests.length} stale pending request(s)`,
+          { label: 'Stale Requests' }
+        );
+      }
+    } catch (e) {
+      logger.error('Failed to process stale pending requests', {
+        label: 'Stale Requests',
+        errorMessage: e.message,
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+const staleRequests = new StaleRequests();
+
+export default staleRequests;
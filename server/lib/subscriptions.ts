@@ -1,71 +1,735 @@
 import JellyfinAPI from '@server/api/jellyfin';
+import PlexTvAPI from '@server/api/plextv';
+import { MediaServerType } from '@server/constants/server';
+import type { SubscriptionStatus } from '@server/constants/user';
+import {
+  PolicyTemplateId,
+  SubscriptionEventType,
+} from '@server/constants/user';
 import { getRepository } from '@server/datasource';
+import SubscriptionEvent from '@server/entity/SubscriptionEvent';
+import SubscriptionPlan from '@server/entity/SubscriptionPlan';
+import SubscriptionVoucher from '@server/entity/SubscriptionVoucher';
+import SubscriptionVoucherRedemption from '@server/entity/SubscriptionVoucherRedemption';
 import { User } from '@server/entity/User';
+import type { JellyfinUserPolicy } from '@server/interfaces/api/jellyfinInterfaces';
+import type { SubscriptionBulkAction } from '@server/interfaces/api/subscriptionInterfaces';
+import {
+  getLibraryAccess,
+  getLibraryAccessPolicy,
+} from '@server/lib/libraryAccess';
+import notificationManager, { Notification } from '@server/lib/notifications';
+import { buildJellyfinPolicy } from '@server/lib/policyTemplates';
 import { getSettings } from '@server/lib/settings';
 import logger from '@server/logger';
 import { getHostname } from '@server/utils/getHostname';
+import { In, QueryFailedError } from 'typeorm';
+
+export class VoucherRedemptionError extends Error {}
+
+const getJellyfinClient = (): JellyfinAPI => {
+  const settings = getSettings();
+
+  return new JellyfinAPI(getHostname(), settings.jellyfin.apiKey);
+};
+
+const getPlexClient = async (): Promise<PlexTvAPI> => {
+  const admin = await getRepository(User).findOneOrFail({
+    select: { id: true, plexToken: true },
+    where: { id: 1 },
+  });
+
+  return new PlexTvAPI(admin.plexToken ?? '');
+};
+
+// The owner shares the server, so only other Plex users have a share to manage
+const isSharedPlexUser = (user: User): boolean =>
+  getSettings().main.mediaServerType === MediaServerType.PLEX &&
+  !!user.plexId &&
+  user.id !== 1;
+
+/**
+ * Stops sharing the Plex server with a user. Does nothing for users that are
+ * not Plex users.
+ */
+export const revokePlexAccess = async (user: User): Promise<void> => {
+  if (!user.plexId || !isSharedPlexUser(user)) {
+    return;
+  }
+
+  await (await getPlexClient()).removeLibraryShare(user.plexId);
+};
+
+/**
+ * Shares the Plex server with a user again, unless it already is. Does nothing
+ * for users that are not Plex users.
+ *
+ * @param libraryIds plex.tv IDs of the libraries to share. All libraries are
+ * shared when not provided.
+ */
+export const restorePlexAccess = async (
+  user: User,
+  libraryIds?: number[] | null
+): Promise<void> => {
+  if (!user.plexId || !isSharedPlexUser(user)) {
+    return;
+  }
+
+  const plexClient = await getPlexClient();
+
+  if ((await plexClient.getSharedLibraryIds(user.plexId)) !== null) {
+    return;
+  }
+
+  await plexClient.addLibraryShare(user.plexId, libraryIds ?? undefined);
+};
+
+export const getExpiredProfile = async (): Promise<SubscriptionPlan | null> => {
+  return getRepository(SubscriptionPlan).findOne({
+    where: { isExpiredProfile: true },
+  });
+};
+
+export const getSubscriptionExpirationDate = (
+  plan?: SubscriptionPlan | null,
+  from = new Date()
+): Date | null => {
+  if (!plan?.durationDays) {
+    return null;
+  }
+
+  const expirationDate = new Date(from);
+  expirationDate.setDate(expirationDate.getDate() + plan.durationDays);
+
+  return expirationDate;
+};
+
+/**
+ * Returns the number of streams a user can run at once, from their own override
+ * or else from their plan. 0 means unlimited.
+ */
+export const getMaxActiveSessions = (
+  user: User,
+  plan: SubscriptionPlan | null | undefined = user.subscriptionPlan
+): number => user.maxActiveSessions ?? plan?.maxActiveSessions ?? 0;
+
+/**
+ * Returns the date at which a subscription that expired at the given date
+ * is cut off, once the grace period configured in the settings has passed.
+ */
+export const getGracePeriodEndDate = (expirationDate: Date): Date => {
+  const gracePeriodEndDate = new Date(expirationDate);
+  gracePeriodEndDate.setDate(
+    gracePeriodEndDate.getDate() +
+      getSettings().main.subscriptionGracePeriodDays
+  );
+
+  return gracePeriodEndDate;
+};
+
+/**
+ * Applies the permissions, request limits, libraries and Jellyfin policy of a
+ * plan to a user.
+ * The user is not saved; it is up to the caller to persist the changes.
+ *
+ * @param user User to update
+ * @param plan Plan (or expired profile) to apply. Without a plan, only the
+ * policy template is pushed and local permissions are left untouched.
+ * @param policyTemplate Policy template to apply when the plan does not set one
+ */
+export const applySubscriptionPlan = async (
+  user: User,
+  plan: SubscriptionPlan | null | undefined,
+  policyTemplate: string
+): Promise<void> => {
+  if (plan) {
+    user.permissions = plan.permissions;
+    user.movieQuotaLimit = plan.movieQuotaLimit ?? undefined;
+    user.movieQuotaDays = plan.movieQuotaDays ?? undefined;
+    user.tvQuotaLimit = plan.tvQuotaLimit ?? undefined;
+    user.tvQuotaDays = plan.tvQuotaDays ?? undefined;
+  }
+
+  if (user.jellyfinUserId) {
+    const jellyfinClient = getJellyfinClient();
+    // Plans without default libraries leave the library access untouched
+    const libraryAccess =
+      plan?.libraryAccess ??
+      getLibraryAccess(await jellyfinClient.getUserPolicy(user.jellyfinUserId));
+
+    await jellyfinClient.updateUserPolicy(
+      user.jellyfinUserId,
+      buildJellyfinPolicy(plan?.policyTemplate || policyTemplate, {
+        ...getLibraryAccessPolicy(libraryAccess),
+        ...plan?.jellyfinPolicy,
+        MaxActiveSessions: getMaxActiveSessions(user, plan),
+      })
+    );
+  }
+};
+
+/**
+ * Pushes the concurrent stream limit of a user to their Jellyfin policy,
+ * leaving the rest of the policy untouched.
+ */
+export const updateMaxActiveSessions = async (user: User): Promise<void> => {
+  if (!user.jellyfinUserId) {
+    return;
+  }
+
+  const jellyfinClient = getJellyfinClient();
+  const policy = await jellyfinClient.getUserPolicy(user.jellyfinUserId);
+
+  await jellyfinClient.updateUserPolicy(user.jellyfinUserId, {
+    ...policy,
+    MaxActiveSessions: getMaxActiveSessions(user),
+  });
+};
+
+/**
+ * Saves the current permissions, request limits, Jellyfin policy and Plex
+ * libraries of a user so they can be restored once the subscription is
+ * renewed. The user is not saved.
+ */
+export const snapshotSubscription = async (user: User): Promise<void> => {
+  let jellyfinPolicy: JellyfinUserPolicy | null = null;
+  let plexLibraryIds: number[] | null = null;
+
+  if (user.jellyfinUserId) {
+    try {
+      jellyfinPolicy = await getJellyfinClient().getUserPolicy(
+        user.jellyfinUserId
+      );
+    } catch (e) {
+      logger.warn('Failed to fetch Jellyfin policy for subscription snapshot', {
+        label: 'Subscriptions',
+        userId: user.id,
+        errorMessage: e.message,
+      });
+    }
+  }
+
+  if (user.plexId && isSharedPlexUser(user)) {
+    try {
+      plexLibraryIds = await (
+        await getPlexClient()
+      ).getSharedLibraryIds(user.plexId);
+    } catch (e) {
+      logger.warn('Failed to fetch Plex libraries for subscription snapshot', {
+        label: 'Subscriptions',
+        userId: user.id,
+        errorMessage: e.message,
+      });
+    }
+  }
+
+  user.subscriptionSnapshot = {
+    permissions: user.permissions,
+    movieQuotaLimit: user.movieQuotaLimit ?? null,
+    movieQuotaDays: user.movieQuotaDays ?? null,
+    tvQuotaLimit: user.tvQuotaLimit ?? null,
+    tvQuotaDays: user.tvQuotaDays ?? null,
+    jellyfinPolicy,
+    plexLibraryIds,
+    createdAt: new Date(),
+  };
+};
+
+export const isSubscriptionRunning = (
+  status?: SubscriptionStatus | null
+): boolean =>
+  status === 'active' || status === 'grace' || status === 'lifetime';
+
+/**
+ * Snapshots a user with a running subscription, applies the expired profile
+ * and stops sharing the Plex server with them. The user is not saved.
+ *
+ * @param user User whose subscription lapsed
+ * @param expiredProfile Expired profile to apply. Looked up when not provided.
+ */
+export const expireSubscription = async (
+  user: User,
+  expiredProfile?: SubscriptionPlan | null
+): Promise<void> => {
+  if (isSubscriptionRunning(user.subscriptionStatus)) {
+    await snapshotSubscription(user);
+  }
+
+  await applySubscriptionPlan(
+    user,
+    expiredProfile === undefined ? await getExpiredProfile() : expiredProfile,
+    PolicyTemplateId.EXPIRED
+  );
+  await revokePlexAccess(user);
+};
+
+/**
+ * Restores the permissions, request limits, Jellyfin policy and Plex libraries
+ * saved when the subscription of a user lapsed. The user is not saved.
+ *
+ * @returns Whether a snapshot was found and restored
+ */
+export const restoreSubscriptionSnapshot = async (
+  user: User
+): Promise<boolean> => {
+  let snapshot = user.subscriptionSnapshot;
+
+  if (snapshot === undefined) {
+    const storedUser = await getRepository(User).findOne({
+      where: { id: user.id },
+      select: ['id', 'subscriptionSnapshot'],
+    });
+    snapshot = storedUser?.subscriptionSnapshot;
+  }
+
+  if (!snapshot) {
+    return false;
+  }
+
+  user.permissions = snapshot.permissions;
+  user.movieQuotaLimit = snapshot.movieQuotaLimit ?? undefined;
+  user.movieQuotaDays = snapshot.movieQuotaDays ?? undefined;
+  user.tvQuotaLimit = snapshot.tvQuotaLimit ?? undefined;
+  user.tvQuotaDays = snapshot.tvQuotaDays ?? undefined;
+
+  if (user.jellyfinUserId) {
+    await getJellyfinClient().updateUserPolicy(user.jellyfinUserId, {
+      ...(snapshot.jellyfinPolicy ??
+        buildJellyfinPolicy(PolicyTemplateId.ACTIVE)),
+      MaxActiveSessions: getMaxActiveSessions(user),
+    });
+  }
+
+  await restorePlexAccess(user, snapshot.plexLibraryIds);
+
+  user.subscriptionSnapshot = null;
+
+  return true;
+};
+
+/**
+ * Gives a user whose subscription is not running access again. What they had
+ * before it lapsed is restored when possible, otherwise their plan is applied.
+ * The user is not saved.
+ *
+ * @param restoreSnapshot Whether to restore the snapshot taken at expiry
+ */
+export const reactivateSubscription = async (
+  user: User,
+  restoreSnapshot = true
+): Promise<void> => {
+  if (!restoreSnapshot || !(await restoreSubscriptionSnapshot(user))) {
+    user.subscriptionSnapshot = null;
+    await applySubscriptionPlan(
+      user,
+      user.subscriptionPlan,
+      PolicyTemplateId.ACTIVE
+    );
+    await restorePlexAccess(user);
+  }
+};
+
+interface SubscriptionEventOptions {
+  previousStatus: SubscriptionStatus | null;
+  previousExpirationDate?: Date | null;
+  actor?: User | null;
+  note?: string | null;
+}
+
+/**
+ * Records a change to the subscription of a user in their subscription history.
+ * The new status, expiration date and plan are read from the (already updated) user.
+ */
+export const recordSubscriptionEvent = async (
+  user: User,
+  type: SubscriptionEventType,
+  {
+    previousStatus,
+    previousExpirationDate,
+    actor,
+    note,
+  }: SubscriptionEventOptions
+): Promise<SubscriptionEvent> => {
+  return getRepository(SubscriptionEvent).save(
+    new SubscriptionEvent({
+      user,
+      type,
+      actor: actor ?? null,
+      previousStatus,
+      newStatus: user.subscriptionStatus,
+      previousExpirationDate: previousExpirationDate ?? null,
+      newExpirationDate: user.subscriptionExpirationDate ?? null,
+      planName: user.subscriptionPlan?.name ?? null,
+      note: note || null,
+    })
+  );
+};
+
+const formatExpirationDate = (date: Date): string =>
+  new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+const getDaysRemaining = (date: Date, from = new Date()): number =>
+  Math.max(
+    0,
+    Math.ceil((new Date(date).getTime() - from.getTime()) / 86400000)
+  );
+
+export const sendSubscriptionNotification = (
+  type:
+    | Notification.SUBSCRIPTION_EXPIRING
+    | Notification.SUBSCRIPTION_EXPIRED
+    | Notification.SUBSCRIPTION_RENEWED,
+  user: User
+): void => {
+  let event = '';
+  let message = '';
+
+  switch (type) {
+    case Notification.SUBSCRIPTION_EXPIRING: {
+      const daysRemaining = user.subscriptionExpirationDate
+        ? getDaysRemaining(user.subscriptionExpirationDate)
+        : 0;
+      event = 'Subscription Expiring Soon';
+      message = `Your subscription expires in ${daysRemaining} ${
+        daysRemaining === 1 ? 'day' : 'days'
+      }. Renew it to keep access to the media server.`;
+      break;
+    }
+    case Notification.SUBSCRIPTION_EXPIRED:
+      event = 'Subscription Expired';
+      message =
+        'Your subscription has expired and playback has been disabled. Renew it to regain access to the media server.';
+      break;
+    case Notification.SUBSCRIPTION_RENEWED:
+      event = 'Subscription Renewed';
+      message =
+        user.subscriptionStatus === 'lifetime'
+          ? 'Your subscription has been upgraded to lifetime access.'
+          : 'Your subscription has been renewed.';
+      break;
+  }
+
+  const extra: { name: string; value: string }[] = [];
+
+  if (user.subscriptionPlan) {
+    extra.push({ name: 'Plan', value: user.subscriptionPlan.name });
+  }
+
+  if (
+    type !== Notification.SUBSCRIPTION_EXPIRED &&
+    user.subscriptionExpirationDate
+  ) {
+    extra.push({
+      name: 'Expiration Date',
+      value: formatExpirationDate(user.subscriptionExpirationDate),
+    });
+  }
+
+  notificationManager.sendNotification(type, {
+    event,
+    subject: user.displayName,
+    message,
+    extra,
+    notifyUser: user,
+    notifyAdmin: false,
+    notifySystem: true,
+  });
+};
+
+interface SubscriptionUpdate {
+  action: SubscriptionBulkAction;
+  days?: number;
+  expirationDate?: Date;
+  // Switches the user to another plan, applying its permissions and Jellyfin policy
+  plan?: SubscriptionPlan | null;
+}
+
+/**
+ * Extends, sets the expiration date of, upgrades to lifetime or expires the
+ * subscription of a user with the same side-effects as editing it from the
+ * user settings. The user is saved and the change recorded in their history.
+ *
+ * @throws Error if the action does not apply to the current subscription
+ */
+export const updateSubscription = async (
+  user: User,
+  { action, days, expirationDate, plan }: SubscriptionUpdate,
+  { actor, note }: Pick<SubscriptionEventOptions, 'actor' | 'note'> = {}
+): Promise<void> => {
+  const previousStatus = user.subscriptionStatus;
+  const previousExpirationDate = user.subscriptionExpirationDate;
+  const wasRunning = isSubscriptionRunning(previousStatus);
+  const planChanged =
+    plan !== undefined &&
+    (plan?.id ?? null) !== (user.subscriptionPlan?.id ?? null);
+  let eventType: SubscriptionEventType;
+
+  if (planChanged) {
+    user.subscriptionPlan = plan;
+  }
+
+  switch (action) {
+    case 'extend': {
+      if (previousStatus === 'lifetime') {
+        throw new Error('Lifetime subscriptions cannot be extended.');
+      }
+
+      const now = new Date();
+      const newExpirationDate =
+        wasRunning &&
+        previousExpirationDate &&
+        new Date(previousExpirationDate) > now
+          ? new Date(previousExpirationDate)
+          : now;
+      newExpirationDate.setDate(newExpirationDate.getDate() + (days ?? 0));
+
+      user.subscriptionStatus = 'active';
+      user.subscriptionExpirationDate = newExpirationDate;
+      eventType = wasRunning
+        ? SubscriptionEventType.EXTENSION
+        : SubscriptionEventType.GRANT;
+      break;
+    }
+    case 'set_expiry':
+      user.subscriptionStatus = 'active';
+      user.subscriptionExpirationDate = expirationDate ?? null;
+      eventType = !wasRunning
+        ? SubscriptionEventType.GRANT
+        : previousExpirationDate &&
+          expirationDate &&
+          expirationDate > new Date(previousExpirationDate)
+        ? SubscriptionEventType.EXTENSION
+        : SubscriptionEventType.MANUAL_EDIT;
+      break;
+    case 'lifetime':
+      if (previousStatus === 'lifetime') {
+        throw new Error('Subscription is already lifetime.');
+      }
+
+      user.subscriptionStatus = 'lifetime';
+      user.subscriptionExpirationDate = null;
+      eventType = SubscriptionEventType.LIFETIME;
+      break;
+    case 'expire':
+      if (!wasRunning) {
+        throw new Error('Subscription is not active.');
+      }
+
+      await expireSubscription(user);
+      user.subscriptionStatus = 'expired';
+      user.subscriptionExpirationDate = new Date();
+      eventType = SubscriptionEventType.EXPIRY;
+      break;
+  }
+
+  if (action !== 'expire' && !wasRunning) {
+    await reactivateSubscription(user, !planChanged);
+  } else if (action !== 'expire' && planChanged) {
+    await applySubscriptionPlan(
+      user,
+      user.subscriptionPlan,
+      PolicyTemplateId.ACTIVE
+    );
+  }
+
+  await getRepository(User).save(user);
+  await recordSubscriptionEvent(user, eventType, {
+    previousStatus,
+    previousExpirationDate,
+    actor,
+    note,
+  });
+
+  if (eventType === SubscriptionEventType.EXPIRY) {
+    sendSubscriptionNotification(Notification.SUBSCRIPTION_EXPIRED, user);
+  } else if (eventType !== SubscriptionEventType.MANUAL_EDIT) {
+    sendSubscriptionNotification(Notification.SUBSCRIPTION_RENEWED, user);
+  }
+};
+
+// Postgres reports unique violations with code 23505, sqlite as a
+// SQLITE_CONSTRAINT error naming the UNIQUE constraint
+const isUniqueViolation = (e: unknown): boolean =>
+  e instanceof QueryFailedError &&
+  (e.driverError.code === '23505' ||
+    (e.driverError.code === 'SQLITE_CONSTRAINT' &&
+      e.message.includes('UNIQUE constraint failed')));
+
+export const normalizeVoucherCode = (code: string): string =>
+  code.trim().toUpperCase();
+
+/**
+ * Redeems a voucher code for a user, activating or extending their subscription
+ * with the same side-effects as an admin edit.
+ *
+ * @throws VoucherRedemptionError if the code cannot be redeemed by this user
+ */
+export const redeemSubscriptionVoucher = async (
+  user: User,
+  code: string
+): Promise<SubscriptionVoucher> => {
+  const voucherRepository = getRepository(SubscriptionVoucher);
+  const redemptionRepository = getRepository(SubscriptionVoucherRedemption);
+
+  const voucher = await voucherRepository.findOne({
+    where: { code: normalizeVoucherCode(code) },
+  });
+
+  if (!voucher) {
+    throw new VoucherRedemptionError('Voucher code not found.');
+  }
+
+  if (voucher.expiresAt && new Date(voucher.expiresAt) < new Date()) {
+    throw new VoucherRedemptionError('This voucher code has expired.');
+  }
+
+  const previousRedemption = await redemptionRepository.findOne({
+    where: { voucher: { id: voucher.id }, user: { id: user.id } },
+  });
+
+  if (previousRedemption) {
+    throw new VoucherRedemptionError(
+      'You have already redeemed this voucher code.'
+    );
+  }
+
+  if (user.subscriptionStatus === 'lifetime') {
+    throw new VoucherRedemptionError(
+      'You already have a lifetime subscription.'
+    );
+  }
+
+  // Claim a use before changing the subscription so that concurrent
+  // redemptions cannot go over the limit
+  const { affected } = await voucherRepository
+    .createQueryBuilder()
+    .update(SubscriptionVoucher)
+    .set({ usesCount: () => '"usesCount" + 1' })
+    .where('id = :id', { id: voucher.id })
+    .andWhere('("maxUses" IS NULL OR "usesCount" < "maxUses")')
+    .execute();
+
+  if (!affected) {
+    throw new VoucherRedemptionError(
+      'This voucher code has already been used.'
+    );
+  }
+
+  let redemption: SubscriptionVoucherRedemption;
+
+  try {
+    redemption = await redemptionRepository.save(
+      new SubscriptionVoucherRedemption({ voucher, user })
+    );
+  } catch (e) {
+    await voucherRepository.decrement({ id: voucher.id }, 'usesCount', 1);
+
+    if (isUniqueViolation(e)) {
+      throw new VoucherRedemptionError(
+        'You have already redeemed this voucher code.'
+      );
+    }
+
+    throw e;
+  }
+
+  try {
+    await updateSubscription(
+      user,
+      voucher.durationDays != null
+        ? { action: 'extend', days: voucher.durationDays }
+        : { action: 'lifetime' },
+      { actor: user, note: `Redeemed voucher ${voucher.code}` }
+    );
+  } catch (e) {
+    await redemptionRepository.remove(redemption);
+    await voucherRepository.decrement({ id: voucher.id }, 'usesCount', 1);
+    throw e;
+  }
+
+  logger.info(`User ${user.id} redeemed voucher ${voucher.code}`, {
+    label: 'Subscriptions',
+  });
+
+  return voucher;
+};
 
 const subscriptionsSync = {
   async run() {
     try {
-      const settings = getSettings();
       const userRepository = getRepository(User);
 
       const users = await userRepository.find({
-        where: { subscriptionStatus: 'active' },
+        where: { subscriptionStatus: In(['active', 'grace']) },
       });
 
       const now = new Date();
-      const hostname = getHostname();
-      const jellyfinClient = new JellyfinAPI(
-        hostname,
-        settings.jellyfin.apiKey
-      );
+      const expiredProfile = await getExpiredProfile();
+
+      if (!expiredProfile) {
+        logger.warn(
+          'No expired subscription profile is configured. Permissions of expired users will not be changed.',
+          { label: 'Subscriptions' }
+        );
+      }
 
       for (const user of users) {
         if (
-          user.subscriptionExpirationDate &&
-          new Date(user.subscriptionExpirationDate) < now
+          !user.subscriptionExpirationDate ||
+          new Date(user.subscriptionExpirationDate) >= now
         ) {
-          user.subscriptionStatus = 'expired';
-          user.permissions = 1277181952;
-
-          if (user.jellyfinUserId) {
-            try {
-              await jellyfinClient.updateUserPolicy(user.jellyfinUserId, {
-                IsAdministrator: false,
-                IsDisabled: false,
-                EnableUserPreferenceAccess: true,
-                EnableLiveTvAccess: false,
-                EnableLiveTvManagement: false,
-                EnableRemoteAccess: true,
-                EnableMediaPlayback: false,
-                EnableVideoPlayback: false,
-                EnableAudioPlayback: false,
-                EnableMediaConversion: false,
-                EnableVideoPlaybackTranscoding: false,
-                EnableAudioPlaybackTranscoding: false,
-                EnablePlaybackRemuxing: false,
-                EnableContentDownloading: false,
-                PasswordResetProviderId:
-                  'Jellyfin.Server.Implementations.Users.DefaultAuthenticationProvider',
-                AuthenticationProviderId:
-                  'Jellyfin.Server.Implementations.Users.DefaultPasswordResetProvider',
-              });
-              logger.info(`Updated Jellyfin permissions for user ${user.id}`);
-            } catch (error) {
-              logger.error('Failed to update Jellyfin permissions', {
-                userId: user.id,
-                errorMessage: error.message,
-              });
-            }
+          continue;
+        }
+
+        const previousStatus = user.subscriptionStatus;
+
+        // Users keep their access during the grace period, only a warning is shown
+        if (getGracePeriodEndDate(user.subscriptionExpirationDate) > now) {
+          if (previousStatus === 'active') {
+            user.subscriptionStatus = 'grace';
+            await userRepository.save(user);
+            await recordSubscriptionEvent(user, SubscriptionEventType.EXPIRY, {
+              previousStatus,
+              previousExpirationDate: user.subscriptionExpirationDate,
+            });
+            logger.info(
+              `User ${user.id} subscription expired, grace period started`,
+              { label: 'Subscriptions' }
+            );
           }
 
-          await userRepository.save(user);
-          logger.info(
-            `User ${user.id} subscription expired, permissions updated`
-          );
+          continue;
         }
+
+        try {
+          await expireSubscription(user, expiredProfile);
+          logger.info(`Updated media server access for user ${user.id}`, {
+            label: 'Subscriptions',
+          });
+        } catch (error) {
+          logger.error('Failed to update media server access', {
+            label: 'Subscriptions',
+            userId: user.id,
+            errorMessage: error.message,
+          });
+        }
+
+        user.subscriptionStatus = 'expired';
+        await userRepository.save(user);
+        await recordSubscriptionEvent(user, SubscriptionEventType.EXPIRY, {
+          previousStatus,
+          previousExpirationDate: user.subscriptionExpirationDate,
+        });
+        logger.info(
+          `User ${user.id} subscription expired, permissions updated`,
+          { label: 'Subscriptions' }
+        );
+
+        sendSubscriptionNotification(Notification.SUBSCRIPTION_EXPIRED, user);
       }
     } catch (error) {
       logger.error('Failed to run Subscription Sync job', {
@@ -76,4 +740,82 @@ const subscriptionsSync = {
   },
 };
 
+export const subscriptionReminders = {
+  async run() {
+    const { subscriptionReminderDays } = getSettings().main;
+
+    if (!subscriptionReminderDays) {
+      return;
+    }
+
+    try {
+      const userRepository = getRepository(User);
+
+      const users = await userRepository.find({
+        where: { subscriptionStatus: 'active' },
+        order: { subscriptionExpirationDate: 'ASC' },
+      });
+
+      const now = new Date();
+      const reminderDate = new Date(now);
+      reminderDate.setDate(reminderDate.getDate() + subscriptionReminderDays);
+
+      const expiringUsers = users.filter(
+        (user) =>
+          user.subscriptionExpirationDate &&
+          new Date(user.subscriptionExpirationDate) > now &&
+          new Date(user.subscriptionExpirationDate) <= reminderDate
+      );
+
+      for (const user of expiringUsers) {
+        if (
+          user.subscriptionReminderSentFor &&
+          user.subscriptionExpirationDate &&
+          new Date(user.subscriptionReminderSentFor).getTime() ===
+            new Date(user.subscriptionExpirationDate).getTime()
+        ) {
+          continue;
+        }
+
+        sendSubscriptionNotification(Notification.SUBSCRIPTION_EXPIRING, user);
+
+        user.subscriptionReminderSentFor = user.subscriptionExpirationDate;
+        await userRepository.save(user);
+      }
+
+      if (expiringUsers.length > 0) {
+        notificationManager.sendNotification(
+          Notification.SUBSCRIPTION_EXPIRING,
+          {
+            event: 'Subscriptions Expiring Soon',
+            subject: `${expiringUsers.length} ${
+              expiringUsers.length === 1 ? 'account expires' : 'accounts expire'
+            } within ${subscriptionReminderDays} ${
+              subscriptionReminderDays === 1 ? 'day' : 'days'
+            }`,
+            extra: expiringUsers.map((user) => ({
+              name: user.displayName,
+              value: formatExpirationDate(
+                user.subscriptionExpirationDate as Date
+              ),
+            })),
+            notifyAdmin: true,
+            notifySystem: true,
+          }
+        );
+      }
+
+      logger.info(
+        `Found ${expiringUsers.length} subscription(s) expiring within ${subscriptionReminderDays} day(s)`,
+        { label: 'Subscriptions' }
+      );
+    } catch (error) {
+      logger.error('Failed to run Subscription Reminders job', {
+        label: 'Subscriptions',
+        errorMessage: error.message,
+      });
+    }
+  },
+};
+
 export default subscriptionsSync;
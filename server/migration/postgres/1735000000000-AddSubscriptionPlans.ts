@@ -0,0 +1,46 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSubscriptionPlans1735000000000 implements MigrationInterface {
+  name = 'AddSubscriptionPlans1735000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Subscription columns of the user that were only ever added on sqlite
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD COLUMN IF NOT EXISTS "subscriptionStatus" character varying`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD COLUMN IF NOT EXISTS "subscriptionExpirationDate" TIMESTAMP WITH TIME ZONE`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD COLUMN IF NOT EXISTS "suspiciousActivityCount" integer NOT NULL DEFAULT '0'`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "subscription_plan" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "durationDays" integer, "permissions" integer NOT NULL DEFAULT '0', "movieQuotaLimit" integer, "movieQuotaDays" integer, "tvQuotaLimit" integer, "tvQuotaDays" integer, "jellyfinPolicy" text, "isExpiredProfile" boolean NOT NULL DEFAULT false, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_dd65caea9ccb11cc4946f84494d" UNIQUE ("name"), CONSTRAINT "PK_5fde988e5d9b9a522d70ebec27c" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "subscriptionPlanId" integer`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD CONSTRAINT "FK_0c68cae8711d565b9d90ad068c8" FOREIGN KEY ("subscriptionPlanId") REFERENCES "subscription_plan"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP CONSTRAINT "FK_0c68cae8711d565b9d90ad068c8"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP COLUMN "subscriptionPlanId"`
+    );
+    await queryRunner.query(`DROP TABLE "subscription_plan"`);
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP COLUMN "suspiciousActivityCount"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP COLUMN "subscriptionExpirationDate"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP COLUMN "subscriptionStatus"`
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserSubscriptionSnapshot1735200000000
+  implements MigrationInterface
+{
+  name = 'AddUserSubscriptionSnapshot1735200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "subscriptionSnapshot" text`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP COLUMN "subscriptionSnapshot"`
+    );
+  }
+}
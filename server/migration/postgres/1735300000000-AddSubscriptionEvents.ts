@@ -0,0 +1,27 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSubscriptionEvents1735300000000 implements MigrationInterface {
+  name = 'AddSubscriptionEvents1735300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "subscription_event" ("id" SERIAL NOT NULL, "type" character varying NOT NULL, "previousStatus" character varying, "newStatus" character varying, "previousExpirationDate" TIMESTAMP WITH TIME ZONE, "newExpirationDate" TIMESTAMP WITH TIME ZONE, "planName" character varying, "note" text, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "userId" integer, "actorId" integer, CONSTRAINT "PK_878b79ef455c948db7f94615990" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "subscription_event" ADD CONSTRAINT "FK_b72a35846f9c15b46b8654c33aa" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "subscription_event" ADD CONSTRAINT "FK_ad608ac80df4d7213aec1424137" FOREIGN KEY ("actorId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "subscription_event" DROP CONSTRAINT "FK_ad608ac80df4d7213aec1424137"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "subscription_event" DROP CONSTRAINT "FK_b72a35846f9c15b46b8654c33aa"`
+    );
+    await queryRunner.query(`DROP TABLE "subscription_event"`);
+  }
+}
@@ -0,0 +1,39 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSubscriptionVouchers1735400000000
+  implements MigrationInterface
+{
+  name = 'AddSubscriptionVouchers1735400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "subscription_voucher" ("id" SERIAL NOT NULL, "code" character varying NOT NULL, "durationDays" integer, "maxUses" integer, "usesCount" integer NOT NULL DEFAULT '0', "expiresAt" TIMESTAMP WITH TIME ZONE, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "createdById" integer, CONSTRAINT "UQ_df8ddcfef3c1aed1ff7a91a61fd" UNIQUE ("code"), CONSTRAINT "PK_590c2d29646dc55d6b552cff3ce" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "subscription_voucher_redemption" ("id" SERIAL NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "voucherId" integer, "userId" integer, CONSTRAINT "PK_844ec87bfa62888c92737730d59" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "subscription_voucher" ADD CONSTRAINT "FK_ecaec9d22fb727a7994aa5b668a" FOREIGN KEY ("createdById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "subscription_voucher_redemption" ADD CONSTRAINT "FK_4c33c26af5e97ec04715c4cec96" FOREIGN KEY ("voucherId") REFERENCES "subscription_voucher"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "subscription_voucher_redemption" ADD CONSTRAINT "FK_157a0df4e0da8634a27587b6e24" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "subscription_voucher_redemption" DROP CONSTRAINT "FK_157a0df4e0da8634a27587b6e24"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "subscription_voucher_redemption" DROP CONSTRAINT "FK_4c33c26af5e97ec04715c4cec96"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "subscription_voucher" DROP CONSTRAINT "FK_ecaec9d22fb727a7994aa5b668a"`
+    );
+    await queryRunner.query(`DROP TABLE "subscription_voucher_redemption"`);
+    await queryRunner.query(`DROP TABLE "subscription_voucher"`);
+  }
+}
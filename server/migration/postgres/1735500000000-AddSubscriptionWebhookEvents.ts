@@ -0,0 +1,23 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSubscriptionWebhookEvents1735500000000
+  implements MigrationInterface
+{
+  name = 'AddSubscriptionWebhookEvents1735500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "subscription_webhook_event" ("id" SERIAL NOT NULL, "eventId" character varying NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "userId" integer, CONSTRAINT "UQ_f72a98d5da4520d50c6621697f4" UNIQUE ("eventId"), CONSTRAINT "PK_5a326af51c919559a5bcc77fa4d" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "subscription_webhook_event" ADD CONSTRAINT "FK_454e2e645ff90f43418546ad657" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "subscription_webhook_event" DROP CONSTRAINT "FK_454e2e645ff90f43418546ad657"`
+    );
+    await queryRunner.query(`DROP TABLE "subscription_webhook_event"`);
+  }
+}
@@ -0,0 +1,21 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSuspiciousActivity1735600000000 implements MigrationInterface {
+  name = 'AddSuspiciousActivity1735600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "suspicious_activity" ("id" SERIAL NOT NULL, "addressCount" integer NOT NULL, "deviceCount" integer NOT NULL, "sessions" text NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "userId" integer, CONSTRAINT "PK_bb110b78772614e7c619a7bb793" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "suspicious_activity" ADD CONSTRAINT "FK_52b4c215a46e56b032e87d1746c" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "suspicious_activity" DROP CONSTRAINT "FK_52b4c215a46e56b032e87d1746c"`
+    );
+    await queryRunner.query(`DROP TABLE "suspicious_activity"`);
+  }
+}
@@ -0,0 +1,23 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMaxActiveSessions1735700000000 implements MigrationInterface {
+  name = 'AddMaxActiveSessions1735700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "maxActiveSessions" integer`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "subscription_plan" ADD "maxActiveSessions" integer`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "subscription_plan" DROP COLUMN "maxActiveSessions"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP COLUMN "maxActiveSessions"`
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSubscriptionPlanPolicyTemplate1735800000000
+  implements MigrationInterface
+{
+  name = 'AddSubscriptionPlanPolicyTemplate1735800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "subscription_plan" ADD "policyTemplate" character varying`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "subscription_plan" DROP COLUMN "policyTemplate"`
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSubscriptionPlanLibraryAccess1735900000000
+  implements MigrationInterface
+{
+  name = 'AddSubscriptionPlanLibraryAccess1735900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "subscription_plan" ADD "libraryAccess" text`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "subscription_plan" DROP COLUMN "libraryAccess"`
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddInvites1736000000000 implements MigrationInterface {
+  name = 'AddInvites1736000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "invite" ("id" SERIAL NOT NULL, "code" character varying NOT NULL, "maxUses" integer, "usesCount" integer NOT NULL DEFAULT '0', "expiresAt" TIMESTAMP WITH TIME ZONE, "permissions" integer NOT NULL DEFAULT '0', "subscriptionDays" integer, "libraryAccess" text, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "subscriptionPlanId" integer, "createdById" integer, CONSTRAINT "UQ_ffbbc5bbb052814e22a0c525ff4" UNIQUE ("code"), CONSTRAINT "PK_fc9fa190e5a3c5d80604a4f63e1" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "invite" ADD CONSTRAINT "FK_b63248751dac91db04026679276" FOREIGN KEY ("subscriptionPlanId") REFERENCES "subscription_plan"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "invite" ADD CONSTRAINT "FK_1fd4ebf122b26dc6c7245e544f3" FOREIGN KEY ("createdById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "invite" DROP CONSTRAINT "FK_1fd4ebf122b26dc6c7245e544f3"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "invite" DROP CONSTRAINT "FK_b63248751dac91db04026679276"`
+    );
+    await queryRunner.query(`DROP TABLE "invite"`);
+  }
+}
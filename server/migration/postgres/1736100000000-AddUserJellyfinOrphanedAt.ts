@@ -0,0 +1,19 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserJellyfinOrphanedAt1736100000000
+  implements MigrationInterface
+{
+  name = 'AddUserJellyfinOrphanedAt1736100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD "jellyfinOrphanedAt" TIMESTAMP WITH TIME ZONE`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP COLUMN "jellyfinOrphanedAt"`
+    );
+  }
+}
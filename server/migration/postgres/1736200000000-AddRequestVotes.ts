@@ -0,0 +1,33 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRequestVotes1736200000000 implements MigrationInterface {
+  name = 'AddRequestVotes1736200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "request_vote" ("id" SERIAL NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "requestId" integer, "userId" integer, CONSTRAINT "UNIQUE_REQUEST_VOTE" UNIQUE ("requestId", "userId"), CONSTRAINT "PK_bf3cbbcfc66a5b72e2dc30d787d" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_request" ADD "voteCount" integer NOT NULL DEFAULT '0'`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "request_vote" ADD CONSTRAINT "FK_f5d5421286bafd4e0a181dc441f" FOREIGN KEY ("requestId") REFERENCES "media_request"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "request_vote" ADD CONSTRAINT "FK_9d83b3fa03dc1d15be2ad380e6d" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "request_vote" DROP CONSTRAINT "FK_9d83b3fa03dc1d15be2ad380e6d"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "request_vote" DROP CONSTRAINT "FK_f5d5421286bafd4e0a181dc441f"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_request" DROP COLUMN "voteCount"`
+    );
+    await queryRunner.query(`DROP TABLE "request_vote"`);
+  }
+}
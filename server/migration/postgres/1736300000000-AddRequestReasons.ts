@@ -0,0 +1,19 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRequestReasons1736300000000 implements MigrationInterface {
+  name = 'AddRequestReasons1736300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "media_request" ADD "reason" text`);
+    await queryRunner.query(
+      `ALTER TABLE "media_request" ADD "declineReason" text`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "media_request" DROP COLUMN "declineReason"`
+    );
+    await queryRunner.query(`ALTER TABLE "media_request" DROP COLUMN "reason"`);
+  }
+}
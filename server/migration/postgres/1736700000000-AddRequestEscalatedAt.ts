@@ -0,0 +1,17 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRequestEscalatedAt1736700000000 implements MigrationInterface {
+  name = 'AddRequestEscalatedAt1736700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "media_request" ADD "escalatedAt" TIMESTAMP WITH TIME ZONE`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "media_request" DROP COLUMN "escalatedAt"`
+    );
+  }
+}
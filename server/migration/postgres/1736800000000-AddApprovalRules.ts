@@ -0,0 +1,27 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddApprovalRules1736800000000 implements MigrationInterface {
+  name = 'AddApprovalRules1736800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "approval_rule" ("id" SERIAL NOT NULL, "name" character varying NOT NULL, "action" character varying NOT NULL, "mediaType" character varying, "minVoteAverage" double precision, "maxVoteAverage" double precision, "minReleaseYear" integer, "maxReleaseYear" integer, "minRuntime" integer, "maxRuntime" integer, "minSeasonCount" integer, "maxSeasonCount" integer, "minDeclineRate" integer, "maxDeclineRate" integer, "genre" character varying, "language" character varying, "certification" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_701d587e020637511e1d04312c9" PRIMARY KEY ("id"))`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_request" ADD "approvalRuleId" integer`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_request" ADD CONSTRAINT "FK_51c956166d9624da2ca32d7ebc9" FOREIGN KEY ("approvalRuleId") REFERENCES "approval_rule"("id") ON DELETE SET NULL ON UPDATE NO ACTION`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "media_request" DROP CONSTRAINT "FK_51c956166d9624da2ca32d7ebc9"`
+    );
+    await queryRunner.query(
+      `ALTER TABLE "media_request" DROP COLUMN "approvalRuleId"`
+    );
+    await queryRunner.query(`DROP TABLE "approval_rule"`);
+  }
+}
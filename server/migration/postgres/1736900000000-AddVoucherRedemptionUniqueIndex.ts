@@ -0,0 +1,17 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddVoucherRedemptionUniqueIndex1736900000000
+  implements MigrationInterface
+{
+  name = 'AddVoucherRedemptionUniqueIndex1736900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UNIQUE_VOUCHER_REDEMPTION" ON "subscription_voucher_redemption" ("voucherId", "userId") `
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."UNIQUE_VOUCHER_REDEMPTION"`);
+  }
+}
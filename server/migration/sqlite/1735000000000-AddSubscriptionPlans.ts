@@ -0,0 +1,39 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+import { TableColumn, TableForeignKey } from 'typeorm';
+
+export class AddSubscriptionPlans1735000000000 implements MigrationInterface {
+  name = 'AddSubscriptionPlans1735000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "subscription_plan" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar NOT NULL, "durationDays" integer, "permissions" integer NOT NULL DEFAULT (0), "movieQuotaLimit" integer, "movieQuotaDays" integer, "tvQuotaLimit" integer, "tvQuotaDays" integer, "jellyfinPolicy" text, "isExpiredProfile" boolean NOT NULL DEFAULT (0), "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_dd65caea9ccb11cc4946f84494d" UNIQUE ("name"))`
+    );
+    // Keep the permissions previously applied to expired users as the default expired profile
+    await queryRunner.query(
+      `INSERT INTO "subscription_plan" ("name", "permissions", "isExpiredProfile") VALUES ('Expired', 1277181952, 1)`
+    );
+
+    await queryRunner.addColumn(
+      'user',
+      new TableColumn({
+        name: 'subscriptionPlanId',
+        type: 'integer',
+        isNullable: true,
+      })
+    );
+    await queryRunner.createForeignKey(
+      'user',
+      new TableForeignKey({
+        columnNames: ['subscriptionPlanId'],
+        referencedTableName: 'subscription_plan',
+        referencedColumnNames: ['id'],
+        onDelete: 'SET NULL',
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('user', 'subscriptionPlanId');
+    await queryRunner.query(`DROP TABLE "subscription_plan"`);
+  }
+}
@@ -0,0 +1,15 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSubscriptionEvents1735300000000 implements MigrationInterface {
+  name = 'AddSubscriptionEvents1735300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "subscription_event" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "type" varchar NOT NULL, "previousStatus" varchar, "newStatus" varchar, "previousExpirationDate" datetime, "newExpirationDate" datetime, "planName" varchar, "note" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "userId" integer, "actorId" integer, CONSTRAINT "FK_b72a35846f9c15b46b8654c33aa" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_ad608ac80df4d7213aec1424137" FOREIGN KEY ("actorId") REFERENCES "user" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "subscription_event"`);
+  }
+}
@@ -0,0 +1,21 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSubscriptionVouchers1735400000000
+  implements MigrationInterface
+{
+  name = 'AddSubscriptionVouchers1735400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "subscription_voucher" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "code" varchar NOT NULL, "durationDays" integer, "maxUses" integer, "usesCount" integer NOT NULL DEFAULT (0), "expiresAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "createdById" integer, CONSTRAINT "UQ_df8ddcfef3c1aed1ff7a91a61fd" UNIQUE ("code"), CONSTRAINT "FK_ecaec9d22fb727a7994aa5b668a" FOREIGN KEY ("createdById") REFERENCES "user" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`
+    );
+    await queryRunner.query(
+      `CREATE TABLE "subscription_voucher_redemption" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "voucherId" integer, "userId" integer, CONSTRAINT "FK_4c33c26af5e97ec04715c4cec96" FOREIGN KEY ("voucherId") REFERENCES "subscription_voucher" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_157a0df4e0da8634a27587b6e24" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "subscription_voucher_redemption"`);
+    await queryRunner.query(`DROP TABLE "subscription_voucher"`);
+  }
+}
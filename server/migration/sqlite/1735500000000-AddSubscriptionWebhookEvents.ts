@@ -0,0 +1,17 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSubscriptionWebhookEvents1735500000000
+  implements MigrationInterface
+{
+  name = 'AddSubscriptionWebhookEvents1735500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "subscription_webhook_event" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "eventId" varchar NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "userId" integer, CONSTRAINT "UQ_f72a98d5da4520d50c6621697f4" UNIQUE ("eventId"), CONSTRAINT "FK_454e2e645ff90f43418546ad657" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "subscription_webhook_event"`);
+  }
+}
@@ -0,0 +1,15 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSuspiciousActivity1735600000000 implements MigrationInterface {
+  name = 'AddSuspiciousActivity1735600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "suspicious_activity" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "addressCount" integer NOT NULL, "deviceCount" integer NOT NULL, "sessions" text NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "userId" integer, CONSTRAINT "FK_52b4c215a46e56b032e87d1746c" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "suspicious_activity"`);
+  }
+}
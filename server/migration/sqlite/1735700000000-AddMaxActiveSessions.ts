@@ -0,0 +1,28 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+import { TableColumn } from 'typeorm';
+
+export class AddMaxActiveSessions1735700000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'user',
+      new TableColumn({
+        name: 'maxActiveSessions',
+        type: 'integer',
+        isNullable: true,
+      })
+    );
+    await queryRunner.addColumn(
+      'subscription_plan',
+      new TableColumn({
+        name: 'maxActiveSessions',
+        type: 'integer',
+        isNullable: true,
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('subscription_plan', 'maxActiveSessions');
+    await queryRunner.dropColumn('user', 'maxActiveSessions');
+  }
+}
@@ -0,0 +1,21 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+import { TableColumn } from 'typeorm';
+
+export class AddSubscriptionPlanPolicyTemplate1735800000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'subscription_plan',
+      new TableColumn({
+        name: 'policyTemplate',
+        type: 'varchar',
+        isNullable: true,
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('subscription_plan', 'policyTemplate');
+  }
+}
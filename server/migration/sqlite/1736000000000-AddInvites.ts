@@ -0,0 +1,15 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddInvites1736000000000 implements MigrationInterface {
+  name = 'AddInvites1736000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "invite" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "code" varchar NOT NULL, "maxUses" integer, "usesCount" integer NOT NULL DEFAULT (0), "expiresAt" datetime, "permissions" integer NOT NULL DEFAULT (0), "subscriptionDays" integer, "libraryAccess" text, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "subscriptionPlanId" integer, "createdById" integer, CONSTRAINT "UQ_ffbbc5bbb052814e22a0c525ff4" UNIQUE ("code"), CONSTRAINT "FK_b63248751dac91db04026679276" FOREIGN KEY ("subscriptionPlanId") REFERENCES "subscription_plan" ("id") ON DELETE SET NULL ON UPDATE NO ACTION, CONSTRAINT "FK_1fd4ebf122b26dc6c7245e544f3" FOREIGN KEY ("createdById") REFERENCES "user" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "invite"`);
+  }
+}
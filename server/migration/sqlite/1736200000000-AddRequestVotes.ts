@@ -0,0 +1,25 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+import { TableColumn } from 'typeorm';
+
+export class AddRequestVotes1736200000000 implements MigrationInterface {
+  name = 'AddRequestVotes1736200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "request_vote" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "requestId" integer, "userId" integer, CONSTRAINT "UNIQUE_REQUEST_VOTE" UNIQUE ("requestId", "userId"), CONSTRAINT "FK_f5d5421286bafd4e0a181dc441f" FOREIGN KEY ("requestId") REFERENCES "media_request" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_9d83b3fa03dc1d15be2ad380e6d" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`
+    );
+    await queryRunner.addColumn(
+      'media_request',
+      new TableColumn({
+        name: 'voteCount',
+        type: 'integer',
+        default: 0,
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('media_request', 'voteCount');
+    await queryRunner.query(`DROP TABLE "request_vote"`);
+  }
+}
@@ -0,0 +1,26 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+import { TableColumn } from 'typeorm';
+
+export class AddRequestReasons1736300000000 implements MigrationInterface {
+  name = 'AddRequestReasons1736300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('media_request', [
+      new TableColumn({
+        name: 'reason',
+        type: 'text',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'declineReason',
+        type: 'text',
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('media_request', 'declineReason');
+    await queryRunner.dropColumn('media_request', 'reason');
+  }
+}
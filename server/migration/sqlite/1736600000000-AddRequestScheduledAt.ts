@@ -0,0 +1,21 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+import { TableColumn } from 'typeorm';
+
+export class AddRequestScheduledAt1736600000000 implements MigrationInterface {
+  name = 'AddRequestScheduledAt1736600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'media_request',
+      new TableColumn({
+        name: 'scheduledAt',
+        type: 'datetime',
+        isNullable: true,
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('media_request', 'scheduledAt');
+  }
+}
@@ -0,0 +1,21 @@
+import type { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddVoucherRedemptionUniqueIndex1736900000000
+  implements MigrationInterface
+{
+  name = 'AddVoucherRedemptionUniqueIndex1736900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Concurrent redemptions could previously record the same user twice
+    await queryRunner.query(
+      `DELETE FROM "subscription_voucher_redemption" WHERE "id" NOT IN (SELECT MIN("id") FROM "subscription_voucher_redemption" GROUP BY "voucherId", "userId")`
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UNIQUE_VOUCHER_REDEMPTION" ON "subscription_voucher_redemption" ("voucherId", "userId") `
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "UNIQUE_VOUCHER_REDEMPTION"`);
+  }
+}
@@ -0,0 +1,132 @@
+import { ApprovalRuleAction } from '@server/constants/approvalRule';
+import { getRepository } from '@server/datasource';
+import ApprovalRule from '@server/entity/ApprovalRule';
+import type {
+  ApprovalRuleBody,
+  ApprovalRuleResultsResponse,
+} from '@server/interfaces/api/approvalRuleInterfaces';
+import { Router } from 'express';
+
+const approvalRuleRoutes = Router();
+
+const isValidRule = (body: ApprovalRuleBody) =>
+  !!body.name?.trim() &&
+  Object.values(ApprovalRuleAction).includes(body.action);
+
+const getRuleValues = (body: ApprovalRuleBody): Partial<ApprovalRule> => ({
+  name: body.name.trim(),
+  action: body.action,
+  mediaType: body.mediaType ?? null,
+  minVoteAverage: body.minVoteAverage ?? null,
+  maxVoteAverage: body.maxVoteAverage ?? null,
+  minReleaseYear: body.minReleaseYear ?? null,
+  maxReleaseYear: body.maxReleaseYear ?? null,
+  minRuntime: body.minRuntime ?? null,
+  maxRuntime: body.maxRuntime ?? null,
+  minSeasonCount: body.minSeasonCount ?? null,
+  maxSeasonCount: body.maxSeasonCount ?? null,
+  minDeclineRate: body.minDeclineRate ?? null,
+  maxDeclineRate: body.maxDeclineRate ?? null,
+  genre: body.genre,
+  language: body.language,
+  certification: body.certification,
+});
+
+approvalRuleRoutes.get('/', async (_req, res, next) => {
+  const approvalRuleRepository = getRepository(ApprovalRule);
+
+  try {
+    const rules = await approvalRuleRepository.find({
+      order: { id: 'ASC' },
+    });
+
+    return res.status(200).json(rules as ApprovalRuleResultsResponse);
+  } catch (e) {
+    next({ status: 500, message: e.message });
+  }
+});
+
+approvalRuleRoutes.post<Record<string, string>, ApprovalRule, ApprovalRuleBody>(
+  '/',
+  async (req, res, next) => {
+    if (!isValidRule(req.body)) {
+      return next({
+        status: 400,
+        message: 'A name and a valid action are required.',
+      });
+    }
+
+    const approvalRuleRepository = getRepository(ApprovalRule);
+
+    try {
+      const rule = new ApprovalRule(getRuleValues(req.body));
+
+      const newRule = await approvalRuleRepository.save(rule);
+
+      return res.status(200).json(newRule);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+approvalRuleRoutes.put<{ ruleId: string }, ApprovalRule, ApprovalRuleBody>(
+  '/:ruleId',
+  async (req, res, next) => {
+    if (!isValidRule(req.body)) {
+      return next({
+        status: 400,
+        message: 'A name and a valid action are required.',
+      });
+    }
+
+    const approvalRuleRepository = getRepository(ApprovalRule);
+
+    try {
+      const rule = await approvalRuleRepository.findOne({
+        where: {
+          id: Number(req.params.ruleId),
+        },
+      });
+
+      if (!rule) {
+        return next({ status: 404, message: 'Approval Rule not found.' });
+      }
+
+      Object.assign(rule, getRuleValues(req.body));
+
+      const newRule = await approvalRuleRepository.save(rule);
+
+      return res.status(200).json(newRule);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+approvalRuleRoutes.delete<{ ruleId: string }, ApprovalRule>(
+  '/:ruleId',
+  async (req, res, next) => {
+    const approvalRuleRepository = getRepository(ApprovalRule);
+
+    try {
+      const rule = await approvalRuleRepository.findOne({
+        where: {
+          id: Number(req.params.ruleId),
+        },
+      });
+
+      if (!rule) {
+        return next({ status: 404, message: 'Approval Rule not found.' });
+      }
+
+      await approvalRuleRepository.remove(rule);
+
+      return res.status(200).json(rule);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+export default approvalRuleRoutes;
@@ -40,6 +40,10 @@ authRoutes.get('/me', isAuthenticated(), async (req, res) => {
     logger.warn(`User ${user.username} has no valid email address`);
   }
 
+  if (user.subscriptionStatus === 'grace') {
+    user.warnings.push('subscriptionGracePeriod');
+  }
+
   return res.status(200).json(user);
 });
 
@@ -762,6 +766,37 @@ authRoutes.post('/reset-password/:guid', async (req, res, next) => {
       message: 'Invalid password reset link.',
     });
   }
+
+  // Media server users sign in with their Jellyfin or Emby password, so set
+  // the new password there too. The link stays valid if this fails.
+  if (
+    (user.userType === UserType.JELLYFIN || user.userType === UserType.EMBY) &&
+    user.jellyfinUserId
+  ) {
+    try {
+      const jellyfinClient = new JellyfinAPI(
+        getHostname(),
+        getSettings().jellyfin.apiKey
+      );
+      await jellyfinClient.resetUserPassword(
+        user.jellyfinUserId,
+        req.body.password
+      );
+    } catch (e) {
+      logger.error('Failed to reset media server password', {
+        label: 'API',
+        ip: req.ip,
+        guid: req.params.guid,
+        email: user.email,
+        errorMessage: e.message,
+      });
+      return next({
+        status: 500,
+        message: 'Failed to reset your media server password.',
+      });
+    }
+  }
+
   user.recoveryLinkExpirationDate = null;
   await user.setPassword(req.body.password);
   userRepository.save(user);
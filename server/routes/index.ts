@@ -15,8 +15,11 @@ import { checkUser, isAuthenticated } from '@server/middleware/auth';
 import { mapWatchProviderDetails } from '@server/models/common';
 import { mapProductionCompany } from '@server/models/Movie';
 import { mapNetwork } from '@server/models/Tv';
+import approvalRuleRoutes from '@server/routes/approvalRule';
+import inviteRoutes from '@server/routes/invite';
 import overrideRuleRoutes from '@server/routes/overrideRule';
 import settingsRoutes from '@server/routes/settings';
+import subscriptionRoutes from '@server/routes/subscription';
 import watchlistRoutes from '@server/routes/watchlist';
 import {
   appDataPath,
@@ -166,6 +169,13 @@ router.use(
   isAuthenticated(Permission.ADMIN),
   overrideRuleRoutes
 );
+router.use(
+  '/approvalRule',
+  isAuthenticated(Permission.ADMIN),
+  approvalRuleRoutes
+);
+router.use('/subscription', subscriptionRoutes);
+router.use('/invite', inviteRoutes);
 
 router.get('/regions', isAuthenticated(), async (req, res, next) => {
   const tmdb = new TheMovieDb();
@@ -0,0 +1,167 @@
+import { getRepository } from '@server/datasource';
+import Invite from '@server/entity/Invite';
+import SubscriptionPlan from '@server/entity/SubscriptionPlan';
+import type { User } from '@server/entity/User';
+import type {
+  InviteAcceptRequest,
+  InviteInfoResponse,
+  InviteRequest,
+  InviteResultsResponse,
+} from '@server/interfaces/api/inviteInterfaces';
+import {
+  acceptInvite,
+  generateInviteCode,
+  getUsableInvite,
+  InviteError,
+} from '@server/lib/invites';
+import { Permission } from '@server/lib/permissions';
+import { getSettings } from '@server/lib/settings';
+import logger from '@server/logger';
+import { isAuthenticated } from '@server/middleware/auth';
+import { canMakePermissionsChange } from '@server/routes/user';
+import { Router } from 'express';
+
+const inviteRoutes = Router();
+
+inviteRoutes.get<Record<string, string>, InviteResultsResponse>(
+  '/',
+  isAuthenticated(Permission.MANAGE_USERS),
+  async (req, res, next) => {
+    try {
+      const invites = await getRepository(Invite).find({
+        order: { createdAt: 'DESC' },
+      });
+
+      return res.status(200).json(invites);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+inviteRoutes.post<Record<string, string>, Invite, InviteRequest>(
+  '/',
+  isAuthenticated(Permission.MANAGE_USERS),
+  async (req, res, next) => {
+    const settings = getSettings();
+    const permissions =
+      req.body.permissions ?? settings.main.defaultPermissions;
+
+    if (!canMakePermissionsChange(permissions, req.user)) {
+      return next({
+        status: 403,
+        message: 'You do not have permission to grant this level of access',
+      });
+    }
+
+    try {
+      let subscriptionPlan: SubscriptionPlan | null = null;
+
+      if (req.body.subscriptionPlanId) {
+        subscriptionPlan = await getRepository(SubscriptionPlan).findOne({
+          where: { id: req.body.subscriptionPlanId },
+        });
+
+        if (!subscriptionPlan || subscriptionPlan.isExpiredProfile) {
+          return next({
+            status: 400,
+            message: 'Subscription plan not found.',
+          });
+        }
+      }
+
+      const invite = new Invite({
+        code: generateInviteCode(),
+        maxUses: req.body.maxUses,
+        expiresAt: req.body.expiresAt ? new Date(req.body.expiresAt) : null,
+        permissions,
+        subscriptionPlan,
+        subscriptionDays: req.body.subscriptionDays,
+        libraryAccess: req.body.libraryAccess,
+        createdBy: req.user,
+      });
+
+      const newInvite = await getRepository(Invite).save(invite);
+
+      return res.status(200).json(newInvite);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+inviteRoutes.delete<{ code: string }, Invite>(
+  '/:code',
+  isAuthenticated(Permission.MANAGE_USERS),
+  async (req, res, next) => {
+    const inviteRepository = getRepository(Invite);
+
+    try {
+      const invite = await inviteRepository.findOne({
+        where: { code: req.params.code },
+      });
+
+      if (!invite) {
+        return next({ status: 404, message: 'Invite not found.' });
+      }
+
+      await inviteRepository.remove(invite);
+
+      return res.status(200).json(invite);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+inviteRoutes.get<{ code: string }, InviteInfoResponse>(
+  '/:code',
+  async (req, res, next) => {
+    try {
+      const invite = await getUsableInvite(req.params.code);
+
+      return res.status(200).json({
+        code: invite.code,
+        expiresAt: invite.expiresAt,
+        subscriptionPlanName: invite.subscriptionPlan?.name,
+        subscriptionDays:
+          invite.subscriptionDays ?? invite.subscriptionPlan?.durationDays,
+        applicationTitle: getSettings().main.applicationTitle,
+      });
+    } catch (e) {
+      if (e instanceof InviteError) {
+        return next({ status: 404, message: e.message });
+      }
+
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+inviteRoutes.post<{ code: string }, Partial<User>, InviteAcceptRequest>(
+  '/:code/accept',
+  async (req, res, next) => {
+    try {
+      const user = await acceptInvite(req.params.code, req.body);
+
+      // Log the new user in
+      if (req.session) {
+        req.session.userId = user.id;
+      }
+
+      return res.status(201).json(user.filter());
+    } catch (e) {
+      if (e instanceof InviteError) {
+        return next({ status: 400, message: e.message });
+      }
+
+      logger.error('Failed to sign up with invite', {
+        label: 'API',
+        errorMessage: e.message,
+      });
+      next({ status: 500, message: 'Failed to create your account.' });
+    }
+  }
+);
+
+export default inviteRoutes;
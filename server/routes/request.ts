@@ -15,17 +15,29 @@ import {
   QuotaRestrictedError,
   RequestPermissionError,
 } from '@server/entity/MediaRequest';
+import RequestComment from '@server/entity/RequestComment';
 import SeasonRequest from '@server/entity/SeasonRequest';
 import { User } from '@server/entity/User';
 import type {
   MediaRequestBody,
+  RequestBulkRequest,
+  RequestBulkResponse,
+  RequestBulkResult,
   RequestResultsResponse,
+  RequestVoteResponse,
 } from '@server/interfaces/api/requestInterfaces';
 import { Permission } from '@server/lib/permissions';
+import {
+  addRequestVote,
+  getRequestVotes,
+  removeRequestVote,
+  RequestVoteError,
+} from '@server/lib/requestVotes';
 import { getSettings } from '@server/lib/settings';
 import logger from '@server/logger';
 import { isAuthenticated } from '@server/middleware/auth';
 import { Router } from 'express';
+import { In } from 'typeorm';
 
 const requestRoutes = Router();
 
@@ -100,6 +112,9 @@ requestRoutes.get<Record<string, unknown>, RequestResultsResponse>(
         case 'modified':
           sortFilter = 'request.updatedAt';
           break;
+        case 'votes':
+          sortFilter = 'request.voteCount';
+          break;
         default:
           sortFilter = 'request.id';
       }
@@ -116,6 +131,7 @@ requestRoutes.get<Record<string, unknown>, RequestResultsResponse>(
         .createQueryBuilder('request')
         .leftJoinAndSelect('request.media', 'media')
         .leftJoinAndSelect('request.seasons', 'seasons')
+        .leftJoinAndSelect('seasons.episodes', 'episodes')
         .leftJoinAndSelect('request.modifiedBy', 'modifiedBy')
         .leftJoinAndSelect('request.requestedBy', 'requestedBy')
         .where('request.status IN (:...requestStatus)', {
@@ -152,6 +168,7 @@ requestRoutes.get<Record<string, unknown>, RequestResultsResponse>(
 
       const [requests, requestCount] = await query
         .orderBy(sortFilter, sortDirection)
+        .addOrderBy('request.id', sortDirection)
         .take(pageSize)
         .skip(skip)
         .getManyAndCount();
@@ -345,6 +362,126 @@ requestRoutes.get('/count', async (_req, res, next) => {
   }
 });
 
+requestRoutes.post<
+  Record<string, never>,
+  RequestBulkResponse,
+  RequestBulkRequest
+>('/bulk', async (req, res, next) => {
+  const { ids, action } = req.body;
+  const declineReason =
+    typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+  if (
+    !Array.isArray(ids) ||
+    !['approve', 'decline', 'retry', 'delete'].includes(action)
+  ) {
+    return next({
+      status: 400,
+      message: 'A list of request IDs and a valid action are required.',
+    });
+  }
+
+  // Deleting is checked per request below, like for a single request
+  if (
+    action !== 'delete' &&
+    !req.user?.hasPermission(Permission.MANAGE_REQUESTS)
+  ) {
+    return next({
+      status: 403,
+      message: 'You do not have permission to moderate requests.',
+    });
+  }
+
+  if (
+    action === 'decline' &&
+    !declineReason &&
+    getSettings().main.requireDeclineReason
+  ) {
+    return next({
+      status: 400,
+      message: 'A reason is required to decline a request.',
+    });
+  }
+
+  try {
+    const requestRepository = getRepository(MediaRequest);
+
+    const requests = await requestRepository.find({
+      where: { id: In(ids) },
+      relations: { requestedBy: true, modifiedBy: true },
+    });
+
+    const results: RequestBulkResult[] = [];
+
+    for (const id of ids) {
+      const request = requests.find((r) => r.id === Number(id));
+
+      if (!request) {
+        results.push({
+          requestId: Number(id),
+          success: false,
+          message: 'Request not found.',
+        });
+        continue;
+      }
+
+      try {
+        // Requests are saved one by one so the entity hooks send
+        // notifications and hand approved requests to Radarr or Sonarr
+        switch (action) {
+          case 'approve':
+          case 'retry':
+            request.status = MediaRequestStatus.APPROVED;
+            request.declineReason = null;
+            request.modifiedBy = req.user;
+            await requestRepository.save(request);
+            break;
+          case 'decline':
+            request.status = MediaRequestStatus.DECLINED;
+            request.declineReason = declineReason || null;
+            request.modifiedBy = req.user;
+            await requestRepository.save(request);
+            break;
+          case 'delete':
+            if (
+              !req.user?.hasPermission(Permission.MANAGE_REQUESTS) &&
+              request.requestedBy.id !== req.user?.id &&
+              request.status !== MediaRequestStatus.PENDING
+            ) {
+              results.push({
+                requestId: request.id,
+                success: false,
+                message: 'You do not have permission to delete this request.',
+              });
+              continue;
+            }
+
+            await requestRepository.remove(request);
+            break;
+        }
+
+        results.push({ requestId: Number(id), success: true });
+      } catch (e) {
+        logger.error('Failed to process bulk request action', {
+          label: 'Media Request',
+          requestId: request.id,
+          action,
+          errorMessage: e.message,
+        });
+        results.push({
+          requestId: Number(id),
+          success: false,
+          message: e.message,
+        });
+      }
+    }
+
+    return res.status(200).json({ results });
+  } catch (e) {
+    next({ status: 500, message: e.message });
+  }
+});
+
 requestRoutes.get('/:requestId', async (req, res, next) => {
   const requestRepository = getRepository(MediaRequest);
 
@@ -578,14 +715,261 @@ requestRoutes.post<{
   }
 );
 
-requestRoutes.post<{
-  requestId: string;
-  status: 'pending' | 'approve' | 'decline';
-}>(
+requestRoutes.get<{ requestId: string }, RequestVoteResponse>(
+  '/:requestId/vote',
+  isAuthenticated(Permission.VOTE),
+  async (req, res, next) => {
+    try {
+      const request = await getRepository(MediaRequest).findOne({
+        where: { id: Number(req.params.requestId) },
+      });
+
+      if (!request || !req.user) {
+        return next({ status: 404, message: 'Request not found.' });
+      }
+
+      return res.status(200).json(await getRequestVotes(request, req.user));
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+requestRoutes.post<{ requestId: string }, RequestVoteResponse>(
+  '/:requestId/vote',
+  isAuthenticated(Permission.VOTE),
+  async (req, res, next) => {
+    try {
+      const request = await getRepository(MediaRequest).findOne({
+        where: { id: Number(req.params.requestId) },
+      });
+
+      if (!request || !req.user) {
+        return next({ status: 404, message: 'Request not found.' });
+      }
+
+      const votedRequest = await addRequestVote(request, req.user);
+
+      return res
+        .status(200)
+        .json({ voteCount: votedRequest.voteCount, hasVoted: true });
+    } catch (e) {
+      if (e instanceof RequestVoteError) {
+        return next({ status: 400, message: e.message });
+      }
+
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+requestRoutes.delete<{ requestId: string }, RequestVoteResponse>(
+  '/:requestId/vote',
+  isAuthenticated(Permission.VOTE),
+  async (req, res, next) => {
+    try {
+      const request = await getRepository(MediaRequest).findOne({
+        where: { id: Number(req.params.requestId) },
+      });
+
+      if (!request || !req.user) {
+        return next({ status: 404, message: 'Request not found.' });
+      }
+
+      const votedRequest = await removeRequestVote(request, req.user);
+
+      return res
+        .status(200)
+        .json({ voteCount: votedRequest.voteCount, hasVoted: false });
+    } catch (e) {
+      if (e instanceof RequestVoteError) {
+        return next({ status: 400, message: e.message });
+      }
+
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+requestRoutes.get<{ requestId: string }, RequestComment[]>(
+  '/:requestId/comment',
+  async (req, res, next) => {
+    try {
+      const request = await getRepository(MediaRequest).findOneOrFail({
+        where: { id: Number(req.params.requestId) },
+      });
+
+      if (
+        request.requestedBy.id !== req.user?.id &&
+        !req.user?.hasPermission(
+          [Permission.MANAGE_REQUESTS, Permission.REQUEST_VIEW],
+          { type: 'or' }
+        )
+      ) {
+        return next({
+          status: 403,
+          message: 'You do not have permission to view this request.',
+        });
+      }
+
+      const comments = await getRepository(RequestComment).find({
+        where: { request: { id: request.id } },
+        order: { id: 'ASC' },
+      });
+
+      return res.status(200).json(comments);
+    } catch (e) {
+      logger.debug('Failed to retrieve request comments.', {
+        label: 'API',
+        errorMessage: e.message,
+      });
+      next({ status: 404, message: 'Request not found.' });
+    }
+  }
+);
+
+requestRoutes.post<{ requestId: string }, RequestComment, { message: string }>(
+  '/:requestId/comment',
+  async (req, res, next) => {
+    if (!req.body.message?.trim()) {
+      return next({ status: 400, message: 'A comment cannot be empty.' });
+    }
+
+    try {
+      const request = await getRepository(MediaRequest).findOneOrFail({
+        where: { id: Number(req.params.requestId) },
+      });
+
+      if (
+        request.requestedBy.id !== req.user?.id &&
+        !req.user?.hasPermission(Permission.MANAGE_REQUESTS)
+      ) {
+        return next({
+          status: 403,
+          message: 'You do not have permission to comment on this request.',
+        });
+      }
+
+      const comment = new RequestComment({
+        message: req.body.message.trim(),
+        request,
+        user: req.user,
+      });
+
+      await getRepository(RequestComment).save(comment);
+
+      return res.status(201).json(comment);
+    } catch (e) {
+      logger.debug('Something went wrong creating a request comment.', {
+        label: 'API',
+        errorMessage: e.message,
+      });
+      next({ status: 404, message: 'Request not found.' });
+    }
+  }
+);
+
+requestRoutes.put<
+  { requestId: string; commentId: string },
+  RequestComment,
+  { message: string }
+>('/:requestId/comment/:commentId', async (req, res, next) => {
+  const requestCommentRepository = getRepository(RequestComment);
+
+  if (!req.body.message?.trim()) {
+    return next({ status: 400, message: 'A comment cannot be empty.' });
+  }
+
+  try {
+    const comment = await requestCommentRepository.findOneOrFail({
+      where: {
+        id: Number(req.params.commentId),
+        request: { id: Number(req.params.requestId) },
+      },
+    });
+
+    if (comment.user.id !== req.user?.id) {
+      return next({
+        status: 403,
+        message: 'You can only edit your own comments.',
+      });
+    }
+
+    comment.message = req.body.message.trim();
+
+    await requestCommentRepository.save(comment);
+
+    return res.status(200).json(comment);
+  } catch (e) {
+    logger.debug('Put request for request comment failed', {
+      label: 'API',
+      errorMessage: e.message,
+    });
+    next({ status: 404, message: 'Request comment not found.' });
+  }
+});
+
+requestRoutes.delete<{ requestId: string; commentId: string }>(
+  '/:requestId/comment/:commentId',
+  async (req, res, next) => {
+    const requestCommentRepository = getRepository(RequestComment);
+
+    try {
+      const comment = await requestCommentRepository.findOneOrFail({
+        where: {
+          id: Number(req.params.commentId),
+          request: { id: Number(req.params.requestId) },
+        },
+      });
+
+      if (
+        !req.user?.hasPermission(Permission.MANAGE_REQUESTS) &&
+        comment.user.id !== req.user?.id
+      ) {
+        return next({
+          status: 403,
+          message: 'You do not have permission to delete this comment.',
+        });
+      }
+
+      await requestCommentRepository.remove(comment);
+
+      return res.status(204).send();
+    } catch (e) {
+      logger.debug('Delete request for request comment failed', {
+        label: 'API',
+        errorMessage: e.message,
+      });
+      next({ status: 404, message: 'Request comment not found.' });
+    }
+  }
+);
+
+requestRoutes.post<
+  {
+    requestId: string;
+    status: 'pending' | 'approve' | 'decline';
+  },
+  MediaRequest,
+  { reason?: string }
+>(
   '/:requestId/:status',
   isAuthenticated(Permission.MANAGE_REQUESTS),
   async (req, res, next) => {
     const requestRepository = getRepository(MediaRequest);
+    const declineReason =
+      typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+
+    if (
+      req.params.status === 'decline' &&
+      !declineReason &&
+      getSettings().main.requireDeclineReason
+    ) {
+      return next({
+        status: 400,
+        message: 'A reason is required to decline a request.',
+      });
+    }
 
     try {
       const request = await requestRepository.findOneOrFail({
@@ -608,6 +992,10 @@ requestRoutes.post<{
       }
 
       request.status = newStatus;
+      request.declineReason =
+        newStatus === MediaRequestStatus.DECLINED
+          ? declineReason || null
+          : null;
       request.modifiedBy = req.user;
       await requestRepository.save(request);
 
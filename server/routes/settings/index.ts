@@ -7,6 +7,11 @@ import { getRepository } from '@server/datasource';
 import Media from '@server/entity/Media';
 import { MediaRequest } from '@server/entity/MediaRequest';
 import { User } from '@server/entity/User';
+import type {
+  JellyfinPolicyTemplate,
+  JellyfinPolicyTemplateResponse,
+  JellyfinPolicyTemplateResultsResponse,
+} from '@server/interfaces/api/jellyfinInterfaces';
 import type { PlexConnection } from '@server/interfaces/api/plexInterfaces';
 import type {
   LogMessage,
@@ -18,6 +23,13 @@ import type { AvailableCacheIds } from '@server/lib/cache';
 import cacheManager from '@server/lib/cache';
 import ImageProxy from '@server/lib/imageproxy';
 import { Permission } from '@server/lib/permissions';
+import {
+  deletePolicyTemplate,
+  getPolicyTemplate,
+  getPolicyTemplates,
+  PolicyTemplateError,
+  savePolicyTemplate,
+} from '@server/lib/policyTemplates';
 import { jellyfinFullScanner } from '@server/lib/scanners/jellyfin';
 import { plexFullScanner } from '@server/lib/scanners/plex';
 import type { JobId, Library, MainSettings } from '@server/lib/settings';
@@ -53,7 +65,7 @@ const filteredMainSettings = (
   main: MainSettings
 ): Partial<MainSettings> => {
   if (!user?.hasPermission(Permission.ADMIN)) {
-    return omit(main, 'apiKey');
+    return omit(main, ['apiKey', 'subscriptionWebhookSecret']);
   }
 
   return main;
@@ -413,6 +425,69 @@ settingsRoutes.post('/jellyfin/sync', (req, res) => {
   }
   return res.status(200).json(jellyfinFullScanner.status());
 });
+
+settingsRoutes.get('/jellyfin/policy-templates', (_req, res) => {
+  return res
+    .status(200)
+    .json(getPolicyTemplates() as JellyfinPolicyTemplateResultsResponse);
+});
+
+settingsRoutes.post<
+  Record<string, string>,
+  JellyfinPolicyTemplateResponse,
+  Omit<JellyfinPolicyTemplate, 'id'>
+>('/jellyfin/policy-templates', async (req, res, next) => {
+  try {
+    const template = await savePolicyTemplate(req.body);
+
+    return res.status(200).json(template);
+  } catch (e) {
+    if (e instanceof PolicyTemplateError) {
+      return next({ status: 400, message: e.message });
+    }
+
+    next({ status: 500, message: e.message });
+  }
+});
+
+settingsRoutes.put<
+  { templateId: string },
+  JellyfinPolicyTemplateResponse,
+  Omit<JellyfinPolicyTemplate, 'id'>
+>('/jellyfin/policy-templates/:templateId', async (req, res, next) => {
+  if (!getPolicyTemplate(req.params.templateId)) {
+    return next({ status: 404, message: 'Policy template not found.' });
+  }
+
+  try {
+    const template = await savePolicyTemplate(req.body, req.params.templateId);
+
+    return res.status(200).json(template);
+  } catch (e) {
+    if (e instanceof PolicyTemplateError) {
+      return next({ status: 400, message: e.message });
+    }
+
+    next({ status: 500, message: e.message });
+  }
+});
+
+settingsRoutes.delete<{ templateId: string }, JellyfinPolicyTemplateResponse>(
+  '/jellyfin/policy-templates/:templateId',
+  async (req, res, next) => {
+    try {
+      const template = await deletePolicyTemplate(req.params.templateId);
+
+      if (!template) {
+        return next({ status: 404, message: 'Policy template not found.' });
+      }
+
+      return res.status(200).json(template);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
 settingsRoutes.get('/tautulli', (_req, res) => {
   const settings = getSettings();
 
@@ -0,0 +1,461 @@
+import { getRepository } from '@server/datasource';
+import SubscriptionPlan from '@server/entity/SubscriptionPlan';
+import SubscriptionVoucher from '@server/entity/SubscriptionVoucher';
+import SubscriptionWebhookEvent from '@server/entity/SubscriptionWebhookEvent';
+import { User } from '@server/entity/User';
+import type {
+  JellyfinLibraryAccess,
+  JellyfinUserPolicy,
+} from '@server/interfaces/api/jellyfinInterfaces';
+import type {
+  SubscriptionPlanResultsResponse,
+  SubscriptionVoucherRedeemResponse,
+  SubscriptionVoucherResultsResponse,
+  SubscriptionWebhookRequest,
+  SubscriptionWebhookResponse,
+} from '@server/interfaces/api/subscriptionInterfaces';
+import { Permission } from '@server/lib/permissions';
+import { getPolicyTemplate } from '@server/lib/policyTemplates';
+import { getSettings } from '@server/lib/settings';
+import {
+  normalizeVoucherCode,
+  redeemSubscriptionVoucher,
+  updateSubscription,
+  VoucherRedemptionError,
+} from '@server/lib/subscriptions';
+import logger from '@server/logger';
+import { isAuthenticated } from '@server/middleware/auth';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Router } from 'express';
+import { Not } from 'typeorm';
+
+interface SubscriptionPlanBody {
+  name: string;
+  durationDays?: number | null;
+  permissions?: number;
+  movieQuotaLimit?: number | null;
+  movieQuotaDays?: number | null;
+  tvQuotaLimit?: number | null;
+  tvQuotaDays?: number | null;
+  maxActiveSessions?: number | null;
+  policyTemplate?: string | null;
+  libraryAccess?: JellyfinLibraryAccess | null;
+  jellyfinPolicy?: Partial<JellyfinUserPolicy> | null;
+  isExpiredProfile?: boolean;
+}
+
+interface SubscriptionVoucherBody {
+  code?: string;
+  durationDays?: number | null;
+  maxUses?: number | null;
+  expiresAt?: string | null;
+}
+
+const subscriptionRoutes = Router();
+
+const VOUCHER_CODE_CHARACTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// Generates a code like ABCD-EFGH-JKLM, leaving out easily confused characters
+const generateVoucherCode = (): string =>
+  Array.from(randomBytes(12))
+    .map(
+      (byte) => VOUCHER_CODE_CHARACTERS[byte % VOUCHER_CODE_CHARACTERS.length]
+    )
+    .join('')
+    .match(/.{4}/g)
+    ?.join('-') ?? '';
+
+// Checks the hex encoded HMAC-SHA256 of the raw request body, optionally
+// prefixed with "sha256=", against the configured webhook secret
+const isValidWebhookSignature = (
+  rawBody: Buffer,
+  signature: string,
+  secret: string
+): boolean => {
+  const expected = createHmac('sha256', secret).update(rawBody).digest();
+  const received = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+};
+
+// Only one plan can act as the expired profile at a time
+const clearOtherExpiredProfiles = async (plan: SubscriptionPlan) => {
+  if (!plan.isExpiredProfile) {
+    return;
+  }
+
+  await getRepository(SubscriptionPlan).update(
+    { id: Not(plan.id), isExpiredProfile: true },
+    { isExpiredProfile: false }
+  );
+};
+
+subscriptionRoutes.get(
+  '/plans',
+  isAuthenticated(Permission.ADMIN),
+  async (req, res, next) => {
+    const subscriptionPlanRepository = getRepository(SubscriptionPlan);
+
+    try {
+      const plans = await subscriptionPlanRepository.find({
+        order: { id: 'ASC' },
+      });
+
+      return res.status(200).json(plans as SubscriptionPlanResultsResponse);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+subscriptionRoutes.post<
+  Record<string, string>,
+  SubscriptionPlan,
+  SubscriptionPlanBody
+>('/plans', isAuthenticated(Permission.ADMIN), async (req, res, next) => {
+  const subscriptionPlanRepository = getRepository(SubscriptionPlan);
+
+  if (req.body.policyTemplate && !getPolicyTemplate(req.body.policyTemplate)) {
+    return next({ status: 400, message: 'Policy template not found.' });
+  }
+
+  try {
+    const plan = new SubscriptionPlan({
+      name: req.body.name,
+      durationDays: req.body.durationDays,
+      permissions: req.body.permissions ?? 0,
+      movieQuotaLimit: req.body.movieQuotaLimit,
+      movieQuotaDays: req.body.movieQuotaDays,
+      tvQuotaLimit: req.body.tvQuotaLimit,
+      tvQuotaDays: req.body.tvQuotaDays,
+      maxActiveSessions: req.body.maxActiveSessions,
+      policyTemplate: req.body.policyTemplate,
+      libraryAccess: req.body.libraryAccess,
+      jellyfinPolicy: req.body.jellyfinPolicy,
+      isExpiredProfile: req.body.isExpiredProfile ?? false,
+    });
+
+    const newPlan = await subscriptionPlanRepository.save(plan);
+    await clearOtherExpiredProfiles(newPlan);
+
+    return res.status(200).json(newPlan);
+  } catch (e) {
+    next({ status: 500, message: e.message });
+  }
+});
+
+subscriptionRoutes.put<
+  { planId: string },
+  SubscriptionPlan,
+  SubscriptionPlanBody
+>(
+  '/plans/:planId',
+  isAuthenticated(Permission.ADMIN),
+  async (req, res, next) => {
+    const subscriptionPlanRepository = getRepository(SubscriptionPlan);
+
+    if (
+      req.body.policyTemplate &&
+      !getPolicyTemplate(req.body.policyTemplate)
+    ) {
+      return next({ status: 400, message: 'Policy template not found.' });
+    }
+
+    try {
+      const plan = await subscriptionPlanRepository.findOne({
+        where: {
+          id: Number(req.params.planId),
+        },
+      });
+
+      if (!plan) {
+        return next({ status: 404, message: 'Subscription plan not found.' });
+      }
+
+      plan.name = req.body.name;
+      plan.durationDays = req.body.durationDays;
+      plan.permissions = req.body.permissions ?? 0;
+      plan.movieQuotaLimit = req.body.movieQuotaLimit;
+      plan.movieQuotaDays = req.body.movieQuotaDays;
+      plan.tvQuotaLimit = req.body.tvQuotaLimit;
+      plan.tvQuotaDays = req.body.tvQuotaDays;
+      plan.maxActiveSessions = req.body.maxActiveSessions;
+      plan.policyTemplate = req.body.policyTemplate;
+      plan.libraryAccess = req.body.libraryAccess;
+      plan.jellyfinPolicy = req.body.jellyfinPolicy;
+      plan.isExpiredProfile = req.body.isExpiredProfile ?? false;
+
+      const newPlan = await subscriptionPlanRepository.save(plan);
+      await clearOtherExpiredProfiles(newPlan);
+
+      return res.status(200).json(newPlan);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+subscriptionRoutes.delete<{ planId: string }, SubscriptionPlan>(
+  '/plans/:planId',
+  isAuthenticated(Permission.ADMIN),
+  async (req, res, next) => {
+    const subscriptionPlanRepository = getRepository(SubscriptionPlan);
+
+    try {
+      const plan = await subscriptionPlanRepository.findOne({
+        where: {
+          id: Number(req.params.planId),
+        },
+      });
+
+      if (!plan) {
+        return next({ status: 404, message: 'Subscription plan not found.' });
+      }
+
+      await subscriptionPlanRepository.remove(plan);
+
+      return res.status(200).json(plan);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+subscriptionRoutes.get(
+  '/vouchers',
+  isAuthenticated(Permission.ADMIN),
+  async (req, res, next) => {
+    try {
+      const vouchers = await getRepository(SubscriptionVoucher).find({
+        relations: { redemptions: true },
+        order: { createdAt: 'DESC', redemptions: { createdAt: 'ASC' } },
+      });
+
+      return res
+        .status(200)
+        .json(vouchers as SubscriptionVoucherResultsResponse);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+subscriptionRoutes.post<
+  Record<string, string>,
+  SubscriptionVoucher,
+  SubscriptionVoucherBody
+>('/vouchers', isAuthenticated(Permission.ADMIN), async (req, res, next) => {
+  const voucherRepository = getRepository(SubscriptionVoucher);
+
+  try {
+    const code = req.body.code
+      ? normalizeVoucherCode(req.body.code)
+      : generateVoucherCode();
+
+    if (await voucherRepository.findOne({ where: { code } })) {
+      return next({
+        status: 409,
+        message: 'A voucher with this code already exists.',
+      });
+    }
+
+    const voucher = new SubscriptionVoucher({
+      code,
+      durationDays: req.body.durationDays,
+      maxUses: req.body.maxUses,
+      expiresAt: req.body.expiresAt ? new Date(req.body.expiresAt) : null,
+      createdBy: req.user,
+    });
+
+    const newVoucher = await voucherRepository.save(voucher);
+
+    return res.status(200).json(newVoucher);
+  } catch (e) {
+    next({ status: 500, message: e.message });
+  }
+});
+
+subscriptionRoutes.delete<{ voucherId: string }, SubscriptionVoucher>(
+  '/vouchers/:voucherId',
+  isAuthenticated(Permission.ADMIN),
+  async (req, res, next) => {
+    const voucherRepository = getRepository(SubscriptionVoucher);
+
+    try {
+      const voucher = await voucherRepository.findOne({
+        where: {
+          id: Number(req.params.voucherId),
+        },
+      });
+
+      if (!voucher) {
+        return next({ status: 404, message: 'Voucher not found.' });
+      }
+
+      await voucherRepository.remove(voucher);
+
+      return res.status(200).json(voucher);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+subscriptionRoutes.post<
+  Record<string, string>,
+  SubscriptionVoucherRedeemResponse,
+  { code: string }
+>('/redeem', isAuthenticated(), async (req, res, next) => {
+  if (!req.user) {
+    return next({
+      status: 401,
+      message: 'You must be logged in to redeem a voucher.',
+    });
+  }
+
+  try {
+    await redeemSubscriptionVoucher(req.user, req.body.code ?? '');
+
+    return res.status(200).json({
+      subscriptionStatus: req.user.subscriptionStatus,
+      subscriptionExpirationDate: req.user.subscriptionExpirationDate,
+    });
+  } catch (e) {
+    if (e instanceof VoucherRedemptionError) {
+      return next({ status: 400, message: e.message });
+    }
+
+    logger.error('Failed to redeem subscription voucher', {
+      label: 'API',
+      userId: req.user.id,
+      errorMessage: e.message,
+    });
+    next({ status: 500, message: 'Failed to redeem voucher.' });
+  }
+});
+
+subscriptionRoutes.post<
+  Record<string, string>,
+  SubscriptionWebhookResponse,
+  SubscriptionWebhookRequest
+>('/webhook', async (req, res, next) => {
+  const secret = getSettings().main.subscriptionWebhookSecret;
+
+  if (!secret) {
+    return next({
+      status: 404,
+      message: 'Subscription webhook is not configured.',
+    });
+  }
+
+  const signature = req.header('X-Signature');
+
+  if (
+    !req.rawBody ||
+    !signature ||
+    !isValidWebhookSignature(req.rawBody, signature, secret)
+  ) {
+    return next({ status: 401, message: 'Invalid webhook signature.' });
+  }
+
+  const { eventId, userId, email, plan: planKey, paidUntil } = req.body;
+  const paidUntilDate = new Date(paidUntil);
+
+  if (!eventId || (!userId && !email)) {
+    return next({
+      status: 400,
+      message: 'An event ID and a user ID or email address are required.',
+    });
+  }
+
+  if (!paidUntil || isNaN(paidUntilDate.getTime())) {
+    return next({ status: 400, message: 'Invalid paid until date.' });
+  }
+
+  if (paidUntilDate <= new Date()) {
+    return next({
+      status: 400,
+      message: 'The paid until date must be in the future.',
+    });
+  }
+
+  const webhookEventRepository = getRepository(SubscriptionWebhookEvent);
+
+  try {
+    if (
+      await webhookEventRepository.findOne({ where: { eventId: `${eventId}` } })
+    ) {
+      return res.status(200).json({ result: 'duplicate' });
+    }
+
+    const userRepository = getRepository(User);
+    const user = await userRepository.findOne({
+      where: userId
+        ? { id: Number(userId) }
+        : { email: `${email}`.toLowerCase() },
+    });
+
+    if (!user) {
+      return next({ status: 404, message: 'User not found.' });
+    }
+
+    let plan: SubscriptionPlan | null | undefined;
+
+    if (planKey !== undefined && planKey !== null && planKey !== '') {
+      plan = await getRepository(SubscriptionPlan).findOne({
+        where:
+          typeof planKey === 'number' || /^\d+$/.test(planKey)
+            ? { id: Number(planKey) }
+            : { name: planKey },
+      });
+
+      if (!plan || plan.isExpiredProfile) {
+        return next({ status: 404, message: 'Subscription plan not found.' });
+      }
+    }
+
+    // Claim the event before applying it so concurrent retries are not processed twice
+    const webhookEvent = await webhookEventRepository.save(
+      new SubscriptionWebhookEvent({ eventId: `${eventId}`, user })
+    );
+
+    if (user.subscriptionStatus === 'lifetime') {
+      return res.status(200).json({ result: 'ignored', userId: user.id });
+    }
+
+    try {
+      await updateSubscription(
+        user,
+        { action: 'set_expiry', expirationDate: paidUntilDate, plan },
+        { note: `Payment webhook event ${eventId}` }
+      );
+    } catch (e) {
+      await webhookEventRepository.remove(webhookEvent);
+      throw e;
+    }
+
+    logger.info(`Applied payment webhook event ${eventId}`, {
+      label: 'Subscriptions',
+      userId: user.id,
+      paidUntil: paidUntilDate.toISOString(),
+    });
+
+    return res.status(200).json({
+      result: 'processed',
+      userId: user.id,
+      subscriptionStatus: user.subscriptionStatus,
+      subscriptionExpirationDate: user.subscriptionExpirationDate,
+    });
+  } catch (e) {
+    logger.error('Failed to process payment webhook', {
+      label: 'API',
+      eventId,
+      errorMessage: e.message,
+    });
+    next({ status: 500, message: 'Failed to process payment webhook.' });
+  }
+});
+
+export default subscriptionRoutes;
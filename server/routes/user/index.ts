@@ -2,24 +2,51 @@ import JellyfinAPI from '@server/api/jellyfin';
 import PlexTvAPI from '@server/api/plextv';
 import TautulliAPI from '@server/api/tautulli';
 import { MediaType } from '@server/constants/media';
-import { MediaServerType } from '@server/constants/server';
 import { UserType } from '@server/constants/user';
 import { getRepository } from '@server/datasource';
 import Media from '@server/entity/Media';
 import { MediaRequest } from '@server/entity/MediaRequest';
+import SubscriptionEvent from '@server/entity/SubscriptionEvent';
+import SuspiciousActivity from '@server/entity/SuspiciousActivity';
 import { User } from '@server/entity/User';
 import { UserPushSubscription } from '@server/entity/UserPushSubscription';
 import { Watchlist } from '@server/entity/Watchlist';
 import type { WatchlistResponse } from '@server/interfaces/api/discoverInterfaces';
+import type {
+  JellyfinLibraryAccessBulkRequest,
+  JellyfinLibraryAccessBulkResponse,
+  JellyfinLibraryAccessBulkResult,
+  JellyfinLibraryResultsResponse,
+} from '@server/interfaces/api/jellyfinInterfaces';
+import type {
+  SubscriptionBulkRequest,
+  SubscriptionBulkResponse,
+  SubscriptionBulkResult,
+  SubscriptionDetailsResponse,
+  SubscriptionHistoryResponse,
+} from '@server/interfaces/api/subscriptionInterfaces';
 import type {
   QuotaResponse,
+  SuspiciousActivityResponse,
   UserRequestsResponse,
   UserResultsResponse,
   UserWatchDataResponse,
 } from '@server/interfaces/api/userInterfaces';
 import PreparedEmail from '@server/lib/email';
+import {
+  buildImportedJellyfinUser,
+  createJellyfinUser,
+} from '@server/lib/jellyfinUsers';
+import {
+  getLibraryOptions,
+  updateLibraryAccess,
+} from '@server/lib/libraryAccess';
 import { hasPermission, Permission } from '@server/lib/permissions';
 import { getSettings } from '@server/lib/settings';
+import {
+  getGracePeriodEndDate,
+  updateSubscription,
+} from '@server/lib/subscriptions';
 import logger from '@server/logger';
 import { isAuthenticated } from '@server/middleware/auth';
 import { getHostname } from '@server/utils/getHostname';
@@ -208,6 +235,95 @@ router.post<
   }
 });
 
+router.get<Record<string, never>, JellyfinLibraryResultsResponse>(
+  '/libraries',
+  isAuthenticated(Permission.MANAGE_USERS),
+  async (_req, res, next) => {
+    try {
+      const libraries = await getLibraryOptions();
+
+      return res.status(200).json(libraries);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+router.post<
+  Record<string, never>,
+  JellyfinLibraryAccessBulkResponse,
+  JellyfinLibraryAccessBulkRequest
+>(
+  '/libraries',
+  isAuthenticated(Permission.MANAGE_USERS),
+  async (req, res, next) => {
+    const { ids, enableAllFolders, enabledFolders } = req.body;
+
+    try {
+      const userRepository = getRepository(User);
+
+      const users = await userRepository.find({
+        where: { id: In(ids) },
+      });
+      const libraries = await getLibraryOptions();
+
+      const results: JellyfinLibraryAccessBulkResult[] = [];
+
+      for (const id of ids) {
+        const user = users.find((u) => u.id === Number(id));
+
+        if (!user) {
+          results.push({
+            userId: Number(id),
+            success: false,
+            message: 'User not found.',
+          });
+          continue;
+        }
+
+        // "Owner" library access cannot be modified by other users
+        if (user.id === 1 && req.user?.id !== 1) {
+          results.push({
+            userId: user.id,
+            success: false,
+            message: "You do not have permission to modify this user's access.",
+          });
+          continue;
+        }
+
+        if (!user.jellyfinUserId) {
+          results.push({
+            userId: user.id,
+            success: false,
+            message: 'User does not have a media server account.',
+          });
+          continue;
+        }
+
+        try {
+          await updateLibraryAccess(
+            user.jellyfinUserId,
+            { enableAllFolders, enabledFolders: enabledFolders ?? [] },
+            libraries
+          );
+          results.push({ userId: user.id, success: true });
+        } catch (e) {
+          logger.error('Failed to update user library access', {
+            label: 'API',
+            userId: user.id,
+            errorMessage: e.message,
+          });
+          results.push({ userId: user.id, success: false, message: e.message });
+        }
+      }
+
+      return res.status(200).json({ results });
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
 router.get<{ id: string }>('/:id', async (req, res, next) => {
   try {
     const userRepository = getRepository(User);
@@ -258,6 +374,7 @@ router.get<{ id: string }, UserRequestsResponse>(
         .createQueryBuilder('request')
         .leftJoinAndSelect('request.media', 'media')
         .leftJoinAndSelect('request.seasons', 'seasons')
+        .leftJoinAndSelect('seasons.episodes', 'episodes')
         .leftJoinAndSelect('request.modifiedBy', 'modifiedBy')
         .leftJoinAndSelect('request.requestedBy', 'requestedBy')
         .andWhere('requestedBy.id = :id', {
@@ -330,6 +447,95 @@ router.put<
   }
 });
 
+router.post<
+  Record<string, never>,
+  SubscriptionBulkResponse,
+  SubscriptionBulkRequest
+>(
+  '/subscription',
+  isAuthenticated(Permission.ADMIN),
+  async (req, res, next) => {
+    const { ids, action, days, note } = req.body;
+    const expirationDate = req.body.expirationDate
+      ? new Date(req.body.expirationDate)
+      : undefined;
+
+    if (action === 'extend' && (!Number.isInteger(days) || Number(days) < 1)) {
+      return next({
+        status: 400,
+        message: 'A positive number of days is required.',
+      });
+    }
+
+    if (
+      action === 'set_expiry' &&
+      (!expirationDate ||
+        isNaN(expirationDate.getTime()) ||
+        expirationDate <= new Date())
+    ) {
+      return next({
+        status: 400,
+        message: 'A valid expiration date in the future is required.',
+      });
+    }
+
+    try {
+      const userRepository = getRepository(User);
+
+      const users = await userRepository.find({
+        where: { id: In(ids) },
+      });
+
+      const results: SubscriptionBulkResult[] = [];
+
+      for (const id of ids) {
+        const user = users.find((u) => u.id === Number(id));
+
+        if (!user) {
+          results.push({
+            userId: Number(id),
+            success: false,
+            message: 'User not found.',
+          });
+          continue;
+        }
+
+        // "Owner" subscription cannot be modified by other users
+        if (user.id === 1 && req.user?.id !== 1) {
+          results.push({
+            userId: user.id,
+            success: false,
+            message:
+              "You do not have permission to modify this user's subscription.",
+          });
+          continue;
+        }
+
+        try {
+          await updateSubscription(
+            user,
+            { action, days, expirationDate },
+            { actor: req.user, note }
+          );
+          results.push({ userId: user.id, success: true });
+        } catch (e) {
+          logger.error('Failed to update user subscription', {
+            label: 'API',
+            userId: user.id,
+            action,
+            errorMessage: e.message,
+          });
+          results.push({ userId: user.id, success: false, message: e.message });
+        }
+      }
+
+      return res.status(200).json({ results });
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
 router.put<{ id: string }>(
   '/:id',
   isAuthenticated(Permission.MANAGE_USERS),
@@ -541,32 +747,8 @@ router.post(
           where: { jellyfinUserId: jellyfinUserId },
         });
 
-        if (!user) {
-          let displayName = jellyfinUser?.Name ?? '';
-          if (jellyfinUser?.Name && jellyfinUser.Name.includes('.')) {
-            const [firstname, lastname] = jellyfinUser.Name.split('.');
-            if (firstname && lastname) {
-              displayName = `${firstname
-                .charAt(0)
-                .toUpperCase()}${firstname.slice(1)} ${lastname.toUpperCase()}`;
-            }
-          }
-
-          const newUser = new User({
-            jellyfinUsername: jellyfinUser?.Name,
-            username: displayName,
-            jellyfinUserId: jellyfinUser?.Id,
-            jellyfinDeviceId: Buffer.from(
-              `BOT_jellyseerr_${jellyfinUser?.Name ?? ''}`
-            ).toString('base64'),
-            email: jellyfinUser?.Name,
-            permissions: settings.main.defaultPermissions,
-            avatar: `/avatarproxy/${jellyfinUser?.Id}`,
-            userType:
-              settings.main.mediaServerType === MediaServerType.JELLYFIN
-                ? UserType.JELLYFIN
-                : UserType.EMBY,
-          });
+        if (!user && jellyfinUser) {
+          const newUser = buildImportedJellyfinUser(jellyfinUser);
 
           await userRepository.save(newUser);
           createdUsers.push(newUser);
@@ -612,6 +794,164 @@ router.get<{ id: string }, QuotaResponse>(
   }
 );
 
+router.get<{ id: string }, SubscriptionDetailsResponse>(
+  '/:id/subscription',
+  async (req, res, next) => {
+    if (
+      Number(req.params.id) !== req.user?.id &&
+      !req.user?.hasPermission(Permission.MANAGE_USERS)
+    ) {
+      return next({
+        status: 403,
+        message: "You do not have permission to view this user's subscription.",
+      });
+    }
+
+    try {
+      const user = await getRepository(User).findOneOrFail({
+        where: { id: Number(req.params.id) },
+      });
+      const expirationDate = user.subscriptionExpirationDate
+        ? new Date(user.subscriptionExpirationDate)
+        : null;
+
+      return res.status(200).json({
+        subscriptionStatus: user.subscriptionStatus,
+        subscriptionExpirationDate: expirationDate,
+        gracePeriodEndDate:
+          user.subscriptionStatus === 'grace' && expirationDate
+            ? getGracePeriodEndDate(expirationDate)
+            : null,
+        daysRemaining: expirationDate
+          ? Math.max(
+              0,
+              Math.ceil(
+                (expirationDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24)
+              )
+            )
+          : null,
+        subscriptionPlan: user.subscriptionPlan
+          ? {
+              id: user.subscriptionPlan.id,
+              name: user.subscriptionPlan.name,
+              durationDays: user.subscriptionPlan.durationDays,
+            }
+          : null,
+        renewalInstructions: getSettings().main.subscriptionRenewalInstructions,
+      });
+    } catch (e) {
+      next({ status: 404, message: 'User not found.' });
+    }
+  }
+);
+
+router.get<{ id: string }, SubscriptionHistoryResponse>(
+  '/:id/subscription/history',
+  async (req, res, next) => {
+    if (
+      Number(req.params.id) !== req.user?.id &&
+      !req.user?.hasPermission(Permission.MANAGE_USERS)
+    ) {
+      return next({
+        status: 403,
+        message:
+          "You do not have permission to view this user's subscription history.",
+      });
+    }
+
+    try {
+      const history = await getRepository(SubscriptionEvent).find({
+        where: { user: { id: Number(req.params.id) } },
+        order: { createdAt: 'DESC', id: 'DESC' },
+      });
+
+      // Only expose who made the change, not the admin's account details
+      return res.status(200).json(
+        history.map((event) => ({
+          ...event,
+          actor: event.actor
+            ? {
+                id: event.actor.id,
+                displayName: event.actor.displayName,
+                avatar: event.actor.avatar,
+              }
+            : null,
+        }))
+      );
+    } catch (e) {
+      logger.error('Something went wrong fetching subscription history', {
+        label: 'API',
+        errorMessage: e.message,
+        userId: req.params.id,
+      });
+      next({
+        status: 500,
+        message: 'Failed to fetch subscription history.',
+      });
+    }
+  }
+);
+
+router.get<{ id: string }, SuspiciousActivityResponse>(
+  '/:id/suspicious-activity',
+  isAuthenticated(Permission.MANAGE_USERS),
+  async (req, res, next) => {
+    try {
+      const activity = await getRepository(SuspiciousActivity).find({
+        where: { user: { id: Number(req.params.id) } },
+        order: { createdAt: 'DESC', id: 'DESC' },
+      });
+
+      return res.status(200).json(activity);
+    } catch (e) {
+      logger.error('Something went wrong fetching suspicious activity', {
+        label: 'API',
+        errorMessage: e.message,
+        userId: req.params.id,
+      });
+      next({
+        status: 500,
+        message: 'Failed to fetch suspicious activity.',
+      });
+    }
+  }
+);
+
+router.delete<{ id: string }>(
+  '/:id/suspicious-activity',
+  isAuthenticated(Permission.MANAGE_USERS),
+  async (req, res, next) => {
+    try {
+      const userRepository = getRepository(User);
+      const user = await userRepository.findOne({
+        where: { id: Number(req.params.id) },
+      });
+
+      if (!user) {
+        return next({ status: 404, message: 'User not found.' });
+      }
+
+      await getRepository(SuspiciousActivity).delete({
+        user: { id: user.id },
+      });
+      user.suspiciousActivityCount = 0;
+      await userRepository.save(user);
+
+      return res.status(204).send();
+    } catch (e) {
+      logger.error('Something went wrong clearing suspicious activity', {
+        label: 'API',
+        errorMessage: e.message,
+        userId: req.params.id,
+      });
+      next({
+        status: 500,
+        message: 'Failed to clear suspicious activity.',
+      });
+    }
+  }
+);
+
 router.get<{ id: string }, UserWatchDataResponse>(
   '/:id/watch_data',
   async (req, res, next) => {
@@ -802,44 +1142,20 @@ router.post(
   async (req, res, next) => {
     try {
       const settings = getSettings();
-      const userRepository = getRepository(User);
-
       const body = req.body;
-      const hostname = getHostname();
-
-      const jellyfinClient = new JellyfinAPI(
-        hostname,
-        settings.jellyfin.apiKey
-      );
 
       const password = body.genpassword
         ? generatePassword.randomPassword({ length: 16 })
         : body.password;
 
-      const jellyfinUser = await jellyfinClient.createUser({
-        Name: body.username,
-        Password: password,
-      });
-
-      if (!jellyfinUser?.Id) {
-        throw new Error('Failed to create Jellyfin user');
-      }
-
-      const user = new User({
+      const user = await createJellyfinUser({
+        username: body.username,
+        password,
         email: body.email,
-        jellyfinUsername: body.username,
-        jellyfinUserId: jellyfinUser.Id,
-        jellyfinDeviceId: Buffer.from(
-          `BOT_jellyseerr_${body.username}`
-        ).toString('base64'),
         permissions: settings.main.defaultPermissions,
-        avatar: `/avatarproxy/${jellyfinUser.Id}`,
-        userType: UserType.JELLYFIN,
       });
 
       if (body.genpassword) {
-        await user.setPassword(password);
-
         const email = new PreparedEmail(settings.notifications.agents.email);
         await email.send({
           template: path.join(
@@ -856,12 +1172,8 @@ router.post(
             recipientName: body.username,
           },
         });
-      } else {
-        await user.setPassword(body.password);
       }
 
-      await userRepository.save(user);
-
       return res.status(201).json(user.filter());
     } catch (e) {
       logger.error('Something went wrong creating the Jellyfin user', {
@@ -1,19 +1,43 @@
-import JellyfinAPI from '@server/api/jellyfin';
 import { ApiErrorCode } from '@server/constants/error';
-import { UserType } from '@server/constants/user';
+import type { SubscriptionStatus } from '@server/constants/user';
+import {
+  PolicyTemplateId,
+  SubscriptionEventType,
+  UserType,
+} from '@server/constants/user';
 import { getRepository } from '@server/datasource';
+import SubscriptionPlan from '@server/entity/SubscriptionPlan';
 import { User } from '@server/entity/User';
 import { UserSettings } from '@server/entity/UserSettings';
+import type {
+  JellyfinLibraryAccess,
+  JellyfinLibraryAccessResponse,
+} from '@server/interfaces/api/jellyfinInterfaces';
 import type {
   UserSettingsGeneralResponse,
   UserSettingsNotificationsResponse,
 } from '@server/interfaces/api/userSettingsInterfaces';
+import {
+  getLibraryOptions,
+  getUserLibraryAccess,
+  updateLibraryAccess,
+} from '@server/lib/libraryAccess';
+import { Notification } from '@server/lib/notifications';
 import { Permission } from '@server/lib/permissions';
 import { getSettings } from '@server/lib/settings';
+import {
+  applySubscriptionPlan,
+  expireSubscription,
+  getSubscriptionExpirationDate,
+  isSubscriptionRunning,
+  reactivateSubscription,
+  recordSubscriptionEvent,
+  sendSubscriptionNotification,
+  updateMaxActiveSessions,
+} from '@server/lib/subscriptions';
 import logger from '@server/logger';
 import { isAuthenticated } from '@server/middleware/auth';
 import { ApiError } from '@server/types/error';
-import { getHostname } from '@server/utils/getHostname';
 import { Router } from 'express';
 import { canMakePermissionsChange } from '.';
 
@@ -36,6 +60,31 @@ const isOwnProfileOrAdmin = (): Middleware => {
 
 const userSettingsRoutes = Router({ mergeParams: true });
 
+const getSubscriptionEventType = (
+  previousStatus: SubscriptionStatus | null,
+  newStatus: SubscriptionStatus | null,
+  planChanged: boolean
+): SubscriptionEventType | null => {
+  if (previousStatus === newStatus) {
+    return newStatus && planChanged ? SubscriptionEventType.MANUAL_EDIT : null;
+  }
+
+  const wasRunning = isSubscriptionRunning(previousStatus);
+
+  switch (newStatus) {
+    case 'lifetime':
+      return SubscriptionEventType.LIFETIME;
+    case 'active':
+      return wasRunning
+        ? SubscriptionEventType.MANUAL_EDIT
+        : SubscriptionEventType.GRANT;
+    default:
+      return wasRunning
+        ? SubscriptionEventType.EXPIRY
+        : SubscriptionEventType.MANUAL_EDIT;
+  }
+};
+
 userSettingsRoutes.get<{ id: string }, UserSettingsGeneralResponse>(
   '/main',
   isOwnProfileOrAdmin(),
@@ -72,7 +121,9 @@ userSettingsRoutes.get<{ id: string }, UserSettingsGeneralResponse>(
         globalTvQuotaLimit: defaultQuotas.tv.quotaLimit,
         watchlistSyncMovies: user.settings?.watchlistSyncMovies,
         watchlistSyncTv: user.settings?.watchlistSyncTv,
+        maxActiveSessions: user.maxActiveSessions,
         subscriptionStatus: user.subscriptionStatus,
+        subscriptionPlanId: user.subscriptionPlan?.id ?? null,
         subscriptionEnabled: !!user.subscriptionStatus,
         subscriptionType:
           user.subscriptionStatus === 'lifetime' ? 'lifetime' : 'standard',
@@ -90,7 +141,6 @@ userSettingsRoutes.post<
   UserSettingsGeneralResponse
 >('/main', isOwnProfileOrAdmin(), async (req, res, next) => {
   try {
-    const settings = getSettings();
     const userRepository = getRepository(User);
     const user = await userRepository.findOne({
       where: { id: Number(req.params.id) },
@@ -184,49 +234,111 @@ userSettingsRoutes.post<
       user.settings.watchlistSyncTv = req.body.watchlistSyncTv;
     }
 
+    const previousMaxActiveSessions = user.maxActiveSessions ?? null;
+
+    if (req.body.maxActiveSessions !== undefined) {
+      user.maxActiveSessions = req.body.maxActiveSessions;
+    }
+
     const previousSubscriptionStatus = user.subscriptionStatus;
-    const newSubscriptionStatus = req.body.subscriptionEnabled
+    const previousSubscriptionPlanId = user.subscriptionPlan?.id ?? null;
+    const previousSubscriptionExpirationDate = user.subscriptionExpirationDate;
+    let newSubscriptionStatus: SubscriptionStatus | null = req.body
+      .subscriptionEnabled
       ? req.body.subscriptionType === 'lifetime'
         ? 'lifetime'
         : 'active'
       : null;
 
+    if (req.body.subscriptionPlanId !== undefined) {
+      user.subscriptionPlan = req.body.subscriptionPlanId
+        ? await getRepository(SubscriptionPlan).findOne({
+            where: { id: req.body.subscriptionPlanId },
+          })
+        : null;
+
+      if (req.body.subscriptionPlanId && !user.subscriptionPlan) {
+        return next({ status: 404, message: 'Subscription plan not found.' });
+      }
+    }
+
+    const subscriptionPlanChanged =
+      (user.subscriptionPlan?.id ?? null) !== previousSubscriptionPlanId;
+
+    // Saving the form of a user in their grace period does not renew the subscription
     if (
-      previousSubscriptionStatus !== newSubscriptionStatus &&
-      user.jellyfinUserId
+      previousSubscriptionStatus === 'grace' &&
+      newSubscriptionStatus === 'active' &&
+      !subscriptionPlanChanged
     ) {
-      const hostname = getHostname();
-      const jellyfinClient = new JellyfinAPI(
-        hostname,
-        settings.jellyfin.apiKey
-      );
+      newSubscriptionStatus = 'grace';
+    }
 
-      await jellyfinClient.updateUserPolicy(user.jellyfinUserId, {
-        IsAdministrator: false,
-        IsDisabled: false,
-        EnableUserPreferenceAccess: true,
-        EnableLiveTvAccess: newSubscriptionStatus !== null,
-        EnableLiveTvManagement: newSubscriptionStatus !== null,
-        EnableRemoteAccess: true,
-        EnableMediaPlayback: newSubscriptionStatus !== null,
-        EnableVideoPlayback: newSubscriptionStatus !== null,
-        EnableAudioPlayback: newSubscriptionStatus !== null,
-        EnableMediaConversion: newSubscriptionStatus !== null,
-        EnableVideoPlaybackTranscoding: newSubscriptionStatus !== null,
-        EnableAudioPlaybackTranscoding: newSubscriptionStatus !== null,
-        EnablePlaybackRemuxing: newSubscriptionStatus !== null,
-        EnableContentDownloading: newSubscriptionStatus !== null,
-        PasswordResetProviderId:
-          'Jellyfin.Server.Implementations.Users.DefaultAuthenticationProvider',
-        AuthenticationProviderId:
-          'Jellyfin.Server.Implementations.Users.DefaultPasswordResetProvider',
-      });
+    // Nor does it expire the subscription of an expired user a second time
+    if (previousSubscriptionStatus === 'expired' && !newSubscriptionStatus) {
+      newSubscriptionStatus = 'expired';
+    }
+
+    if (
+      previousSubscriptionStatus !== newSubscriptionStatus ||
+      (isSubscriptionRunning(newSubscriptionStatus) && subscriptionPlanChanged)
+    ) {
+      if (isSubscriptionRunning(newSubscriptionStatus)) {
+        user.subscriptionExpirationDate =
+          newSubscriptionStatus === 'lifetime'
+            ? null
+            : getSubscriptionExpirationDate(user.subscriptionPlan);
+
+        if (isSubscriptionRunning(previousSubscriptionStatus)) {
+          await applySubscriptionPlan(
+            user,
+            user.subscriptionPlan,
+            PolicyTemplateId.ACTIVE
+          );
+        } else {
+          // Returning subscribers on the same plan get back what they had
+          // before their subscription lapsed
+          await reactivateSubscription(user, !subscriptionPlanChanged);
+        }
+      } else {
+        await expireSubscription(user);
+      }
     }
 
     user.subscriptionStatus = newSubscriptionStatus;
 
     const savedUser = await userRepository.save(user);
 
+    if ((savedUser.maxActiveSessions ?? null) !== previousMaxActiveSessions) {
+      await updateMaxActiveSessions(savedUser);
+    }
+
+    const subscriptionEventType = getSubscriptionEventType(
+      previousSubscriptionStatus,
+      newSubscriptionStatus,
+      subscriptionPlanChanged
+    );
+
+    if (subscriptionEventType) {
+      await recordSubscriptionEvent(savedUser, subscriptionEventType, {
+        previousStatus: previousSubscriptionStatus,
+        previousExpirationDate: previousSubscriptionExpirationDate,
+        actor: req.user,
+        note: req.body.subscriptionNote,
+      });
+    }
+
+    if (
+      isSubscriptionRunning(newSubscriptionStatus) &&
+      (previousSubscriptionStatus !== newSubscriptionStatus ||
+        subscriptionPlanChanged)
+    ) {
+      sendSubscriptionNotification(
+        Notification.SUBSCRIPTION_RENEWED,
+        savedUser
+      );
+    }
+
     return res.status(200).json({
       username: savedUser.username,
       discordId: savedUser.settings?.discordId,
@@ -236,11 +348,13 @@ userSettingsRoutes.post<
       originalLanguage: savedUser.settings?.originalLanguage,
       watchlistSyncMovies: savedUser.settings?.watchlistSyncMovies,
       watchlistSyncTv: savedUser.settings?.watchlistSyncTv,
+      maxActiveSessions: savedUser.maxActiveSessions,
       email: savedUser.email,
       subscriptionEnabled: !!savedUser.subscriptionStatus,
       subscriptionType:
         savedUser.subscriptionStatus === 'lifetime' ? 'lifetime' : 'standard',
       subscriptionStatus: savedUser.subscriptionStatus,
+      subscriptionPlanId: savedUser.subscriptionPlan?.id ?? null,
       subscriptionExpirationDate: savedUser.subscriptionExpirationDate,
     });
   } catch (e) {
@@ -475,7 +589,10 @@ userSettingsRoutes.post<{ id: string }, UserSettingsNotificationsResponse>(
   }
 );
 
-userSettingsRoutes.get<{ id: string }, { permissions?: number }>(
+userSettingsRoutes.get<
+  { id: string },
+  { permissions?: number; subscriptionSnapshotDate?: Date | null }
+>(
   '/permissions',
   isAuthenticated(Permission.MANAGE_USERS),
   async (req, res, next) => {
@@ -484,13 +601,17 @@ userSettingsRoutes.get<{ id: string }, { permissions?: number }>(
     try {
       const user = await userRepository.findOne({
         where: { id: Number(req.params.id) },
+        select: ['id', 'permissions', 'subscriptionSnapshot'],
       });
 
       if (!user) {
         return next({ status: 404, message: 'User not found.' });
       }
 
-      return res.status(200).json({ permissions: user.permissions });
+      return res.status(200).json({
+        permissions: user.permissions,
+        subscriptionSnapshotDate: user.subscriptionSnapshot?.createdAt ?? null,
+      });
     } catch (e) {
       next({ status: 500, message: e.message });
     }
@@ -541,4 +662,86 @@ userSettingsRoutes.post<
   }
 );
 
+userSettingsRoutes.get<{ id: string }, JellyfinLibraryAccessResponse>(
+  '/libraries',
+  isAuthenticated(Permission.MANAGE_USERS),
+  async (req, res, next) => {
+    const userRepository = getRepository(User);
+
+    try {
+      const user = await userRepository.findOne({
+        where: { id: Number(req.params.id) },
+      });
+
+      if (!user) {
+        return next({ status: 404, message: 'User not found.' });
+      }
+
+      if (!user.jellyfinUserId) {
+        return next({
+          status: 400,
+          message: 'User does not have a media server account.',
+        });
+      }
+
+      const [libraries, access] = await Promise.all([
+        getLibraryOptions(),
+        getUserLibraryAccess(user.jellyfinUserId),
+      ]);
+
+      return res.status(200).json({ libraries, ...access });
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
+userSettingsRoutes.post<
+  { id: string },
+  JellyfinLibraryAccess,
+  JellyfinLibraryAccess
+>(
+  '/libraries',
+  isAuthenticated(Permission.MANAGE_USERS),
+  async (req, res, next) => {
+    const userRepository = getRepository(User);
+
+    try {
+      const user = await userRepository.findOne({
+        where: { id: Number(req.params.id) },
+      });
+
+      if (!user) {
+        return next({ status: 404, message: 'User not found.' });
+      }
+
+      // "Owner" library access cannot be modified by other users
+      if (user.id === 1 && req.user?.id !== 1) {
+        return next({
+          status: 403,
+          message: 'You do not have permission to modify this user',
+        });
+      }
+
+      if (!user.jellyfinUserId) {
+        return next({
+          status: 400,
+          message: 'User does not have a media server account.',
+        });
+      }
+
+      const access: JellyfinLibraryAccess = {
+        enableAllFolders: req.body.enableAllFolders,
+        enabledFolders: req.body.enabledFolders ?? [],
+      };
+
+      await updateLibraryAccess(user.jellyfinUserId, access);
+
+      return res.status(200).json(access);
+    } catch (e) {
+      next({ status: 500, message: e.message });
+    }
+  }
+);
+
 export default userSettingsRoutes;
@@ -8,9 +8,10 @@ import { getRepository } from '@server/datasource';
 import Media from '@server/entity/Media';
 import { MediaRequest } from '@server/entity/MediaRequest';
 import Season from '@server/entity/Season';
+import type SeasonRequest from '@server/entity/SeasonRequest';
 import notificationManager, { Notification } from '@server/lib/notifications';
 import logger from '@server/logger';
-import { truncate } from 'lodash';
+import { truncate, uniq } from 'lodash';
 import type { EntitySubscriberInterface, UpdateEvent } from 'typeorm';
 import { EventSubscriber, In, Not } from 'typeorm';
 
@@ -100,9 +101,47 @@ export class MediaSubscriber implements EntitySubscriberInterface<Media> {
       )
       .map((season) => season.seasonNumber);
 
-    const changedSeasons = newAvailableSeasons.filter(
-      (seasonNumber) => !oldAvailableSeasons.includes(seasonNumber)
-    );
+    // Seasons with newly available episodes can complete episode requests
+    const isEpisodeAvailable = (season: Season, episodeNumber: number) =>
+      (season.episodes ?? []).some(
+        (episode) =>
+          episode.episodeNumber === episodeNumber &&
+          episode[is4k ? 'status4k' : 'status'] === MediaStatus.AVAILABLE
+      );
+    const changedEpisodeSeasons = entity.seasons
+      .filter((season) => {
+        const oldSeason = oldSeasons.find((os) => os.id === season.id);
+
+        return (season.episodes ?? []).some(
+          (episode) =>
+            isEpisodeAvailable(season, episode.episodeNumber) &&
+            (!oldSeason ||
+              !isEpisodeAvailable(oldSeason, episode.episodeNumber))
+        );
+      })
+      .map((season) => season.seasonNumber);
+
+    const changedSeasons = uniq([
+      ...newAvailableSeasons.filter(
+        (seasonNumber) => !oldAvailableSeasons.includes(seasonNumber)
+      ),
+      ...changedEpisodeSeasons,
+    ]);
+
+    const isSeasonRequestAvailable = (seasonRequest: SeasonRequest) => {
+      const season = entity.seasons.find(
+        (s) => s.seasonNumber === seasonRequest.seasonNumber
+      );
+
+      return (
+        newAvailableSeasons.includes(seasonRequest.seasonNumber) ||
+        (!!season &&
+          seasonRequest.episodes?.length > 0 &&
+          seasonRequest.episodes.every((episode) =>
+            isEpisodeAvailable(season, episode.episodeNumber)
+          ))
+      );
+    };
 
     if (changedSeasons.length > 0) {
       const tmdb = new TheMovieDb();
@@ -122,9 +161,7 @@ export class MediaSubscriber implements EntitySubscriberInterface<Media> {
         const request = requests.find(
           (request) =>
             // Check if the season is complete AND it contains the current season that was just marked available
-            request.seasons.every((season) =>
-              newAvailableSeasons.includes(season.seasonNumber)
-            ) &&
+            request.seasons.every(isSeasonRequestAvailable) &&
             request.seasons.some(
               (season) => season.seasonNumber === changedSeasonNumber
             )
@@ -156,7 +193,13 @@ export class MediaSubscriber implements EntitySubscriberInterface<Media> {
                 {
                   name: 'Requested Seasons',
                   value: request.seasons
-                    .map((season) => season.seasonNumber)
+                    .map((season) =>
+                      season.episodes?.length
+                        ? `${season.seasonNumber} (${season.episodes
+                            .map((episode) => `E${episode.episodeNumber}`)
+                            .join(', ')})`
+                        : season.seasonNumber
+                    )
                     .join(', '),
                 },
               ],
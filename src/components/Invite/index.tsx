@@ -0,0 +1,325 @@
+import Alert from '@app/components/Common/Alert';
+import Button from '@app/components/Common/Button';
+import ImageFader from '@app/components/Common/ImageFader';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import SensitiveInput from '@app/components/Common/SensitiveInput';
+import LanguagePicker from '@app/components/Layout/LanguagePicker';
+import defineMessages from '@app/utils/defineMessages';
+import { UserPlusIcon } from '@heroicons/react/24/outline';
+import type { InviteInfoResponse } from '@server/interfaces/api/inviteInterfaces';
+import { Field, Form, Formik } from 'formik';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+import useSWR from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages('components.Invite', {
+  joinserver: 'Join {applicationTitle}',
+  invitedescription:
+    'You have been invited to create an account. Pick a username and password to sign in to the media server and request content.',
+  subscriptionDays:
+    'Your account includes a {days, plural, one {# day} other {# days}} subscription.',
+  subscriptionPlanDays:
+    'Your account includes a {days, plural, one {# day} other {# days}} {plan} subscription.',
+  subscriptionPlanLifetime:
+    'Your account includes a lifetime {plan} subscription.',
+  invalidinvite:
+    'This invite link is invalid, has expired or has already been used.',
+  username: 'Username',
+  email: 'Email Address',
+  emailtip: 'Optional, used for notifications and password resets',
+  password: 'Password',
+  confirmpassword: 'Confirm Password',
+  validationusernamerequired: 'You must provide a username',
+  validationemailformat: 'Valid email required',
+  validationpasswordrequired: 'You must provide a password',
+  validationpasswordmatch: 'Passwords must match',
+  validationpasswordminchars:
+    'Password is too short; should be a minimum of 8 characters',
+  createaccount: 'Create Account',
+  creatingaccount: 'Creating Account…',
+  signuperror: 'Something went wrong while creating your account.',
+  gobacklogin: 'Return to Sign-In Page',
+});
+
+const Invite = () => {
+  const intl = useIntl();
+  const router = useRouter();
+  const [signupError, setSignupError] = useState<string | null>(null);
+  const { data, error } = useSWR<InviteInfoResponse>(
+    router.query.code ? `/api/v1/invite/${router.query.code}` : null,
+    { revalidateOnFocus: false }
+  );
+
+  const SignupSchema = Yup.object().shape({
+    username: Yup.string().required(
+      intl.formatMessage(messages.validationusernamerequired)
+    ),
+    email: Yup.string().email(
+      intl.formatMessage(messages.validationemailformat)
+    ),
+    password: Yup.string()
+      .required(intl.formatMessage(messages.validationpasswordrequired))
+      .min(8, intl.formatMessage(messages.validationpasswordminchars)),
+    confirmPassword: Yup.string()
+      .required(intl.formatMessage(messages.validationpasswordmatch))
+      .test(
+        'passwords-match',
+        intl.formatMessage(messages.validationpasswordmatch),
+        function (value) {
+          return this.parent.password === value;
+        }
+      ),
+  });
+
+  return (
+    <div className="relative flex min-h-screen flex-col bg-gray-900 py-14">
+      <ImageFader
+        forceOptimize
+        backgroundImages={[
+          '/images/rotate1.jpg',
+          '/images/rotate2.jpg',
+          '/images/rotate3.jpg',
+          '/images/rotate4.jpg',
+          '/images/rotate5.jpg',
+          '/images/rotate6.jpg',
+        ]}
+      />
+      <div className="absolute top-4 right-4 z-50">
+        <LanguagePicker />
+      </div>
+      <div className="relative z-40 mt-10 flex flex-col items-center px-4 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="relative h-48 w-full max-w-full">
+          <Image src="/logo_stacked.svg" alt="Logo" fill />
+        </div>
+        {data && (
+          <h2 className="mt-12 text-center text-3xl font-extrabold leading-9 text-gray-100">
+            {intl.formatMessage(messages.joinserver, {
+              applicationTitle: data.applicationTitle,
+            })}
+          </h2>
+        )}
+      </div>
+      <div className="relative z-50 mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div
+          className="bg-gray-800 bg-opacity-50 shadow sm:rounded-lg"
+          style={{ backdropFilter: 'blur(5px)' }}
+        >
+          <div className="px-10 py-8">
+            {!data && !error ? (
+              <LoadingSpinner />
+            ) : !data ? (
+              <>
+                <p className="text-md text-gray-300">
+                  {intl.formatMessage(messages.invalidinvite)}
+                </p>
+                <span className="mt-4 flex justify-center rounded-md shadow-sm">
+                  <Link href="/login" passHref legacyBehavior>
+                    <Button as="a" buttonType="ghost">
+                      {intl.formatMessage(messages.gobacklogin)}
+                    </Button>
+                  </Link>
+                </span>
+              </>
+            ) : (
+              <Formik
+                initialValues={{
+                  username: '',
+                  email: '',
+                  password: '',
+                  confirmPassword: '',
+                }}
+                validationSchema={SignupSchema}
+                onSubmit={async (values) => {
+                  setSignupError(null);
+
+                  try {
+                    const res = await fetch(
+                      `/api/v1/invite/${data.code}/accept`,
+                      {
+                        method: 'POST',
+                        headers: {
+                          'Content-Type': 'application/json',
+                        },
+                        body: JSON.stringify({
+                          username: values.username,
+                          email: values.email || undefined,
+                          password: values.password,
+                        }),
+                      }
+                    );
+
+                    if (!res.ok) {
+                      const body = await res.json().catch(() => ({}));
+                      setSignupError(
+                        res.status === 400 && body.message
+                          ? body.message
+                          : intl.formatMessage(messages.signuperror)
+                      );
+                      return;
+                    }
+
+                    // Reload so that the new session is picked up
+                    location.href = '/';
+                  } catch (e) {
+                    setSignupError(intl.formatMessage(messages.signuperror));
+                  }
+                }}
+              >
+                {({ errors, touched, isSubmitting, isValid }) => {
+                  return (
+                    <Form>
+                      <p className="mb-4 text-sm text-gray-300">
+                        {intl.formatMessage(messages.invitedescription)}
+                        {data.subscriptionPlanName || data.subscriptionDays ? (
+                          <>
+                            {' '}
+                            {data.subscriptionPlanName
+                              ? data.subscriptionDays
+                                ? intl.formatMessage(
+                                    messages.subscriptionPlanDays,
+                                    {
+                                      plan: data.subscriptionPlanName,
+                                      days: data.subscriptionDays,
+                                    }
+                                  )
+                                : intl.formatMessage(
+                                    messages.subscriptionPlanLifetime,
+                                    { plan: data.subscriptionPlanName }
+                                  )
+                              : intl.formatMessage(messages.subscriptionDays, {
+                                  days: data.subscriptionDays,
+                                })}
+                          </>
+                        ) : null}
+                      </p>
+                      {signupError && (
+                        <div className="mb-4">
+                          <Alert type="error" title={signupError} />
+                        </div>
+                      )}
+                      <div>
+                        <label
+                          htmlFor="username"
+                          className="my-1 block text-sm font-medium leading-5 text-gray-400 sm:mt-px"
+                        >
+                          {intl.formatMessage(messages.username)}
+                        </label>
+                        <div className="mt-1 mb-2 sm:col-span-2 sm:mt-0">
+                          <div className="form-input-field">
+                            <Field
+                              id="username"
+                              name="username"
+                              type="text"
+                              autoComplete="username"
+                              className="form-input-area block w-full min-w-0 flex-1 rounded-md border border-gray-500 bg-gray-700 text-white transition duration-150 ease-in-out sm:text-sm sm:leading-5"
+                            />
+                          </div>
+                          {errors.username && touched.username && (
+                            <div className="error">{errors.username}</div>
+                          )}
+                        </div>
+                        <label
+                          htmlFor="email"
+                          className="my-1 block text-sm font-medium leading-5 text-gray-400 sm:mt-px"
+                        >
+                          {intl.formatMessage(messages.email)}
+                          <span className="label-tip">
+                            {intl.formatMessage(messages.emailtip)}
+                          </span>
+                        </label>
+                        <div className="mt-1 mb-2 sm:col-span-2 sm:mt-0">
+                          <div className="form-input-field">
+                            <Field
+                              id="email"
+                              name="email"
+                              type="email"
+                              autoComplete="email"
+                              inputMode="email"
+                              className="form-input-area block w-full min-w-0 flex-1 rounded-md border border-gray-500 bg-gray-700 text-white transition duration-150 ease-in-out sm:text-sm sm:leading-5"
+                            />
+                          </div>
+                          {errors.email && touched.email && (
+                            <div className="error">{errors.email}</div>
+                          )}
+                        </div>
+                        <label
+                          htmlFor="password"
+                          className="my-1 block text-sm font-medium leading-5 text-gray-400 sm:mt-px"
+                        >
+                          {intl.formatMessage(messages.password)}
+                        </label>
+                        <div className="mt-1 mb-2 sm:col-span-2 sm:mt-0">
+                          <div className="form-input-field">
+                            <SensitiveInput
+                              as="field"
+                              id="password"
+                              name="password"
+                              type="password"
+                              autoComplete="new-password"
+                              className="form-input-area block w-full min-w-0 flex-1 rounded-md border border-gray-500 bg-gray-700 text-white transition duration-150 ease-in-out sm:text-sm sm:leading-5"
+                            />
+                          </div>
+                          {errors.password && touched.password && (
+                            <div className="error">{errors.password}</div>
+                          )}
+                        </div>
+                        <label
+                          htmlFor="confirmPassword"
+                          className="my-1 block text-sm font-medium leading-5 text-gray-400 sm:mt-px"
+                        >
+                          {intl.formatMessage(messages.confirmpassword)}
+                        </label>
+                        <div className="mt-1 mb-2 sm:col-span-2 sm:mt-0">
+                          <div className="form-input-field">
+                            <SensitiveInput
+                              as="field"
+                              id="confirmPassword"
+                              name="confirmPassword"
+                              type="password"
+                              autoComplete="new-password"
+                              className="form-input-area block w-full min-w-0 flex-1 rounded-md border border-gray-500 bg-gray-700 text-white transition duration-150 ease-in-out sm:text-sm sm:leading-5"
+                            />
+                          </div>
+                          {errors.confirmPassword &&
+                            touched.confirmPassword && (
+                              <div className="error">
+                                {errors.confirmPassword}
+                              </div>
+                            )}
+                        </div>
+                      </div>
+                      <div className="mt-4 border-t border-gray-700 pt-5">
+                        <div className="flex justify-end">
+                          <span className="inline-flex rounded-md shadow-sm">
+                            <Button
+                              buttonType="primary"
+                              type="submit"
+                              disabled={isSubmitting || !isValid}
+                            >
+                              <UserPlusIcon />
+                              <span>
+                                {isSubmitting
+                                  ? intl.formatMessage(messages.creatingaccount)
+                                  : intl.formatMessage(messages.createaccount)}
+                              </span>
+                            </Button>
+                          </span>
+                        </div>
+                      </div>
+                    </Form>
+                  );
+                }}
+              </Formik>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Invite;
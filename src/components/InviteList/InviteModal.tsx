@@ -0,0 +1,333 @@
+import Modal from '@app/components/Common/Modal';
+import LibraryAccessEdit from '@app/components/LibraryAccessEdit';
+import PermissionEdit from '@app/components/PermissionEdit';
+import { Permission, useUser } from '@app/hooks/useUser';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import type Invite from '@server/entity/Invite';
+import type { JellyfinLibraryResultsResponse } from '@server/interfaces/api/jellyfinInterfaces';
+import type { SubscriptionPlanResultsResponse } from '@server/interfaces/api/subscriptionInterfaces';
+import { Field, Formik } from 'formik';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages('components.InviteList.InviteModal', {
+  createinvite: 'New Invite',
+  create: 'Create Invite',
+  creating: 'Creating…',
+  maxUses: 'Maximum Uses',
+  maxUsesTip: 'Leave empty to allow any number of signups',
+  expiresAt: 'Valid Until',
+  expiresAtTip: 'Leave empty for an invite that never expires',
+  subscriptionPlan: 'Subscription Plan',
+  subscriptionPlanTip:
+    'Invited users start a subscription on this plan, which replaces the permissions below',
+  noSubscriptionPlan: 'None',
+  subscriptionDays: 'Subscription Length',
+  subscriptionDaysTip:
+    'Leave empty to use the length of the plan, or to start no subscription when no plan is selected',
+  days: 'days',
+  libraryAccess: 'Libraries',
+  libraryAccessTip: 'Libraries invited users can access on the media server',
+  enableLibraryAccess: 'Set the libraries of invited users',
+  permissions: 'Permissions',
+  permissionsTip:
+    'Permissions given to invited users when no subscription plan is selected',
+  enablePermissions: 'Override the default permissions',
+  validationMaxUses: 'You must provide a valid number of uses',
+  validationSubscriptionDays: 'You must provide a valid number of days',
+  inviteCreated: 'Invite created successfully!',
+  inviteFailed: 'Something went wrong while creating the invite.',
+});
+
+interface InviteModalProps {
+  onClose: () => void;
+  onSave: (invite: Invite) => void;
+}
+
+const InviteModal = ({ onClose, onSave }: InviteModalProps) => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const { user: currentUser, hasPermission } = useUser();
+  const { data: libraries } = useSWR<JellyfinLibraryResultsResponse>(
+    '/api/v1/user/libraries'
+  );
+  const { data: plans } = useSWR<SubscriptionPlanResultsResponse>(
+    hasPermission(Permission.ADMIN) ? '/api/v1/subscription/plans' : null
+  );
+
+  const InviteSchema = Yup.object().shape({
+    maxUses: Yup.number()
+      .nullable()
+      .transform((value, originalValue) =>
+        originalValue === '' ? null : value
+      )
+      .typeError(intl.formatMessage(messages.validationMaxUses))
+      .integer(intl.formatMessage(messages.validationMaxUses))
+      .min(1, intl.formatMessage(messages.validationMaxUses)),
+    subscriptionDays: Yup.number()
+      .nullable()
+      .transform((value, originalValue) =>
+        originalValue === '' ? null : value
+      )
+      .typeError(intl.formatMessage(messages.validationSubscriptionDays))
+      .integer(intl.formatMessage(messages.validationSubscriptionDays))
+      .min(1, intl.formatMessage(messages.validationSubscriptionDays)),
+  });
+
+  return (
+    <Transition
+      as="div"
+      appear
+      show
+      enter="transition-opacity ease-in-out duration-300"
+      enterFrom="opacity-0"
+      enterTo="opacity-100"
+      leave="transition-opacity ease-in-out duration-300"
+      leaveFrom="opacity-100"
+      leaveTo="opacity-0"
+    >
+      <Formik
+        initialValues={{
+          maxUses: '1',
+          expiresAt: '',
+          subscriptionPlanId: '',
+          subscriptionDays: '',
+          libraryAccessEnabled: false,
+          libraryAccess: {
+            enableAllFolders: true,
+            enabledFolders: [] as string[],
+          },
+          permissionsEnabled: false,
+          permissions: Permission.REQUEST,
+        }}
+        validationSchema={InviteSchema}
+        onSubmit={async (values) => {
+          try {
+            const res = await fetch('/api/v1/invite', {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify({
+                maxUses: Number(values.maxUses) || null,
+                expiresAt: values.expiresAt
+                  ? new Date(values.expiresAt).toISOString()
+                  : null,
+                subscriptionPlanId: Number(values.subscriptionPlanId) || null,
+                subscriptionDays: Number(values.subscriptionDays) || null,
+                libraryAccess: values.libraryAccessEnabled
+                  ? values.libraryAccess
+                  : null,
+                permissions: values.permissionsEnabled
+                  ? values.permissions
+                  : undefined,
+              }),
+            });
+            if (!res.ok) throw new Error();
+            const invite: Invite = await res.json();
+            addToast(intl.formatMessage(messages.inviteCreated), {
+              appearance: 'success',
+              autoDismiss: true,
+            });
+            onSave(invite);
+          } catch (e) {
+            addToast(intl.formatMessage(messages.inviteFailed), {
+              appearance: 'error',
+              autoDismiss: true,
+            });
+          }
+        }}
+      >
+        {({
+          errors,
+          touched,
+          handleSubmit,
+          isSubmitting,
+          isValid,
+          setFieldValue,
+          values,
+        }) => {
+          return (
+            <Modal
+              onCancel={onClose}
+              okButtonType="primary"
+              okText={
+                isSubmitting
+                  ? intl.formatMessage(messages.creating)
+                  : intl.formatMessage(messages.create)
+              }
+              okDisabled={isSubmitting || !isValid}
+              onOk={() => handleSubmit()}
+              title={intl.formatMessage(messages.createinvite)}
+            >
+              <div className="form-row">
+                <label htmlFor="maxUses" className="text-label">
+                  {intl.formatMessage(messages.maxUses)}
+                  <span className="label-tip">
+                    {intl.formatMessage(messages.maxUsesTip)}
+                  </span>
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <Field
+                      id="maxUses"
+                      name="maxUses"
+                      type="text"
+                      inputMode="numeric"
+                      className="short"
+                    />
+                  </div>
+                  {errors.maxUses && touched.maxUses && (
+                    <div className="error">{errors.maxUses}</div>
+                  )}
+                </div>
+              </div>
+              <div className="form-row">
+                <label htmlFor="expiresAt" className="text-label">
+                  {intl.formatMessage(messages.expiresAt)}
+                  <span className="label-tip">
+                    {intl.formatMessage(messages.expiresAtTip)}
+                  </span>
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <Field id="expiresAt" name="expiresAt" type="date" />
+                  </div>
+                </div>
+              </div>
+              {plans && (
+                <div className="form-row">
+                  <label htmlFor="subscriptionPlanId" className="text-label">
+                    {intl.formatMessage(messages.subscriptionPlan)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.subscriptionPlanTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field
+                        as="select"
+                        id="subscriptionPlanId"
+                        name="subscriptionPlanId"
+                      >
+                        <option value="">
+                          {intl.formatMessage(messages.noSubscriptionPlan)}
+                        </option>
+                        {plans
+                          .filter((plan) => !plan.isExpiredProfile)
+                          .map((plan) => (
+                            <option
+                              key={`subscription-plan-${plan.id}`}
+                              value={plan.id}
+                            >
+                              {plan.name}
+                            </option>
+                          ))}
+                      </Field>
+                    </div>
+                  </div>
+                </div>
+              )}
+              <div className="form-row">
+                <label htmlFor="subscriptionDays" className="text-label">
+                  {intl.formatMessage(messages.subscriptionDays)}
+                  <span className="label-tip">
+                    {intl.formatMessage(messages.subscriptionDaysTip)}
+                  </span>
+                </label>
+                <div className="form-input-area">
+                  <div className="flex items-center">
+                    <Field
+                      id="subscriptionDays"
+                      name="subscriptionDays"
+                      type="text"
+                      inputMode="numeric"
+                      className="short"
+                    />
+                    <span className="ml-2 text-gray-300">
+                      {intl.formatMessage(messages.days)}
+                    </span>
+                  </div>
+                  {errors.subscriptionDays && touched.subscriptionDays && (
+                    <div className="error">{errors.subscriptionDays}</div>
+                  )}
+                </div>
+              </div>
+              <div className="form-row">
+                <label htmlFor="libraryAccessEnabled" className="text-label">
+                  {intl.formatMessage(messages.libraryAccess)}
+                  <span className="label-tip">
+                    {intl.formatMessage(messages.libraryAccessTip)}
+                  </span>
+                </label>
+                <div className="form-input-area">
+                  <div className="flex flex-col">
+                    <div className="mb-4 flex items-center">
+                      <Field
+                        type="checkbox"
+                        id="libraryAccessEnabled"
+                        name="libraryAccessEnabled"
+                      />
+                      <span className="ml-2 text-gray-300">
+                        {intl.formatMessage(messages.enableLibraryAccess)}
+                      </span>
+                    </div>
+                    {values.libraryAccessEnabled && libraries && (
+                      <LibraryAccessEdit
+                        libraries={libraries}
+                        access={values.libraryAccess}
+                        onUpdate={(access) =>
+                          setFieldValue('libraryAccess', access)
+                        }
+                      />
+                    )}
+                  </div>
+                </div>
+              </div>
+              {!values.subscriptionPlanId && (
+                <div className="form-row">
+                  <label htmlFor="permissionsEnabled" className="text-label">
+                    {intl.formatMessage(messages.permissions)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.permissionsTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <div className="flex flex-col">
+                      <div className="mb-4 flex items-center">
+                        <Field
+                          type="checkbox"
+                          id="permissionsEnabled"
+                          name="permissionsEnabled"
+                        />
+                        <span className="ml-2 text-gray-300">
+                          {intl.formatMessage(messages.enablePermissions)}
+                        </span>
+                      </div>
+                      {values.permissionsEnabled && (
+                        <div className="max-w-lg">
+                          <PermissionEdit
+                            actingUser={currentUser}
+                            currentPermission={values.permissions}
+                            onUpdate={(newPermissions) =>
+                              setFieldValue('permissions', newPermissions)
+                            }
+                          />
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </Modal>
+          );
+        }}
+      </Formik>
+    </Transition>
+  );
+};
+
+export default InviteModal;
@@ -0,0 +1,273 @@
+import Badge from '@app/components/Common/Badge';
+import Button from '@app/components/Common/Button';
+import Header from '@app/components/Common/Header';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import Modal from '@app/components/Common/Modal';
+import PageTitle from '@app/components/Common/PageTitle';
+import Table from '@app/components/Common/Table';
+import InviteModal from '@app/components/InviteList/InviteModal';
+import useSettings from '@app/hooks/useSettings';
+import globalMessages from '@app/i18n/globalMessages';
+import ErrorPage from '@app/pages/_error';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import {
+  ClipboardDocumentIcon,
+  PlusIcon,
+  TrashIcon,
+} from '@heroicons/react/24/solid';
+import type { InviteResultsResponse } from '@server/interfaces/api/inviteInterfaces';
+import copy from 'copy-to-clipboard';
+import Link from 'next/link';
+import { Fragment, useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+
+const messages = defineMessages('components.InviteList', {
+  invites: 'Invites',
+  invitesDescription:
+    'Invite links let new users create their own media server account and sign in.',
+  code: 'Code',
+  subscription: 'Subscription',
+  subscriptionDays: '{days, plural, one {# day} other {# days}}',
+  subscriptionPlanDays: '{plan} ({days, plural, one {# day} other {# days}})',
+  lifetime: 'Lifetime',
+  noSubscription: 'None',
+  uses: 'Uses',
+  usesLimited: '{used} of {max}',
+  usesUnlimited: '{used} of unlimited',
+  validUntil: 'Valid Until',
+  noExpiration: 'No expiration',
+  expired: 'Expired',
+  createdBy: 'Created By',
+  noInvites: 'No invites have been created yet.',
+  addInvite: 'Add Invite',
+  copyLink: 'Copy Link',
+  linkCopied: 'Copied invite link to clipboard.',
+  deleteInvite: 'Delete Invite',
+  deleteInviteConfirm:
+    'Are you sure you want to delete this invite? Its link will stop working.',
+  inviteDeleted: 'Invite deleted successfully!',
+  inviteDeleteFailed: 'Something went wrong while deleting the invite.',
+});
+
+const InviteList = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const settings = useSettings();
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<InviteResultsResponse>('/api/v1/invite');
+  const [createInviteModal, setCreateInviteModal] = useState(false);
+  const [deleteInviteModal, setDeleteInviteModal] = useState<{
+    open: boolean;
+    code: string | null;
+  }>({
+    open: false,
+    code: null,
+  });
+
+  const copyInviteLink = (code: string) => {
+    copy(
+      `${
+        settings.currentSettings.applicationUrl || window.location.origin
+      }/invite/${code}`
+    );
+    addToast(intl.formatMessage(messages.linkCopied), {
+      appearance: 'success',
+      autoDismiss: true,
+    });
+  };
+
+  const deleteInvite = async () => {
+    try {
+      const res = await fetch(`/api/v1/invite/${deleteInviteModal.code}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) throw new Error();
+      addToast(intl.formatMessage(messages.inviteDeleted), {
+        appearance: 'success',
+        autoDismiss: true,
+      });
+    } catch (e) {
+      addToast(intl.formatMessage(messages.inviteDeleteFailed), {
+        appearance: 'error',
+        autoDismiss: true,
+      });
+    } finally {
+      setDeleteInviteModal({ open: false, code: null });
+      revalidate();
+    }
+  };
+
+  if (!data && error) {
+    return <ErrorPage statusCode={500} />;
+  }
+
+  return (
+    <>
+      <PageTitle title={intl.formatMessage(messages.invites)} />
+      <Header>{intl.formatMessage(messages.invites)}</Header>
+      <p className="description mb-6">
+        {intl.formatMessage(messages.invitesDescription)}
+      </p>
+      {createInviteModal && (
+        <InviteModal
+          onClose={() => setCreateInviteModal(false)}
+          onSave={(invite) => {
+            revalidate();
+            setCreateInviteModal(false);
+            copyInviteLink(invite.code);
+          }}
+        />
+      )}
+      <Transition
+        as={Fragment}
+        show={deleteInviteModal.open}
+        enter="transition-opacity ease-in-out duration-300"
+        enterFrom="opacity-0"
+        enterTo="opacity-100"
+        leave="transition-opacity ease-in-out duration-300"
+        leaveFrom="opacity-100"
+        leaveTo="opacity-0"
+      >
+        <Modal
+          okText={intl.formatMessage(globalMessages.delete)}
+          okButtonType="danger"
+          onOk={() => deleteInvite()}
+          onCancel={() => setDeleteInviteModal({ open: false, code: null })}
+          title={intl.formatMessage(messages.deleteInvite)}
+        >
+          {intl.formatMessage(messages.deleteInviteConfirm)}
+        </Modal>
+      </Transition>
+      {!data ? (
+        <LoadingSpinner />
+      ) : (
+        <Table>
+          <thead>
+            <tr>
+              <Table.TH>{intl.formatMessage(messages.code)}</Table.TH>
+              <Table.TH>{intl.formatMessage(messages.subscription)}</Table.TH>
+              <Table.TH>{intl.formatMessage(messages.uses)}</Table.TH>
+              <Table.TH>{intl.formatMessage(messages.validUntil)}</Table.TH>
+              <Table.TH>{intl.formatMessage(messages.createdBy)}</Table.TH>
+              <Table.TH className="text-right">
+                <Button
+                  buttonType="ghost"
+                  buttonSize="sm"
+                  onClick={() => setCreateInviteModal(true)}
+                >
+                  <PlusIcon />
+                  <span>{intl.formatMessage(messages.addInvite)}</span>
+                </Button>
+              </Table.TH>
+            </tr>
+          </thead>
+          <Table.TBody>
+            {data.length === 0 && (
+              <tr>
+                <Table.TD colSpan={6} alignText="center">
+                  {intl.formatMessage(messages.noInvites)}
+                </Table.TD>
+              </tr>
+            )}
+            {data.map((invite) => {
+              const subscriptionDays =
+                invite.subscriptionDays ??
+                invite.subscriptionPlan?.durationDays;
+
+              return (
+                <tr key={`invite-${invite.id}`}>
+                  <Table.TD className="font-mono">{invite.code}</Table.TD>
+                  <Table.TD>
+                    {invite.subscriptionPlan
+                      ? subscriptionDays
+                        ? intl.formatMessage(messages.subscriptionPlanDays, {
+                            plan: invite.subscriptionPlan.name,
+                            days: subscriptionDays,
+                          })
+                        : `${
+                            invite.subscriptionPlan.name
+                          } (${intl.formatMessage(messages.lifetime)})`
+                      : subscriptionDays
+                      ? intl.formatMessage(messages.subscriptionDays, {
+                          days: subscriptionDays,
+                        })
+                      : intl.formatMessage(messages.noSubscription)}
+                  </Table.TD>
+                  <Table.TD>
+                    {invite.maxUses
+                      ? intl.formatMessage(messages.usesLimited, {
+                          used: invite.usesCount,
+                          max: invite.maxUses,
+                        })
+                      : intl.formatMessage(messages.usesUnlimited, {
+                          used: invite.usesCount,
+                        })}
+                  </Table.TD>
+                  <Table.TD>
+                    {invite.expiresAt ? (
+                      new Date(invite.expiresAt) < new Date() ? (
+                        <Badge badgeType="danger">
+                          {intl.formatMessage(messages.expired)}
+                        </Badge>
+                      ) : (
+                        intl.formatDate(invite.expiresAt, {
+                          year: 'numeric',
+                          month: 'long',
+                          day: 'numeric',
+                        })
+                      )
+                    ) : (
+                      intl.formatMessage(messages.noExpiration)
+                    )}
+                  </Table.TD>
+                  <Table.TD>
+                    {invite.createdBy && (
+                      <Link
+                        href={`/users/${invite.createdBy.id}`}
+                        className="hover:underline"
+                      >
+                        {invite.createdBy.displayName}
+                      </Link>
+                    )}
+                  </Table.TD>
+                  <Table.TD alignText="right">
+                    <Button
+                      buttonType="primary"
+                      buttonSize="sm"
+                      className="mr-2"
+                      onClick={() => copyInviteLink(invite.code)}
+                    >
+                      <ClipboardDocumentIcon />
+                      <span>{intl.formatMessage(messages.copyLink)}</span>
+                    </Button>
+                    <Button
+                      buttonType="danger"
+                      buttonSize="sm"
+                      onClick={() =>
+                        setDeleteInviteModal({
+                          open: true,
+                          code: invite.code,
+                        })
+                      }
+                    >
+                      <TrashIcon />
+                      <span>{intl.formatMessage(globalMessages.delete)}</span>
+                    </Button>
+                  </Table.TD>
+                </tr>
+              );
+            })}
+          </Table.TBody>
+        </Table>
+      )}
+    </>
+  );
+};
+
+export default InviteList;
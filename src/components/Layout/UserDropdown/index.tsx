@@ -6,6 +6,7 @@ import { Menu, Transition } from '@headlessui/react';
 import {
   ArrowRightOnRectangleIcon,
   ClockIcon,
+  TicketIcon,
 } from '@heroicons/react/24/outline';
 import { CogIcon, UserIcon } from '@heroicons/react/24/solid';
 import type { LinkProps } from 'next/link';
@@ -17,6 +18,7 @@ const messages = defineMessages('components.Layout.UserDropdown', {
   myprofile: 'Profile',
   settings: 'Settings',
   requests: 'Requests',
+  subscription: 'Subscription',
   signout: 'Sign Out',
 });
 
@@ -151,6 +153,22 @@ const UserDropdown = () => {
                   </ForwardedLink>
                 )}
               </Menu.Item>
+              <Menu.Item>
+                {({ active }) => (
+                  <ForwardedLink
+                    href="/profile/subscription"
+                    className={`flex items-center rounded px-4 py-2 text-sm font-medium text-gray-200 transition duration-150 ease-in-out ${
+                      active
+                        ? 'bg-gradient-to-br from-indigo-600 to-purple-600 text-white'
+                        : ''
+                    }`}
+                    data-testid="user-menu-subscription"
+                  >
+                    <TicketIcon className="mr-2 inline h-5 w-5" />
+                    <span>{intl.formatMessage(messages.subscription)}</span>
+                  </ForwardedLink>
+                )}
+              </Menu.Item>
               <Menu.Item>
                 {({ active }) => (
                   <ForwardedLink
@@ -8,6 +8,9 @@ const messages = defineMessages('components.Layout.UserWarnings', {
   emailRequired: 'An email address is required.',
   emailInvalid: 'Email address is invalid.',
   passwordRequired: 'A password is required.',
+  subscriptionExpired: 'Subscription expired',
+  subscriptionGracePeriod:
+    'Renew your subscription to keep access to the media server.',
 });
 
 interface UserWarningsProps {
@@ -33,6 +36,11 @@ const UserWarnings: React.FC<UserWarningsProps> = ({ onClick }) => {
         link = '/profile/settings/';
         warningTitle = 'Profile is incomplete';
         warningText = intl.formatMessage(messages.emailRequired);
+        break;
+      case 'subscriptionGracePeriod':
+        link = '/profile';
+        warningTitle = intl.formatMessage(messages.subscriptionExpired);
+        warningText = intl.formatMessage(messages.subscriptionGracePeriod);
     }
 
     res = (
@@ -0,0 +1,106 @@
+import defineMessages from '@app/utils/defineMessages';
+import type {
+  JellyfinLibraryAccess,
+  JellyfinLibraryOption,
+} from '@server/interfaces/api/jellyfinInterfaces';
+import { useIntl } from 'react-intl';
+
+const messages = defineMessages('components.LibraryAccessEdit', {
+  allLibraries: 'All Libraries',
+  allLibrariesDescription:
+    'Grant access to every library, including libraries added later.',
+  movieLibrary: 'Movie library',
+  seriesLibrary: 'Series library',
+});
+
+interface LibraryAccessEditProps {
+  libraries: JellyfinLibraryOption[];
+  access: JellyfinLibraryAccess;
+  onUpdate: (access: JellyfinLibraryAccess) => void;
+}
+
+const LibraryAccessEdit = ({
+  libraries,
+  access,
+  onUpdate,
+}: LibraryAccessEditProps) => {
+  const intl = useIntl();
+
+  return (
+    <>
+      <div className="relative mt-4 flex items-start first:mt-0">
+        <div className="flex h-6 items-center">
+          <input
+            id="library-access-all"
+            name="enableAllFolders"
+            type="checkbox"
+            onChange={() =>
+              onUpdate({
+                ...access,
+                enableAllFolders: !access.enableAllFolders,
+              })
+            }
+            checked={access.enableAllFolders}
+          />
+        </div>
+        <div className="ml-3 text-sm leading-6">
+          <label htmlFor="library-access-all" className="block">
+            <div className="flex flex-col">
+              <span className="font-medium text-white">
+                {intl.formatMessage(messages.allLibraries)}
+              </span>
+              <span className="font-normal text-gray-400">
+                {intl.formatMessage(messages.allLibrariesDescription)}
+              </span>
+            </div>
+          </label>
+        </div>
+      </div>
+      {libraries.map((library) => (
+        <div
+          key={`library-access-${library.id}`}
+          className={`relative mt-4 flex items-start pl-10 ${
+            access.enableAllFolders ? 'opacity-50' : ''
+          }`}
+        >
+          <div className="flex h-6 items-center">
+            <input
+              id={`library-access-${library.id}`}
+              name="enabledFolders"
+              type="checkbox"
+              disabled={access.enableAllFolders}
+              onChange={() =>
+                onUpdate({
+                  ...access,
+                  enabledFolders: access.enabledFolders.includes(library.id)
+                    ? access.enabledFolders.filter((id) => id !== library.id)
+                    : [...access.enabledFolders, library.id],
+                })
+              }
+              checked={
+                access.enableAllFolders ||
+                access.enabledFolders.includes(library.id)
+              }
+            />
+          </div>
+          <div className="ml-3 text-sm leading-6">
+            <label htmlFor={`library-access-${library.id}`} className="block">
+              <div className="flex flex-col">
+                <span className="font-medium text-white">{library.name}</span>
+                <span className="font-normal text-gray-400">
+                  {intl.formatMessage(
+                    library.type === 'movie'
+                      ? messages.movieLibrary
+                      : messages.seriesLibrary
+                  )}
+                </span>
+              </div>
+            </label>
+          </div>
+        </div>
+      ))}
+    </>
+  );
+};
+
+export default LibraryAccessEdit;
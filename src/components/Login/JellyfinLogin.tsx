@@ -367,6 +367,10 @@ const JellyfinLogin: React.FC<JellyfinLoginProps> = ({
       : settings.currentSettings.jellyfinHost;
     const jellyfinForgotPasswordUrl =
       settings.currentSettings.jellyfinForgotPasswordUrl;
+    // The emailed reset link also sets the new password on the media server
+    const passwordResetEnabled =
+      settings.currentSettings.applicationUrl &&
+      settings.currentSettings.emailEnabled;
     return (
       <div>
         <Formik
@@ -453,6 +457,8 @@ const JellyfinLogin: React.FC<JellyfinLoginProps> = ({
                           href={
                             jellyfinForgotPasswordUrl
                               ? `${jellyfinForgotPasswordUrl}`
+                              : passwordResetEnabled
+                              ? '/resetpassword'
                               : `${baseUrl}/web/index.html#!/${
                                   settings.currentSettings.mediaServerType ===
                                   MediaServerType.EMBY
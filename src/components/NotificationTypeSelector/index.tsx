@@ -39,6 +39,13 @@ const messages = defineMessages('components.NotificationTypeSelector', {
     'Send notifications when media requests are declined.',
   usermediadeclinedDescription:
     'Get notified when your media requests are declined.',
+  requestcomment: 'Request Comment',
+  requestcommentDescription:
+    'Send notifications when media requests receive new comments.',
+  userrequestcommentDescription:
+    'Get notified when your media requests receive new comments.',
+  adminrequestcommentDescription:
+    'Get notified when other users comment on media requests.',
   issuecreated: 'Issue Reported',
   issuecreatedDescription: 'Send notifications when issues are reported.',
   userissuecreatedDescription: 'Get notified when other users report issues.',
@@ -64,6 +71,28 @@ const messages = defineMessages('components.NotificationTypeSelector', {
   mediaautorequested: 'Request Automatically Submitted',
   mediaautorequestedDescription:
     'Get notified when new media requests are automatically submitted for items on Your Watchlist.',
+  subscriptionexpiring: 'Subscription Expiring',
+  subscriptionexpiringDescription:
+    'Send notifications when subscriptions are about to expire, along with a daily list of expiring accounts.',
+  usersubscriptionexpiringDescription:
+    'Get notified before your subscription expires.',
+  adminsubscriptionexpiringDescription:
+    'Get a daily list of accounts whose subscription is about to expire.',
+  subscriptionexpired: 'Subscription Expired',
+  subscriptionexpiredDescription:
+    'Send notifications when subscriptions expire.',
+  usersubscriptionexpiredDescription:
+    'Get notified when your subscription expires.',
+  subscriptionrenewed: 'Subscription Renewed',
+  subscriptionrenewedDescription:
+    'Send notifications when subscriptions are renewed.',
+  usersubscriptionrenewedDescription:
+    'Get notified when your subscription is renewed.',
+  suspiciousactivity: 'Suspicious Activity',
+  suspiciousactivityDescription:
+    'Send notifications when a user crosses the account sharing threshold.',
+  usersuspiciousactivityDescription:
+    'Get notified when a user crosses the account sharing threshold.',
 });
 
 export const hasNotificationType = (
@@ -106,6 +135,11 @@ export enum Notification {
   ISSUE_RESOLVED = 1024,
   ISSUE_REOPENED = 2048,
   MEDIA_AUTO_REQUESTED = 4096,
+  SUBSCRIPTION_EXPIRING = 8192,
+  SUBSCRIPTION_EXPIRED = 16384,
+  SUBSCRIPTION_RENEWED = 32768,
+  SUSPICIOUS_ACTIVITY = 65536,
+  REQUEST_COMMENT = 131072,
 }
 
 export const ALL_NOTIFICATIONS = Object.values(Notification)
@@ -286,6 +320,20 @@ const NotificationTypeSelector = ({
         hidden: user && !hasPermission(Permission.MANAGE_REQUESTS),
         hasNotifyUser: false,
       },
+      {
+        id: 'request-comment',
+        name: intl.formatMessage(messages.requestcomment),
+        description: intl.formatMessage(
+          user
+            ? hasPermission(Permission.MANAGE_REQUESTS)
+              ? messages.adminrequestcommentDescription
+              : messages.userrequestcommentDescription
+            : messages.requestcommentDescription
+        ),
+        value: Notification.REQUEST_COMMENT,
+        hasNotifyUser:
+          !user || hasPermission(Permission.MANAGE_REQUESTS) ? false : true,
+      },
       {
         id: 'issue-created',
         name: intl.formatMessage(messages.issuecreated),
@@ -355,6 +403,54 @@ const NotificationTypeSelector = ({
         hasNotifyUser:
           !user || hasPermission(Permission.MANAGE_ISSUES) ? false : true,
       },
+      {
+        id: 'subscription-expiring',
+        name: intl.formatMessage(messages.subscriptionexpiring),
+        description: intl.formatMessage(
+          user
+            ? hasPermission(Permission.MANAGE_USERS)
+              ? messages.adminsubscriptionexpiringDescription
+              : messages.usersubscriptionexpiringDescription
+            : messages.subscriptionexpiringDescription
+        ),
+        value: Notification.SUBSCRIPTION_EXPIRING,
+        hasNotifyUser:
+          !user || hasPermission(Permission.MANAGE_USERS) ? false : true,
+      },
+      {
+        id: 'subscription-expired',
+        name: intl.formatMessage(messages.subscriptionexpired),
+        description: intl.formatMessage(
+          user
+            ? messages.usersubscriptionexpiredDescription
+            : messages.subscriptionexpiredDescription
+        ),
+        value: Notification.SUBSCRIPTION_EXPIRED,
+        hasNotifyUser: true,
+      },
+      {
+        id: 'subscription-renewed',
+        name: intl.formatMessage(messages.subscriptionrenewed),
+        description: intl.formatMessage(
+          user
+            ? messages.usersubscriptionrenewedDescription
+            : messages.subscriptionrenewedDescription
+        ),
+        value: Notification.SUBSCRIPTION_RENEWED,
+        hasNotifyUser: true,
+      },
+      {
+        id: 'suspicious-activity',
+        name: intl.formatMessage(messages.suspiciousactivity),
+        description: intl.formatMessage(
+          user
+            ? messages.usersuspiciousactivityDescription
+            : messages.suspiciousactivityDescription
+        ),
+        value: Notification.SUSPICIOUS_ACTIVITY,
+        hasNotifyUser: false,
+        hidden: user && !hasPermission(Permission.MANAGE_USERS),
+      },
     ];
 
     const filteredTypes = types.filter(
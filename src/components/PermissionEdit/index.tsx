@@ -62,6 +62,9 @@ export const messages = defineMessages('components.PermissionEdit', {
   autorequestSeries: 'Auto-Request Series',
   autorequestSeriesDescription:
     'Grant permission to automatically submit requests for non-4K series via Plex Watchlist.',
+  vote: 'Vote',
+  voteDescription:
+    'Grant permission to vote for pending requests submitted by other users.',
   viewrequests: 'View Requests',
   viewrequestsDescription:
     'Grant permission to view media requests submitted by other users.',
@@ -258,6 +261,12 @@ export const PermissionEdit = ({
         },
       ],
     },
+    {
+      id: 'vote',
+      name: intl.formatMessage(messages.vote),
+      description: intl.formatMessage(messages.voteDescription),
+      permission: Permission.VOTE,
+    },
     {
       id: 'request4k',
       name: intl.formatMessage(messages.request4k),
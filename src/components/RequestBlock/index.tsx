@@ -1,7 +1,9 @@
 import Badge from '@app/components/Common/Badge';
 import Button from '@app/components/Common/Button';
 import Tooltip from '@app/components/Common/Tooltip';
+import RequestComments from '@app/components/RequestComments';
 import RequestModal from '@app/components/RequestModal';
+import DeclineRequestModal from '@app/components/RequestModal/DeclineRequestModal';
 import useRequestOverride from '@app/hooks/useRequestOverride';
 import { useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
@@ -35,6 +37,9 @@ const messages = defineMessages('components.RequestBlock', {
   decline: 'Decline Request',
   edit: 'Edit Request',
   delete: 'Delete Request',
+  reason: 'Request Reason',
+  declinereason: 'Decline Reason',
+  scheduledfor: 'Scheduled for {date}',
 });
 
 interface RequestBlockProps {
@@ -47,10 +52,11 @@ const RequestBlock = ({ request, onUpdate }: RequestBlockProps) => {
   const intl = useIntl();
   const [isUpdating, setIsUpdating] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showDeclineModal, setShowDeclineModal] = useState(false);
   const { profile, rootFolder, server, languageProfile } =
     useRequestOverride(request);
 
-  const updateRequest = async (type: 'approve' | 'decline'): Promise<void> => {
+  const updateRequest = async (type: 'approve'): Promise<void> => {
     setIsUpdating(true);
     const res = await fetch(`/api/v1/request/${request.id}/${type}`, {
       method: 'POST',
@@ -93,6 +99,17 @@ const RequestBlock = ({ request, onUpdate }: RequestBlockProps) => {
           setShowEditModal(false);
         }}
       />
+      <DeclineRequestModal
+        show={showDeclineModal}
+        requestIds={[request.id]}
+        onCancel={() => setShowDeclineModal(false)}
+        onComplete={() => {
+          if (onUpdate) {
+            onUpdate();
+          }
+          setShowDeclineModal(false);
+        }}
+      />
       <div className="px-4 py-3 text-gray-300">
         <div className="flex items-center justify-between">
           <div className="mr-6 min-w-0 flex-1 flex-col items-center text-sm leading-5">
@@ -150,7 +167,7 @@ const RequestBlock = ({ request, onUpdate }: RequestBlockProps) => {
                   <Button
                     buttonType="danger"
                     className="mr-1"
-                    onClick={() => updateRequest('decline')}
+                    onClick={() => setShowDeclineModal(true)}
                     disabled={isUpdating}
                   >
                     <XMarkIcon />
@@ -193,6 +210,20 @@ const RequestBlock = ({ request, onUpdate }: RequestBlockProps) => {
                   {intl.formatMessage(globalMessages.approved)}
                 </Badge>
               )}
+              {request.status === MediaRequestStatus.APPROVED &&
+                request.scheduledAt && (
+                  <span className="ml-1">
+                    <Badge badgeType="primary">
+                      {intl.formatMessage(messages.scheduledfor, {
+                        date: intl.formatDate(request.scheduledAt, {
+                          year: 'numeric',
+                          month: 'long',
+                          day: 'numeric',
+                        }),
+                      })}
+                    </Badge>
+                  </span>
+                )}
               {request.status === MediaRequestStatus.DECLINED && (
                 <Badge badgeType="danger">
                   {intl.formatMessage(globalMessages.declined)}
@@ -251,12 +282,37 @@ const RequestBlock = ({ request, onUpdate }: RequestBlockProps) => {
                     {season.seasonNumber === 0
                       ? intl.formatMessage(globalMessages.specials)
                       : season.seasonNumber}
+                    {season.episodes?.length > 0 &&
+                      ` (${season.episodes
+                        .map((episode) => `E${episode.episodeNumber}`)
+                        .join(', ')})`}
                   </Badge>
                 </span>
               ))}
             </div>
           </div>
         )}
+        {request.reason && (
+          <div className="mt-2 flex flex-col text-sm">
+            <div className="mb-1 font-medium">
+              {intl.formatMessage(messages.reason)}
+            </div>
+            <div className="whitespace-pre-wrap break-words text-gray-400">
+              {request.reason}
+            </div>
+          </div>
+        )}
+        {request.status === MediaRequestStatus.DECLINED &&
+          request.declineReason && (
+            <div className="mt-2 flex flex-col text-sm">
+              <div className="mb-1 font-medium">
+                {intl.formatMessage(messages.declinereason)}
+              </div>
+              <div className="whitespace-pre-wrap break-words text-gray-400">
+                {request.declineReason}
+              </div>
+            </div>
+          )}
         {(server || profile || rootFolder || languageProfile) && (
           <>
             <div className="mt-4 mb-1 text-sm">
@@ -298,6 +354,9 @@ const RequestBlock = ({ request, onUpdate }: RequestBlockProps) => {
             </ul>
           </>
         )}
+        <div className="mt-4">
+          <RequestComments request={request} />
+        </div>
       </div>
     </div>
   );
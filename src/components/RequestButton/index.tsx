@@ -1,5 +1,6 @@
 import ButtonWithDropdown from '@app/components/Common/ButtonWithDropdown';
 import RequestModal from '@app/components/RequestModal';
+import DeclineRequestModal from '@app/components/RequestModal/DeclineRequestModal';
 import useSettings from '@app/hooks/useSettings';
 import { Permission, useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
@@ -7,14 +8,18 @@ import defineMessages from '@app/utils/defineMessages';
 import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
 import {
   CheckIcon,
+  HandThumbDownIcon,
+  HandThumbUpIcon,
   InformationCircleIcon,
   XMarkIcon,
 } from '@heroicons/react/24/solid';
 import { MediaRequestStatus, MediaStatus } from '@server/constants/media';
 import type Media from '@server/entity/Media';
 import type { MediaRequest } from '@server/entity/MediaRequest';
+import type { RequestVoteResponse } from '@server/interfaces/api/requestInterfaces';
 import { useMemo, useState } from 'react';
 import { useIntl } from 'react-intl';
+import useSWR from 'swr';
 
 const messages = defineMessages('components.RequestButton', {
   viewrequest: 'View Request',
@@ -33,6 +38,10 @@ const messages = defineMessages('components.RequestButton', {
     'Approve {requestCount, plural, one {4K Request} other {{requestCount} 4K Requests}}',
   decline4krequests:
     'Decline {requestCount, plural, one {4K Request} other {{requestCount} 4K Requests}}',
+  vote: 'Vote ({voteCount})',
+  vote4k: 'Vote for 4K ({voteCount})',
+  removevote: 'Remove Vote ({voteCount})',
+  removevote4k: 'Remove 4K Vote ({voteCount})',
 });
 
 interface ButtonOption {
@@ -65,6 +74,8 @@ const RequestButton = ({
   const [showRequestModal, setShowRequestModal] = useState(false);
   const [showRequest4kModal, setShowRequest4kModal] = useState(false);
   const [editRequest, setEditRequest] = useState(false);
+  const [showDeclineModal, setShowDeclineModal] = useState(false);
+  const [declineRequests, setDeclineRequests] = useState<MediaRequest[]>([]);
 
   // All pending requests
   const activeRequests = media?.requests.filter(
@@ -89,10 +100,33 @@ const RequestButton = ({
       : undefined;
   }, [active4kRequests, user]);
 
-  const modifyRequest = async (
-    request: MediaRequest,
-    type: 'approve' | 'decline'
-  ) => {
+  // Users who can vote see the votes of pending requests made by others
+  const canVote = (request?: MediaRequest) =>
+    !!request &&
+    request.requestedBy.id !== user?.id &&
+    hasPermission(Permission.VOTE);
+  const { data: votes, mutate: revalidateVotes } = useSWR<RequestVoteResponse>(
+    canVote(activeRequest) ? `/api/v1/request/${activeRequest?.id}/vote` : null
+  );
+  const { data: votes4k, mutate: revalidateVotes4k } =
+    useSWR<RequestVoteResponse>(
+      canVote(active4kRequest)
+        ? `/api/v1/request/${active4kRequest?.id}/vote`
+        : null
+    );
+
+  const toggleVote = async (request: MediaRequest, hasVoted: boolean) => {
+    const res = await fetch(`/api/v1/request/${request.id}/vote`, {
+      method: hasVoted ? 'DELETE' : 'POST',
+    });
+    if (!res.ok) throw new Error();
+
+    revalidateVotes();
+    revalidateVotes4k();
+    onUpdate();
+  };
+
+  const modifyRequest = async (request: MediaRequest, type: 'approve') => {
     const res = await fetch(`/api/v1/request/${request.id}/${type}`, {
       method: 'POST',
     });
@@ -106,7 +140,7 @@ const RequestButton = ({
 
   const modifyRequests = async (
     requests: MediaRequest[],
-    type: 'approve' | 'decline'
+    type: 'approve'
   ): Promise<void> => {
     if (!requests) {
       return;
@@ -125,6 +159,11 @@ const RequestButton = ({
     onUpdate();
   };
 
+  const openDeclineModal = (requests: MediaRequest[]) => {
+    setDeclineRequests(requests);
+    setShowDeclineModal(true);
+  };
+
   const buttons: ButtonOption[] = [];
 
   // If there are pending requests, show request management options first
@@ -164,7 +203,7 @@ const RequestButton = ({
           id: 'decline-request',
           text: intl.formatMessage(messages.declinerequest),
           action: () => {
-            modifyRequest(activeRequest, 'decline');
+            openDeclineModal([activeRequest]);
           },
           svg: <XMarkIcon />,
         }
@@ -192,7 +231,7 @@ const RequestButton = ({
             requestCount: activeRequests.length,
           }),
           action: () => {
-            modifyRequests(activeRequests, 'decline');
+            openDeclineModal(activeRequests);
           },
           svg: <XMarkIcon />,
         }
@@ -234,7 +273,7 @@ const RequestButton = ({
           id: 'decline-4k-request',
           text: intl.formatMessage(messages.declinerequest4k),
           action: () => {
-            modifyRequest(active4kRequest, 'decline');
+            openDeclineModal([active4kRequest]);
           },
           svg: <XMarkIcon />,
         }
@@ -262,7 +301,7 @@ const RequestButton = ({
             requestCount: active4kRequests.length,
           }),
           action: () => {
-            modifyRequests(active4kRequests, 'decline');
+            openDeclineModal(active4kRequests);
           },
           svg: <XMarkIcon />,
         }
@@ -270,6 +309,34 @@ const RequestButton = ({
     }
   }
 
+  if (activeRequest && votes) {
+    buttons.push({
+      id: 'vote',
+      text: intl.formatMessage(
+        votes.hasVoted ? messages.removevote : messages.vote,
+        { voteCount: votes.voteCount }
+      ),
+      action: () => {
+        toggleVote(activeRequest, votes.hasVoted);
+      },
+      svg: votes.hasVoted ? <HandThumbDownIcon /> : <HandThumbUpIcon />,
+    });
+  }
+
+  if (active4kRequest && votes4k) {
+    buttons.push({
+      id: 'vote-4k',
+      text: intl.formatMessage(
+        votes4k.hasVoted ? messages.removevote4k : messages.vote4k,
+        { voteCount: votes4k.voteCount }
+      ),
+      action: () => {
+        toggleVote(active4kRequest, votes4k.hasVoted);
+      },
+      svg: votes4k.hasVoted ? <HandThumbDownIcon /> : <HandThumbUpIcon />,
+    });
+  }
+
   // Standard request button
   if (
     (!media || media.status === MediaStatus.UNKNOWN) &&
@@ -392,6 +459,15 @@ const RequestButton = ({
         }}
         onCancel={() => setShowRequest4kModal(false)}
       />
+      <DeclineRequestModal
+        show={showDeclineModal}
+        requestIds={declineRequests.map((request) => request.id)}
+        onComplete={() => {
+          onUpdate();
+          setShowDeclineModal(false);
+        }}
+        onCancel={() => setShowDeclineModal(false)}
+      />
       <ButtonWithDropdown
         text={
           <>
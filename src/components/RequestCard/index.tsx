@@ -3,6 +3,7 @@ import Button from '@app/components/Common/Button';
 import CachedImage from '@app/components/Common/CachedImage';
 import Tooltip from '@app/components/Common/Tooltip';
 import RequestModal from '@app/components/RequestModal';
+import DeclineRequestModal from '@app/components/RequestModal/DeclineRequestModal';
 import StatusBadge from '@app/components/StatusBadge';
 import useDeepLinks from '@app/hooks/useDeepLinks';
 import useSettings from '@app/hooks/useSettings';
@@ -229,6 +230,7 @@ const RequestCard = ({ request, onTitleData }: RequestCardProps) => {
   const { addToast } = useToasts();
   const [isRetrying, setRetrying] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showDeclineModal, setShowDeclineModal] = useState(false);
   const url =
     request.type === 'movie'
       ? `/api/v1/movie/${request.media.tmdbId}`
@@ -262,7 +264,7 @@ const RequestCard = ({ request, onTitleData }: RequestCardProps) => {
     iOSPlexUrl4k: requestData?.media?.iOSPlexUrl4k,
   });
 
-  const modifyRequest = async (type: 'approve' | 'decline') => {
+  const modifyRequest = async (type: 'approve') => {
     const res = await fetch(`/api/v1/request/${request.id}/${type}`, {
       method: 'POST',
     });
@@ -341,6 +343,15 @@ const RequestCard = ({ request, onTitleData }: RequestCardProps) => {
           setShowEditModal(false);
         }}
       />
+      <DeclineRequestModal
+        show={showDeclineModal}
+        requestIds={[request.id]}
+        onCancel={() => setShowDeclineModal(false)}
+        onComplete={() => {
+          revalidate();
+          setShowDeclineModal(false);
+        }}
+      />
       <div
         className="relative flex w-72 overflow-hidden rounded-xl bg-gray-800 bg-cover bg-center p-4 text-gray-400 shadow ring-1 ring-gray-700 sm:w-96"
         data-testid="request-card"
@@ -429,6 +440,10 @@ const RequestCard = ({ request, onTitleData }: RequestCardProps) => {
                       {season.seasonNumber === 0
                         ? intl.formatMessage(globalMessages.specials)
                         : season.seasonNumber}
+                      {season.episodes?.length > 0 &&
+                        ` (${season.episodes
+                          .map((episode) => `E${episode.episodeNumber}`)
+                          .join(', ')})`}
                     </Badge>
                   </span>
                 ))}
@@ -529,7 +544,7 @@ const RequestCard = ({ request, onTitleData }: RequestCardProps) => {
                       buttonType="danger"
                       buttonSize="sm"
                       className="hidden sm:block"
-                      onClick={() => modifyRequest('decline')}
+                      onClick={() => setShowDeclineModal(true)}
                     >
                       <XMarkIcon />
                       <span>{intl.formatMessage(globalMessages.decline)}</span>
@@ -541,7 +556,7 @@ const RequestCard = ({ request, onTitleData }: RequestCardProps) => {
                         buttonType="danger"
                         buttonSize="sm"
                         className="sm:hidden"
-                        onClick={() => modifyRequest('decline')}
+                        onClick={() => setShowDeclineModal(true)}
                       >
                         <XMarkIcon />
                       </Button>
@@ -0,0 +1,133 @@
+import CachedImage from '@app/components/Common/CachedImage';
+import Modal from '@app/components/Common/Modal';
+import { Permission, useUser } from '@app/hooks/useUser';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import { TrashIcon } from '@heroicons/react/24/solid';
+import type { default as RequestCommentType } from '@server/entity/RequestComment';
+import Link from 'next/link';
+import { Fragment, useState } from 'react';
+import { FormattedRelativeTime, useIntl } from 'react-intl';
+
+const messages = defineMessages('components.RequestComments.RequestComment', {
+  postedby: '{username} · {relativeTime}',
+  delete: 'Delete Comment',
+  areyousuredelete: 'Are you sure you want to delete this comment?',
+});
+
+interface RequestCommentProps {
+  requestId: number;
+  comment: RequestCommentType;
+  onUpdate?: () => void;
+}
+
+const RequestComment = ({
+  requestId,
+  comment,
+  onUpdate,
+}: RequestCommentProps) => {
+  const intl = useIntl();
+  const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const { user, hasPermission } = useUser();
+  const isActiveUser = comment.user.id === user?.id;
+
+  const deleteComment = async () => {
+    try {
+      const res = await fetch(
+        `/api/v1/request/${requestId}/comment/${comment.id}`,
+        {
+          method: 'DELETE',
+        }
+      );
+      if (!res.ok) throw new Error();
+    } catch (e) {
+      // something went wrong deleting the comment
+    } finally {
+      setShowDeleteModal(false);
+
+      if (onUpdate) {
+        onUpdate();
+      }
+    }
+  };
+
+  return (
+    <div className="flex space-x-3 py-2">
+      <Transition
+        as={Fragment}
+        enter="transition-opacity duration-300"
+        enterFrom="opacity-0"
+        enterTo="opacity-100"
+        leave="transition-opacity duration-300"
+        leaveFrom="opacity-100"
+        leaveTo="opacity-0"
+        show={showDeleteModal}
+      >
+        <Modal
+          title={intl.formatMessage(messages.delete)}
+          onCancel={() => setShowDeleteModal(false)}
+          onOk={() => deleteComment()}
+          okText={intl.formatMessage(messages.delete)}
+          okButtonType="danger"
+        >
+          {intl.formatMessage(messages.areyousuredelete)}
+        </Modal>
+      </Transition>
+      <Link
+        href={isActiveUser ? '/profile' : `/users/${comment.user.id}`}
+        className="flex-shrink-0"
+      >
+        <CachedImage
+          type="avatar"
+          src={comment.user.avatar}
+          alt=""
+          className="h-8 w-8 rounded-full object-cover"
+          width={32}
+          height={32}
+        />
+      </Link>
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center justify-between text-xs text-gray-400">
+          <span>
+            {intl.formatMessage(messages.postedby, {
+              username: (
+                <Link
+                  href={isActiveUser ? '/profile' : `/users/${comment.user.id}`}
+                  className="font-semibold text-gray-100 transition duration-300 hover:text-white hover:underline"
+                >
+                  {comment.user.displayName}
+                </Link>
+              ),
+              relativeTime: (
+                <FormattedRelativeTime
+                  value={Math.floor(
+                    (new Date(comment.createdAt).getTime() - Date.now()) / 1000
+                  )}
+                  updateIntervalInSeconds={1}
+                  numeric="auto"
+                />
+              ),
+            })}
+          </span>
+          {(isActiveUser || hasPermission(Permission.MANAGE_REQUESTS)) && (
+            <button
+              type="button"
+              className="text-gray-400 transition duration-300 hover:text-red-500"
+              onClick={() => setShowDeleteModal(true)}
+            >
+              <TrashIcon className="h-4 w-4" />
+              <span className="sr-only">
+                {intl.formatMessage(messages.delete)}
+              </span>
+            </button>
+          )}
+        </div>
+        <div className="mt-1 whitespace-pre-wrap break-words text-sm text-gray-300">
+          {comment.message}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RequestComment;
@@ -0,0 +1,126 @@
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import RequestComment from '@app/components/RequestComments/RequestComment';
+import { Permission, useUser } from '@app/hooks/useUser';
+import defineMessages from '@app/utils/defineMessages';
+import { ChatBubbleOvalLeftEllipsisIcon } from '@heroicons/react/24/solid';
+import type { MediaRequest } from '@server/entity/MediaRequest';
+import type { default as RequestCommentType } from '@server/entity/RequestComment';
+import type { NonFunctionProperties } from '@server/interfaces/api/common';
+import { Field, Form, Formik } from 'formik';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages('components.RequestComments', {
+  comments: 'Comments',
+  nocomments: 'No comments.',
+  commentplaceholder: 'Add a comment…',
+  comment: 'Comment',
+  commenterror: 'Something went wrong while posting the comment.',
+});
+
+interface RequestCommentsProps {
+  request: NonFunctionProperties<MediaRequest>;
+}
+
+const RequestComments = ({ request }: RequestCommentsProps) => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const { user, hasPermission } = useUser();
+  const {
+    data: comments,
+    error,
+    mutate: revalidate,
+  } = useSWR<RequestCommentType[]>(`/api/v1/request/${request.id}/comment`);
+
+  const CommentSchema = Yup.object().shape({
+    message: Yup.string().trim().required(),
+  });
+
+  const canComment =
+    request.requestedBy.id === user?.id ||
+    hasPermission(Permission.MANAGE_REQUESTS);
+
+  return (
+    <div className="flex flex-col text-sm">
+      <div className="mb-1 font-medium">
+        {intl.formatMessage(messages.comments)}
+      </div>
+      {!comments && !error ? (
+        <LoadingSpinner />
+      ) : (
+        <div className="divide-y divide-gray-700">
+          {(comments ?? []).map((comment) => (
+            <RequestComment
+              key={`request-comment-${comment.id}`}
+              requestId={request.id}
+              comment={comment}
+              onUpdate={() => revalidate()}
+            />
+          ))}
+          {(comments ?? []).length === 0 && (
+            <div className="py-2 text-gray-400">
+              {intl.formatMessage(messages.nocomments)}
+            </div>
+          )}
+        </div>
+      )}
+      {canComment && (
+        <Formik
+          initialValues={{
+            message: '',
+          }}
+          validationSchema={CommentSchema}
+          onSubmit={async (values, { resetForm }) => {
+            try {
+              const res = await fetch(`/api/v1/request/${request.id}/comment`, {
+                method: 'POST',
+                headers: {
+                  'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ message: values.message }),
+              });
+              if (!res.ok) throw new Error();
+              revalidate();
+              resetForm();
+            } catch (e) {
+              addToast(intl.formatMessage(messages.commenterror), {
+                appearance: 'error',
+                autoDismiss: true,
+              });
+            }
+          }}
+        >
+          {({ isValid, isSubmitting, dirty }) => (
+            <Form>
+              <div className="mt-2">
+                <Field
+                  id={`request-comment-${request.id}`}
+                  name="message"
+                  as="textarea"
+                  placeholder={intl.formatMessage(messages.commentplaceholder)}
+                  className="h-20"
+                />
+                <div className="mt-2 flex justify-end">
+                  <Button
+                    type="submit"
+                    buttonType="primary"
+                    buttonSize="sm"
+                    disabled={!isValid || !dirty || isSubmitting}
+                  >
+                    <ChatBubbleOvalLeftEllipsisIcon />
+                    <span>{intl.formatMessage(messages.comment)}</span>
+                  </Button>
+                </div>
+              </div>
+            </Form>
+          )}
+        </Formik>
+      )}
+    </div>
+  );
+};
+
+export default RequestComments;
@@ -2,7 +2,10 @@ import Badge from '@app/components/Common/Badge';
 import Button from '@app/components/Common/Button';
 import CachedImage from '@app/components/Common/CachedImage';
 import ConfirmButton from '@app/components/Common/ConfirmButton';
+import Modal from '@app/components/Common/Modal';
+import RequestComments from '@app/components/RequestComments';
 import RequestModal from '@app/components/RequestModal';
+import DeclineRequestModal from '@app/components/RequestModal/DeclineRequestModal';
 import StatusBadge from '@app/components/StatusBadge';
 import useDeepLinks from '@app/hooks/useDeepLinks';
 import useSettings from '@app/hooks/useSettings';
@@ -10,8 +13,10 @@ import { Permission, useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
 import { refreshIntervalHelper } from '@app/utils/refreshIntervalHelper';
+import { Transition } from '@headlessui/react';
 import {
   ArrowPathIcon,
+  ChatBubbleOvalLeftEllipsisIcon,
   CheckIcon,
   PencilIcon,
   TrashIcon,
@@ -23,7 +28,7 @@ import type { NonFunctionProperties } from '@server/interfaces/api/common';
 import type { MovieDetails } from '@server/models/Movie';
 import type { TvDetails } from '@server/models/Tv';
 import Link from 'next/link';
-import { useState } from 'react';
+import { Fragment, useState } from 'react';
 import { useInView } from 'react-intersection-observer';
 import { FormattedRelativeTime, useIntl } from 'react-intl';
 import { useToasts } from 'react-toast-notifications';
@@ -45,6 +50,12 @@ const messages = defineMessages('components.RequestList.RequestItem', {
   unknowntitle: 'Unknown Title',
   removearr: 'Remove from {arr}',
   profileName: 'Profile',
+  votes: 'Votes',
+  scheduledfor: 'Scheduled For',
+  approvalrule: 'Approval Rule',
+  reason: 'Reason',
+  declinereason: 'Declined For',
+  comments: 'Comments',
 });
 
 const isMovie = (movie: MovieDetails | TvDetails): movie is MovieDetails => {
@@ -303,6 +314,8 @@ const RequestItem = ({ request, revalidateList }: RequestItemProps) => {
   const intl = useIntl();
   const { user, hasPermission } = useUser();
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showDeclineModal, setShowDeclineModal] = useState(false);
+  const [showCommentsModal, setShowCommentsModal] = useState(false);
   const url =
     request.type === 'movie'
       ? `/api/v1/movie/${request.media.tmdbId}`
@@ -325,7 +338,7 @@ const RequestItem = ({ request, revalidateList }: RequestItemProps) => {
 
   const [isRetrying, setRetrying] = useState(false);
 
-  const modifyRequest = async (type: 'approve' | 'decline') => {
+  const modifyRequest = async (type: 'approve') => {
     const res = await fetch(`/api/v1/request/${request.id}/${type}`, {
       method: 'POST',
     });
@@ -418,6 +431,34 @@ const RequestItem = ({ request, revalidateList }: RequestItemProps) => {
           setShowEditModal(false);
         }}
       />
+      <DeclineRequestModal
+        show={showDeclineModal}
+        requestIds={[request.id]}
+        onCancel={() => setShowDeclineModal(false)}
+        onComplete={() => {
+          revalidate();
+          setShowDeclineModal(false);
+        }}
+      />
+      <Transition
+        as={Fragment}
+        enter="transition-opacity duration-300"
+        enterFrom="opacity-0"
+        enterTo="opacity-100"
+        leave="transition-opacity duration-300"
+        leaveFrom="opacity-100"
+        leaveTo="opacity-0"
+        show={showCommentsModal}
+      >
+        <Modal
+          title={intl.formatMessage(messages.comments)}
+          subTitle={isMovie(title) ? title.title : title.name}
+          onCancel={() => setShowCommentsModal(false)}
+          cancelText={intl.formatMessage(globalMessages.close)}
+        >
+          <RequestComments request={requestData} />
+        </Modal>
+      </Transition>
       <div className="relative flex w-full flex-col justify-between overflow-hidden rounded-xl bg-gray-800 py-2 text-gray-400 shadow-md ring-1 ring-gray-700 xl:h-28 xl:flex-row">
         {title.backdropPath && (
           <div className="absolute inset-0 z-0 w-full bg-cover bg-center xl:w-2/3">
@@ -499,6 +540,10 @@ const RequestItem = ({ request, revalidateList }: RequestItemProps) => {
                           {season.seasonNumber === 0
                             ? intl.formatMessage(globalMessages.specials)
                             : season.seasonNumber}
+                          {season.episodes?.length > 0 &&
+                            ` (${season.episodes
+                              .map((episode) => `E${episode.episodeNumber}`)
+                              .join(', ')})`}
                         </Badge>
                       </span>
                     ))}
@@ -669,6 +714,68 @@ const RequestItem = ({ request, revalidateList }: RequestItemProps) => {
                 </span>
               </div>
             )}
+            {requestData.voteCount > 0 && (
+              <div className="card-field">
+                <span className="card-field-name">
+                  {intl.formatMessage(messages.votes)}
+                </span>
+                <span className="flex truncate text-sm text-gray-300">
+                  {requestData.voteCount}
+                </span>
+              </div>
+            )}
+            {requestData.status === MediaRequestStatus.APPROVED &&
+              requestData.scheduledAt && (
+                <div className="card-field">
+                  <span className="card-field-name">
+                    {intl.formatMessage(messages.scheduledfor)}
+                  </span>
+                  <span className="flex truncate text-sm text-gray-300">
+                    {intl.formatDate(requestData.scheduledAt, {
+                      year: 'numeric',
+                      month: 'long',
+                      day: 'numeric',
+                    })}
+                  </span>
+                </div>
+              )}
+            {requestData.approvalRule && (
+              <div className="card-field">
+                <span className="card-field-name">
+                  {intl.formatMessage(messages.approvalrule)}
+                </span>
+                <span className="flex truncate text-sm text-gray-300">
+                  {requestData.approvalRule.name}
+                </span>
+              </div>
+            )}
+            {requestData.reason && (
+              <div className="card-field">
+                <span className="card-field-name">
+                  {intl.formatMessage(messages.reason)}
+                </span>
+                <span
+                  className="truncate text-sm text-gray-300"
+                  title={requestData.reason}
+                >
+                  {requestData.reason}
+                </span>
+              </div>
+            )}
+            {requestData.status === MediaRequestStatus.DECLINED &&
+              requestData.declineReason && (
+                <div className="card-field">
+                  <span className="card-field-name">
+                    {intl.formatMessage(messages.declinereason)}
+                  </span>
+                  <span
+                    className="truncate text-sm text-gray-300"
+                    title={requestData.declineReason}
+                  >
+                    {requestData.declineReason}
+                  </span>
+                </div>
+              )}
           </div>
         </div>
         <div className="z-10 mt-4 flex w-full flex-col justify-center space-y-2 pl-4 pr-4 xl:mt-0 xl:w-96 xl:items-end xl:pl-0">
@@ -733,7 +840,7 @@ const RequestItem = ({ request, revalidateList }: RequestItemProps) => {
                   <Button
                     className="w-full"
                     buttonType="danger"
-                    onClick={() => modifyRequest('decline')}
+                    onClick={() => setShowDeclineModal(true)}
                   >
                     <XMarkIcon />
                     <span>{intl.formatMessage(globalMessages.decline)}</span>
@@ -741,22 +848,34 @@ const RequestItem = ({ request, revalidateList }: RequestItemProps) => {
                 </span>
               </div>
             )}
-          {requestData.status === MediaRequestStatus.PENDING &&
-            (hasPermission(Permission.MANAGE_REQUESTS) ||
-              (requestData.requestedBy.id === user?.id &&
-                (requestData.type === 'tv' ||
-                  hasPermission(Permission.REQUEST_ADVANCED)))) && (
-              <span className="w-full">
-                <Button
-                  className="w-full"
-                  buttonType="primary"
-                  onClick={() => setShowEditModal(true)}
-                >
-                  <PencilIcon />
-                  <span>{intl.formatMessage(messages.editrequest)}</span>
-                </Button>
-              </span>
-            )}
+          <div className="flex w-full flex-row space-x-2">
+            {requestData.status === MediaRequestStatus.PENDING &&
+              (hasPermission(Permission.MANAGE_REQUESTS) ||
+                (requestData.requestedBy.id === user?.id &&
+                  (requestData.type === 'tv' ||
+                    hasPermission(Permission.REQUEST_ADVANCED)))) && (
+                <span className="w-full">
+                  <Button
+                    className="w-full"
+                    buttonType="primary"
+                    onClick={() => setShowEditModal(true)}
+                  >
+                    <PencilIcon />
+                    <span>{intl.formatMessage(messages.editrequest)}</span>
+                  </Button>
+                </span>
+              )}
+            <span className="w-full">
+              <Button
+                className="w-full"
+                buttonType="default"
+                onClick={() => setShowCommentsModal(true)}
+              >
+                <ChatBubbleOvalLeftEllipsisIcon />
+                <span>{intl.formatMessage(messages.comments)}</span>
+              </Button>
+            </span>
+          </div>
           {requestData.status === MediaRequestStatus.PENDING &&
             !hasPermission(Permission.MANAGE_REQUESTS) &&
             requestData.requestedBy.id === user?.id && (
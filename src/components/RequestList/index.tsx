@@ -1,26 +1,38 @@
 import Button from '@app/components/Common/Button';
 import Header from '@app/components/Common/Header';
 import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import Modal from '@app/components/Common/Modal';
 import PageTitle from '@app/components/Common/PageTitle';
 import Tooltip from '@app/components/Common/Tooltip';
 import RequestItem from '@app/components/RequestList/RequestItem';
+import DeclineRequestModal from '@app/components/RequestModal/DeclineRequestModal';
 import { useUpdateQueryParams } from '@app/hooks/useUpdateQueryParams';
-import { useUser } from '@app/hooks/useUser';
+import { Permission, useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
 import {
   ArrowDownIcon,
+  ArrowPathIcon,
   ArrowUpIcon,
   Bars3BottomLeftIcon,
+  CheckIcon,
   ChevronLeftIcon,
   ChevronRightIcon,
   FunnelIcon,
+  TrashIcon,
+  XMarkIcon,
 } from '@heroicons/react/24/solid';
-import type { RequestResultsResponse } from '@server/interfaces/api/requestInterfaces';
+import type {
+  RequestBulkAction,
+  RequestBulkResponse,
+  RequestResultsResponse,
+} from '@server/interfaces/api/requestInterfaces';
 import Link from 'next/link';
 import { useRouter } from 'next/router';
 import { useEffect, useState } from 'react';
 import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
 import useSWR from 'swr';
 
 const messages = defineMessages('components.RequestList', {
@@ -28,7 +40,19 @@ const messages = defineMessages('components.RequestList', {
   showallrequests: 'Show All Requests',
   sortAdded: 'Most Recent',
   sortModified: 'Last Modified',
+  sortVotes: 'Most Wanted',
   sortDirection: 'Toggle Sort Direction',
+  selectall: 'Select All',
+  selectedrequests:
+    '{count, plural, one {# request} other {# requests}} selected',
+  deleterequests: 'Delete {count, plural, one {Request} other {# Requests}}',
+  deleteconfirm:
+    'Are you sure you want to delete {count, plural, one {this request} other {these requests}}?',
+  requestsupdated:
+    '{count, plural, one {# request} other {# requests}} updated successfully!',
+  requestsfailed:
+    'Failed to update {count, plural, one {# request} other {# requests}}.',
+  bulkerror: 'Something went wrong while updating the requests.',
 });
 
 enum Filter {
@@ -41,7 +65,7 @@ enum Filter {
   FAILED = 'failed',
 }
 
-type Sort = 'added' | 'modified';
+type Sort = 'added' | 'modified' | 'votes';
 
 type SortDirection = 'asc' | 'desc';
 
@@ -51,12 +75,17 @@ const RequestList = () => {
   const { user } = useUser({
     id: Number(router.query.userId),
   });
-  const { user: currentUser } = useUser();
+  const { user: currentUser, hasPermission } = useUser();
+  const { addToast } = useToasts();
   const [currentFilter, setCurrentFilter] = useState<Filter>(Filter.PENDING);
   const [currentSort, setCurrentSort] = useState<Sort>('added');
   const [currentSortDirection, setCurrentSortDirection] =
     useState<SortDirection>('desc');
   const [currentPageSize, setCurrentPageSize] = useState<number>(10);
+  const [selectedRequests, setSelectedRequests] = useState<number[]>([]);
+  const [showDeclineModal, setShowDeclineModal] = useState(false);
+  const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
 
   const page = router.query.page ? Number(router.query.page) : 1;
   const pageIndex = page - 1;
@@ -112,6 +141,89 @@ const RequestList = () => {
     );
   }, [currentFilter, currentSort, currentSortDirection, currentPageSize]);
 
+  // Only keep the selection for the requests currently shown
+  useEffect(() => {
+    setSelectedRequests([]);
+  }, [currentFilter, currentSort, currentSortDirection, currentPageSize, page]);
+
+  const canModerate = hasPermission(Permission.MANAGE_REQUESTS);
+  const isAllRequestsSelected = () =>
+    !!data?.results.length && selectedRequests.length === data.results.length;
+  const toggleAllRequests = () => {
+    if (data && !isAllRequestsSelected()) {
+      setSelectedRequests(data.results.map((request) => request.id));
+    } else {
+      setSelectedRequests([]);
+    }
+  };
+  const toggleRequest = (requestId: number) => {
+    if (selectedRequests.includes(requestId)) {
+      setSelectedRequests((requests) =>
+        requests.filter((r) => r !== requestId)
+      );
+    } else {
+      setSelectedRequests((requests) => [...requests, requestId]);
+    }
+  };
+
+  const onBulkComplete = () => {
+    setSelectedRequests([]);
+    revalidate();
+  };
+
+  const bulkUpdateRequests = async (action: RequestBulkAction) => {
+    setIsUpdating(true);
+
+    try {
+      const res = await fetch('/api/v1/request/bulk', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ids: selectedRequests, action }),
+      });
+      if (!res.ok) throw new Error();
+      const { results }: RequestBulkResponse = await res.json();
+
+      const succeeded = results.filter((result) => result.success);
+      const failed = results.filter((result) => !result.success);
+
+      if (succeeded.length > 0) {
+        addToast(
+          intl.formatMessage(messages.requestsupdated, {
+            count: succeeded.length,
+          }),
+          {
+            appearance: 'success',
+            autoDismiss: true,
+          }
+        );
+      }
+
+      if (failed.length > 0) {
+        addToast(
+          intl.formatMessage(messages.requestsfailed, {
+            count: failed.length,
+          }),
+          {
+            appearance: 'error',
+            autoDismiss: true,
+          }
+        );
+      }
+
+      setShowDeleteModal(false);
+      onBulkComplete();
+    } catch (e) {
+      addToast(intl.formatMessage(messages.bulkerror), {
+        appearance: 'error',
+        autoDismiss: true,
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   if (!data && !error) {
     return <LoadingSpinner />;
   }
@@ -217,6 +329,9 @@ const RequestList = () => {
               <option value="modified">
                 {intl.formatMessage(messages.sortModified)}
               </option>
+              <option value="votes">
+                {intl.formatMessage(messages.sortVotes)}
+              </option>
             </select>
             <Tooltip content={intl.formatMessage(messages.sortDirection)}>
               <Button
@@ -239,13 +354,127 @@ const RequestList = () => {
           </div>
         </div>
       </div>
+      <DeclineRequestModal
+        show={showDeclineModal}
+        requestIds={selectedRequests}
+        onComplete={() => {
+          setShowDeclineModal(false);
+          onBulkComplete();
+        }}
+        onCancel={() => setShowDeclineModal(false)}
+      />
+      <Transition
+        as="div"
+        enter="transition-opacity duration-300"
+        enterFrom="opacity-0"
+        enterTo="opacity-100"
+        leave="transition-opacity duration-300"
+        leaveFrom="opacity-100"
+        leaveTo="opacity-0"
+        show={showDeleteModal}
+      >
+        <Modal
+          title={intl.formatMessage(messages.deleterequests, {
+            count: selectedRequests.length,
+          })}
+          onOk={() => bulkUpdateRequests('delete')}
+          okText={
+            isUpdating
+              ? intl.formatMessage(globalMessages.deleting)
+              : intl.formatMessage(globalMessages.delete)
+          }
+          okDisabled={isUpdating}
+          okButtonType="danger"
+          onCancel={() => setShowDeleteModal(false)}
+        >
+          {intl.formatMessage(messages.deleteconfirm, {
+            count: selectedRequests.length,
+          })}
+        </Modal>
+      </Transition>
+      {canModerate && data.results.length > 0 && (
+        <div className="flex flex-col justify-between space-y-2 py-2 sm:flex-row sm:items-center sm:space-y-0">
+          <label
+            htmlFor="selectAllRequests"
+            className="flex items-center space-x-3 text-sm"
+          >
+            <input
+              type="checkbox"
+              id="selectAllRequests"
+              name="selectAllRequests"
+              checked={isAllRequestsSelected()}
+              onChange={() => toggleAllRequests()}
+            />
+            <span>
+              {selectedRequests.length > 0
+                ? intl.formatMessage(messages.selectedrequests, {
+                    count: selectedRequests.length,
+                  })
+                : intl.formatMessage(messages.selectall)}
+            </span>
+          </label>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              buttonType="success"
+              buttonSize="sm"
+              disabled={selectedRequests.length === 0 || isUpdating}
+              onClick={() => bulkUpdateRequests('approve')}
+            >
+              <CheckIcon />
+              <span>{intl.formatMessage(globalMessages.approve)}</span>
+            </Button>
+            <Button
+              buttonType="danger"
+              buttonSize="sm"
+              disabled={selectedRequests.length === 0 || isUpdating}
+              onClick={() => setShowDeclineModal(true)}
+            >
+              <XMarkIcon />
+              <span>{intl.formatMessage(globalMessages.decline)}</span>
+            </Button>
+            <Button
+              buttonType="primary"
+              buttonSize="sm"
+              disabled={selectedRequests.length === 0 || isUpdating}
+              onClick={() => bulkUpdateRequests('retry')}
+            >
+              <ArrowPathIcon />
+              <span>{intl.formatMessage(globalMessages.retry)}</span>
+            </Button>
+            <Button
+              buttonType="danger"
+              buttonSize="sm"
+              disabled={selectedRequests.length === 0 || isUpdating}
+              onClick={() => setShowDeleteModal(true)}
+            >
+              <TrashIcon />
+              <span>{intl.formatMessage(globalMessages.delete)}</span>
+            </Button>
+          </div>
+        </div>
+      )}
       {data.results.map((request) => {
         return (
-          <div className="py-2" key={`request-list-${request.id}`}>
-            <RequestItem
-              request={request}
-              revalidateList={() => revalidate()}
-            />
+          <div
+            className="flex items-center py-2"
+            key={`request-list-${request.id}`}
+          >
+            {canModerate && (
+              <input
+                type="checkbox"
+                className="mr-3 flex-shrink-0"
+                id={`request-list-select-${request.id}`}
+                name={`request-list-select-${request.id}`}
+                checked={selectedRequests.includes(request.id)}
+                onChange={() => toggleRequest(request.id)}
+              />
+            )}
+            <div className="min-w-0 flex-1">
+              <RequestItem
+                request={request}
+                revalidateList={() => revalidate()}
+              />
+            </div>
           </div>
         );
       })}
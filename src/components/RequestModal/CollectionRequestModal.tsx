@@ -5,6 +5,7 @@ import Modal from '@app/components/Common/Modal';
 import type { RequestOverrides } from '@app/components/RequestModal/AdvancedRequester';
 import AdvancedRequester from '@app/components/RequestModal/AdvancedRequester';
 import QuotaDisplay from '@app/components/RequestModal/QuotaDisplay';
+import RequestReason from '@app/components/RequestModal/RequestReason';
 import { useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
@@ -49,6 +50,7 @@ const CollectionRequestModal = ({
   const [requestOverrides, setRequestOverrides] =
     useState<RequestOverrides | null>(null);
   const [selectedParts, setSelectedParts] = useState<number[]>([]);
+  const [reason, setReason] = useState('');
   const { addToast } = useToasts();
   const { data, error } = useSWR<Collection>(`/api/v1/collection/${tmdbId}`, {
     revalidateOnMount: true,
@@ -207,6 +209,7 @@ const CollectionRequestModal = ({
               mediaId: part.id,
               mediaType: 'movie',
               is4k,
+              reason,
               ...overrideParams,
             }),
           });
@@ -239,7 +242,16 @@ const CollectionRequestModal = ({
     } finally {
       setIsUpdating(false);
     }
-  }, [requestOverrides, data, onComplete, addToast, intl, selectedParts, is4k]);
+  }, [
+    requestOverrides,
+    data,
+    onComplete,
+    addToast,
+    intl,
+    selectedParts,
+    reason,
+    is4k,
+  ]);
 
   const hasAutoApprove = hasPermission(
     [
@@ -518,6 +530,7 @@ const CollectionRequestModal = ({
           }}
         />
       )}
+      <RequestReason reason={reason} onChange={setReason} />
     </Modal>
   );
 };
@@ -0,0 +1,124 @@
+import Modal from '@app/components/Common/Modal';
+import useSettings from '@app/hooks/useSettings';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import type { RequestBulkResponse } from '@server/interfaces/api/requestInterfaces';
+import { useEffect, useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+
+const messages = defineMessages('components.RequestModal.DeclineRequestModal', {
+  declinerequest: 'Decline Request',
+  declinerequests:
+    'Decline {requestCount, plural, one {Request} other {{requestCount} Requests}}',
+  declinereason: 'Decline Reason',
+  declinereasonPlaceholder:
+    'Let the requester know why their request was declined',
+  declineerror: 'Something went wrong while declining the request.',
+});
+
+interface DeclineRequestModalProps {
+  show: boolean;
+  requestIds: number[];
+  onComplete?: () => void;
+  onCancel?: () => void;
+}
+
+const DeclineRequestModal = ({
+  show,
+  requestIds,
+  onComplete,
+  onCancel,
+}: DeclineRequestModalProps) => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const { currentSettings } = useSettings();
+  const [reason, setReason] = useState('');
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  useEffect(() => {
+    if (show) {
+      setReason('');
+    }
+  }, [show]);
+
+  const reasonMissing = currentSettings.requireDeclineReason && !reason.trim();
+
+  const declineRequests = async () => {
+    setIsUpdating(true);
+
+    try {
+      const res = await fetch('/api/v1/request/bulk', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ids: requestIds, action: 'decline', reason }),
+      });
+      if (!res.ok) throw new Error();
+      const data: RequestBulkResponse = await res.json();
+      if (data.results.some((result) => !result.success)) throw new Error();
+
+      if (onComplete) {
+        onComplete();
+      }
+    } catch (e) {
+      addToast(intl.formatMessage(messages.declineerror), {
+        appearance: 'error',
+        autoDismiss: true,
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <Transition
+      as="div"
+      enter="transition-opacity duration-300"
+      enterFrom="opacity-0"
+      enterTo="opacity-100"
+      leave="transition-opacity duration-300"
+      leaveFrom="opacity-100"
+      leaveTo="opacity-0"
+      show={show}
+    >
+      <Modal
+        title={
+          requestIds.length > 1
+            ? intl.formatMessage(messages.declinerequests, {
+                requestCount: requestIds.length,
+              })
+            : intl.formatMessage(messages.declinerequest)
+        }
+        onCancel={onCancel}
+        onOk={() => declineRequests()}
+        okText={intl.formatMessage(globalMessages.decline)}
+        okButtonType="danger"
+        okDisabled={isUpdating || reasonMissing}
+        backgroundClickable={!isUpdating}
+      >
+        <div className="flex-col space-y-2">
+          <label htmlFor="declineReason">
+            {intl.formatMessage(messages.declinereason)}
+            {currentSettings.requireDeclineReason && (
+              <span className="label-required">*</span>
+            )}
+          </label>
+          <textarea
+            id="declineReason"
+            name="declineReason"
+            className="h-28"
+            maxLength={500}
+            value={reason}
+            placeholder={intl.formatMessage(messages.declinereasonPlaceholder)}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+      </Modal>
+    </Transition>
+  );
+};
+
+export default DeclineRequestModal;
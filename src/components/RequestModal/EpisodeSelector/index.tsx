@@ -0,0 +1,102 @@
+import Badge from '@app/components/Common/Badge';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { MediaStatus } from '@server/constants/media';
+import type Season from '@server/entity/Season';
+import type { SeasonWithEpisodes } from '@server/models/Tv';
+import { useIntl } from 'react-intl';
+import useSWR from 'swr';
+
+const messages = defineMessages('components.RequestModal.EpisodeSelector', {
+  episodenumber: 'Episode {number}',
+  noepisodes: 'Episode list unavailable.',
+});
+
+interface EpisodeSelectorProps {
+  tmdbId: number;
+  seasonNumber: number;
+  is4k: boolean;
+  mediaSeason?: Season;
+  requestedEpisodes: number[];
+  selectedEpisodes: number[];
+  onToggle: (episodeNumber: number) => void;
+}
+
+const EpisodeSelector = ({
+  tmdbId,
+  seasonNumber,
+  is4k,
+  mediaSeason,
+  requestedEpisodes,
+  selectedEpisodes,
+  onToggle,
+}: EpisodeSelectorProps) => {
+  const intl = useIntl();
+  const { data, error } = useSWR<SeasonWithEpisodes>(
+    `/api/v1/tv/${tmdbId}/season/${seasonNumber}`
+  );
+
+  if (!data && !error) {
+    return <LoadingSpinner />;
+  }
+
+  if (!data || data.episodes.length === 0) {
+    return (
+      <p className="py-2 text-sm text-gray-400">
+        {intl.formatMessage(messages.noepisodes)}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col divide-y divide-gray-700">
+      {data.episodes.map((episode) => {
+        const isAvailable = (mediaSeason?.episodes ?? []).some(
+          (e) =>
+            e.episodeNumber === episode.episodeNumber &&
+            e[is4k ? 'status4k' : 'status'] === MediaStatus.AVAILABLE
+        );
+        const isRequested = requestedEpisodes.includes(episode.episodeNumber);
+        const id = `season-${seasonNumber}-episode-${episode.episodeNumber}`;
+
+        return (
+          <div key={id} className="flex items-center space-x-3 py-2 text-sm">
+            <input
+              type="checkbox"
+              id={id}
+              checked={
+                isAvailable ||
+                isRequested ||
+                selectedEpisodes.includes(episode.episodeNumber)
+              }
+              disabled={isAvailable || isRequested}
+              onChange={() => onToggle(episode.episodeNumber)}
+            />
+            <label htmlFor={id} className="flex-1 truncate text-gray-200">
+              {intl.formatMessage(messages.episodenumber, {
+                number: episode.episodeNumber,
+              })}
+              {episode.name && (
+                <span className="ml-2 text-gray-400">{episode.name}</span>
+              )}
+            </label>
+            {isAvailable ? (
+              <Badge badgeType="success">
+                {intl.formatMessage(globalMessages.available)}
+              </Badge>
+            ) : (
+              isRequested && (
+                <Badge badgeType="primary">
+                  {intl.formatMessage(globalMessages.requested)}
+                </Badge>
+              )
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default EpisodeSelector;
@@ -3,6 +3,7 @@ import Modal from '@app/components/Common/Modal';
 import type { RequestOverrides } from '@app/components/RequestModal/AdvancedRequester';
 import AdvancedRequester from '@app/components/RequestModal/AdvancedRequester';
 import QuotaDisplay from '@app/components/RequestModal/QuotaDisplay';
+import RequestReason from '@app/components/RequestModal/RequestReason';
 import { useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
@@ -56,6 +57,7 @@ const MovieRequestModal = ({
   const [isUpdating, setIsUpdating] = useState(false);
   const [requestOverrides, setRequestOverrides] =
     useState<RequestOverrides | null>(null);
+  const [reason, setReason] = useState('');
   const { addToast } = useToasts();
   const { data, error } = useSWR<MovieDetails>(`/api/v1/movie/${tmdbId}`, {
     revalidateOnMount: true,
@@ -98,6 +100,7 @@ const MovieRequestModal = ({
           mediaId: data?.id,
           mediaType: 'movie',
           is4k,
+          reason,
           ...overrideParams,
         }),
       });
@@ -138,7 +141,16 @@ const MovieRequestModal = ({
     } finally {
       setIsUpdating(false);
     }
-  }, [data, onComplete, addToast, requestOverrides, hasPermission, intl, is4k]);
+  }, [
+    data,
+    onComplete,
+    addToast,
+    requestOverrides,
+    reason,
+    hasPermission,
+    intl,
+    is4k,
+  ]);
 
   const cancelRequest = async () => {
     setIsUpdating(true);
@@ -371,6 +383,7 @@ const MovieRequestModal = ({
           }}
         />
       )}
+      <RequestReason reason={reason} onChange={setReason} />
     </Modal>
   );
 };
@@ -0,0 +1,33 @@
+import defineMessages from '@app/utils/defineMessages';
+import { useIntl } from 'react-intl';
+
+const messages = defineMessages('components.RequestModal.RequestReason', {
+  reason: 'Reason',
+  reasonPlaceholder: 'Let the admins know why you want this (optional)',
+});
+
+interface RequestReasonProps {
+  reason: string;
+  onChange: (reason: string) => void;
+}
+
+const RequestReason = ({ reason, onChange }: RequestReasonProps) => {
+  const intl = useIntl();
+
+  return (
+    <div className="mt-4 flex-col space-y-2">
+      <label htmlFor="reason">{intl.formatMessage(messages.reason)}</label>
+      <textarea
+        id="reason"
+        name="reason"
+        className="h-20"
+        maxLength={500}
+        value={reason}
+        placeholder={intl.formatMessage(messages.reasonPlaceholder)}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </div>
+  );
+};
+
+export default RequestReason;
@@ -3,12 +3,15 @@ import Badge from '@app/components/Common/Badge';
 import Modal from '@app/components/Common/Modal';
 import type { RequestOverrides } from '@app/components/RequestModal/AdvancedRequester';
 import AdvancedRequester from '@app/components/RequestModal/AdvancedRequester';
+import EpisodeSelector from '@app/components/RequestModal/EpisodeSelector';
 import QuotaDisplay from '@app/components/RequestModal/QuotaDisplay';
+import RequestReason from '@app/components/RequestModal/RequestReason';
 import SearchByNameModal from '@app/components/RequestModal/SearchByNameModal';
 import useSettings from '@app/hooks/useSettings';
 import { useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
+import { ChevronDownIcon } from '@heroicons/react/24/solid';
 import { ANIME_KEYWORD_ID } from '@server/api/themoviedb/constants';
 import { MediaRequestStatus, MediaStatus } from '@server/constants/media';
 import type { MediaRequest } from '@server/entity/MediaRequest';
@@ -17,7 +20,7 @@ import type { NonFunctionProperties } from '@server/interfaces/api/common';
 import type { QuotaResponse } from '@server/interfaces/api/userInterfaces';
 import { Permission } from '@server/lib/permissions';
 import type { TvDetails } from '@server/models/Tv';
-import { useState } from 'react';
+import { Fragment, useState } from 'react';
 import { useIntl } from 'react-intl';
 import { useToasts } from 'react-toast-notifications';
 import useSWR, { mutate } from 'swr';
@@ -37,8 +40,15 @@ const messages = defineMessages('components.RequestModal', {
     'Request {seasonCount} {seasonCount, plural, one {Season} other {Seasons}}',
   requestseasons4k:
     'Request {seasonCount} {seasonCount, plural, one {Season} other {Seasons}} in 4K',
+  requestepisodes:
+    'Request {episodeCount} {episodeCount, plural, one {Episode} other {Episodes}}',
+  requestepisodes4k:
+    'Request {episodeCount} {episodeCount, plural, one {Episode} other {Episodes}} in 4K',
+  episodesrequested:
+    '{episodeCount} {episodeCount, plural, one {Episode} other {Episodes}} Requested',
   alreadyrequested: 'Already Requested',
   selectseason: 'Select Season(s)',
+  selectepisodes: 'Select Episodes',
   season: 'Season',
   numberofepisodes: '# of Episodes',
   seasonnumber: 'Season {number}',
@@ -79,6 +89,10 @@ const TvRequestModal = ({
   const [selectedSeasons, setSelectedSeasons] = useState<number[]>(
     editRequest ? editingSeasons : []
   );
+  const [selectedEpisodes, setSelectedEpisodes] = useState<
+    Record<number, number[]>
+  >({});
+  const [expandedSeasons, setExpandedSeasons] = useState<number[]>([]);
   const intl = useIntl();
   const { user, hasPermission } = useUser();
   const [searchModal, setSearchModal] = useState<{
@@ -87,6 +101,7 @@ const TvRequestModal = ({
     show: true,
   });
   const [tvdbId, setTvdbId] = useState<number | undefined>(undefined);
+  const [reason, setReason] = useState('');
   const { data: quota } = useSWR<QuotaResponse>(
     user &&
       (!requestOverrides?.user?.id || hasPermission(Permission.MANAGE_USERS))
@@ -94,9 +109,19 @@ const TvRequestModal = ({
       : null
   );
 
+  // Seasons of which only single episodes are requested count as one season
+  const episodeSeasons = Object.entries(selectedEpisodes).filter(
+    ([, episodes]) => episodes.length > 0
+  );
+  const selectedEpisodeCount = episodeSeasons.reduce(
+    (count, [, episodes]) => count + episodes.length,
+    0
+  );
+
   const currentlyRemaining =
     (quota?.tv.remaining ?? 0) -
-    selectedSeasons.length +
+    selectedSeasons.length -
+    episodeSeasons.length +
     (editRequest?.seasons ?? []).length;
 
   const updateRequest = async (alsoApproveRequest = false) => {
@@ -182,7 +207,8 @@ const TvRequestModal = ({
   const sendRequest = async () => {
     if (
       settings.currentSettings.partialRequestsEnabled &&
-      selectedSeasons.length === 0
+      selectedSeasons.length === 0 &&
+      selectedEpisodeCount === 0
     ) {
       return;
     }
@@ -218,6 +244,10 @@ const TvRequestModal = ({
             : getAllSeasons().filter(
                 (season) => !getAllRequestedSeasons().includes(season)
               ),
+          episodes: settings.currentSettings.partialRequestsEnabled
+            ? Object.fromEntries(episodeSeasons)
+            : undefined,
+          reason,
           ...overrideParams,
         }),
       });
@@ -273,7 +303,11 @@ const TvRequestModal = ({
         return [
           ...requestedSeasons,
           ...request.seasons
-            .filter((season) => !editingSeasons.includes(season.seasonNumber))
+            .filter(
+              (season) =>
+                !season.episodes?.length &&
+                !editingSeasons.includes(season.seasonNumber)
+            )
             .map((sr) => sr.seasonNumber),
         ];
       }, [] as number[]);
@@ -316,9 +350,42 @@ const TvRequestModal = ({
       );
     } else {
       setSelectedSeasons((seasons) => [...seasons, seasonNumber]);
+      // The whole season replaces any episodes selected from it
+      setSelectedEpisodes((episodes) => ({ ...episodes, [seasonNumber]: [] }));
+      setExpandedSeasons((seasons) =>
+        seasons.filter((sn) => sn !== seasonNumber)
+      );
     }
   };
 
+  const toggleEpisode = (seasonNumber: number, episodeNumber: number): void => {
+    const seasonEpisodes = selectedEpisodes[seasonNumber] ?? [];
+
+    // Selecting the first episode of a season takes up a season of the quota
+    if (
+      quota?.tv.limit &&
+      currentlyRemaining <= 0 &&
+      seasonEpisodes.length === 0
+    ) {
+      return;
+    }
+
+    setSelectedEpisodes((episodes) => ({
+      ...episodes,
+      [seasonNumber]: seasonEpisodes.includes(episodeNumber)
+        ? seasonEpisodes.filter((en) => en !== episodeNumber)
+        : [...seasonEpisodes, episodeNumber],
+    }));
+  };
+
+  const toggleExpandedSeason = (seasonNumber: number): void => {
+    setExpandedSeasons((seasons) =>
+      seasons.includes(seasonNumber)
+        ? seasons.filter((sn) => sn !== seasonNumber)
+        : [...seasons, seasonNumber]
+    );
+  };
+
   const unrequestedSeasons = getAllSeasons().filter(
     (season) => !getAllRequestedSeasons().includes(season)
   );
@@ -338,6 +405,8 @@ const TvRequestModal = ({
       selectedSeasons.length < unrequestedSeasons.length
     ) {
       setSelectedSeasons(unrequestedSeasons);
+      setSelectedEpisodes({});
+      setExpandedSeasons([]);
     } else {
       setSelectedSeasons([]);
     }
@@ -373,7 +442,8 @@ const TvRequestModal = ({
         .forEach((request) => {
           if (!seasonRequest) {
             seasonRequest = request.seasons.find(
-              (season) => season.seasonNumber === seasonNumber
+              (season) =>
+                season.seasonNumber === seasonNumber && !season.episodes?.length
             );
           }
         });
@@ -382,6 +452,35 @@ const TvRequestModal = ({
     return seasonRequest;
   };
 
+  const getRequestedEpisodes = (seasonNumber: number): number[] =>
+    (data?.mediaInfo?.requests ?? [])
+      .filter(
+        (request) =>
+          request.is4k === is4k &&
+          request.status !== MediaRequestStatus.DECLINED
+      )
+      .reduce(
+        (requestedEpisodes, request) => [
+          ...requestedEpisodes,
+          ...request.seasons
+            .filter((season) => season.seasonNumber === seasonNumber)
+            .reduce(
+              (episodes, season) => [
+                ...episodes,
+                ...(season.episodes ?? []).map(
+                  (episode) => episode.episodeNumber
+                ),
+              ],
+              [] as number[]
+            ),
+        ],
+        [] as number[]
+      );
+
+  const allSeasonsRequested =
+    getAllRequestedSeasons().length >= getAllSeasons().length &&
+    selectedEpisodeCount === 0;
+
   const isOwner = editRequest && editRequest.requestedBy.id === user?.id;
 
   return data && !error && !data.externalIds.tvdbId && searchModal.show ? (
@@ -426,12 +525,19 @@ const TvRequestModal = ({
             : hasPermission(Permission.MANAGE_REQUESTS)
             ? intl.formatMessage(messages.approve)
             : intl.formatMessage(messages.edit)
-          : getAllRequestedSeasons().length >= getAllSeasons().length
+          : allSeasonsRequested
           ? intl.formatMessage(messages.alreadyrequested)
           : !settings.currentSettings.partialRequestsEnabled
           ? intl.formatMessage(
               is4k ? globalMessages.request4k : globalMessages.request
             )
+          : selectedSeasons.length === 0 && selectedEpisodeCount > 0
+          ? intl.formatMessage(
+              is4k ? messages.requestepisodes4k : messages.requestepisodes,
+              {
+                episodeCount: selectedEpisodeCount,
+              }
+            )
           : selectedSeasons.length === 0
           ? intl.formatMessage(messages.selectseason)
           : intl.formatMessage(
@@ -448,9 +554,10 @@ const TvRequestModal = ({
             quota?.tv.limit &&
             unrequestedSeasons.length > quota.tv.limit
           ? true
-          : getAllRequestedSeasons().length >= getAllSeasons().length ||
+          : allSeasonsRequested ||
             (settings.currentSettings.partialRequestsEnabled &&
-              selectedSeasons.length === 0)
+              selectedSeasons.length === 0 &&
+              selectedEpisodeCount === 0)
       }
       okButtonType={
         editRequest
@@ -597,120 +704,213 @@ const TvRequestModal = ({
                           sn[is4k ? 'status4k' : 'status'] !==
                             MediaStatus.UNKNOWN
                       );
+                      const requestedEpisodes = getRequestedEpisodes(
+                        season.seasonNumber
+                      );
+                      const canSelectEpisodes =
+                        settings.currentSettings.partialRequestsEnabled &&
+                        !editRequest &&
+                        !seasonRequest &&
+                        !isSelectedSeason(season.seasonNumber) &&
+                        mediaSeason?.[is4k ? 'status4k' : 'status'] !==
+                          MediaStatus.AVAILABLE;
+                      const isExpanded =
+                        canSelectEpisodes &&
+                        expandedSeasons.includes(season.seasonNumber);
                       return (
-                        <tr key={`season-${season.id}`}>
-                          <td
-                            className={`whitespace-nowrap px-4 py-4 text-sm font-medium leading-5 text-gray-100 ${
-                              !settings.currentSettings
-                                .partialRequestsEnabled && 'hidden'
-                            }`}
-                          >
-                            <span
-                              role="checkbox"
-                              tabIndex={0}
-                              aria-checked={
-                                !!mediaSeason ||
-                                (!!seasonRequest &&
-                                  !editingSeasons.includes(
-                                    season.seasonNumber
-                                  )) ||
-                                isSelectedSeason(season.seasonNumber)
-                              }
-                              onClick={() => toggleSeason(season.seasonNumber)}
-                              onKeyDown={(e) => {
-                                if (e.key === 'Enter' || e.key === 'Space') {
-                                  toggleSeason(season.seasonNumber);
-                                }
-                              }}
-                              className={`relative inline-flex h-5 w-10 flex-shrink-0 cursor-pointer items-center justify-center pt-2 focus:outline-none ${
-                                mediaSeason ||
-                                (quota?.tv.limit &&
-                                  currentlyRemaining <= 0 &&
-                                  !isSelectedSeason(season.seasonNumber)) ||
-                                (!!seasonRequest &&
-                                  !editingSeasons.includes(season.seasonNumber))
-                                  ? 'opacity-50'
-                                  : ''
+                        <Fragment key={`season-${season.id}`}>
+                          <tr>
+                            <td
+                              className={`whitespace-nowrap px-4 py-4 text-sm font-medium leading-5 text-gray-100 ${
+                                !settings.currentSettings
+                                  .partialRequestsEnabled && 'hidden'
                               }`}
                             >
                               <span
-                                aria-hidden="true"
-                                className={`${
+                                role="checkbox"
+                                tabIndex={0}
+                                aria-checked={
                                   !!mediaSeason ||
                                   (!!seasonRequest &&
                                     !editingSeasons.includes(
                                       season.seasonNumber
                                     )) ||
                                   isSelectedSeason(season.seasonNumber)
-                                    ? 'bg-indigo-500'
-                                    : 'bg-gray-700'
-                                } absolute mx-auto h-4 w-9 rounded-full transition-colors duration-200 ease-in-out`}
-                              ></span>
-                              <span
-                                aria-hidden="true"
-                                className={`${
-                                  !!mediaSeason ||
+                                }
+                                onClick={() =>
+                                  toggleSeason(season.seasonNumber)
+                                }
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter' || e.key === 'Space') {
+                                    toggleSeason(season.seasonNumber);
+                                  }
+                                }}
+                                className={`relative inline-flex h-5 w-10 flex-shrink-0 cursor-pointer items-center justify-center pt-2 focus:outline-none ${
+                                  mediaSeason ||
+                                  (quota?.tv.limit &&
+                                    currentlyRemaining <= 0 &&
+                                    !isSelectedSeason(season.seasonNumber)) ||
                                   (!!seasonRequest &&
                                     !editingSeasons.includes(
                                       season.seasonNumber
-                                    )) ||
-                                  isSelectedSeason(season.seasonNumber)
-                                    ? 'translate-x-5'
-                                    : 'translate-x-0'
-                                } absolute left-0 inline-block h-5 w-5 rounded-full border border-gray-200 bg-white shadow transition-transform duration-200 ease-in-out group-focus:border-blue-300 group-focus:ring`}
-                              ></span>
-                            </span>
-                          </td>
-                          <td className="whitespace-nowrap px-1 py-4 text-sm font-medium leading-5 text-gray-100 md:px-6">
-                            {season.seasonNumber === 0
-                              ? intl.formatMessage(globalMessages.specials)
-                              : intl.formatMessage(messages.seasonnumber, {
+                                    ))
+                                    ? 'opacity-50'
+                                    : ''
+                                }`}
+                              >
+                                <span
+                                  aria-hidden="true"
+                                  className={`${
+                                    !!mediaSeason ||
+                                    (!!seasonRequest &&
+                                      !editingSeasons.includes(
+                                        season.seasonNumber
+                                      )) ||
+                                    isSelectedSeason(season.seasonNumber)
+                                      ? 'bg-indigo-500'
+                                      : 'bg-gray-700'
+                                  } absolute mx-auto h-4 w-9 rounded-full transition-colors duration-200 ease-in-out`}
+                                ></span>
+                                <span
+                                  aria-hidden="true"
+                                  className={`${
+                                    !!mediaSeason ||
+                                    (!!seasonRequest &&
+                                      !editingSeasons.includes(
+                                        season.seasonNumber
+                                      )) ||
+                                    isSelectedSeason(season.seasonNumber)
+                                      ? 'translate-x-5'
+                                      : 'translate-x-0'
+                                  } absolute left-0 inline-block h-5 w-5 rounded-full border border-gray-200 bg-white shadow transition-transform duration-200 ease-in-out group-focus:border-blue-300 group-focus:ring`}
+                                ></span>
+                              </span>
+                            </td>
+                            <td className="whitespace-nowrap px-1 py-4 text-sm font-medium leading-5 text-gray-100 md:px-6">
+                              {canSelectEpisodes ? (
+                                <button
+                                  type="button"
+                                  className="flex items-center space-x-1 hover:text-white"
+                                  title={intl.formatMessage(
+                                    messages.selectepisodes
+                                  )}
+                                  aria-expanded={isExpanded}
+                                  onClick={() =>
+                                    toggleExpandedSeason(season.seasonNumber)
+                                  }
+                                >
+                                  <span>
+                                    {season.seasonNumber === 0
+                                      ? intl.formatMessage(
+                                          globalMessages.specials
+                                        )
+                                      : intl.formatMessage(
+                                          messages.seasonnumber,
+                                          {
+                                            number: season.seasonNumber,
+                                          }
+                                        )}
+                                  </span>
+                                  <ChevronDownIcon
+                                    className={`${
+                                      isExpanded ? 'rotate-180' : ''
+                                    } h-4 w-4 text-gray-400`}
+                                  />
+                                </button>
+                              ) : season.seasonNumber === 0 ? (
+                                intl.formatMessage(globalMessages.specials)
+                              ) : (
+                                intl.formatMessage(messages.seasonnumber, {
                                   number: season.seasonNumber,
-                                })}
-                          </td>
-                          <td className="whitespace-nowrap px-5 py-4 text-sm leading-5 text-gray-200 md:px-6">
-                            {season.episodeCount}
-                          </td>
-                          <td className="whitespace-nowrap py-4 pr-2 text-sm leading-5 text-gray-200 md:px-6">
-                            {!seasonRequest && !mediaSeason && (
-                              <Badge>
-                                {intl.formatMessage(
-                                  globalMessages.notrequested
+                                })
+                              )}
+                            </td>
+                            <td className="whitespace-nowrap px-5 py-4 text-sm leading-5 text-gray-200 md:px-6">
+                              {season.episodeCount}
+                            </td>
+                            <td className="whitespace-nowrap py-4 pr-2 text-sm leading-5 text-gray-200 md:px-6">
+                              {!seasonRequest &&
+                                !mediaSeason &&
+                                requestedEpisodes.length === 0 && (
+                                  <Badge>
+                                    {intl.formatMessage(
+                                      globalMessages.notrequested
+                                    )}
+                                  </Badge>
+                                )}
+                              {!seasonRequest &&
+                                !mediaSeason &&
+                                requestedEpisodes.length > 0 && (
+                                  <Badge badgeType="primary">
+                                    {intl.formatMessage(
+                                      messages.episodesrequested,
+                                      {
+                                        episodeCount: requestedEpisodes.length,
+                                      }
+                                    )}
+                                  </Badge>
                                 )}
-                              </Badge>
-                            )}
-                            {!mediaSeason &&
-                              seasonRequest?.status ===
-                                MediaRequestStatus.PENDING && (
-                                <Badge badgeType="warning">
-                                  {intl.formatMessage(globalMessages.pending)}
+                              {!mediaSeason &&
+                                seasonRequest?.status ===
+                                  MediaRequestStatus.PENDING && (
+                                  <Badge badgeType="warning">
+                                    {intl.formatMessage(globalMessages.pending)}
+                                  </Badge>
+                                )}
+                              {((!mediaSeason &&
+                                seasonRequest?.status ===
+                                  MediaRequestStatus.APPROVED) ||
+                                mediaSeason?.[is4k ? 'status4k' : 'status'] ===
+                                  MediaStatus.PROCESSING) && (
+                                <Badge badgeType="primary">
+                                  {intl.formatMessage(globalMessages.requested)}
                                 </Badge>
                               )}
-                            {((!mediaSeason &&
-                              seasonRequest?.status ===
-                                MediaRequestStatus.APPROVED) ||
-                              mediaSeason?.[is4k ? 'status4k' : 'status'] ===
-                                MediaStatus.PROCESSING) && (
-                              <Badge badgeType="primary">
-                                {intl.formatMessage(globalMessages.requested)}
-                              </Badge>
-                            )}
-                            {mediaSeason?.[is4k ? 'status4k' : 'status'] ===
-                              MediaStatus.PARTIALLY_AVAILABLE && (
-                              <Badge badgeType="success">
-                                {intl.formatMessage(
-                                  globalMessages.partiallyavailable
-                                )}
-                              </Badge>
-                            )}
-                            {mediaSeason?.[is4k ? 'status4k' : 'status'] ===
-                              MediaStatus.AVAILABLE && (
-                              <Badge badgeType="success">
-                                {intl.formatMessage(globalMessages.available)}
-                              </Badge>
-                            )}
-                          </td>
-                        </tr>
+                              {mediaSeason?.[is4k ? 'status4k' : 'status'] ===
+                                MediaStatus.PARTIALLY_AVAILABLE && (
+                                <Badge badgeType="success">
+                                  {intl.formatMessage(
+                                    globalMessages.partiallyavailable
+                                  )}
+                                </Badge>
+                              )}
+                              {mediaSeason?.[is4k ? 'status4k' : 'status'] ===
+                                MediaStatus.AVAILABLE && (
+                                <Badge badgeType="success">
+                                  {intl.formatMessage(globalMessages.available)}
+                                </Badge>
+                              )}
+                            </td>
+                          </tr>
+                          {isExpanded && (
+                            <tr>
+                              <td
+                                colSpan={4}
+                                className="bg-gray-800 px-4 py-2 md:px-6"
+                              >
+                                <EpisodeSelector
+                                  tmdbId={tmdbId}
+                                  seasonNumber={season.seasonNumber}
+                                  is4k={is4k}
+                                  mediaSeason={data?.mediaInfo?.seasons.find(
+                                    (sn) =>
+                                      sn.seasonNumber === season.seasonNumber
+                                  )}
+                                  requestedEpisodes={requestedEpisodes}
+                                  selectedEpisodes={
+                                    selectedEpisodes[season.seasonNumber] ?? []
+                                  }
+                                  onToggle={(episodeNumber) =>
+                                    toggleEpisode(
+                                      season.seasonNumber,
+                                      episodeNumber
+                                    )
+                                  }
+                                />
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
                       );
                     })}
                 </tbody>
@@ -742,6 +942,7 @@ const TvRequestModal = ({
           }
         />
       )}
+      {!editRequest && <RequestReason reason={reason} onChange={setReason} />}
     </Modal>
   );
 };
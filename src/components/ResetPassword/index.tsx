@@ -1,3 +1,4 @@
+import Alert from '@app/components/Common/Alert';
 import Button from '@app/components/Common/Button';
 import ImageFader from '@app/components/Common/ImageFader';
 import SensitiveInput from '@app/components/Common/SensitiveInput';
@@ -24,12 +25,14 @@ const messages = defineMessages('components.ResetPassword', {
     'Password is too short; should be a minimum of 8 characters',
   gobacklogin: 'Return to Sign-In Page',
   resetpasswordsuccessmessage: 'Password reset successfully!',
+  resetpassworderror: 'Something went wrong while resetting your password.',
 });
 
 const ResetPassword = () => {
   const intl = useIntl();
   const router = useRouter();
   const [hasSubmitted, setSubmitted] = useState(false);
+  const [resetError, setResetError] = useState<string | null>(null);
 
   const guid = router.query.guid;
 
@@ -99,6 +102,8 @@ const ResetPassword = () => {
                 }}
                 validationSchema={ResetSchema}
                 onSubmit={async (values) => {
+                  setResetError(null);
+
                   const res = await fetch(
                     `/api/v1/auth/reset-password/${guid}`,
                     {
@@ -111,7 +116,12 @@ const ResetPassword = () => {
                       }),
                     }
                   );
-                  if (!res.ok) throw new Error();
+                  if (!res.ok) {
+                    setResetError(
+                      intl.formatMessage(messages.resetpassworderror)
+                    );
+                    return;
+                  }
 
                   if (res.status === 200) {
                     setSubmitted(true);
@@ -121,6 +131,11 @@ const ResetPassword = () => {
                 {({ errors, touched, isSubmitting, isValid }) => {
                   return (
                     <Form>
+                      {resetError && (
+                        <div className="mb-4">
+                          <Alert type="error" title={resetError} />
+                        </div>
+                      )}
                       <div>
                         <label
                           htmlFor="password"
@@ -36,6 +36,8 @@ const defaultPayload = {
   },
   '{{request}}': {
     request_id: '{{request_id}}',
+    request_reason: '{{request_reason}}',
+    request_declineReason: '{{request_declineReason}}',
     requestedBy_email: '{{requestedBy_email}}',
     requestedBy_username: '{{requestedBy_username}}',
     requestedBy_avatar: '{{requestedBy_avatar}}',
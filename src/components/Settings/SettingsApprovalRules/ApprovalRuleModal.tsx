@@ -0,0 +1,403 @@
+import Modal from '@app/components/Common/Modal';
+import LanguageSelector from '@app/components/LanguageSelector';
+import { GenreSelector } from '@app/components/Selector';
+import useSettings from '@app/hooks/useSettings';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import { ApprovalRuleAction } from '@server/constants/approvalRule';
+import { MediaType } from '@server/constants/media';
+import type ApprovalRule from '@server/entity/ApprovalRule';
+import { Field, Formik } from 'formik';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import * as Yup from 'yup';
+
+const messages = defineMessages(
+  'components.Settings.SettingsApprovalRules.ApprovalRuleModal',
+  {
+    createrule: 'New Approval Rule',
+    editrule: 'Edit Approval Rule',
+    create: 'Create Rule',
+    name: 'Name',
+    action: 'Action',
+    approve: 'Approve the request',
+    decline: 'Decline the request',
+    conditions: 'Conditions',
+    conditionsDescription:
+      'The rule applies when every condition that is filled in matches. Leave a field empty to ignore it.',
+    mediaType: 'Media Type',
+    anyMediaType: 'Movies and series',
+    movies: 'Movies',
+    series: 'Series',
+    voteAverage: 'TMDB Rating',
+    releaseYear: 'Release Year',
+    runtime: 'Runtime',
+    runtimeTip: 'In minutes, per episode for series',
+    seasonCount: 'Season Count',
+    declineRate: 'Requester Decline Rate',
+    declineRateTip:
+      "Percentage of the requester's past requests that were declined",
+    min: 'Min',
+    max: 'Max',
+    genres: 'Genres',
+    languages: 'Languages',
+    certification: 'Certifications',
+    certificationTip:
+      'Comma-separated certifications for your discover region, e.g. G, PG',
+    validationNameRequired: 'You must provide a name',
+    validationNumber: 'You must provide a valid number',
+    ruleCreated: 'Approval rule created successfully!',
+    ruleUpdated: 'Approval rule updated successfully!',
+    ruleFailed: 'Something went wrong while saving the approval rule.',
+  }
+);
+
+const rangeFields = [
+  'minVoteAverage',
+  'maxVoteAverage',
+  'minReleaseYear',
+  'maxReleaseYear',
+  'minRuntime',
+  'maxRuntime',
+  'minSeasonCount',
+  'maxSeasonCount',
+  'minDeclineRate',
+  'maxDeclineRate',
+] as const;
+
+type RangeField = (typeof rangeFields)[number];
+
+interface ApprovalRuleModalProps {
+  rule: ApprovalRule | null;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const ApprovalRuleModal = ({
+  rule,
+  onClose,
+  onSave,
+}: ApprovalRuleModalProps) => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const { currentSettings } = useSettings();
+
+  const numberSchema = Yup.string().matches(
+    /^\d*(\.\d+)?$/,
+    intl.formatMessage(messages.validationNumber)
+  );
+
+  const ApprovalRuleSchema = Yup.object().shape({
+    name: Yup.string()
+      .trim()
+      .required(intl.formatMessage(messages.validationNameRequired)),
+    ...Object.fromEntries(rangeFields.map((field) => [field, numberSchema])),
+  });
+
+  return (
+    <Transition
+      as="div"
+      appear
+      show
+      enter="transition-opacity ease-in-out duration-300"
+      enterFrom="opacity-0"
+      enterTo="opacity-100"
+      leave="transition-opacity ease-in-out duration-300"
+      leaveFrom="opacity-100"
+      leaveTo="opacity-0"
+    >
+      <Formik
+        initialValues={{
+          name: rule?.name ?? '',
+          action: rule?.action ?? ApprovalRuleAction.APPROVE,
+          mediaType: rule?.mediaType ?? '',
+          genre: rule?.genre ?? '',
+          language: rule?.language ?? '',
+          certification: rule?.certification ?? '',
+          ...(Object.fromEntries(
+            rangeFields.map((field) => [field, rule?.[field]?.toString() ?? ''])
+          ) as Record<RangeField, string>),
+        }}
+        validationSchema={ApprovalRuleSchema}
+        onSubmit={async (values) => {
+          try {
+            const res = await fetch(
+              rule ? `/api/v1/approvalRule/${rule.id}` : '/api/v1/approvalRule',
+              {
+                method: rule ? 'PUT' : 'POST',
+                headers: {
+                  'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                  name: values.name,
+                  action: values.action,
+                  mediaType: values.mediaType || null,
+                  genre: values.genre || null,
+                  language: values.language || null,
+                  certification: values.certification.trim() || null,
+                  ...Object.fromEntries(
+                    rangeFields.map((field) => [
+                      field,
+                      values[field] ? Number(values[field]) : null,
+                    ])
+                  ),
+                }),
+              }
+            );
+            if (!res.ok) throw new Error();
+            addToast(
+              intl.formatMessage(
+                rule ? messages.ruleUpdated : messages.ruleCreated
+              ),
+              {
+                appearance: 'success',
+                autoDismiss: true,
+              }
+            );
+            onSave();
+          } catch (e) {
+            addToast(intl.formatMessage(messages.ruleFailed), {
+              appearance: 'error',
+              autoDismiss: true,
+            });
+          }
+        }}
+      >
+        {({
+          errors,
+          touched,
+          values,
+          handleSubmit,
+          setFieldValue,
+          isSubmitting,
+          isValid,
+        }) => {
+          const renderRange = (
+            id: string,
+            label: string,
+            minField: RangeField,
+            maxField: RangeField,
+            tip?: string
+          ) => (
+            <div className="form-row">
+              <label htmlFor={id} className="text-label">
+                {label}
+                {tip && <span className="label-tip">{tip}</span>}
+              </label>
+              <div className="form-input-area">
+                <div className="flex space-x-2">
+                  <Field
+                    id={id}
+                    name={minField}
+                    type="text"
+                    inputMode="decimal"
+                    className="short"
+                    placeholder={intl.formatMessage(messages.min)}
+                  />
+                  <Field
+                    id={`${id}Max`}
+                    name={maxField}
+                    type="text"
+                    inputMode="decimal"
+                    className="short"
+                    placeholder={intl.formatMessage(messages.max)}
+                  />
+                </div>
+                {((errors[minField] && touched[minField]) ||
+                  (errors[maxField] && touched[maxField])) && (
+                  <div className="error">
+                    {errors[minField] ?? errors[maxField]}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+
+          return (
+            <Modal
+              onCancel={onClose}
+              okButtonType="primary"
+              okText={
+                isSubmitting
+                  ? intl.formatMessage(globalMessages.saving)
+                  : rule
+                  ? intl.formatMessage(globalMessages.save)
+                  : intl.formatMessage(messages.create)
+              }
+              okDisabled={isSubmitting || !isValid}
+              onOk={() => handleSubmit()}
+              title={
+                rule
+                  ? intl.formatMessage(messages.editrule)
+                  : intl.formatMessage(messages.createrule)
+              }
+            >
+              <div className="form-row">
+                <label htmlFor="name" className="text-label">
+                  {intl.formatMessage(messages.name)}
+                  <span className="label-required">*</span>
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <Field id="name" name="name" type="text" />
+                  </div>
+                  {errors.name && touched.name && (
+                    <div className="error">{errors.name}</div>
+                  )}
+                </div>
+              </div>
+              <div className="form-row">
+                <label htmlFor="action" className="text-label">
+                  {intl.formatMessage(messages.action)}
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <Field as="select" id="action" name="action">
+                      <option value={ApprovalRuleAction.APPROVE}>
+                        {intl.formatMessage(messages.approve)}
+                      </option>
+                      <option value={ApprovalRuleAction.DECLINE}>
+                        {intl.formatMessage(messages.decline)}
+                      </option>
+                    </Field>
+                  </div>
+                </div>
+              </div>
+              <div className="mt-6 mb-2">
+                <h3 className="text-lg font-bold leading-8 text-gray-100">
+                  {intl.formatMessage(messages.conditions)}
+                </h3>
+                <p className="description">
+                  {intl.formatMessage(messages.conditionsDescription)}
+                </p>
+              </div>
+              <div className="form-row">
+                <label htmlFor="mediaType" className="text-label">
+                  {intl.formatMessage(messages.mediaType)}
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <Field
+                      as="select"
+                      id="mediaType"
+                      name="mediaType"
+                      onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                        setFieldValue('mediaType', e.target.value);
+                        // Genre IDs differ between movies and series
+                        setFieldValue('genre', '');
+                      }}
+                    >
+                      <option value="">
+                        {intl.formatMessage(messages.anyMediaType)}
+                      </option>
+                      <option value={MediaType.MOVIE}>
+                        {intl.formatMessage(messages.movies)}
+                      </option>
+                      <option value={MediaType.TV}>
+                        {intl.formatMessage(messages.series)}
+                      </option>
+                    </Field>
+                  </div>
+                </div>
+              </div>
+              {renderRange(
+                'minVoteAverage',
+                intl.formatMessage(messages.voteAverage),
+                'minVoteAverage',
+                'maxVoteAverage'
+              )}
+              {renderRange(
+                'minReleaseYear',
+                intl.formatMessage(messages.releaseYear),
+                'minReleaseYear',
+                'maxReleaseYear'
+              )}
+              {renderRange(
+                'minRuntime',
+                intl.formatMessage(messages.runtime),
+                'minRuntime',
+                'maxRuntime',
+                intl.formatMessage(messages.runtimeTip)
+              )}
+              {values.mediaType !== MediaType.MOVIE &&
+                renderRange(
+                  'minSeasonCount',
+                  intl.formatMessage(messages.seasonCount),
+                  'minSeasonCount',
+                  'maxSeasonCount'
+                )}
+              {renderRange(
+                'minDeclineRate',
+                intl.formatMessage(messages.declineRate),
+                'minDeclineRate',
+                'maxDeclineRate',
+                intl.formatMessage(messages.declineRateTip)
+              )}
+              {values.mediaType && (
+                <div className="form-row">
+                  <label htmlFor="genre" className="text-label">
+                    {intl.formatMessage(messages.genres)}
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <GenreSelector
+                        key={values.mediaType}
+                        type={
+                          values.mediaType === MediaType.MOVIE ? 'movie' : 'tv'
+                        }
+                        defaultValue={values.genre}
+                        isMulti
+                        onChange={(genres) => {
+                          setFieldValue(
+                            'genre',
+                            genres?.map((v) => v.value).join(',')
+                          );
+                        }}
+                      />
+                    </div>
+                  </div>
+                </div>
+              )}
+              <div className="form-row">
+                <label htmlFor="language" className="text-label">
+                  {intl.formatMessage(messages.languages)}
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <LanguageSelector
+                      value={values.language}
+                      serverValue={currentSettings.originalLanguage}
+                      setFieldValue={(_key, value) => {
+                        setFieldValue('language', value);
+                      }}
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="form-row">
+                <label htmlFor="certification" className="text-label">
+                  {intl.formatMessage(messages.certification)}
+                  <span className="label-tip">
+                    {intl.formatMessage(messages.certificationTip)}
+                  </span>
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <Field
+                      id="certification"
+                      name="certification"
+                      type="text"
+                    />
+                  </div>
+                </div>
+              </div>
+            </Modal>
+          );
+        }}
+      </Formik>
+    </Transition>
+  );
+};
+
+export default ApprovalRuleModal;
@@ -0,0 +1,219 @@
+import Badge from '@app/components/Common/Badge';
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import Modal from '@app/components/Common/Modal';
+import PageTitle from '@app/components/Common/PageTitle';
+import Table from '@app/components/Common/Table';
+import ApprovalRuleModal from '@app/components/Settings/SettingsApprovalRules/ApprovalRuleModal';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import { PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/solid';
+import { ApprovalRuleAction } from '@server/constants/approvalRule';
+import { MediaType } from '@server/constants/media';
+import type ApprovalRule from '@server/entity/ApprovalRule';
+import type { ApprovalRuleResultsResponse } from '@server/interfaces/api/approvalRuleInterfaces';
+import { Fragment, useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+
+const messages = defineMessages('components.Settings.SettingsApprovalRules', {
+  approvalRules: 'Approval Rules',
+  approvalRulesDescription:
+    'Automatically approve or decline requests that would otherwise wait for a request manager. Rules are evaluated from top to bottom and the first matching rule is applied.',
+  name: 'Name',
+  action: 'Action',
+  mediaType: 'Media Type',
+  approve: 'Approve',
+  decline: 'Decline',
+  anyMediaType: 'Movies and series',
+  movies: 'Movies',
+  series: 'Series',
+  addRule: 'Add Rule',
+  noRules: 'No approval rules configured.',
+  deleteRule: 'Delete Approval Rule',
+  deleteRuleConfirm: 'Are you sure you want to delete this approval rule?',
+  ruleDeleted: 'Approval rule deleted successfully!',
+  ruleDeleteFailed: 'Something went wrong while deleting the approval rule.',
+});
+
+const SettingsApprovalRules = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<ApprovalRuleResultsResponse>('/api/v1/approvalRule');
+  const [editRuleModal, setEditRuleModal] = useState<{
+    open: boolean;
+    rule: ApprovalRule | null;
+  }>({
+    open: false,
+    rule: null,
+  });
+  const [deleteRuleModal, setDeleteRuleModal] = useState<{
+    open: boolean;
+    ruleId: number | null;
+  }>({
+    open: false,
+    ruleId: null,
+  });
+
+  const deleteRule = async () => {
+    try {
+      const res = await fetch(
+        `/api/v1/approvalRule/${deleteRuleModal.ruleId}`,
+        {
+          method: 'DELETE',
+        }
+      );
+      if (!res.ok) throw new Error();
+      addToast(intl.formatMessage(messages.ruleDeleted), {
+        appearance: 'success',
+        autoDismiss: true,
+      });
+    } catch (e) {
+      addToast(intl.formatMessage(messages.ruleDeleteFailed), {
+        appearance: 'error',
+        autoDismiss: true,
+      });
+    } finally {
+      setDeleteRuleModal({ open: false, ruleId: null });
+      revalidate();
+    }
+  };
+
+  return (
+    <>
+      <PageTitle
+        title={[
+          intl.formatMessage(messages.approvalRules),
+          intl.formatMessage(globalMessages.settings),
+        ]}
+      />
+      <div className="mb-6">
+        <h3 className="heading">
+          {intl.formatMessage(messages.approvalRules)}
+        </h3>
+        <p className="description">
+          {intl.formatMessage(messages.approvalRulesDescription)}
+        </p>
+      </div>
+      {editRuleModal.open && (
+        <ApprovalRuleModal
+          rule={editRuleModal.rule}
+          onClose={() => setEditRuleModal({ open: false, rule: null })}
+          onSave={() => {
+            revalidate();
+            setEditRuleModal({ open: false, rule: null });
+          }}
+        />
+      )}
+      <Transition
+        as={Fragment}
+        show={deleteRuleModal.open}
+        enter="transition-opacity ease-in-out duration-300"
+        enterFrom="opacity-0"
+        enterTo="opacity-100"
+        leave="transition-opacity ease-in-out duration-300"
+        leaveFrom="opacity-100"
+        leaveTo="opacity-0"
+      >
+        <Modal
+          okText={intl.formatMessage(globalMessages.delete)}
+          okButtonType="danger"
+          onOk={() => deleteRule()}
+          onCancel={() => setDeleteRuleModal({ open: false, ruleId: null })}
+          title={intl.formatMessage(messages.deleteRule)}
+        >
+          {intl.formatMessage(messages.deleteRuleConfirm)}
+        </Modal>
+      </Transition>
+      <div className="section">
+        {!data && !error && <LoadingSpinner />}
+        {data && !error && (
+          <Table>
+            <thead>
+              <tr>
+                <Table.TH>{intl.formatMessage(messages.name)}</Table.TH>
+                <Table.TH>{intl.formatMessage(messages.action)}</Table.TH>
+                <Table.TH>{intl.formatMessage(messages.mediaType)}</Table.TH>
+                <Table.TH className="text-right">
+                  <Button
+                    buttonType="ghost"
+                    buttonSize="sm"
+                    onClick={() => setEditRuleModal({ open: true, rule: null })}
+                  >
+                    <PlusIcon />
+                    <span>{intl.formatMessage(messages.addRule)}</span>
+                  </Button>
+                </Table.TH>
+              </tr>
+            </thead>
+            <Table.TBody>
+              {data.length === 0 && (
+                <tr>
+                  <Table.TD colSpan={4} noPadding>
+                    <div className="flex w-screen flex-col items-center justify-center p-6 md:w-full">
+                      <span className="text-base">
+                        {intl.formatMessage(messages.noRules)}
+                      </span>
+                    </div>
+                  </Table.TD>
+                </tr>
+              )}
+              {data.map((rule) => (
+                <tr key={`approval-rule-${rule.id}`}>
+                  <Table.TD>{rule.name}</Table.TD>
+                  <Table.TD>
+                    {rule.action === ApprovalRuleAction.APPROVE ? (
+                      <Badge badgeType="success">
+                        {intl.formatMessage(messages.approve)}
+                      </Badge>
+                    ) : (
+                      <Badge badgeType="danger">
+                        {intl.formatMessage(messages.decline)}
+                      </Badge>
+                    )}
+                  </Table.TD>
+                  <Table.TD>
+                    {rule.mediaType === MediaType.MOVIE
+                      ? intl.formatMessage(messages.movies)
+                      : rule.mediaType === MediaType.TV
+                      ? intl.formatMessage(messages.series)
+                      : intl.formatMessage(messages.anyMediaType)}
+                  </Table.TD>
+                  <Table.TD alignText="right">
+                    <Button
+                      buttonType="warning"
+                      buttonSize="sm"
+                      className="mr-2"
+                      onClick={() => setEditRuleModal({ open: true, rule })}
+                    >
+                      <PencilIcon />
+                      <span>{intl.formatMessage(globalMessages.edit)}</span>
+                    </Button>
+                    <Button
+                      buttonType="danger"
+                      buttonSize="sm"
+                      onClick={() =>
+                        setDeleteRuleModal({ open: true, ruleId: rule.id })
+                      }
+                    >
+                      <TrashIcon />
+                      <span>{intl.formatMessage(globalMessages.delete)}</span>
+                    </Button>
+                  </Table.TD>
+                </tr>
+              ))}
+            </Table.TBody>
+          </Table>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default SettingsApprovalRules;
@@ -39,6 +39,8 @@ const messages = defineMessages('components.Settings', {
   enablessl: 'Use SSL',
   urlBase: 'URL Base',
   jellyfinForgotPasswordUrl: 'Forgot Password URL',
+  jellyfinForgotPasswordUrlTip:
+    'Leave empty to let users reset their password by email when email notifications are enabled, or to use the {mediaServerName} forgot password page otherwise',
   apiKey: 'API key',
   jellyfinSyncFailedNoLibrariesFound: 'No libraries were found',
   jellyfinSyncFailedAutomaticGroupedFolders:
@@ -698,6 +700,12 @@ const SettingsJellyfin: React.FC<SettingsJellyfinProps> = ({
                   className="text-label"
                 >
                   {intl.formatMessage(messages.jellyfinForgotPasswordUrl)}
+                  <span className="label-tip">
+                    {intl.formatMessage(
+                      messages.jellyfinForgotPasswordUrlTip,
+                      mediaServerFormatValues
+                    )}
+                  </span>
                 </label>
                 <div className="form-input-area">
                   <div className="form-input-field">
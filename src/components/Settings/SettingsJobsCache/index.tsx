@@ -68,6 +68,12 @@ const messages: { [messageName: string]: MessageDescriptor } = defineMessages(
     'download-sync-reset': 'Download Sync Reset',
     'image-cache-cleanup': 'Image Cache Cleanup',
     'subscription-check': 'Subscription Check',
+    'subscription-reminders': 'Subscription Reminders',
+    'account-sharing-detection': 'Account Sharing Detection',
+    'session-limit-watchdog': 'Session Limit Watchdog',
+    'jellyfin-user-sync': 'Jellyfin User Sync',
+    'deferred-requests': 'Deferred Requests',
+    'stale-requests': 'Stale Pending Requests',
     editJobSchedule: 'Modify Job',
     jobScheduleEditSaved: 'Job edited successfully!',
     jobScheduleEditFailed: 'Something went wrong while saving the job.',
@@ -13,6 +13,8 @@ const messages = defineMessages('components.Settings', {
   menuPlexSettings: 'Plex',
   menuJellyfinSettings: '{mediaServerName}',
   menuServices: 'Services',
+  menuApprovalRules: 'Approval Rules',
+  menuSubscriptions: 'Subscriptions',
   menuNotifications: 'Notifications',
   menuLogs: 'Logs',
   menuJobs: 'Jobs & Cache',
@@ -53,6 +55,16 @@ const SettingsLayout = ({ children }: SettingsLayoutProps) => {
       route: '/settings/services',
       regex: /^\/settings\/services/,
     },
+    {
+      text: intl.formatMessage(messages.menuApprovalRules),
+      route: '/settings/rules',
+      regex: /^\/settings\/rules/,
+    },
+    {
+      text: intl.formatMessage(messages.menuSubscriptions),
+      route: '/settings/subscriptions',
+      regex: /^\/settings\/subscriptions/,
+    },
     {
       text: intl.formatMessage(messages.menuNotifications),
       route: '/settings/notifications/email',
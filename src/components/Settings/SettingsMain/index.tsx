@@ -57,6 +57,29 @@ const messages = defineMessages('components.Settings.SettingsMain', {
   validationApplicationUrlTrailingSlash: 'URL must not end in a trailing slash',
   partialRequestsEnabled: 'Allow Partial Series Requests',
   enableSpecialEpisodes: 'Allow Special Episodes Requests',
+  requestVoteAutoApproveThreshold: 'Auto-Approve Vote Threshold',
+  requestVoteAutoApproveThresholdTip:
+    'Approve pending requests once they get this many votes from other users. Set to 0 to disable.',
+  validationRequestVoteAutoApproveThreshold:
+    'You must provide a valid number of votes',
+  requireDeclineReason: 'Require Decline Reason',
+  requireDeclineReasonTip:
+    'Request managers must explain why they decline a request',
+  deferUnreleasedRequests: 'Defer Requests Until Release',
+  deferUnreleasedRequestsTip:
+    'Hold approved requests for unreleased titles in Jellyseerr instead of sending them to Radarr or Sonarr right away',
+  deferUnreleasedRequestsDays: 'Days Before Release',
+  deferUnreleasedRequestsDaysTip:
+    'Send deferred requests this many days before the digital or physical release',
+  validationDeferUnreleasedRequestsDays:
+    'You must provide a valid number of days',
+  stalePendingRequestDays: 'Stale Request Age',
+  stalePendingRequestDaysTip:
+    'Handle pending requests older than this many days. Set to 0 to disable.',
+  validationStalePendingRequestDays: 'You must provide a valid number of days',
+  stalePendingRequestAction: 'Stale Request Action',
+  stalePendingRequestEscalate: 'Notify request managers',
+  stalePendingRequestDecline: 'Decline the request',
   locale: 'Display Language',
   proxyEnabled: 'HTTP(S) Proxy',
   proxyHostname: 'Proxy Hostname',
@@ -99,6 +122,32 @@ const SettingsMain = () => {
         intl.formatMessage(messages.validationApplicationUrlTrailingSlash),
         (value) => !value || !value.endsWith('/')
       ),
+    requestVoteAutoApproveThreshold: Yup.number()
+      .typeError(
+        intl.formatMessage(messages.validationRequestVoteAutoApproveThreshold)
+      )
+      .integer(
+        intl.formatMessage(messages.validationRequestVoteAutoApproveThreshold)
+      )
+      .min(
+        0,
+        intl.formatMessage(messages.validationRequestVoteAutoApproveThreshold)
+      ),
+    deferUnreleasedRequestsDays: Yup.number()
+      .typeError(
+        intl.formatMessage(messages.validationDeferUnreleasedRequestsDays)
+      )
+      .integer(
+        intl.formatMessage(messages.validationDeferUnreleasedRequestsDays)
+      )
+      .min(
+        0,
+        intl.formatMessage(messages.validationDeferUnreleasedRequestsDays)
+      ),
+    stalePendingRequestDays: Yup.number()
+      .typeError(intl.formatMessage(messages.validationStalePendingRequestDays))
+      .integer(intl.formatMessage(messages.validationStalePendingRequestDays))
+      .min(0, intl.formatMessage(messages.validationStalePendingRequestDays)),
     proxyPort: Yup.number().when('proxyEnabled', {
       is: (proxyEnabled: boolean) => proxyEnabled,
       then: Yup.number().required(
@@ -160,6 +209,14 @@ const SettingsMain = () => {
             streamingRegion: data?.streamingRegion || 'US',
             partialRequestsEnabled: data?.partialRequestsEnabled,
             enableSpecialEpisodes: data?.enableSpecialEpisodes,
+            requestVoteAutoApproveThreshold:
+              data?.requestVoteAutoApproveThreshold ?? 0,
+            requireDeclineReason: data?.requireDeclineReason,
+            deferUnreleasedRequests: data?.deferUnreleasedRequests,
+            deferUnreleasedRequestsDays: data?.deferUnreleasedRequestsDays ?? 7,
+            stalePendingRequestDays: data?.stalePendingRequestDays ?? 0,
+            stalePendingRequestAction:
+              data?.stalePendingRequestAction ?? 'escalate',
             trustProxy: data?.trustProxy,
             cacheImages: data?.cacheImages,
             proxyEnabled: data?.proxy?.enabled,
@@ -191,6 +248,18 @@ const SettingsMain = () => {
                   originalLanguage: values.originalLanguage,
                   partialRequestsEnabled: values.partialRequestsEnabled,
                   enableSpecialEpisodes: values.enableSpecialEpisodes,
+                  requestVoteAutoApproveThreshold: Number(
+                    values.requestVoteAutoApproveThreshold
+                  ),
+                  requireDeclineReason: values.requireDeclineReason,
+                  deferUnreleasedRequests: values.deferUnreleasedRequests,
+                  deferUnreleasedRequestsDays: Number(
+                    values.deferUnreleasedRequestsDays
+                  ),
+                  stalePendingRequestDays: Number(
+                    values.stalePendingRequestDays
+                  ),
+                  stalePendingRequestAction: values.stalePendingRequestAction,
                   trustProxy: values.trustProxy,
                   cacheImages: values.cacheImages,
                   proxy: {
@@ -524,6 +593,174 @@ const SettingsMain = () => {
                     />
                   </div>
                 </div>
+                <div className="form-row">
+                  <label
+                    htmlFor="requestVoteAutoApproveThreshold"
+                    className="text-label"
+                  >
+                    {intl.formatMessage(
+                      messages.requestVoteAutoApproveThreshold
+                    )}
+                    <span className="label-tip">
+                      {intl.formatMessage(
+                        messages.requestVoteAutoApproveThresholdTip
+                      )}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <Field
+                      id="requestVoteAutoApproveThreshold"
+                      name="requestVoteAutoApproveThreshold"
+                      type="text"
+                      inputMode="numeric"
+                      className="short"
+                    />
+                    {errors.requestVoteAutoApproveThreshold &&
+                      touched.requestVoteAutoApproveThreshold && (
+                        <div className="error">
+                          {errors.requestVoteAutoApproveThreshold}
+                        </div>
+                      )}
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label
+                    htmlFor="requireDeclineReason"
+                    className="checkbox-label"
+                  >
+                    <span className="mr-2">
+                      {intl.formatMessage(messages.requireDeclineReason)}
+                    </span>
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.requireDeclineReasonTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <Field
+                      type="checkbox"
+                      id="requireDeclineReason"
+                      name="requireDeclineReason"
+                      onChange={() => {
+                        setFieldValue(
+                          'requireDeclineReason',
+                          !values.requireDeclineReason
+                        );
+                      }}
+                    />
+                  </div>
+                </div>
+                <div className="form-row">
+                  <label
+                    htmlFor="deferUnreleasedRequests"
+                    className="checkbox-label"
+                  >
+                    <span className="mr-2">
+                      {intl.formatMessage(messages.deferUnreleasedRequests)}
+                    </span>
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.deferUnreleasedRequestsTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <Field
+                      type="checkbox"
+                      id="deferUnreleasedRequests"
+                      name="deferUnreleasedRequests"
+                      onChange={() => {
+                        setFieldValue(
+                          'deferUnreleasedRequests',
+                          !values.deferUnreleasedRequests
+                        );
+                      }}
+                    />
+                  </div>
+                </div>
+                {values.deferUnreleasedRequests && (
+                  <div className="form-row">
+                    <label
+                      htmlFor="deferUnreleasedRequestsDays"
+                      className="text-label"
+                    >
+                      {intl.formatMessage(messages.deferUnreleasedRequestsDays)}
+                      <span className="label-tip">
+                        {intl.formatMessage(
+                          messages.deferUnreleasedRequestsDaysTip
+                        )}
+                      </span>
+                    </label>
+                    <div className="form-input-area">
+                      <Field
+                        id="deferUnreleasedRequestsDays"
+                        name="deferUnreleasedRequestsDays"
+                        type="text"
+                        inputMode="numeric"
+                        className="short"
+                      />
+                      {errors.deferUnreleasedRequestsDays &&
+                        touched.deferUnreleasedRequestsDays && (
+                          <div className="error">
+                            {errors.deferUnreleasedRequestsDays}
+                          </div>
+                        )}
+                    </div>
+                  </div>
+                )}
+                <div className="form-row">
+                  <label
+                    htmlFor="stalePendingRequestDays"
+                    className="text-label"
+                  >
+                    {intl.formatMessage(messages.stalePendingRequestDays)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.stalePendingRequestDaysTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <Field
+                      id="stalePendingRequestDays"
+                      name="stalePendingRequestDays"
+                      type="text"
+                      inputMode="numeric"
+                      className="short"
+                    />
+                    {errors.stalePendingRequestDays &&
+                      touched.stalePendingRequestDays && (
+                        <div className="error">
+                          {errors.stalePendingRequestDays}
+                        </div>
+                      )}
+                  </div>
+                </div>
+                {Number(values.stalePendingRequestDays) > 0 && (
+                  <div className="form-row">
+                    <label
+                      htmlFor="stalePendingRequestAction"
+                      className="text-label"
+                    >
+                      {intl.formatMessage(messages.stalePendingRequestAction)}
+                    </label>
+                    <div className="form-input-area">
+                      <div className="form-input-field">
+                        <Field
+                          as="select"
+                          id="stalePendingRequestAction"
+                          name="stalePendingRequestAction"
+                        >
+                          <option value="escalate">
+                            {intl.formatMessage(
+                              messages.stalePendingRequestEscalate
+                            )}
+                          </option>
+                          <option value="decline">
+                            {intl.formatMessage(
+                              messages.stalePendingRequestDecline
+                            )}
+                          </option>
+                        </Field>
+                      </div>
+                    </div>
+                  </div>
+                )}
                 <div className="form-row">
                   <label htmlFor="proxyEnabled" className="checkbox-label">
                     <span className="mr-2">
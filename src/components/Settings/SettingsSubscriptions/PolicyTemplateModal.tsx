@@ -0,0 +1,196 @@
+import Modal from '@app/components/Common/Modal';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import type { JellyfinPolicyTemplateResponse } from '@server/interfaces/api/jellyfinInterfaces';
+import { Field, Formik } from 'formik';
+import dynamic from 'next/dynamic';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import * as Yup from 'yup';
+
+const JSONEditor = dynamic(() => import('@app/components/JSONEditor'), {
+  ssr: false,
+});
+
+const messages = defineMessages(
+  'components.Settings.SettingsSubscriptions.PolicyTemplateModal',
+  {
+    createtemplate: 'New Policy Template',
+    edittemplate: 'Edit Policy Template',
+    create: 'Create Template',
+    name: 'Name',
+    policy: 'Policy',
+    policyTip:
+      'JSON object merged into the base user policy pushed to the media server. Fields left out keep their default value, with playback disabled.',
+    validationNameRequired: 'You must provide a name',
+    validationPolicy: 'You must provide a valid JSON object',
+    templateCreated: 'Policy template created successfully!',
+    templateUpdated: 'Policy template updated successfully!',
+    templateFailed: 'Something went wrong while saving the policy template.',
+  }
+);
+
+interface PolicyTemplateModalProps {
+  template: JellyfinPolicyTemplateResponse | null;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const PolicyTemplateModal = ({
+  template,
+  onClose,
+  onSave,
+}: PolicyTemplateModalProps) => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+
+  const PolicyTemplateSchema = Yup.object().shape({
+    name: Yup.string().required(
+      intl.formatMessage(messages.validationNameRequired)
+    ),
+    policy: Yup.string().test(
+      'validate-json',
+      intl.formatMessage(messages.validationPolicy),
+      (value) => {
+        if (!value) {
+          return true;
+        }
+
+        try {
+          const parsed = JSON.parse(value);
+          return typeof parsed === 'object' && !Array.isArray(parsed);
+        } catch (e) {
+          return false;
+        }
+      }
+    ),
+  });
+
+  return (
+    <Transition
+      as="div"
+      appear
+      show
+      enter="transition-opacity ease-in-out duration-300"
+      enterFrom="opacity-0"
+      enterTo="opacity-100"
+      leave="transition-opacity ease-in-out duration-300"
+      leaveFrom="opacity-100"
+      leaveTo="opacity-0"
+    >
+      <Formik
+        initialValues={{
+          name: template?.name ?? '',
+          policy: JSON.stringify(template?.policy ?? {}, undefined, '    '),
+        }}
+        validationSchema={PolicyTemplateSchema}
+        onSubmit={async (values) => {
+          try {
+            const res = await fetch(
+              template
+                ? `/api/v1/settings/jellyfin/policy-templates/${template.id}`
+                : '/api/v1/settings/jellyfin/policy-templates',
+              {
+                method: template ? 'PUT' : 'POST',
+                headers: {
+                  'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                  name: values.name,
+                  policy: values.policy ? JSON.parse(values.policy) : {},
+                }),
+              }
+            );
+            if (!res.ok) throw new Error();
+            addToast(
+              intl.formatMessage(
+                template ? messages.templateUpdated : messages.templateCreated
+              ),
+              {
+                appearance: 'success',
+                autoDismiss: true,
+              }
+            );
+            onSave();
+          } catch (e) {
+            addToast(intl.formatMessage(messages.templateFailed), {
+              appearance: 'error',
+              autoDismiss: true,
+            });
+          }
+        }}
+      >
+        {({
+          errors,
+          touched,
+          values,
+          handleSubmit,
+          setFieldValue,
+          setFieldTouched,
+          isSubmitting,
+          isValid,
+        }) => {
+          return (
+            <Modal
+              onCancel={onClose}
+              okButtonType="primary"
+              okText={
+                isSubmitting
+                  ? intl.formatMessage(globalMessages.saving)
+                  : template
+                  ? intl.formatMessage(globalMessages.save)
+                  : intl.formatMessage(messages.create)
+              }
+              okDisabled={isSubmitting || !isValid}
+              onOk={() => handleSubmit()}
+              title={
+                template
+                  ? intl.formatMessage(messages.edittemplate)
+                  : intl.formatMessage(messages.createtemplate)
+              }
+            >
+              <div className="form-row">
+                <label htmlFor="name" className="text-label">
+                  {intl.formatMessage(messages.name)}
+                  <span className="label-required">*</span>
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <Field id="name" name="name" type="text" />
+                  </div>
+                  {errors.name && touched.name && (
+                    <div className="error">{errors.name}</div>
+                  )}
+                </div>
+              </div>
+              <div className="form-row">
+                <label htmlFor="policy" className="text-label">
+                  {intl.formatMessage(messages.policy)}
+                  <span className="label-tip">
+                    {intl.formatMessage(messages.policyTip)}
+                  </span>
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <JSONEditor
+                      name="policy"
+                      onUpdate={(value) => setFieldValue('policy', value)}
+                      value={values.policy}
+                      onBlur={() => setFieldTouched('policy')}
+                    />
+                  </div>
+                  {errors.policy && touched.policy && (
+                    <div className="error">{errors.policy}</div>
+                  )}
+                </div>
+              </div>
+            </Modal>
+          );
+        }}
+      </Formik>
+    </Transition>
+  );
+};
+
+export default PolicyTemplateModal;
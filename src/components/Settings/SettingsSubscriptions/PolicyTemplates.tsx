@@ -0,0 +1,231 @@
+import Badge from '@app/components/Common/Badge';
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import Modal from '@app/components/Common/Modal';
+import Table from '@app/components/Common/Table';
+import PolicyTemplateModal from '@app/components/Settings/SettingsSubscriptions/PolicyTemplateModal';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import {
+  ArrowPathIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+} from '@heroicons/react/24/solid';
+import type {
+  JellyfinPolicyTemplateResponse,
+  JellyfinPolicyTemplateResultsResponse,
+} from '@server/interfaces/api/jellyfinInterfaces';
+import { Fragment, useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+
+const messages = defineMessages(
+  'components.Settings.SettingsSubscriptions.PolicyTemplates',
+  {
+    policyTemplates: 'Policy Templates',
+    policyTemplatesDescription:
+      'Policy templates define the media server access applied to users whenever their access changes, such as when a subscription starts or lapses. Plans can choose which template they apply.',
+    name: 'Name',
+    id: 'ID',
+    builtIn: 'Built-In',
+    custom: 'Custom',
+    addTemplate: 'Add Template',
+    reset: 'Reset',
+    deleteTemplate: 'Delete Policy Template',
+    deleteTemplateConfirm:
+      'Are you sure you want to delete this policy template? Plans using it will fall back to the Expired template.',
+    resetTemplate: 'Reset Policy Template',
+    resetTemplateConfirm:
+      'Are you sure you want to reset this policy template to its default policy?',
+    templateDeleted: 'Policy template deleted successfully!',
+    templateReset: 'Policy template reset successfully!',
+    templateDeleteFailed:
+      'Something went wrong while deleting the policy template.',
+  }
+);
+
+const PolicyTemplates = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<JellyfinPolicyTemplateResultsResponse>(
+    '/api/v1/settings/jellyfin/policy-templates'
+  );
+  const [editTemplateModal, setEditTemplateModal] = useState<{
+    open: boolean;
+    template: JellyfinPolicyTemplateResponse | null;
+  }>({
+    open: false,
+    template: null,
+  });
+  const [deleteTemplateModal, setDeleteTemplateModal] = useState<{
+    open: boolean;
+    template: JellyfinPolicyTemplateResponse | null;
+  }>({
+    open: false,
+    template: null,
+  });
+
+  const deleteTemplate = async () => {
+    const template = deleteTemplateModal.template;
+
+    try {
+      const res = await fetch(
+        `/api/v1/settings/jellyfin/policy-templates/${template?.id}`,
+        {
+          method: 'DELETE',
+        }
+      );
+      if (!res.ok) throw new Error();
+      addToast(
+        intl.formatMessage(
+          template?.builtIn ? messages.templateReset : messages.templateDeleted
+        ),
+        {
+          appearance: 'success',
+          autoDismiss: true,
+        }
+      );
+    } catch (e) {
+      addToast(intl.formatMessage(messages.templateDeleteFailed), {
+        appearance: 'error',
+        autoDismiss: true,
+      });
+    } finally {
+      setDeleteTemplateModal({ open: false, template: null });
+      revalidate();
+    }
+  };
+
+  return (
+    <>
+      <div className="mt-10 mb-6">
+        <h3 className="heading">
+          {intl.formatMessage(messages.policyTemplates)}
+        </h3>
+        <p className="description">
+          {intl.formatMessage(messages.policyTemplatesDescription)}
+        </p>
+      </div>
+      {editTemplateModal.open && (
+        <PolicyTemplateModal
+          template={editTemplateModal.template}
+          onClose={() => setEditTemplateModal({ open: false, template: null })}
+          onSave={() => {
+            revalidate();
+            setEditTemplateModal({ open: false, template: null });
+          }}
+        />
+      )}
+      <Transition
+        as={Fragment}
+        show={deleteTemplateModal.open}
+        enter="transition-opacity ease-in-out duration-300"
+        enterFrom="opacity-0"
+        enterTo="opacity-100"
+        leave="transition-opacity ease-in-out duration-300"
+        leaveFrom="opacity-100"
+        leaveTo="opacity-0"
+      >
+        <Modal
+          okText={
+            deleteTemplateModal.template?.builtIn
+              ? intl.formatMessage(messages.reset)
+              : intl.formatMessage(globalMessages.delete)
+          }
+          okButtonType="danger"
+          onOk={() => deleteTemplate()}
+          onCancel={() =>
+            setDeleteTemplateModal({ open: false, template: null })
+          }
+          title={
+            deleteTemplateModal.template?.builtIn
+              ? intl.formatMessage(messages.resetTemplate)
+              : intl.formatMessage(messages.deleteTemplate)
+          }
+        >
+          {deleteTemplateModal.template?.builtIn
+            ? intl.formatMessage(messages.resetTemplateConfirm)
+            : intl.formatMessage(messages.deleteTemplateConfirm)}
+        </Modal>
+      </Transition>
+      <div className="section">
+        {!data && !error && <LoadingSpinner />}
+        {data && !error && (
+          <Table>
+            <thead>
+              <tr>
+                <Table.TH>{intl.formatMessage(messages.name)}</Table.TH>
+                <Table.TH>{intl.formatMessage(messages.id)}</Table.TH>
+                <Table.TH className="text-right">
+                  <Button
+                    buttonType="ghost"
+                    buttonSize="sm"
+                    onClick={() =>
+                      setEditTemplateModal({ open: true, template: null })
+                    }
+                  >
+                    <PlusIcon />
+                    <span>{intl.formatMessage(messages.addTemplate)}</span>
+                  </Button>
+                </Table.TH>
+              </tr>
+            </thead>
+            <Table.TBody>
+              {data.map((template) => (
+                <tr key={`policy-template-${template.id}`}>
+                  <Table.TD>
+                    <span className="mr-2">{template.name}</span>
+                    {template.builtIn ? (
+                      <Badge>{intl.formatMessage(messages.builtIn)}</Badge>
+                    ) : (
+                      <Badge badgeType="primary">
+                        {intl.formatMessage(messages.custom)}
+                      </Badge>
+                    )}
+                  </Table.TD>
+                  <Table.TD className="font-mono">{template.id}</Table.TD>
+                  <Table.TD alignText="right">
+                    <Button
+                      buttonType="warning"
+                      buttonSize="sm"
+                      className="mr-2"
+                      onClick={() =>
+                        setEditTemplateModal({ open: true, template })
+                      }
+                    >
+                      <PencilIcon />
+                      <span>{intl.formatMessage(globalMessages.edit)}</span>
+                    </Button>
+                    <Button
+                      buttonType="danger"
+                      buttonSize="sm"
+                      onClick={() =>
+                        setDeleteTemplateModal({ open: true, template })
+                      }
+                    >
+                      {template.builtIn ? <ArrowPathIcon /> : <TrashIcon />}
+                      <span>
+                        {template.builtIn
+                          ? intl.formatMessage(messages.reset)
+                          : intl.formatMessage(globalMessages.delete)}
+                      </span>
+                    </Button>
+                  </Table.TD>
+                </tr>
+              ))}
+            </Table.TBody>
+          </Table>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default PolicyTemplates;
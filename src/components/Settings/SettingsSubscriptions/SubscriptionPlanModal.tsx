@@ -0,0 +1,502 @@
+import Modal from '@app/components/Common/Modal';
+import LibraryAccessEdit from '@app/components/LibraryAccessEdit';
+import PermissionEdit from '@app/components/PermissionEdit';
+import QuotaSelector from '@app/components/QuotaSelector';
+import useSettings from '@app/hooks/useSettings';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import { MediaServerType } from '@server/constants/server';
+import type SubscriptionPlan from '@server/entity/SubscriptionPlan';
+import type {
+  JellyfinLibraryResultsResponse,
+  JellyfinPolicyTemplateResultsResponse,
+} from '@server/interfaces/api/jellyfinInterfaces';
+import { Field, Formik } from 'formik';
+import dynamic from 'next/dynamic';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+import * as Yup from 'yup';
+
+const JSONEditor = dynamic(() => import('@app/components/JSONEditor'), {
+  ssr: false,
+});
+
+const messages = defineMessages(
+  'components.Settings.SettingsSubscriptions.SubscriptionPlanModal',
+  {
+    createplan: 'New Subscription Plan',
+    editplan: 'Edit Subscription Plan',
+    create: 'Create Plan',
+    name: 'Name',
+    durationDays: 'Duration',
+    durationDaysTip: 'Leave empty for a plan that never expires',
+    days: 'days',
+    isExpiredProfile: 'Expired Profile',
+    isExpiredProfileTip:
+      'Apply this plan to users whose subscription has lapsed',
+    movieRequestLimit: 'Movie Request Limit',
+    seriesRequestLimit: 'Series Request Limit',
+    enableOverride: 'Override Global Limit',
+    maxActiveSessions: 'Concurrent Streams',
+    maxActiveSessionsTip:
+      'Maximum number of streams subscribers can run at once. Leave empty for no limit.',
+    validationMaxActiveSessions: 'You must provide a valid number of streams',
+    permissions: 'Permissions',
+    libraryAccess: 'Default Libraries',
+    libraryAccessTip:
+      'Libraries subscribers can access. When disabled, the library access of each user is left untouched.',
+    enableLibraryAccess: 'Set Default Libraries',
+    policyTemplate: 'Policy Template',
+    policyTemplateTip:
+      'Media server policy applied to subscribers. By default, the Active Member template is applied to subscribed users and the Expired template once a subscription lapses.',
+    policyTemplateDefault: 'Default',
+    jellyfinPolicy: 'Media Server Policy',
+    jellyfinPolicyTip:
+      'JSON object merged into the policy template pushed to the media server',
+    validationNameRequired: 'You must provide a name',
+    validationDurationDays: 'You must provide a valid number of days',
+    validationJellyfinPolicy: 'You must provide a valid JSON object',
+    planCreated: 'Subscription plan created successfully!',
+    planUpdated: 'Subscription plan updated successfully!',
+    planFailed: 'Something went wrong while saving the subscription plan.',
+  }
+);
+
+interface SubscriptionPlanModalProps {
+  plan: SubscriptionPlan | null;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const SubscriptionPlanModal = ({
+  plan,
+  onClose,
+  onSave,
+}: SubscriptionPlanModalProps) => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const [movieQuotaEnabled, setMovieQuotaEnabled] = useState(
+    plan?.movieQuotaLimit != undefined && plan?.movieQuotaDays != undefined
+  );
+  const [tvQuotaEnabled, setTvQuotaEnabled] = useState(
+    plan?.tvQuotaLimit != undefined && plan?.tvQuotaDays != undefined
+  );
+  const settings = useSettings();
+  const isJellyfin =
+    settings.currentSettings.mediaServerType !== MediaServerType.PLEX;
+  const { data: libraries } = useSWR<JellyfinLibraryResultsResponse>(
+    isJellyfin ? '/api/v1/user/libraries' : null
+  );
+  const { data: policyTemplates } =
+    useSWR<JellyfinPolicyTemplateResultsResponse>(
+      '/api/v1/settings/jellyfin/policy-templates'
+    );
+
+  const SubscriptionPlanSchema = Yup.object().shape({
+    name: Yup.string().required(
+      intl.formatMessage(messages.validationNameRequired)
+    ),
+    durationDays: Yup.number()
+      .nullable()
+      .transform((value, originalValue) =>
+        originalValue === '' ? null : value
+      )
+      .integer(intl.formatMessage(messages.validationDurationDays))
+      .min(1, intl.formatMessage(messages.validationDurationDays)),
+    maxActiveSessions: Yup.number()
+      .nullable()
+      .transform((value, originalValue) =>
+        originalValue === '' ? null : value
+      )
+      .integer(intl.formatMessage(messages.validationMaxActiveSessions))
+      .min(0, intl.formatMessage(messages.validationMaxActiveSessions)),
+    jellyfinPolicy: Yup.string()
+      .nullable()
+      .test(
+        'validate-json',
+        intl.formatMessage(messages.validationJellyfinPolicy),
+        (value) => {
+          if (!value) {
+            return true;
+          }
+
+          try {
+            const parsed = JSON.parse(value);
+            return typeof parsed === 'object' && !Array.isArray(parsed);
+          } catch (e) {
+            return false;
+          }
+        }
+      ),
+  });
+
+  return (
+    <Transition
+      as="div"
+      appear
+      show
+      enter="transition-opacity ease-in-out duration-300"
+      enterFrom="opacity-0"
+      enterTo="opacity-100"
+      leave="transition-opacity ease-in-out duration-300"
+      leaveFrom="opacity-100"
+      leaveTo="opacity-0"
+    >
+      <Formik
+        initialValues={{
+          name: plan?.name ?? '',
+          durationDays: plan?.durationDays ?? '',
+          isExpiredProfile: plan?.isExpiredProfile ?? false,
+          permissions: plan?.permissions ?? 0,
+          movieQuotaLimit: plan?.movieQuotaLimit ?? undefined,
+          movieQuotaDays: plan?.movieQuotaDays ?? undefined,
+          tvQuotaLimit: plan?.tvQuotaLimit ?? undefined,
+          tvQuotaDays: plan?.tvQuotaDays ?? undefined,
+          maxActiveSessions: plan?.maxActiveSessions ?? '',
+          libraryAccessEnabled: !!plan?.libraryAccess,
+          libraryAccess: plan?.libraryAccess ?? {
+            enableAllFolders: true,
+            enabledFolders: [],
+          },
+          policyTemplate: plan?.policyTemplate ?? '',
+          jellyfinPolicy: plan?.jellyfinPolicy
+            ? JSON.stringify(plan.jellyfinPolicy, undefined, '    ')
+            : '',
+        }}
+        validationSchema={SubscriptionPlanSchema}
+        onSubmit={async (values) => {
+          try {
+            const submission = {
+              name: values.name,
+              durationDays: Number(values.durationDays) || null,
+              isExpiredProfile: values.isExpiredProfile,
+              permissions: values.permissions,
+              movieQuotaLimit: movieQuotaEnabled
+                ? values.movieQuotaLimit
+                : null,
+              movieQuotaDays: movieQuotaEnabled ? values.movieQuotaDays : null,
+              tvQuotaLimit: tvQuotaEnabled ? values.tvQuotaLimit : null,
+              tvQuotaDays: tvQuotaEnabled ? values.tvQuotaDays : null,
+              maxActiveSessions: Number(values.maxActiveSessions) || null,
+              libraryAccess: values.libraryAccessEnabled
+                ? values.libraryAccess
+                : null,
+              policyTemplate: values.policyTemplate || null,
+              jellyfinPolicy: values.jellyfinPolicy
+                ? JSON.parse(values.jellyfinPolicy)
+                : null,
+            };
+            const res = await fetch(
+              plan
+                ? `/api/v1/subscription/plans/${plan.id}`
+                : '/api/v1/subscription/plans',
+              {
+                method: plan ? 'PUT' : 'POST',
+                headers: {
+                  'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(submission),
+              }
+            );
+            if (!res.ok) throw new Error();
+            addToast(
+              intl.formatMessage(
+                plan ? messages.planUpdated : messages.planCreated
+              ),
+              {
+                appearance: 'success',
+                autoDismiss: true,
+              }
+            );
+            onSave();
+          } catch (e) {
+            addToast(intl.formatMessage(messages.planFailed), {
+              appearance: 'error',
+              autoDismiss: true,
+            });
+          }
+        }}
+      >
+        {({
+          errors,
+          touched,
+          values,
+          handleSubmit,
+          setFieldValue,
+          setFieldTouched,
+          isSubmitting,
+          isValid,
+        }) => {
+          return (
+            <Modal
+              onCancel={onClose}
+              okButtonType="primary"
+              okText={
+                isSubmitting
+                  ? intl.formatMessage(globalMessages.saving)
+                  : plan
+                  ? intl.formatMessage(globalMessages.save)
+                  : intl.formatMessage(messages.create)
+              }
+              okDisabled={isSubmitting || !isValid}
+              onOk={() => handleSubmit()}
+              title={
+                plan
+                  ? intl.formatMessage(messages.editplan)
+                  : intl.formatMessage(messages.createplan)
+              }
+            >
+              <div className="form-row">
+                <label htmlFor="name" className="text-label">
+                  {intl.formatMessage(messages.name)}
+                  <span className="label-required">*</span>
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <Field id="name" name="name" type="text" />
+                  </div>
+                  {errors.name && touched.name && (
+                    <div className="error">{errors.name}</div>
+                  )}
+                </div>
+              </div>
+              <div className="form-row">
+                <label htmlFor="durationDays" className="text-label">
+                  {intl.formatMessage(messages.durationDays)}
+                  <span className="label-tip">
+                    {intl.formatMessage(messages.durationDaysTip)}
+                  </span>
+                </label>
+                <div className="form-input-area">
+                  <div className="flex items-center">
+                    <Field
+                      id="durationDays"
+                      name="durationDays"
+                      type="text"
+                      inputMode="numeric"
+                      className="short"
+                    />
+                    <span className="ml-2 text-gray-300">
+                      {intl.formatMessage(messages.days)}
+                    </span>
+                  </div>
+                  {errors.durationDays &&
+                    touched.durationDays &&
+                    typeof errors.durationDays === 'string' && (
+                      <div className="error">{errors.durationDays}</div>
+                    )}
+                </div>
+              </div>
+              <div className="form-row">
+                <label htmlFor="isExpiredProfile" className="checkbox-label">
+                  {intl.formatMessage(messages.isExpiredProfile)}
+                  <span className="label-tip">
+                    {intl.formatMessage(messages.isExpiredProfileTip)}
+                  </span>
+                </label>
+                <div className="form-input-area">
+                  <Field
+                    type="checkbox"
+                    id="isExpiredProfile"
+                    name="isExpiredProfile"
+                  />
+                </div>
+              </div>
+              <div className="form-row">
+                <label htmlFor="movieQuotaLimit" className="text-label">
+                  {intl.formatMessage(messages.movieRequestLimit)}
+                </label>
+                <div className="form-input-area">
+                  <div className="flex flex-col">
+                    <div className="mb-4 flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={movieQuotaEnabled}
+                        onChange={() => setMovieQuotaEnabled((s) => !s)}
+                      />
+                      <span className="ml-2 text-gray-300">
+                        {intl.formatMessage(messages.enableOverride)}
+                      </span>
+                    </div>
+                    <QuotaSelector
+                      isDisabled={!movieQuotaEnabled}
+                      dayFieldName="movieQuotaDays"
+                      limitFieldName="movieQuotaLimit"
+                      mediaType="movie"
+                      onChange={setFieldValue}
+                      defaultDays={values.movieQuotaDays}
+                      defaultLimit={values.movieQuotaLimit}
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="form-row">
+                <label htmlFor="tvQuotaLimit" className="text-label">
+                  {intl.formatMessage(messages.seriesRequestLimit)}
+                </label>
+                <div className="form-input-area">
+                  <div className="flex flex-col">
+                    <div className="mb-4 flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={tvQuotaEnabled}
+                        onChange={() => setTvQuotaEnabled((s) => !s)}
+                      />
+                      <span className="ml-2 text-gray-300">
+                        {intl.formatMessage(messages.enableOverride)}
+                      </span>
+                    </div>
+                    <QuotaSelector
+                      isDisabled={!tvQuotaEnabled}
+                      dayFieldName="tvQuotaDays"
+                      limitFieldName="tvQuotaLimit"
+                      mediaType="tv"
+                      onChange={setFieldValue}
+                      defaultDays={values.tvQuotaDays}
+                      defaultLimit={values.tvQuotaLimit}
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="form-row">
+                <label htmlFor="maxActiveSessions" className="text-label">
+                  {intl.formatMessage(messages.maxActiveSessions)}
+                  <span className="label-tip">
+                    {intl.formatMessage(messages.maxActiveSessionsTip)}
+                  </span>
+                </label>
+                <div className="form-input-area">
+                  <Field
+                    id="maxActiveSessions"
+                    name="maxActiveSessions"
+                    type="text"
+                    inputMode="numeric"
+                    className="short"
+                  />
+                  {errors.maxActiveSessions &&
+                    touched.maxActiveSessions &&
+                    typeof errors.maxActiveSessions === 'string' && (
+                      <div className="error">{errors.maxActiveSessions}</div>
+                    )}
+                </div>
+              </div>
+              {isJellyfin && (
+                <div className="form-row">
+                  <label htmlFor="libraryAccessEnabled" className="text-label">
+                    {intl.formatMessage(messages.libraryAccess)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.libraryAccessTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <div className="flex flex-col">
+                      <div className="mb-4 flex items-center">
+                        <Field
+                          type="checkbox"
+                          id="libraryAccessEnabled"
+                          name="libraryAccessEnabled"
+                        />
+                        <span className="ml-2 text-gray-300">
+                          {intl.formatMessage(messages.enableLibraryAccess)}
+                        </span>
+                      </div>
+                      {values.libraryAccessEnabled && libraries && (
+                        <LibraryAccessEdit
+                          libraries={libraries}
+                          access={values.libraryAccess}
+                          onUpdate={(access) =>
+                            setFieldValue('libraryAccess', access)
+                          }
+                        />
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+              <div className="form-row">
+                <label htmlFor="policyTemplate" className="text-label">
+                  {intl.formatMessage(messages.policyTemplate)}
+                  <span className="label-tip">
+                    {intl.formatMessage(messages.policyTemplateTip)}
+                  </span>
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <Field
+                      as="select"
+                      id="policyTemplate"
+                      name="policyTemplate"
+                    >
+                      <option value="">
+                        {intl.formatMessage(messages.policyTemplateDefault)}
+                      </option>
+                      {policyTemplates?.map((template) => (
+                        <option
+                          key={`policy-template-${template.id}`}
+                          value={template.id}
+                        >
+                          {template.name}
+                        </option>
+                      ))}
+                    </Field>
+                  </div>
+                </div>
+              </div>
+              <div className="form-row">
+                <label htmlFor="jellyfinPolicy" className="text-label">
+                  {intl.formatMessage(messages.jellyfinPolicy)}
+                  <span className="label-tip">
+                    {intl.formatMessage(messages.jellyfinPolicyTip)}
+                  </span>
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <JSONEditor
+                      name="jellyfinPolicy"
+                      onUpdate={(value) =>
+                        setFieldValue('jellyfinPolicy', value)
+                      }
+                      value={values.jellyfinPolicy}
+                      onBlur={() => setFieldTouched('jellyfinPolicy')}
+                    />
+                  </div>
+                  {errors.jellyfinPolicy &&
+                    touched.jellyfinPolicy &&
+                    typeof errors.jellyfinPolicy === 'string' && (
+                      <div className="error">{errors.jellyfinPolicy}</div>
+                    )}
+                </div>
+              </div>
+              <div
+                role="group"
+                aria-labelledby="group-label"
+                className="form-group"
+              >
+                <div className="form-row">
+                  <span id="group-label" className="group-label">
+                    {intl.formatMessage(messages.permissions)}
+                  </span>
+                  <div className="form-input-area">
+                    <div className="max-w-lg">
+                      <PermissionEdit
+                        currentPermission={values.permissions}
+                        onUpdate={(newPermissions) =>
+                          setFieldValue('permissions', newPermissions)
+                        }
+                      />
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </Modal>
+          );
+        }}
+      </Formik>
+    </Transition>
+  );
+};
+
+export default SubscriptionPlanModal;
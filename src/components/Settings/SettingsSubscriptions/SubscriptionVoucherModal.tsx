@@ -0,0 +1,213 @@
+import Modal from '@app/components/Common/Modal';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import { Field, Formik } from 'formik';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import * as Yup from 'yup';
+
+const messages = defineMessages(
+  'components.Settings.SettingsSubscriptions.SubscriptionVoucherModal',
+  {
+    createvoucher: 'New Voucher',
+    create: 'Create Voucher',
+    creating: 'Creating…',
+    code: 'Code',
+    codeTip: 'Leave empty to generate a random code',
+    durationDays: 'Duration',
+    durationDaysTip: 'Leave empty for a voucher that grants lifetime access',
+    days: 'days',
+    maxUses: 'Maximum Uses',
+    maxUsesTip: 'Leave empty to allow any number of redemptions',
+    expiresAt: 'Valid Until',
+    expiresAtTip: 'Leave empty for a voucher that never expires',
+    validationDurationDays: 'You must provide a valid number of days',
+    validationMaxUses: 'You must provide a valid number of uses',
+    voucherCreated: 'Voucher {code} created successfully!',
+    voucherFailed: 'Something went wrong while creating the voucher.',
+  }
+);
+
+interface SubscriptionVoucherModalProps {
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const SubscriptionVoucherModal = ({
+  onClose,
+  onSave,
+}: SubscriptionVoucherModalProps) => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+
+  const SubscriptionVoucherSchema = Yup.object().shape({
+    durationDays: Yup.number()
+      .nullable()
+      .transform((value, originalValue) =>
+        originalValue === '' ? null : value
+      )
+      .typeError(intl.formatMessage(messages.validationDurationDays))
+      .integer(intl.formatMessage(messages.validationDurationDays))
+      .min(1, intl.formatMessage(messages.validationDurationDays)),
+    maxUses: Yup.number()
+      .nullable()
+      .transform((value, originalValue) =>
+        originalValue === '' ? null : value
+      )
+      .typeError(intl.formatMessage(messages.validationMaxUses))
+      .integer(intl.formatMessage(messages.validationMaxUses))
+      .min(1, intl.formatMessage(messages.validationMaxUses)),
+  });
+
+  return (
+    <Transition
+      as="div"
+      appear
+      show
+      enter="transition-opacity ease-in-out duration-300"
+      enterFrom="opacity-0"
+      enterTo="opacity-100"
+      leave="transition-opacity ease-in-out duration-300"
+      leaveFrom="opacity-100"
+      leaveTo="opacity-0"
+    >
+      <Formik
+        initialValues={{
+          code: '',
+          durationDays: '30',
+          maxUses: '1',
+          expiresAt: '',
+        }}
+        validationSchema={SubscriptionVoucherSchema}
+        onSubmit={async (values) => {
+          try {
+            const res = await fetch('/api/v1/subscription/vouchers', {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify({
+                code: values.code || undefined,
+                durationDays: Number(values.durationDays) || null,
+                maxUses: Number(values.maxUses) || null,
+                expiresAt: values.expiresAt
+                  ? new Date(values.expiresAt).toISOString()
+                  : null,
+              }),
+            });
+            if (!res.ok) throw new Error();
+            const voucher = await res.json();
+            addToast(
+              intl.formatMessage(messages.voucherCreated, {
+                code: voucher.code,
+              }),
+              {
+                appearance: 'success',
+                autoDismiss: true,
+              }
+            );
+            onSave();
+          } catch (e) {
+            addToast(intl.formatMessage(messages.voucherFailed), {
+              appearance: 'error',
+              autoDismiss: true,
+            });
+          }
+        }}
+      >
+        {({ errors, touched, handleSubmit, isSubmitting, isValid }) => {
+          return (
+            <Modal
+              onCancel={onClose}
+              okButtonType="primary"
+              okText={
+                isSubmitting
+                  ? intl.formatMessage(messages.creating)
+                  : intl.formatMessage(messages.create)
+              }
+              okDisabled={isSubmitting || !isValid}
+              onOk={() => handleSubmit()}
+              title={intl.formatMessage(messages.createvoucher)}
+            >
+              <div className="form-row">
+                <label htmlFor="code" className="text-label">
+                  {intl.formatMessage(messages.code)}
+                  <span className="label-tip">
+                    {intl.formatMessage(messages.codeTip)}
+                  </span>
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <Field id="code" name="code" type="text" />
+                  </div>
+                </div>
+              </div>
+              <div className="form-row">
+                <label htmlFor="durationDays" className="text-label">
+                  {intl.formatMessage(messages.durationDays)}
+                  <span className="label-tip">
+                    {intl.formatMessage(messages.durationDaysTip)}
+                  </span>
+                </label>
+                <div className="form-input-area">
+                  <div className="flex items-center">
+                    <Field
+                      id="durationDays"
+                      name="durationDays"
+                      type="text"
+                      inputMode="numeric"
+                      className="short"
+                    />
+                    <span className="ml-2 text-gray-300">
+                      {intl.formatMessage(messages.days)}
+                    </span>
+                  </div>
+                  {errors.durationDays && touched.durationDays && (
+                    <div className="error">{errors.durationDays}</div>
+                  )}
+                </div>
+              </div>
+              <div className="form-row">
+                <label htmlFor="maxUses" className="text-label">
+                  {intl.formatMessage(messages.maxUses)}
+                  <span className="label-tip">
+                    {intl.formatMessage(messages.maxUsesTip)}
+                  </span>
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <Field
+                      id="maxUses"
+                      name="maxUses"
+                      type="text"
+                      inputMode="numeric"
+                      className="short"
+                    />
+                  </div>
+                  {errors.maxUses && touched.maxUses && (
+                    <div className="error">{errors.maxUses}</div>
+                  )}
+                </div>
+              </div>
+              <div className="form-row">
+                <label htmlFor="expiresAt" className="text-label">
+                  {intl.formatMessage(messages.expiresAt)}
+                  <span className="label-tip">
+                    {intl.formatMessage(messages.expiresAtTip)}
+                  </span>
+                </label>
+                <div className="form-input-area">
+                  <div className="form-input-field">
+                    <Field id="expiresAt" name="expiresAt" type="date" />
+                  </div>
+                </div>
+              </div>
+            </Modal>
+          );
+        }}
+      </Formik>
+    </Transition>
+  );
+};
+
+export default SubscriptionVoucherModal;
@@ -0,0 +1,242 @@
+import Badge from '@app/components/Common/Badge';
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import Modal from '@app/components/Common/Modal';
+import Table from '@app/components/Common/Table';
+import SubscriptionVoucherModal from '@app/components/Settings/SettingsSubscriptions/SubscriptionVoucherModal';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/solid';
+import type { SubscriptionVoucherResultsResponse } from '@server/interfaces/api/subscriptionInterfaces';
+import Link from 'next/link';
+import { Fragment, useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+
+const messages = defineMessages(
+  'components.Settings.SettingsSubscriptions.SubscriptionVouchers',
+  {
+    vouchers: 'Vouchers',
+    vouchersDescription:
+      'Voucher codes let users activate or extend their own subscription from their profile.',
+    code: 'Code',
+    duration: 'Duration',
+    durationDays: '{days, plural, one {# day} other {# days}}',
+    lifetime: 'Lifetime',
+    uses: 'Uses',
+    usesLimited: '{used} of {max}',
+    usesUnlimited: '{used} of unlimited',
+    validUntil: 'Valid Until',
+    noExpiration: 'No expiration',
+    expired: 'Expired',
+    redeemedBy: 'Redeemed By',
+    noVouchers: 'No vouchers have been created yet.',
+    addVoucher: 'Add Voucher',
+    deleteVoucher: 'Delete Voucher',
+    deleteVoucherConfirm:
+      'Are you sure you want to delete this voucher? Its redemption history will also be deleted.',
+    voucherDeleted: 'Voucher deleted successfully!',
+    voucherDeleteFailed: 'Something went wrong while deleting the voucher.',
+  }
+);
+
+const SubscriptionVouchers = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<SubscriptionVoucherResultsResponse>(
+    '/api/v1/subscription/vouchers'
+  );
+  const [createVoucherModal, setCreateVoucherModal] = useState(false);
+  const [deleteVoucherModal, setDeleteVoucherModal] = useState<{
+    open: boolean;
+    voucherId: number | null;
+  }>({
+    open: false,
+    voucherId: null,
+  });
+
+  const deleteVoucher = async () => {
+    try {
+      const res = await fetch(
+        `/api/v1/subscription/vouchers/${deleteVoucherModal.voucherId}`,
+        {
+          method: 'DELETE',
+        }
+      );
+      if (!res.ok) throw new Error();
+      addToast(intl.formatMessage(messages.voucherDeleted), {
+        appearance: 'success',
+        autoDismiss: true,
+      });
+    } catch (e) {
+      addToast(intl.formatMessage(messages.voucherDeleteFailed), {
+        appearance: 'error',
+        autoDismiss: true,
+      });
+    } finally {
+      setDeleteVoucherModal({ open: false, voucherId: null });
+      revalidate();
+    }
+  };
+
+  return (
+    <>
+      <div className="mt-10 mb-6">
+        <h3 className="heading">{intl.formatMessage(messages.vouchers)}</h3>
+        <p className="description">
+          {intl.formatMessage(messages.vouchersDescription)}
+        </p>
+      </div>
+      {createVoucherModal && (
+        <SubscriptionVoucherModal
+          onClose={() => setCreateVoucherModal(false)}
+          onSave={() => {
+            revalidate();
+            setCreateVoucherModal(false);
+          }}
+        />
+      )}
+      <Transition
+        as={Fragment}
+        show={deleteVoucherModal.open}
+        enter="transition-opacity ease-in-out duration-300"
+        enterFrom="opacity-0"
+        enterTo="opacity-100"
+        leave="transition-opacity ease-in-out duration-300"
+        leaveFrom="opacity-100"
+        leaveTo="opacity-0"
+      >
+        <Modal
+          okText={intl.formatMessage(globalMessages.delete)}
+          okButtonType="danger"
+          onOk={() => deleteVoucher()}
+          onCancel={() =>
+            setDeleteVoucherModal({ open: false, voucherId: null })
+          }
+          title={intl.formatMessage(messages.deleteVoucher)}
+        >
+          {intl.formatMessage(messages.deleteVoucherConfirm)}
+        </Modal>
+      </Transition>
+      <div className="section">
+        {!data && !error && <LoadingSpinner />}
+        {data && !error && (
+          <Table>
+            <thead>
+              <tr>
+                <Table.TH>{intl.formatMessage(messages.code)}</Table.TH>
+                <Table.TH>{intl.formatMessage(messages.duration)}</Table.TH>
+                <Table.TH>{intl.formatMessage(messages.uses)}</Table.TH>
+                <Table.TH>{intl.formatMessage(messages.validUntil)}</Table.TH>
+                <Table.TH>{intl.formatMessage(messages.redeemedBy)}</Table.TH>
+                <Table.TH className="text-right">
+                  <Button
+                    buttonType="ghost"
+                    buttonSize="sm"
+                    onClick={() => setCreateVoucherModal(true)}
+                  >
+                    <PlusIcon />
+                    <span>{intl.formatMessage(messages.addVoucher)}</span>
+                  </Button>
+                </Table.TH>
+              </tr>
+            </thead>
+            <Table.TBody>
+              {data.length === 0 && (
+                <tr>
+                  <Table.TD colSpan={6} alignText="center">
+                    {intl.formatMessage(messages.noVouchers)}
+                  </Table.TD>
+                </tr>
+              )}
+              {data.map((voucher) => (
+                <tr key={`subscription-voucher-${voucher.id}`}>
+                  <Table.TD className="font-mono">{voucher.code}</Table.TD>
+                  <Table.TD>
+                    {voucher.durationDays
+                      ? intl.formatMessage(messages.durationDays, {
+                          days: voucher.durationDays,
+                        })
+                      : intl.formatMessage(messages.lifetime)}
+                  </Table.TD>
+                  <Table.TD>
+                    {voucher.maxUses
+                      ? intl.formatMessage(messages.usesLimited, {
+                          used: voucher.usesCount,
+                          max: voucher.maxUses,
+                        })
+                      : intl.formatMessage(messages.usesUnlimited, {
+                          used: voucher.usesCount,
+                        })}
+                  </Table.TD>
+                  <Table.TD>
+                    {voucher.expiresAt ? (
+                      new Date(voucher.expiresAt) < new Date() ? (
+                        <Badge badgeType="danger">
+                          {intl.formatMessage(messages.expired)}
+                        </Badge>
+                      ) : (
+                        intl.formatDate(voucher.expiresAt, {
+                          year: 'numeric',
+                          month: 'long',
+                          day: 'numeric',
+                        })
+                      )
+                    ) : (
+                      intl.formatMessage(messages.noExpiration)
+                    )}
+                  </Table.TD>
+                  <Table.TD>
+                    {voucher.redemptions.map((redemption) => (
+                      <div
+                        key={`voucher-redemption-${redemption.id}`}
+                        className="whitespace-nowrap"
+                      >
+                        <Link
+                          href={`/users/${redemption.user.id}`}
+                          className="hover:underline"
+                        >
+                          {redemption.user.displayName}
+                        </Link>
+                        <span className="ml-2 text-gray-400">
+                          {intl.formatDate(redemption.createdAt, {
+                            year: 'numeric',
+                            month: 'short',
+                            day: 'numeric',
+                          })}
+                        </span>
+                      </div>
+                    ))}
+                  </Table.TD>
+                  <Table.TD alignText="right">
+                    <Button
+                      buttonType="danger"
+                      buttonSize="sm"
+                      onClick={() =>
+                        setDeleteVoucherModal({
+                          open: true,
+                          voucherId: voucher.id,
+                        })
+                      }
+                    >
+                      <TrashIcon />
+                      <span>{intl.formatMessage(globalMessages.delete)}</span>
+                    </Button>
+                  </Table.TD>
+                </tr>
+              ))}
+            </Table.TBody>
+          </Table>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default SubscriptionVouchers;
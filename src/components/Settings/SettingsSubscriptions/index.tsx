@@ -0,0 +1,468 @@
+import Alert from '@app/components/Common/Alert';
+import Badge from '@app/components/Common/Badge';
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import Modal from '@app/components/Common/Modal';
+import PageTitle from '@app/components/Common/PageTitle';
+import SensitiveInput from '@app/components/Common/SensitiveInput';
+import PolicyTemplates from '@app/components/Settings/SettingsSubscriptions/PolicyTemplates';
+import SubscriptionPlanModal from '@app/components/Settings/SettingsSubscriptions/SubscriptionPlanModal';
+import SubscriptionVouchers from '@app/components/Settings/SettingsSubscriptions/SubscriptionVouchers';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { Transition } from '@headlessui/react';
+import { ArrowDownOnSquareIcon } from '@heroicons/react/24/outline';
+import { PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/solid';
+import type SubscriptionPlan from '@server/entity/SubscriptionPlan';
+import type { SubscriptionPlanResultsResponse } from '@server/interfaces/api/subscriptionInterfaces';
+import type { MainSettings } from '@server/lib/settings';
+import { Field, Form, Formik } from 'formik';
+import { Fragment, useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages('components.Settings.SettingsSubscriptions', {
+  subscriptions: 'Subscriptions',
+  subscriptionSettings: 'Subscription Settings',
+  subscriptionSettingsDescription:
+    'Configure how subscriptions are handled once they are about to expire.',
+  reminderDays: 'Expiry Reminder',
+  reminderDaysTip:
+    'Notify users this many days before their subscription expires, and send administrators a daily list of expiring accounts. Set to 0 to disable reminders.',
+  gracePeriodDays: 'Grace Period',
+  gracePeriodDaysTip:
+    'Users keep their access for this many days after their subscription expires, with a warning to renew. Set to 0 to cut off access as soon as the subscription expires.',
+  days: 'days',
+  webhookSecret: 'Payment Webhook Secret',
+  webhookSecretTip:
+    'Payments posted to /api/v1/subscription/webhook must be signed with an HMAC-SHA256 of the request body using this secret. Leave empty to disable the webhook.',
+  renewalInstructions: 'Renewal Instructions',
+  renewalInstructionsTip:
+    'Shown to users on their subscription page, for example how to pay for a renewal',
+  validationReminderDays: 'You must provide a valid number of days',
+  toastSettingsSuccess: 'Subscription settings saved successfully!',
+  toastSettingsFailure: 'Something went wrong while saving settings.',
+  subscriptionPlans: 'Subscription Plans',
+  subscriptionPlansDescription:
+    'Plans define the permissions, request limits and media server policy applied to subscribed users. The expired profile is applied once a subscription lapses.',
+  noExpiredProfile:
+    'No expired profile is configured. Users whose subscription lapses will lose playback access but keep their current permissions.',
+  duration: 'Duration',
+  durationDays: '{days, plural, one {# day} other {# days}}',
+  neverExpires: 'Never expires',
+  expiredProfile: 'Expired Profile',
+  addPlan: 'Add Subscription Plan',
+  deletePlan: 'Delete Subscription Plan',
+  deletePlanConfirm:
+    'Are you sure you want to delete this plan? Users on this plan will be left without a plan.',
+  planDeleted: 'Subscription plan deleted successfully!',
+  planDeleteFailed:
+    'Something went wrong while deleting the subscription plan.',
+});
+
+interface SubscriptionPlanInstanceProps {
+  plan: SubscriptionPlan;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+const SubscriptionPlanInstance = ({
+  plan,
+  onEdit,
+  onDelete,
+}: SubscriptionPlanInstanceProps) => {
+  const intl = useIntl();
+
+  return (
+    <li className="col-span-1 rounded-lg bg-gray-800 shadow ring-1 ring-gray-500">
+      <div className="flex w-full items-center justify-between space-x-6 p-6">
+        <div className="flex-1 truncate">
+          <div className="mb-2 flex items-center space-x-2">
+            <h3 className="truncate font-medium leading-5 text-white">
+              {plan.name}
+            </h3>
+            {plan.isExpiredProfile && (
+              <Badge badgeType="danger">
+                {intl.formatMessage(messages.expiredProfile)}
+              </Badge>
+            )}
+          </div>
+          {!plan.isExpiredProfile && (
+            <p className="mt-1 truncate text-sm leading-5 text-gray-300">
+              <span className="mr-2 font-bold">
+                {intl.formatMessage(messages.duration)}
+              </span>
+              {plan.durationDays
+                ? intl.formatMessage(messages.durationDays, {
+                    days: plan.durationDays,
+                  })
+                : intl.formatMessage(messages.neverExpires)}
+            </p>
+          )}
+        </div>
+      </div>
+      <div className="border-t border-gray-500">
+        <div className="-mt-px flex">
+          <div className="flex w-0 flex-1 border-r border-gray-500">
+            <button
+              onClick={() => onEdit()}
+              className="focus:ring-blue relative -mr-px inline-flex w-0 flex-1 items-center justify-center rounded-bl-lg border border-transparent py-4 text-sm font-medium leading-5 text-gray-200 transition duration-150 ease-in-out hover:text-white focus:z-10 focus:border-gray-500 focus:outline-none"
+            >
+              <PencilIcon className="mr-2 h-5 w-5" />
+              <span>{intl.formatMessage(globalMessages.edit)}</span>
+            </button>
+          </div>
+          <div className="-ml-px flex w-0 flex-1">
+            <button
+              onClick={() => onDelete()}
+              className="focus:ring-blue relative inline-flex w-0 flex-1 items-center justify-center rounded-br-lg border border-transparent py-4 text-sm font-medium leading-5 text-gray-200 transition duration-150 ease-in-out hover:text-white focus:z-10 focus:border-gray-500 focus:outline-none"
+            >
+              <TrashIcon className="mr-2 h-5 w-5" />
+              <span>{intl.formatMessage(globalMessages.delete)}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+const SettingsSubscriptions = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<SubscriptionPlanResultsResponse>('/api/v1/subscription/plans');
+  const { data: mainSettings, mutate: revalidateMainSettings } =
+    useSWR<MainSettings>('/api/v1/settings/main');
+  const [editPlanModal, setEditPlanModal] = useState<{
+    open: boolean;
+    plan: SubscriptionPlan | null;
+  }>({
+    open: false,
+    plan: null,
+  });
+  const [deletePlanModal, setDeletePlanModal] = useState<{
+    open: boolean;
+    planId: number | null;
+  }>({
+    open: false,
+    planId: null,
+  });
+
+  const SubscriptionSettingsSchema = Yup.object().shape({
+    subscriptionReminderDays: Yup.number()
+      .typeError(intl.formatMessage(messages.validationReminderDays))
+      .integer(intl.formatMessage(messages.validationReminderDays))
+      .min(0, intl.formatMessage(messages.validationReminderDays)),
+    subscriptionGracePeriodDays: Yup.number()
+      .typeError(intl.formatMessage(messages.validationReminderDays))
+      .integer(intl.formatMessage(messages.validationReminderDays))
+      .min(0, intl.formatMessage(messages.validationReminderDays)),
+  });
+
+  const deletePlan = async () => {
+    try {
+      const res = await fetch(
+        `/api/v1/subscription/plans/${deletePlanModal.planId}`,
+        {
+          method: 'DELETE',
+        }
+      );
+      if (!res.ok) throw new Error();
+
+      addToast(intl.formatMessage(messages.planDeleted), {
+        appearance: 'success',
+        autoDismiss: true,
+      });
+    } catch (e) {
+      addToast(intl.formatMessage(messages.planDeleteFailed), {
+        appearance: 'error',
+        autoDismiss: true,
+      });
+    } finally {
+      setDeletePlanModal({ open: false, planId: null });
+      revalidate();
+    }
+  };
+
+  return (
+    <>
+      <PageTitle
+        title={[
+          intl.formatMessage(messages.subscriptions),
+          intl.formatMessage(globalMessages.settings),
+        ]}
+      />
+      <div className="mb-6">
+        <h3 className="heading">
+          {intl.formatMessage(messages.subscriptionSettings)}
+        </h3>
+        <p className="description">
+          {intl.formatMessage(messages.subscriptionSettingsDescription)}
+        </p>
+      </div>
+      <div className="section">
+        {!mainSettings ? (
+          <LoadingSpinner />
+        ) : (
+          <Formik
+            initialValues={{
+              subscriptionReminderDays: mainSettings.subscriptionReminderDays,
+              subscriptionGracePeriodDays:
+                mainSettings.subscriptionGracePeriodDays,
+              subscriptionWebhookSecret: mainSettings.subscriptionWebhookSecret,
+              subscriptionRenewalInstructions:
+                mainSettings.subscriptionRenewalInstructions,
+            }}
+            validationSchema={SubscriptionSettingsSchema}
+            enableReinitialize
+            onSubmit={async (values) => {
+              try {
+                const res = await fetch('/api/v1/settings/main', {
+                  method: 'POST',
+                  headers: {
+                    'Content-Type': 'application/json',
+                  },
+                  body: JSON.stringify({
+                    subscriptionReminderDays: Number(
+                      values.subscriptionReminderDays
+                    ),
+                    subscriptionGracePeriodDays: Number(
+                      values.subscriptionGracePeriodDays
+                    ),
+                    subscriptionWebhookSecret: values.subscriptionWebhookSecret,
+                    subscriptionRenewalInstructions:
+                      values.subscriptionRenewalInstructions,
+                  }),
+                });
+                if (!res.ok) throw new Error();
+
+                addToast(intl.formatMessage(messages.toastSettingsSuccess), {
+                  autoDismiss: true,
+                  appearance: 'success',
+                });
+              } catch (e) {
+                addToast(intl.formatMessage(messages.toastSettingsFailure), {
+                  autoDismiss: true,
+                  appearance: 'error',
+                });
+              } finally {
+                revalidateMainSettings();
+              }
+            }}
+          >
+            {({ errors, touched, isSubmitting, isValid }) => {
+              return (
+                <Form className="section">
+                  <div className="form-row">
+                    <label
+                      htmlFor="subscriptionReminderDays"
+                      className="text-label"
+                    >
+                      {intl.formatMessage(messages.reminderDays)}
+                      <span className="label-tip">
+                        {intl.formatMessage(messages.reminderDaysTip)}
+                      </span>
+                    </label>
+                    <div className="form-input-area">
+                      <div className="flex items-center">
+                        <Field
+                          id="subscriptionReminderDays"
+                          name="subscriptionReminderDays"
+                          type="text"
+                          inputMode="numeric"
+                          className="short"
+                        />
+                        <span className="ml-2 text-gray-300">
+                          {intl.formatMessage(messages.days)}
+                        </span>
+                      </div>
+                      {errors.subscriptionReminderDays &&
+                        touched.subscriptionReminderDays && (
+                          <div className="error">
+                            {errors.subscriptionReminderDays}
+                          </div>
+                        )}
+                    </div>
+                  </div>
+                  <div className="form-row">
+                    <label
+                      htmlFor="subscriptionGracePeriodDays"
+                      className="text-label"
+                    >
+                      {intl.formatMessage(messages.gracePeriodDays)}
+                      <span className="label-tip">
+                        {intl.formatMessage(messages.gracePeriodDaysTip)}
+                      </span>
+                    </label>
+                    <div className="form-input-area">
+                      <div className="flex items-center">
+                        <Field
+                          id="subscriptionGracePeriodDays"
+                          name="subscriptionGracePeriodDays"
+                          type="text"
+                          inputMode="numeric"
+                          className="short"
+                        />
+                        <span className="ml-2 text-gray-300">
+                          {intl.formatMessage(messages.days)}
+                        </span>
+                      </div>
+                      {errors.subscriptionGracePeriodDays &&
+                        touched.subscriptionGracePeriodDays && (
+                          <div className="error">
+                            {errors.subscriptionGracePeriodDays}
+                          </div>
+                        )}
+                    </div>
+                  </div>
+                  <div className="form-row">
+                    <label
+                      htmlFor="subscriptionWebhookSecret"
+                      className="text-label"
+                    >
+                      {intl.formatMessage(messages.webhookSecret)}
+                      <span className="label-tip">
+                        {intl.formatMessage(messages.webhookSecretTip)}
+                      </span>
+                    </label>
+                    <div className="form-input-area">
+                      <div className="form-input-field">
+                        <SensitiveInput
+                          as="field"
+                          id="subscriptionWebhookSecret"
+                          name="subscriptionWebhookSecret"
+                          autoComplete="one-time-code"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                  <div className="form-row">
+                    <label
+                      htmlFor="subscriptionRenewalInstructions"
+                      className="text-label"
+                    >
+                      {intl.formatMessage(messages.renewalInstructions)}
+                      <span className="label-tip">
+                        {intl.formatMessage(messages.renewalInstructionsTip)}
+                      </span>
+                    </label>
+                    <div className="form-input-area">
+                      <div className="form-input-field">
+                        <Field
+                          as="textarea"
+                          id="subscriptionRenewalInstructions"
+                          name="subscriptionRenewalInstructions"
+                          rows={4}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                  <div className="actions">
+                    <div className="flex justify-end">
+                      <span className="ml-3 inline-flex rounded-md shadow-sm">
+                        <Button
+                          buttonType="primary"
+                          type="submit"
+                          disabled={isSubmitting || !isValid}
+                        >
+                          <ArrowDownOnSquareIcon />
+                          <span>
+                            {isSubmitting
+                              ? intl.formatMessage(globalMessages.saving)
+                              : intl.formatMessage(globalMessages.save)}
+                          </span>
+                        </Button>
+                      </span>
+                    </div>
+                  </div>
+                </Form>
+              );
+            }}
+          </Formik>
+        )}
+      </div>
+      <div className="mt-10 mb-6">
+        <h3 className="heading">
+          {intl.formatMessage(messages.subscriptionPlans)}
+        </h3>
+        <p className="description">
+          {intl.formatMessage(messages.subscriptionPlansDescription)}
+        </p>
+      </div>
+      {editPlanModal.open && (
+        <SubscriptionPlanModal
+          plan={editPlanModal.plan}
+          onClose={() => setEditPlanModal({ open: false, plan: null })}
+          onSave={() => {
+            revalidate();
+            setEditPlanModal({ open: false, plan: null });
+          }}
+        />
+      )}
+      <Transition
+        as={Fragment}
+        show={deletePlanModal.open}
+        enter="transition-opacity ease-in-out duration-300"
+        enterFrom="opacity-0"
+        enterTo="opacity-100"
+        leave="transition-opacity ease-in-out duration-300"
+        leaveFrom="opacity-100"
+        leaveTo="opacity-0"
+      >
+        <Modal
+          okText={intl.formatMessage(globalMessages.delete)}
+          okButtonType="danger"
+          onOk={() => deletePlan()}
+          onCancel={() => setDeletePlanModal({ open: false, planId: null })}
+          title={intl.formatMessage(messages.deletePlan)}
+        >
+          {intl.formatMessage(messages.deletePlanConfirm)}
+        </Modal>
+      </Transition>
+      <div className="section">
+        {!data && !error && <LoadingSpinner />}
+        {data && !error && (
+          <>
+            {!data.some((plan) => plan.isExpiredProfile) && (
+              <Alert title={intl.formatMessage(messages.noExpiredProfile)} />
+            )}
+            <ul className="grid max-w-6xl grid-cols-1 gap-6 lg:grid-cols-2 xl:grid-cols-3">
+              {data.map((plan) => (
+                <SubscriptionPlanInstance
+                  key={`subscription-plan-${plan.id}`}
+                  plan={plan}
+                  onEdit={() => setEditPlanModal({ open: true, plan })}
+                  onDelete={() =>
+                    setDeletePlanModal({ open: true, planId: plan.id })
+                  }
+                />
+              ))}
+              <li className="col-span-1 h-32 rounded-lg border-2 border-dashed border-gray-400 shadow sm:h-44">
+                <div className="flex h-full w-full items-center justify-center">
+                  <Button
+                    buttonType="ghost"
+                    className="mt-3 mb-3"
+                    onClick={() => setEditPlanModal({ open: true, plan: null })}
+                  >
+                    <PlusIcon />
+                    <span>{intl.formatMessage(messages.addPlan)}</span>
+                  </Button>
+                </div>
+              </li>
+            </ul>
+          </>
+        )}
+      </div>
+      <PolicyTemplates />
+      <SubscriptionVouchers />
+    </>
+  );
+};
+
+export default SettingsSubscriptions;
@@ -13,6 +13,7 @@ import { Field, Form, Formik } from 'formik';
 import { useIntl } from 'react-intl';
 import { useToasts } from 'react-toast-notifications';
 import useSWR, { mutate } from 'swr';
+import * as Yup from 'yup';
 
 const messages = defineMessages('components.Settings.SettingsUsers', {
   users: 'Users',
@@ -30,6 +31,39 @@ const messages = defineMessages('components.Settings.SettingsUsers', {
   tvRequestLimitLabel: 'Global Series Request Limit',
   defaultPermissions: 'Default Permissions',
   defaultPermissionsTip: 'Initial permissions assigned to new users',
+  accountSharing: 'Account Sharing Detection',
+  accountSharingDescription:
+    'Flag users who stream from more addresses or devices at once than allowed. Each incident increments their suspicious activity count.',
+  accountSharingMaxAddresses: 'Maximum Concurrent Addresses',
+  accountSharingMaxAddressesTip:
+    'Flag users streaming from more IP addresses than this at the same time. Set to 0 to disable.',
+  accountSharingMaxDevices: 'Maximum Concurrent Devices',
+  accountSharingMaxDevicesTip:
+    'Flag users streaming on more devices than this at the same time. Set to 0 to disable.',
+  accountSharingThreshold: 'Suspicious Activity Threshold',
+  accountSharingThresholdTip:
+    'Take action once a user has been flagged this many times. Set to 0 to only record incidents.',
+  accountSharingNotifyAdmins: 'Notify Administrators',
+  accountSharingNotifyAdminsTip:
+    'Send a notification when a user crosses the threshold',
+  accountSharingDisablePlayback: 'Disable Playback',
+  accountSharingDisablePlaybackTip:
+    'Disable {mediaServerName} playback for users who cross the threshold',
+  sessionLimitWatchdog: 'Enforce Stream Limits',
+  sessionLimitWatchdogTip:
+    'Stop the newest streams of users running more streams than their limit allows, for {mediaServerName} servers that do not enforce it themselves',
+  jellyfinUserSync: 'User Sync',
+  jellyfinUserSyncDescription:
+    'A scheduled job keeps users in line with {mediaServerName}, picking up renamed accounts and avatars.',
+  jellyfinUserSyncImportUsers: 'Import New Users',
+  jellyfinUserSyncImportUsersTip:
+    'Create users for {mediaServerName} accounts that have not signed in yet',
+  jellyfinUserSyncDeletedUsers: 'Deleted Users',
+  jellyfinUserSyncDeletedUsersTip:
+    'What to do with users whose {mediaServerName} account was deleted. Administrators are never deleted.',
+  jellyfinUserSyncOrphan: 'Mark as orphaned',
+  jellyfinUserSyncDelete: 'Delete the user',
+  validationNumber: 'You must provide a valid number',
 });
 
 const SettingsUsers = () => {
@@ -46,6 +80,25 @@ const SettingsUsers = () => {
     return <LoadingSpinner />;
   }
 
+  const isJellyfinOrEmby =
+    settings.currentSettings.mediaServerType === MediaServerType.JELLYFIN ||
+    settings.currentSettings.mediaServerType === MediaServerType.EMBY;
+
+  const UserSettingsSchema = Yup.object().shape({
+    accountSharingMaxAddresses: Yup.number()
+      .typeError(intl.formatMessage(messages.validationNumber))
+      .integer(intl.formatMessage(messages.validationNumber))
+      .min(0, intl.formatMessage(messages.validationNumber)),
+    accountSharingMaxDevices: Yup.number()
+      .typeError(intl.formatMessage(messages.validationNumber))
+      .integer(intl.formatMessage(messages.validationNumber))
+      .min(0, intl.formatMessage(messages.validationNumber)),
+    accountSharingThreshold: Yup.number()
+      .typeError(intl.formatMessage(messages.validationNumber))
+      .integer(intl.formatMessage(messages.validationNumber))
+      .min(0, intl.formatMessage(messages.validationNumber)),
+  });
+
   const mediaServerFormatValues = {
     mediaServerName:
       settings.currentSettings.mediaServerType === MediaServerType.JELLYFIN
@@ -79,7 +132,17 @@ const SettingsUsers = () => {
             tvQuotaLimit: data?.defaultQuotas.tv.quotaLimit ?? 0,
             tvQuotaDays: data?.defaultQuotas.tv.quotaDays ?? 7,
             defaultPermissions: data?.defaultPermissions ?? 0,
+            accountSharingMaxAddresses: data?.accountSharingMaxAddresses ?? 0,
+            accountSharingMaxDevices: data?.accountSharingMaxDevices ?? 0,
+            accountSharingThreshold: data?.accountSharingThreshold ?? 0,
+            accountSharingNotifyAdmins: data?.accountSharingNotifyAdmins,
+            accountSharingDisablePlayback: data?.accountSharingDisablePlayback,
+            sessionLimitWatchdog: data?.sessionLimitWatchdog,
+            jellyfinUserSyncImportUsers: data?.jellyfinUserSyncImportUsers,
+            jellyfinUserSyncDeletedUsers:
+              data?.jellyfinUserSyncDeletedUsers ?? 'orphan',
           }}
+          validationSchema={UserSettingsSchema}
           enableReinitialize
           onSubmit={async (values) => {
             try {
@@ -102,6 +165,23 @@ const SettingsUsers = () => {
                     },
                   },
                   defaultPermissions: values.defaultPermissions,
+                  accountSharingMaxAddresses: Number(
+                    values.accountSharingMaxAddresses
+                  ),
+                  accountSharingMaxDevices: Number(
+                    values.accountSharingMaxDevices
+                  ),
+                  accountSharingThreshold: Number(
+                    values.accountSharingThreshold
+                  ),
+                  accountSharingNotifyAdmins: values.accountSharingNotifyAdmins,
+                  accountSharingDisablePlayback:
+                    values.accountSharingDisablePlayback,
+                  sessionLimitWatchdog: values.sessionLimitWatchdog,
+                  jellyfinUserSyncImportUsers:
+                    values.jellyfinUserSyncImportUsers,
+                  jellyfinUserSyncDeletedUsers:
+                    values.jellyfinUserSyncDeletedUsers,
                 }),
               });
               if (!res.ok) throw new Error();
@@ -121,7 +201,14 @@ const SettingsUsers = () => {
             }
           }}
         >
-          {({ isSubmitting, values, setFieldValue }) => {
+          {({
+            errors,
+            touched,
+            isSubmitting,
+            isValid,
+            values,
+            setFieldValue,
+          }) => {
             return (
               <Form className="section">
                 <div className="form-row">
@@ -223,13 +310,277 @@ const SettingsUsers = () => {
                     </div>
                   </div>
                 </div>
+                {isJellyfinOrEmby && (
+                  <div className="form-row">
+                    <label
+                      htmlFor="sessionLimitWatchdog"
+                      className="checkbox-label"
+                    >
+                      {intl.formatMessage(messages.sessionLimitWatchdog)}
+                      <span className="label-tip">
+                        {intl.formatMessage(
+                          messages.sessionLimitWatchdogTip,
+                          mediaServerFormatValues
+                        )}
+                      </span>
+                    </label>
+                    <div className="form-input-area">
+                      <Field
+                        type="checkbox"
+                        id="sessionLimitWatchdog"
+                        name="sessionLimitWatchdog"
+                        onChange={() => {
+                          setFieldValue(
+                            'sessionLimitWatchdog',
+                            !values.sessionLimitWatchdog
+                          );
+                        }}
+                      />
+                    </div>
+                  </div>
+                )}
+                {isJellyfinOrEmby && (
+                  <>
+                    <div className="mt-10 mb-6">
+                      <h3 className="heading">
+                        {intl.formatMessage(messages.jellyfinUserSync)}
+                      </h3>
+                      <p className="description">
+                        {intl.formatMessage(
+                          messages.jellyfinUserSyncDescription,
+                          mediaServerFormatValues
+                        )}
+                      </p>
+                    </div>
+                    <div className="form-row">
+                      <label
+                        htmlFor="jellyfinUserSyncImportUsers"
+                        className="checkbox-label"
+                      >
+                        {intl.formatMessage(
+                          messages.jellyfinUserSyncImportUsers
+                        )}
+                        <span className="label-tip">
+                          {intl.formatMessage(
+                            messages.jellyfinUserSyncImportUsersTip,
+                            mediaServerFormatValues
+                          )}
+                        </span>
+                      </label>
+                      <div className="form-input-area">
+                        <Field
+                          type="checkbox"
+                          id="jellyfinUserSyncImportUsers"
+                          name="jellyfinUserSyncImportUsers"
+                          onChange={() => {
+                            setFieldValue(
+                              'jellyfinUserSyncImportUsers',
+                              !values.jellyfinUserSyncImportUsers
+                            );
+                          }}
+                        />
+                      </div>
+                    </div>
+                    <div className="form-row">
+                      <label
+                        htmlFor="jellyfinUserSyncDeletedUsers"
+                        className="text-label"
+                      >
+                        {intl.formatMessage(
+                          messages.jellyfinUserSyncDeletedUsers
+                        )}
+                        <span className="label-tip">
+                          {intl.formatMessage(
+                            messages.jellyfinUserSyncDeletedUsersTip,
+                            mediaServerFormatValues
+                          )}
+                        </span>
+                      </label>
+                      <div className="form-input-area">
+                        <div className="form-input-field">
+                          <Field
+                            as="select"
+                            id="jellyfinUserSyncDeletedUsers"
+                            name="jellyfinUserSyncDeletedUsers"
+                          >
+                            <option value="orphan">
+                              {intl.formatMessage(
+                                messages.jellyfinUserSyncOrphan
+                              )}
+                            </option>
+                            <option value="delete">
+                              {intl.formatMessage(
+                                messages.jellyfinUserSyncDelete
+                              )}
+                            </option>
+                          </Field>
+                        </div>
+                      </div>
+                    </div>
+                  </>
+                )}
+                {isJellyfinOrEmby && (
+                  <>
+                    <div className="mt-10 mb-6">
+                      <h3 className="heading">
+                        {intl.formatMessage(messages.accountSharing)}
+                      </h3>
+                      <p className="description">
+                        {intl.formatMessage(messages.accountSharingDescription)}
+                      </p>
+                    </div>
+                    <div className="form-row">
+                      <label
+                        htmlFor="accountSharingMaxAddresses"
+                        className="text-label"
+                      >
+                        {intl.formatMessage(
+                          messages.accountSharingMaxAddresses
+                        )}
+                        <span className="label-tip">
+                          {intl.formatMessage(
+                            messages.accountSharingMaxAddressesTip
+                          )}
+                        </span>
+                      </label>
+                      <div className="form-input-area">
+                        <Field
+                          id="accountSharingMaxAddresses"
+                          name="accountSharingMaxAddresses"
+                          type="text"
+                          inputMode="numeric"
+                          className="short"
+                        />
+                        {errors.accountSharingMaxAddresses &&
+                          touched.accountSharingMaxAddresses && (
+                            <div className="error">
+                              {errors.accountSharingMaxAddresses}
+                            </div>
+                          )}
+                      </div>
+                    </div>
+                    <div className="form-row">
+                      <label
+                        htmlFor="accountSharingMaxDevices"
+                        className="text-label"
+                      >
+                        {intl.formatMessage(messages.accountSharingMaxDevices)}
+                        <span className="label-tip">
+                          {intl.formatMessage(
+                            messages.accountSharingMaxDevicesTip
+                          )}
+                        </span>
+                      </label>
+                      <div className="form-input-area">
+                        <Field
+                          id="accountSharingMaxDevices"
+                          name="accountSharingMaxDevices"
+                          type="text"
+                          inputMode="numeric"
+                          className="short"
+                        />
+                        {errors.accountSharingMaxDevices &&
+                          touched.accountSharingMaxDevices && (
+                            <div className="error">
+                              {errors.accountSharingMaxDevices}
+                            </div>
+                          )}
+                      </div>
+                    </div>
+                    <div className="form-row">
+                      <label
+                        htmlFor="accountSharingThreshold"
+                        className="text-label"
+                      >
+                        {intl.formatMessage(messages.accountSharingThreshold)}
+                        <span className="label-tip">
+                          {intl.formatMessage(
+                            messages.accountSharingThresholdTip
+                          )}
+                        </span>
+                      </label>
+                      <div className="form-input-area">
+                        <Field
+                          id="accountSharingThreshold"
+                          name="accountSharingThreshold"
+                          type="text"
+                          inputMode="numeric"
+                          className="short"
+                        />
+                        {errors.accountSharingThreshold &&
+                          touched.accountSharingThreshold && (
+                            <div className="error">
+                              {errors.accountSharingThreshold}
+                            </div>
+                          )}
+                      </div>
+                    </div>
+                    <div className="form-row">
+                      <label
+                        htmlFor="accountSharingNotifyAdmins"
+                        className="checkbox-label"
+                      >
+                        {intl.formatMessage(
+                          messages.accountSharingNotifyAdmins
+                        )}
+                        <span className="label-tip">
+                          {intl.formatMessage(
+                            messages.accountSharingNotifyAdminsTip
+                          )}
+                        </span>
+                      </label>
+                      <div className="form-input-area">
+                        <Field
+                          type="checkbox"
+                          id="accountSharingNotifyAdmins"
+                          name="accountSharingNotifyAdmins"
+                          onChange={() => {
+                            setFieldValue(
+                              'accountSharingNotifyAdmins',
+                              !values.accountSharingNotifyAdmins
+                            );
+                          }}
+                        />
+                      </div>
+                    </div>
+                    <div className="form-row">
+                      <label
+                        htmlFor="accountSharingDisablePlayback"
+                        className="checkbox-label"
+                      >
+                        {intl.formatMessage(
+                          messages.accountSharingDisablePlayback
+                        )}
+                        <span className="label-tip">
+                          {intl.formatMessage(
+                            messages.accountSharingDisablePlaybackTip,
+                            mediaServerFormatValues
+                          )}
+                        </span>
+                      </label>
+                      <div className="form-input-area">
+                        <Field
+                          type="checkbox"
+                          id="accountSharingDisablePlayback"
+                          name="accountSharingDisablePlayback"
+                          onChange={() => {
+                            setFieldValue(
+                              'accountSharingDisablePlayback',
+                              !values.accountSharingDisablePlayback
+                            );
+                          }}
+                        />
+                      </div>
+                    </div>
+                  </>
+                )}
                 <div className="actions">
                   <div className="flex justify-end">
                     <span className="ml-3 inline-flex rounded-md shadow-sm">
                       <Button
                         buttonType="primary"
                         type="submit"
-                        disabled={isSubmitting}
+                        disabled={isSubmitting || !isValid}
                       >
                         <ArrowDownOnSquareIcon />
                         <span>
@@ -1,6 +1,10 @@
 import AirDateBadge from '@app/components/AirDateBadge';
+import Badge from '@app/components/Common/Badge';
 import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import globalMessages from '@app/i18n/globalMessages';
 import defineMessages from '@app/utils/defineMessages';
+import { MediaStatus } from '@server/constants/media';
+import type MediaSeason from '@server/entity/Season';
 import type { SeasonWithEpisodes } from '@server/models/Tv';
 import Image from 'next/image';
 import { useIntl } from 'react-intl';
@@ -9,14 +13,24 @@ import useSWR from 'swr';
 const messages = defineMessages('components.TvDetails.Season', {
   somethingwentwrong: 'Something went wrong while retrieving season data.',
   noepisodes: 'Episode list unavailable.',
+  available4k: '4K Available',
 });
 
 type SeasonProps = {
   seasonNumber: number;
   tvId: number;
+  mediaSeason?: MediaSeason;
+  requestedEpisodes?: number[];
+  show4k?: boolean;
 };
 
-const Season = ({ seasonNumber, tvId }: SeasonProps) => {
+const Season = ({
+  seasonNumber,
+  tvId,
+  mediaSeason,
+  requestedEpisodes = [],
+  show4k = false,
+}: SeasonProps) => {
   const intl = useIntl();
   const { data, error } = useSWR<SeasonWithEpisodes>(
     `/api/v1/tv/${tvId}/season/${seasonNumber}`
@@ -39,6 +53,18 @@ const Season = ({ seasonNumber, tvId }: SeasonProps) => {
           .slice()
           .reverse()
           .map((episode) => {
+            // Fully available seasons are already marked as such on the season itself
+            const mediaEpisode = mediaSeason?.episodes?.find(
+              (e) => e.episodeNumber === episode.episodeNumber
+            );
+            const isAvailable =
+              mediaSeason?.status !== MediaStatus.AVAILABLE &&
+              mediaEpisode?.status === MediaStatus.AVAILABLE;
+            const isAvailable4k =
+              show4k &&
+              mediaSeason?.status4k !== MediaStatus.AVAILABLE &&
+              mediaEpisode?.status4k === MediaStatus.AVAILABLE;
+
             return (
               <div
                 className="flex flex-col space-y-4 py-4 xl:flex-row xl:space-y-4 xl:space-x-4"
@@ -52,6 +78,22 @@ const Season = ({ seasonNumber, tvId }: SeasonProps) => {
                     {episode.airDate && (
                       <AirDateBadge airDate={episode.airDate} />
                     )}
+                    {isAvailable && (
+                      <Badge badgeType="success">
+                        {intl.formatMessage(globalMessages.available)}
+                      </Badge>
+                    )}
+                    {isAvailable4k && (
+                      <Badge badgeType="success">
+                        {intl.formatMessage(messages.available4k)}
+                      </Badge>
+                    )}
+                    {!isAvailable &&
+                      requestedEpisodes.includes(episode.episodeNumber) && (
+                        <Badge badgeType="primary">
+                          {intl.formatMessage(globalMessages.requested)}
+                        </Badge>
+                      )}
                   </div>
                   {episode.overview && <p>{episode.overview}</p>}
                 </div>
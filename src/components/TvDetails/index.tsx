@@ -282,16 +282,20 @@ const TvDetails = ({ tv }: TvDetailsProps) => {
       .reduce((requestedSeasons, request) => {
         return [
           ...requestedSeasons,
-          ...request.seasons.map((sr) => sr.seasonNumber),
+          ...request.seasons
+            .filter((sr) => !sr.episodes?.length)
+            .map((sr) => sr.seasonNumber),
         ];
       }, [] as number[]);
 
+    // Missing episodes of partially available seasons can still be requested
     const availableSeasons = (data?.mediaInfo?.seasons ?? [])
       .filter(
         (season) =>
           (season[is4k ? 'status4k' : 'status'] === MediaStatus.AVAILABLE ||
-            season[is4k ? 'status4k' : 'status'] ===
-              MediaStatus.PARTIALLY_AVAILABLE ||
+            (season[is4k ? 'status4k' : 'status'] ===
+              MediaStatus.PARTIALLY_AVAILABLE &&
+              !settings.currentSettings.partialRequestsEnabled) ||
             season[is4k ? 'status4k' : 'status'] === MediaStatus.PROCESSING) &&
           !requestedSeasons.includes(season.seasonNumber)
       )
@@ -829,18 +833,42 @@ const TvDetails = ({ tv }: TvDetailsProps) => {
                     season.seasonNumber === s.seasonNumber &&
                     s.status4k !== MediaStatus.UNKNOWN
                 );
+                // Requests for single episodes are shown per episode instead
                 const request = (data.mediaInfo?.requests ?? []).find(
                   (r) =>
                     !!r.seasons.find(
-                      (s) => s.seasonNumber === season.seasonNumber
+                      (s) =>
+                        s.seasonNumber === season.seasonNumber &&
+                        !s.episodes?.length
                     ) && !r.is4k
                 );
                 const request4k = (data.mediaInfo?.requests ?? []).find(
                   (r) =>
                     !!r.seasons.find(
-                      (s) => s.seasonNumber === season.seasonNumber
+                      (s) =>
+                        s.seasonNumber === season.seasonNumber &&
+                        !s.episodes?.length
                     ) && r.is4k
                 );
+                const requestedEpisodes = (data.mediaInfo?.requests ?? [])
+                  .filter(
+                    (r) => !r.is4k && r.status !== MediaRequestStatus.DECLINED
+                  )
+                  .reduce(
+                    (episodes, r) => [
+                      ...episodes,
+                      ...r.seasons
+                        .filter((s) => s.seasonNumber === season.seasonNumber)
+                        .reduce(
+                          (seasonEpisodes, s) => [
+                            ...seasonEpisodes,
+                            ...(s.episodes ?? []).map((e) => e.episodeNumber),
+                          ],
+                          [] as number[]
+                        ),
+                    ],
+                    [] as number[]
+                  );
 
                 if (season.episodeCount === 0) {
                   return null;
@@ -1039,6 +1067,11 @@ const TvDetails = ({ tv }: TvDetailsProps) => {
                             <Season
                               tvId={data.id}
                               seasonNumber={season.seasonNumber}
+                              mediaSeason={(data.mediaInfo?.seasons ?? []).find(
+                                (s) => s.seasonNumber === season.seasonNumber
+                              )}
+                              requestedEpisodes={requestedEpisodes}
+                              show4k={show4k}
                             />
                           </Disclosure.Panel>
                         </Transition>
@@ -0,0 +1,143 @@
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import Modal from '@app/components/Common/Modal';
+import LibraryAccessEdit from '@app/components/LibraryAccessEdit';
+import type { User } from '@app/hooks/useUser';
+import defineMessages from '@app/utils/defineMessages';
+import type {
+  JellyfinLibraryAccess,
+  JellyfinLibraryAccessBulkResponse,
+  JellyfinLibraryResultsResponse,
+} from '@server/interfaces/api/jellyfinInterfaces';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+
+interface BulkLibraryAccessProps {
+  selectedUserIds: number[];
+  users?: User[];
+  onCancel?: () => void;
+  onComplete?: () => void;
+}
+
+const messages = defineMessages('components.UserList.BulkLibraryAccessModal', {
+  managelibraryaccess: 'Manage Library Access',
+  apply: 'Apply',
+  applying: 'Applying…',
+  accessupdated:
+    'Library access updated successfully for {count, plural, one {# user} other {# users}}!',
+  accessfailed:
+    'Failed to update library access for {count, plural, one {# user} other {# users}}: {users}',
+  accessfailure: 'Something went wrong while updating library access.',
+});
+
+const BulkLibraryAccessModal = ({
+  selectedUserIds,
+  users,
+  onCancel,
+  onComplete,
+}: BulkLibraryAccessProps) => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const { data: libraries } = useSWR<JellyfinLibraryResultsResponse>(
+    '/api/v1/user/libraries'
+  );
+  const [access, setAccess] = useState<JellyfinLibraryAccess>({
+    enableAllFolders: true,
+    enabledFolders: [],
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateLibraryAccess = async () => {
+    try {
+      setIsSaving(true);
+      const res = await fetch('/api/v1/user/libraries', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ids: selectedUserIds,
+          ...access,
+        }),
+      });
+      if (!res.ok) throw new Error();
+      const { results }: JellyfinLibraryAccessBulkResponse = await res.json();
+
+      const succeeded = results.filter((result) => result.success);
+      const failed = results.filter((result) => !result.success);
+
+      if (succeeded.length > 0) {
+        addToast(
+          intl.formatMessage(messages.accessupdated, {
+            count: succeeded.length,
+          }),
+          {
+            appearance: 'success',
+            autoDismiss: true,
+          }
+        );
+      }
+
+      if (failed.length > 0) {
+        addToast(
+          intl.formatMessage(messages.accessfailed, {
+            count: failed.length,
+            users: failed
+              .map(
+                (result) =>
+                  `${
+                    users?.find((u) => u.id === result.userId)?.displayName ??
+                    result.userId
+                  } (${result.message})`
+              )
+              .join(', '),
+          }),
+          {
+            appearance: 'error',
+            autoDismiss: false,
+          }
+        );
+      }
+
+      if (onComplete) {
+        onComplete();
+      }
+    } catch (e) {
+      addToast(intl.formatMessage(messages.accessfailure), {
+        appearance: 'error',
+        autoDismiss: true,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      title={intl.formatMessage(messages.managelibraryaccess)}
+      onOk={() => {
+        updateLibraryAccess();
+      }}
+      okDisabled={isSaving || !libraries}
+      okText={
+        isSaving
+          ? intl.formatMessage(messages.applying)
+          : intl.formatMessage(messages.apply)
+      }
+      onCancel={onCancel}
+    >
+      {!libraries ? (
+        <LoadingSpinner />
+      ) : (
+        <LibraryAccessEdit
+          libraries={libraries}
+          access={access}
+          onUpdate={setAccess}
+        />
+      )}
+    </Modal>
+  );
+};
+
+export default BulkLibraryAccessModal;
@@ -0,0 +1,237 @@
+import Modal from '@app/components/Common/Modal';
+import type { User } from '@app/hooks/useUser';
+import defineMessages from '@app/utils/defineMessages';
+import type {
+  SubscriptionBulkAction,
+  SubscriptionBulkResponse,
+} from '@server/interfaces/api/subscriptionInterfaces';
+import { useState } from 'react';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+
+interface BulkSubscriptionProps {
+  selectedUserIds: number[];
+  users?: User[];
+  onCancel?: () => void;
+  onComplete?: () => void;
+}
+
+const messages = defineMessages('components.UserList.BulkSubscriptionModal', {
+  managesubscriptions: 'Manage Subscriptions',
+  action: 'Action',
+  actionExtend: 'Extend by a number of days',
+  actionSetExpiry: 'Set expiration date',
+  actionLifetime: 'Convert to lifetime',
+  actionExpire: 'Expire now',
+  days: 'Days',
+  expirationDate: 'Expiration Date',
+  note: 'Note',
+  notetip: 'Saved to the subscription history of each user',
+  apply: 'Apply',
+  applying: 'Applying…',
+  subscriptionsupdated:
+    '{count, plural, one {# subscription} other {# subscriptions}} updated successfully!',
+  subscriptionsfailed:
+    'Failed to update {count, plural, one {# subscription} other {# subscriptions}}: {users}',
+  subscriptionsfailure: 'Something went wrong while updating subscriptions.',
+});
+
+const BulkSubscriptionModal = ({
+  selectedUserIds,
+  users,
+  onCancel,
+  onComplete,
+}: BulkSubscriptionProps) => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const [action, setAction] = useState<SubscriptionBulkAction>('extend');
+  const [days, setDays] = useState('30');
+  const [expirationDate, setExpirationDate] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isValid =
+    action === 'extend'
+      ? Number.isInteger(Number(days)) && Number(days) > 0
+      : action === 'set_expiry'
+      ? !!expirationDate
+      : true;
+
+  const updateSubscriptions = async () => {
+    try {
+      setIsSaving(true);
+      const res = await fetch('/api/v1/user/subscription', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ids: selectedUserIds,
+          action,
+          days: action === 'extend' ? Number(days) : undefined,
+          expirationDate:
+            action === 'set_expiry'
+              ? new Date(expirationDate).toISOString()
+              : undefined,
+          note: note || undefined,
+        }),
+      });
+      if (!res.ok) throw new Error();
+      const { results }: SubscriptionBulkResponse = await res.json();
+
+      const succeeded = results.filter((result) => result.success);
+      const failed = results.filter((result) => !result.success);
+
+      if (succeeded.length > 0) {
+        addToast(
+          intl.formatMessage(messages.subscriptionsupdated, {
+            count: succeeded.length,
+          }),
+          {
+            appearance: 'success',
+            autoDismiss: true,
+          }
+        );
+      }
+
+      if (failed.length > 0) {
+        addToast(
+          intl.formatMessage(messages.subscriptionsfailed, {
+            count: failed.length,
+            users: failed
+              .map(
+                (result) =>
+                  `${
+                    users?.find((u) => u.id === result.userId)?.displayName ??
+                    result.userId
+                  } (${result.message})`
+              )
+              .join(', '),
+          }),
+          {
+            appearance: 'error',
+            autoDismiss: false,
+          }
+        );
+      }
+
+      if (onComplete) {
+        onComplete();
+      }
+    } catch (e) {
+      addToast(intl.formatMessage(messages.subscriptionsfailure), {
+        appearance: 'error',
+        autoDismiss: true,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      title={intl.formatMessage(messages.managesubscriptions)}
+      onOk={() => {
+        updateSubscriptions();
+      }}
+      okDisabled={isSaving || !isValid}
+      okText={
+        isSaving
+          ? intl.formatMessage(messages.applying)
+          : intl.formatMessage(messages.apply)
+      }
+      okButtonType={action === 'expire' ? 'danger' : 'primary'}
+      onCancel={onCancel}
+    >
+      <div className="form-row">
+        <label htmlFor="subscriptionAction" className="text-label">
+          {intl.formatMessage(messages.action)}
+        </label>
+        <div className="form-input-area">
+          <div className="form-input-field">
+            <select
+              id="subscriptionAction"
+              name="subscriptionAction"
+              value={action}
+              onChange={(e) =>
+                setAction(e.target.value as SubscriptionBulkAction)
+              }
+            >
+              <option value="extend">
+                {intl.formatMessage(messages.actionExtend)}
+              </option>
+              <option value="set_expiry">
+                {intl.formatMessage(messages.actionSetExpiry)}
+              </option>
+              <option value="lifetime">
+                {intl.formatMessage(messages.actionLifetime)}
+              </option>
+              <option value="expire">
+                {intl.formatMessage(messages.actionExpire)}
+              </option>
+            </select>
+          </div>
+        </div>
+      </div>
+      {action === 'extend' && (
+        <div className="form-row">
+          <label htmlFor="subscriptionDays" className="text-label">
+            {intl.formatMessage(messages.days)}
+          </label>
+          <div className="form-input-area">
+            <div className="form-input-field">
+              <input
+                id="subscriptionDays"
+                name="subscriptionDays"
+                type="text"
+                inputMode="numeric"
+                className="short"
+                value={days}
+                onChange={(e) => setDays(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+      {action === 'set_expiry' && (
+        <div className="form-row">
+          <label htmlFor="subscriptionExpirationDate" className="text-label">
+            {intl.formatMessage(messages.expirationDate)}
+          </label>
+          <div className="form-input-area">
+            <div className="form-input-field">
+              <input
+                id="subscriptionExpirationDate"
+                name="subscriptionExpirationDate"
+                type="date"
+                value={expirationDate}
+                onChange={(e) => setExpirationDate(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+      <div className="form-row">
+        <label htmlFor="subscriptionNote" className="text-label">
+          {intl.formatMessage(messages.note)}
+          <span className="label-tip">
+            {intl.formatMessage(messages.notetip)}
+          </span>
+        </label>
+        <div className="form-input-area">
+          <div className="form-input-field">
+            <input
+              id="subscriptionNote"
+              name="subscriptionNote"
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default BulkSubscriptionModal;
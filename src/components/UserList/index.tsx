@@ -9,6 +9,8 @@ import PageTitle from '@app/components/Common/PageTitle';
 import SensitiveInput from '@app/components/Common/SensitiveInput';
 import Table from '@app/components/Common/Table';
 import BulkEditModal from '@app/components/UserList/BulkEditModal';
+import BulkLibraryAccessModal from '@app/components/UserList/BulkLibraryAccessModal';
+import BulkSubscriptionModal from '@app/components/UserList/BulkSubscriptionModal';
 import PlexImportModal from '@app/components/UserList/PlexImportModal';
 import useSettings from '@app/hooks/useSettings';
 import { useUpdateQueryParams } from '@app/hooks/useUpdateQueryParams';
@@ -21,7 +23,10 @@ import {
   BarsArrowDownIcon,
   ChevronLeftIcon,
   ChevronRightIcon,
+  ClockIcon,
+  FolderIcon,
   InboxArrowDownIcon,
+  LinkIcon,
   PencilIcon,
   UserPlusIcon,
 } from '@heroicons/react/24/solid';
@@ -48,6 +53,8 @@ const messages = defineMessages('components.UserList', {
   role: 'Role',
   created: 'Joined',
   bulkedit: 'Bulk Edit',
+  managesubscriptions: 'Subscriptions',
+  managelibraryaccess: 'Libraries',
   owner: 'Owner',
   admin: 'Admin',
   plexuser: 'Plex User',
@@ -58,8 +65,10 @@ const messages = defineMessages('components.UserList', {
     'Are you sure you want to delete this user? All of their request data will be permanently removed.',
   localuser: 'Local User',
   mediaServerUser: '{mediaServerName} User',
+  orphaned: 'Orphaned',
   createjellyfinuser: 'Create Jellyfin User',
   createlocaluser: 'Create Local User',
+  invites: 'Invites',
   creating: 'Creating…',
   create: 'Create',
   validationpasswordminchars:
@@ -86,6 +95,7 @@ const messages = defineMessages('components.UserList', {
   subscriptionExpirationDate: 'Subscription Expiration Date',
   suspiciousActivity: 'Suspicious Activity',
   expired: 'Expired',
+  grace: 'Grace Period',
   lifetime: 'Lifetime',
   active: 'Active',
   never: 'Never',
@@ -142,6 +152,10 @@ const UserList = () => {
     isOpen: false,
   });
   const [showBulkEditModal, setShowBulkEditModal] = useState(false);
+  const [showBulkSubscriptionModal, setShowBulkSubscriptionModal] =
+    useState(false);
+  const [showBulkLibraryAccessModal, setShowBulkLibraryAccessModal] =
+    useState(false);
   const [selectedUsers, setSelectedUsers] = useState<number[]>([]);
 
   useEffect(() => {
@@ -279,6 +293,12 @@ const UserList = () => {
             {intl.formatMessage(messages.expired)}
           </Badge>
         );
+      case 'grace':
+        return (
+          <Badge badgeType="warning">
+            {intl.formatMessage(messages.grace)}
+          </Badge>
+        );
       case 'lifetime':
         return (
           <Badge badgeType="warning">
@@ -551,6 +571,45 @@ const UserList = () => {
         />
       </Transition>
 
+      <Transition
+        as="div"
+        enter="transition-opacity duration-300"
+        enterFrom="opacity-0"
+        enterTo="opacity-100"
+        leave="transition-opacity duration-300"
+        leaveFrom="opacity-100"
+        leaveTo="opacity-0"
+        show={showBulkSubscriptionModal}
+      >
+        <BulkSubscriptionModal
+          onCancel={() => setShowBulkSubscriptionModal(false)}
+          onComplete={() => {
+            setShowBulkSubscriptionModal(false);
+            revalidate();
+          }}
+          selectedUserIds={selectedUsers}
+          users={data.results}
+        />
+      </Transition>
+
+      <Transition
+        as="div"
+        enter="transition-opacity duration-300"
+        enterFrom="opacity-0"
+        enterTo="opacity-100"
+        leave="transition-opacity duration-300"
+        leaveFrom="opacity-100"
+        leaveTo="opacity-0"
+        show={showBulkLibraryAccessModal}
+      >
+        <BulkLibraryAccessModal
+          onCancel={() => setShowBulkLibraryAccessModal(false)}
+          onComplete={() => setShowBulkLibraryAccessModal(false)}
+          selectedUserIds={selectedUsers}
+          users={data.results}
+        />
+      </Transition>
+
       <Transition
         as="div"
         enter="transition-opacity duration-300"
@@ -803,6 +862,17 @@ const UserList = () => {
               <UserPlusIcon />
               <span>{intl.formatMessage(messages.createjellyfinuser)}</span>
             </Button>
+            {settings.currentSettings.mediaServerType !==
+              MediaServerType.PLEX && (
+              <Button
+                className="mb-2 flex-grow sm:mb-0 sm:mr-2"
+                buttonType="primary"
+                onClick={() => router.push('/users/invites')}
+              >
+                <LinkIcon />
+                <span>{intl.formatMessage(messages.invites)}</span>
+              </Button>
+            )}
             <Button
               className="flex-grow lg:mr-2"
               buttonType="primary"
@@ -903,6 +973,35 @@ const UserList = () => {
                   <span>{intl.formatMessage(messages.bulkedit)}</span>
                 </Button>
               )}
+              {(data.results ?? []).length > 1 &&
+                currentHasPermission(Permission.ADMIN) && (
+                  <Button
+                    buttonType="warning"
+                    className="ml-2"
+                    onClick={() => setShowBulkSubscriptionModal(true)}
+                    disabled={selectedUsers.length === 0}
+                  >
+                    <ClockIcon />
+                    <span>
+                      {intl.formatMessage(messages.managesubscriptions)}
+                    </span>
+                  </Button>
+                )}
+              {(data.results ?? []).length > 1 &&
+                settings.currentSettings.mediaServerType !==
+                  MediaServerType.PLEX && (
+                  <Button
+                    buttonType="warning"
+                    className="ml-2"
+                    onClick={() => setShowBulkLibraryAccessModal(true)}
+                    disabled={selectedUsers.length === 0}
+                  >
+                    <FolderIcon />
+                    <span>
+                      {intl.formatMessage(messages.managelibraryaccess)}
+                    </span>
+                  </Button>
+                )}
             </Table.TH>
           </tr>
         </thead>
@@ -1008,6 +1107,11 @@ const UserList = () => {
                     })}
                   </Badge>
                 ) : null}
+                {user.jellyfinOrphanedAt && (
+                  <Badge badgeType="danger" className="ml-2">
+                    {intl.formatMessage(messages.orphaned)}
+                  </Badge>
+                )}
               </Table.TD>
               <Table.TD>
                 {user.id === 1
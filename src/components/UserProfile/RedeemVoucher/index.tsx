@@ -0,0 +1,118 @@
+import Button from '@app/components/Common/Button';
+import { useUser } from '@app/hooks/useUser';
+import defineMessages from '@app/utils/defineMessages';
+import { TicketIcon } from '@heroicons/react/24/outline';
+import { Field, Form, Formik } from 'formik';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import { mutate } from 'swr';
+import * as Yup from 'yup';
+
+const messages = defineMessages('components.UserProfile.RedeemVoucher', {
+  redeemvoucher: 'Redeem Voucher',
+  redeemvoucherDescription:
+    'Enter a voucher code to activate or extend your subscription.',
+  vouchercode: 'Voucher code',
+  redeem: 'Redeem',
+  redeeming: 'Redeeming…',
+  validationCodeRequired: 'You must provide a voucher code',
+  voucherRedeemed: 'Voucher redeemed successfully!',
+  voucherFailed: 'Something went wrong while redeeming the voucher.',
+});
+
+const RedeemVoucher = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const { user, revalidate } = useUser();
+
+  const RedeemVoucherSchema = Yup.object().shape({
+    code: Yup.string().required(
+      intl.formatMessage(messages.validationCodeRequired)
+    ),
+  });
+
+  return (
+    <>
+      <div className="slider-header">
+        <div className="slider-title">
+          <span>{intl.formatMessage(messages.redeemvoucher)}</span>
+        </div>
+      </div>
+      <p className="mb-4 text-sm text-gray-400">
+        {intl.formatMessage(messages.redeemvoucherDescription)}
+      </p>
+      <Formik
+        initialValues={{ code: '' }}
+        validationSchema={RedeemVoucherSchema}
+        onSubmit={async (values, { resetForm }) => {
+          try {
+            const res = await fetch('/api/v1/subscription/redeem', {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify({ code: values.code }),
+            });
+            if (!res.ok) throw new Error(res.statusText, { cause: res });
+            addToast(intl.formatMessage(messages.voucherRedeemed), {
+              appearance: 'success',
+              autoDismiss: true,
+            });
+            resetForm();
+          } catch (e) {
+            let errorData;
+            try {
+              errorData = await e.cause?.text();
+              errorData = JSON.parse(errorData);
+            } catch {
+              /* empty */
+            }
+            addToast(
+              errorData?.message ?? intl.formatMessage(messages.voucherFailed),
+              {
+                appearance: 'error',
+                autoDismiss: true,
+              }
+            );
+          } finally {
+            revalidate();
+            mutate(`/api/v1/user/${user?.id}/subscription`);
+            mutate(`/api/v1/user/${user?.id}/subscription/history`);
+          }
+        }}
+      >
+        {({ errors, touched, isSubmitting, isValid }) => (
+          <Form className="flex max-w-lg flex-col sm:flex-row sm:items-start">
+            <div className="flex-grow">
+              <Field
+                id="code"
+                name="code"
+                type="text"
+                placeholder={intl.formatMessage(messages.vouchercode)}
+                className="font-mono uppercase"
+              />
+              {errors.code && touched.code && (
+                <div className="error">{errors.code}</div>
+              )}
+            </div>
+            <Button
+              buttonType="primary"
+              type="submit"
+              className="mt-2 sm:mt-0 sm:ml-2"
+              disabled={isSubmitting || !isValid}
+            >
+              <TicketIcon />
+              <span>
+                {isSubmitting
+                  ? intl.formatMessage(messages.redeeming)
+                  : intl.formatMessage(messages.redeem)}
+              </span>
+            </Button>
+          </Form>
+        )}
+      </Formik>
+    </>
+  );
+};
+
+export default RedeemVoucher;
@@ -0,0 +1,136 @@
+import Badge from '@app/components/Common/Badge';
+import Table from '@app/components/Common/Table';
+import defineMessages from '@app/utils/defineMessages';
+import { SubscriptionEventType } from '@server/constants/user';
+import type { SubscriptionHistoryResponse } from '@server/interfaces/api/subscriptionInterfaces';
+import { useIntl } from 'react-intl';
+import useSWR from 'swr';
+
+const messages = defineMessages('components.UserProfile.SubscriptionHistory', {
+  subscriptionhistory: 'Subscription History',
+  date: 'Date',
+  event: 'Event',
+  status: 'Status',
+  plan: 'Plan',
+  changedby: 'Changed By',
+  note: 'Note',
+  system: 'System',
+  grant: 'Granted',
+  extension: 'Extended',
+  expiry: 'Expired',
+  lifetime: 'Lifetime Upgrade',
+  manualEdit: 'Manual Edit',
+  statusActiveUntil: 'Active until {date}',
+  statusActive: 'Active',
+  statusGrace: 'Grace Period',
+  statusLifetime: 'Lifetime',
+  statusExpired: 'Expired',
+  statusNone: 'No Subscription',
+});
+
+interface SubscriptionHistoryProps {
+  userId: number;
+}
+
+const SubscriptionHistory = ({ userId }: SubscriptionHistoryProps) => {
+  const intl = useIntl();
+  const { data: history } = useSWR<SubscriptionHistoryResponse>(
+    `/api/v1/user/${userId}/subscription/history`
+  );
+
+  if (!history?.length) {
+    return null;
+  }
+
+  const formatDate = (date: Date | string) =>
+    intl.formatDate(date, {
+      year: 'numeric',
+      month: 'short',
+      day: '2-digit',
+    });
+
+  return (
+    <>
+      <div className="slider-header">
+        <div className="slider-title">
+          <span>{intl.formatMessage(messages.subscriptionhistory)}</span>
+        </div>
+      </div>
+      <Table>
+        <thead>
+          <tr>
+            <Table.TH>{intl.formatMessage(messages.date)}</Table.TH>
+            <Table.TH>{intl.formatMessage(messages.event)}</Table.TH>
+            <Table.TH>{intl.formatMessage(messages.status)}</Table.TH>
+            <Table.TH>{intl.formatMessage(messages.plan)}</Table.TH>
+            <Table.TH>{intl.formatMessage(messages.changedby)}</Table.TH>
+            <Table.TH>{intl.formatMessage(messages.note)}</Table.TH>
+          </tr>
+        </thead>
+        <Table.TBody>
+          {history.map((event) => (
+            <tr key={`subscription-event-${event.id}`}>
+              <Table.TD className="text-gray-300">
+                {intl.formatDate(event.createdAt, {
+                  year: 'numeric',
+                  month: 'short',
+                  day: '2-digit',
+                  hour: 'numeric',
+                  minute: 'numeric',
+                })}
+              </Table.TD>
+              <Table.TD>
+                <Badge
+                  badgeType={
+                    event.type === SubscriptionEventType.EXPIRY
+                      ? 'danger'
+                      : event.type === SubscriptionEventType.MANUAL_EDIT
+                      ? 'default'
+                      : 'success'
+                  }
+                >
+                  {event.type === SubscriptionEventType.GRANT
+                    ? intl.formatMessage(messages.grant)
+                    : event.type === SubscriptionEventType.EXTENSION
+                    ? intl.formatMessage(messages.extension)
+                    : event.type === SubscriptionEventType.EXPIRY
+                    ? intl.formatMessage(messages.expiry)
+                    : event.type === SubscriptionEventType.LIFETIME
+                    ? intl.formatMessage(messages.lifetime)
+                    : intl.formatMessage(messages.manualEdit)}
+                </Badge>
+              </Table.TD>
+              <Table.TD className="text-gray-300">
+                {event.newStatus === 'active'
+                  ? event.newExpirationDate
+                    ? intl.formatMessage(messages.statusActiveUntil, {
+                        date: formatDate(event.newExpirationDate),
+                      })
+                    : intl.formatMessage(messages.statusActive)
+                  : event.newStatus === 'grace'
+                  ? intl.formatMessage(messages.statusGrace)
+                  : event.newStatus === 'lifetime'
+                  ? intl.formatMessage(messages.statusLifetime)
+                  : event.newStatus === 'expired'
+                  ? intl.formatMessage(messages.statusExpired)
+                  : intl.formatMessage(messages.statusNone)}
+              </Table.TD>
+              <Table.TD className="text-gray-300">
+                {event.planName ?? ''}
+              </Table.TD>
+              <Table.TD className="text-gray-300">
+                {event.actor?.displayName ??
+                  intl.formatMessage(messages.system)}
+              </Table.TD>
+              <Table.TD className="whitespace-pre-wrap text-gray-300">
+                {event.note ?? ''}
+              </Table.TD>
+            </tr>
+          ))}
+        </Table.TBody>
+      </Table>
+    </>
+  );
+};
+
+export default SubscriptionHistory;
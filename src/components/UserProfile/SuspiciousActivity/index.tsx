@@ -0,0 +1,124 @@
+import ConfirmButton from '@app/components/Common/ConfirmButton';
+import Table from '@app/components/Common/Table';
+import globalMessages from '@app/i18n/globalMessages';
+import defineMessages from '@app/utils/defineMessages';
+import { TrashIcon } from '@heroicons/react/24/solid';
+import type { SuspiciousActivityResponse } from '@server/interfaces/api/userInterfaces';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+
+const messages = defineMessages('components.UserProfile.SuspiciousActivity', {
+  suspiciousactivity: 'Suspicious Activity',
+  date: 'Date',
+  addresses: 'Addresses',
+  devices: 'Devices',
+  sessions: 'Sessions',
+  clear: 'Clear Activity',
+  activityCleared: 'Suspicious activity cleared successfully!',
+  activityClearFailed: 'Something went wrong while clearing the activity.',
+});
+
+interface SuspiciousActivityProps {
+  userId: number;
+}
+
+const SuspiciousActivity = ({ userId }: SuspiciousActivityProps) => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const { data: activity, mutate: revalidate } =
+    useSWR<SuspiciousActivityResponse>(
+      `/api/v1/user/${userId}/suspicious-activity`
+    );
+
+  if (!activity?.length) {
+    return null;
+  }
+
+  const clearActivity = async () => {
+    try {
+      const res = await fetch(`/api/v1/user/${userId}/suspicious-activity`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) throw new Error();
+
+      addToast(intl.formatMessage(messages.activityCleared), {
+        appearance: 'success',
+        autoDismiss: true,
+      });
+    } catch (e) {
+      addToast(intl.formatMessage(messages.activityClearFailed), {
+        appearance: 'error',
+        autoDismiss: true,
+      });
+    } finally {
+      revalidate();
+    }
+  };
+
+  return (
+    <>
+      <div className="slider-header">
+        <div className="slider-title">
+          <span>{intl.formatMessage(messages.suspiciousactivity)}</span>
+        </div>
+        <ConfirmButton
+          onClick={() => clearActivity()}
+          confirmText={intl.formatMessage(globalMessages.areyousure)}
+        >
+          <TrashIcon />
+          <span>{intl.formatMessage(messages.clear)}</span>
+        </ConfirmButton>
+      </div>
+      <Table>
+        <thead>
+          <tr>
+            <Table.TH>{intl.formatMessage(messages.date)}</Table.TH>
+            <Table.TH>{intl.formatMessage(messages.addresses)}</Table.TH>
+            <Table.TH>{intl.formatMessage(messages.devices)}</Table.TH>
+            <Table.TH>{intl.formatMessage(messages.sessions)}</Table.TH>
+          </tr>
+        </thead>
+        <Table.TBody>
+          {activity.map((incident) => (
+            <tr key={`suspicious-activity-${incident.id}`}>
+              <Table.TD className="text-gray-300">
+                {intl.formatDate(incident.createdAt, {
+                  year: 'numeric',
+                  month: 'short',
+                  day: '2-digit',
+                  hour: 'numeric',
+                  minute: 'numeric',
+                })}
+              </Table.TD>
+              <Table.TD className="text-gray-300">
+                {incident.addressCount}
+              </Table.TD>
+              <Table.TD className="text-gray-300">
+                {incident.deviceCount}
+              </Table.TD>
+              <Table.TD className="text-gray-300">
+                <ul>
+                  {incident.sessions.map((session, index) => (
+                    <li key={`suspicious-activity-${incident.id}-${index}`}>
+                      <span className="font-semibold text-white">
+                        {session.deviceName}
+                      </span>{' '}
+                      ({session.client})
+                      {[session.remoteAddress, session.nowPlaying]
+                        .filter(Boolean)
+                        .map((detail) => ` - ${detail}`)
+                        .join('')}
+                    </li>
+                  ))}
+                </ul>
+              </Table.TD>
+            </tr>
+          ))}
+        </Table.TBody>
+      </Table>
+    </>
+  );
+};
+
+export default SuspiciousActivity;
@@ -15,6 +15,7 @@ import ErrorPage from '@app/pages/_error';
 import defineMessages from '@app/utils/defineMessages';
 import { ArrowDownOnSquareIcon } from '@heroicons/react/24/outline';
 import { ApiErrorCode } from '@server/constants/error';
+import type { SubscriptionPlanResultsResponse } from '@server/interfaces/api/subscriptionInterfaces';
 import type { UserSettingsGeneralResponse } from '@server/interfaces/api/userSettingsInterfaces';
 import { Field, Form, Formik } from 'formik';
 import { useRouter } from 'next/router';
@@ -74,6 +75,19 @@ const messages = defineMessages(
     subscription: 'Subscription',
     subscriptionStandard: 'Standard',
     subscriptionLifetime: 'Lifetime',
+    subscriptionPlan: 'Subscription Plan',
+    subscriptionPlanTip:
+      'Permissions, request limits and media server policy applied while the subscription is active',
+    noSubscriptionPlan: 'No Plan',
+    subscriptionExpires: 'Expires {date}',
+    subscriptionGrace: 'Expired {date}, in grace period',
+    maxActiveSessions: 'Concurrent Streams',
+    maxActiveSessionsTip:
+      'Maximum number of streams this user can run at once. Leave empty to use the limit of their subscription plan, or set to 0 for no limit.',
+    validationMaxActiveSessions: 'You must provide a valid number of streams',
+    subscriptionNote: 'Subscription Note',
+    subscriptionNoteTip:
+      'Saved to the subscription history when the subscription changes',
   }
 );
 
@@ -100,6 +114,9 @@ const UserGeneralSettings = () => {
   } = useSWR<UserSettingsGeneralResponse>(
     user ? `/api/v1/user/${user?.id}/settings/main` : null
   );
+  const { data: subscriptionPlans } = useSWR<SubscriptionPlanResultsResponse>(
+    currentHasPermission(Permission.ADMIN) ? '/api/v1/subscription/plans' : null
+  );
 
   const UserGeneralSettingsSchema = Yup.object().shape({
     email:
@@ -113,6 +130,13 @@ const UserGeneralSettings = () => {
     discordId: Yup.string()
       .nullable()
       .matches(/^\d{17,19}$/, intl.formatMessage(messages.validationDiscordId)),
+    maxActiveSessions: Yup.number()
+      .nullable()
+      .transform((value, originalValue) =>
+        originalValue === '' ? null : value
+      )
+      .integer(intl.formatMessage(messages.validationMaxActiveSessions))
+      .min(0, intl.formatMessage(messages.validationMaxActiveSessions)),
   });
 
   useEffect(() => {
@@ -162,10 +186,14 @@ const UserGeneralSettings = () => {
           watchlistSyncTv: data?.watchlistSyncTv,
           subscriptionEnabled: Boolean(
             data?.subscriptionStatus === 'active' ||
+              data?.subscriptionStatus === 'grace' ||
               data?.subscriptionStatus === 'lifetime'
           ),
           subscriptionType:
             data?.subscriptionStatus === 'lifetime' ? 'lifetime' : 'standard',
+          subscriptionPlanId: data?.subscriptionPlanId ?? '',
+          maxActiveSessions: data?.maxActiveSessions ?? '',
+          subscriptionNote: '',
         }}
         validationSchema={UserGeneralSettingsSchema}
         enableReinitialize
@@ -201,25 +229,18 @@ const UserGeneralSettings = () => {
                   watchlistSyncTv: values.watchlistSyncTv,
                   subscriptionEnabled: values.subscriptionEnabled,
                   subscriptionType: values.subscriptionType,
+                  subscriptionPlanId: values.subscriptionPlanId
+                    ? Number(values.subscriptionPlanId)
+                    : null,
+                  maxActiveSessions:
+                    values.maxActiveSessions === ''
+                      ? null
+                      : Number(values.maxActiveSessions),
+                  subscriptionNote: values.subscriptionNote,
                 }),
               }
             );
-            const permissionsRes = await fetch(
-              `/api/v1/user/${user?.id}/settings/permissions`,
-              {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  permissions: values.subscriptionEnabled
-                    ? 1289765024
-                    : 1277181952,
-                }),
-              }
-            );
-
-            if (!mainRes.ok || !permissionsRes.ok) {
+            if (!mainRes.ok) {
               throw new Error('Failed to update settings');
             }
 
@@ -715,6 +736,103 @@ const UserGeneralSettings = () => {
                         </Field>
                       </div>
                     </div>
+                    {(data?.subscriptionStatus === 'active' ||
+                      data?.subscriptionStatus === 'grace') &&
+                      data.subscriptionExpirationDate && (
+                        <div className="mt-2 text-sm text-gray-400">
+                          {intl.formatMessage(
+                            data.subscriptionStatus === 'grace'
+                              ? messages.subscriptionGrace
+                              : messages.subscriptionExpires,
+                            {
+                              date: intl.formatDate(
+                                data.subscriptionExpirationDate,
+                                {
+                                  year: 'numeric',
+                                  month: 'long',
+                                  day: 'numeric',
+                                }
+                              ),
+                            }
+                          )}
+                        </div>
+                      )}
+                  </div>
+                </div>
+              )}
+              {currentHasPermission(Permission.ADMIN) && (
+                <div className="form-row">
+                  <label htmlFor="subscriptionPlanId" className="text-label">
+                    {intl.formatMessage(messages.subscriptionPlan)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.subscriptionPlanTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field
+                        as="select"
+                        id="subscriptionPlanId"
+                        name="subscriptionPlanId"
+                      >
+                        <option value="">
+                          {intl.formatMessage(messages.noSubscriptionPlan)}
+                        </option>
+                        {subscriptionPlans
+                          ?.filter((plan) => !plan.isExpiredProfile)
+                          .map((plan) => (
+                            <option key={`plan-${plan.id}`} value={plan.id}>
+                              {plan.name}
+                            </option>
+                          ))}
+                      </Field>
+                    </div>
+                  </div>
+                </div>
+              )}
+              {currentHasPermission(Permission.ADMIN) &&
+                user?.jellyfinUsername && (
+                  <div className="form-row">
+                    <label htmlFor="maxActiveSessions" className="text-label">
+                      {intl.formatMessage(messages.maxActiveSessions)}
+                      <span className="label-tip">
+                        {intl.formatMessage(messages.maxActiveSessionsTip)}
+                      </span>
+                    </label>
+                    <div className="form-input-area">
+                      <Field
+                        id="maxActiveSessions"
+                        name="maxActiveSessions"
+                        type="text"
+                        inputMode="numeric"
+                        className="short"
+                      />
+                      {errors.maxActiveSessions &&
+                        touched.maxActiveSessions &&
+                        typeof errors.maxActiveSessions === 'string' && (
+                          <div className="error">
+                            {errors.maxActiveSessions}
+                          </div>
+                        )}
+                    </div>
+                  </div>
+                )}
+              {currentHasPermission(Permission.ADMIN) && (
+                <div className="form-row">
+                  <label htmlFor="subscriptionNote" className="text-label">
+                    {intl.formatMessage(messages.subscriptionNote)}
+                    <span className="label-tip">
+                      {intl.formatMessage(messages.subscriptionNoteTip)}
+                    </span>
+                  </label>
+                  <div className="form-input-area">
+                    <div className="form-input-field">
+                      <Field
+                        id="subscriptionNote"
+                        name="subscriptionNote"
+                        type="text"
+                      />
+                    </div>
                   </div>
                 </div>
               )}
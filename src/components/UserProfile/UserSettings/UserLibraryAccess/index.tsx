@@ -0,0 +1,146 @@
+import Alert from '@app/components/Common/Alert';
+import Button from '@app/components/Common/Button';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import PageTitle from '@app/components/Common/PageTitle';
+import LibraryAccessEdit from '@app/components/LibraryAccessEdit';
+import { useUser } from '@app/hooks/useUser';
+import globalMessages from '@app/i18n/globalMessages';
+import ErrorPage from '@app/pages/_error';
+import defineMessages from '@app/utils/defineMessages';
+import { ArrowDownOnSquareIcon } from '@heroicons/react/24/outline';
+import type { JellyfinLibraryAccessResponse } from '@server/interfaces/api/jellyfinInterfaces';
+import { Form, Formik } from 'formik';
+import { useRouter } from 'next/router';
+import { useIntl } from 'react-intl';
+import { useToasts } from 'react-toast-notifications';
+import useSWR from 'swr';
+
+const messages = defineMessages(
+  'components.UserProfile.UserSettings.UserLibraryAccess',
+  {
+    toastSettingsSuccess: 'Library access saved successfully!',
+    toastSettingsFailure: 'Something went wrong while saving settings.',
+    libraryAccess: 'Library Access',
+    libraryAccessDescription:
+      'Libraries this user can access on the media server. Subscription plans with default libraries replace this selection when they are applied.',
+    noLibraries:
+      'No libraries were found on the media server. Make sure the media server is reachable.',
+  }
+);
+
+const UserLibraryAccess = () => {
+  const intl = useIntl();
+  const { addToast } = useToasts();
+  const router = useRouter();
+  const { user } = useUser({
+    id: Number(router.query.userId),
+  });
+  const {
+    data,
+    error,
+    mutate: revalidate,
+  } = useSWR<JellyfinLibraryAccessResponse>(
+    user ? `/api/v1/user/${user?.id}/settings/libraries` : null
+  );
+
+  if (!data && !error) {
+    return <LoadingSpinner />;
+  }
+
+  if (!data) {
+    return <ErrorPage statusCode={500} />;
+  }
+
+  return (
+    <>
+      <PageTitle
+        title={[
+          intl.formatMessage(messages.libraryAccess),
+          intl.formatMessage(globalMessages.usersettings),
+          user?.displayName,
+        ]}
+      />
+      <div className="mb-6">
+        <h3 className="heading">
+          {intl.formatMessage(messages.libraryAccess)}
+        </h3>
+        <p className="description">
+          {intl.formatMessage(messages.libraryAccessDescription)}
+        </p>
+      </div>
+      {data.libraries.length === 0 && (
+        <Alert title={intl.formatMessage(messages.noLibraries)} type="info" />
+      )}
+      <Formik
+        initialValues={{
+          enableAllFolders: data.enableAllFolders,
+          enabledFolders: data.enabledFolders,
+        }}
+        enableReinitialize
+        onSubmit={async (values) => {
+          try {
+            const res = await fetch(
+              `/api/v1/user/${user?.id}/settings/libraries`,
+              {
+                method: 'POST',
+                headers: {
+                  'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                  enableAllFolders: values.enableAllFolders,
+                  enabledFolders: values.enabledFolders,
+                }),
+              }
+            );
+            if (!res.ok) throw new Error();
+            addToast(intl.formatMessage(messages.toastSettingsSuccess), {
+              autoDismiss: true,
+              appearance: 'success',
+            });
+          } catch (e) {
+            addToast(intl.formatMessage(messages.toastSettingsFailure), {
+              autoDismiss: true,
+              appearance: 'error',
+            });
+          } finally {
+            revalidate();
+          }
+        }}
+      >
+        {({ isSubmitting, setValues, values }) => {
+          return (
+            <Form className="section">
+              <div className="max-w-3xl">
+                <LibraryAccessEdit
+                  libraries={data.libraries}
+                  access={values}
+                  onUpdate={(access) => setValues(access)}
+                />
+              </div>
+              <div className="actions">
+                <div className="flex justify-end">
+                  <span className="ml-3 inline-flex rounded-md shadow-sm">
+                    <Button
+                      buttonType="primary"
+                      type="submit"
+                      disabled={isSubmitting}
+                    >
+                      <ArrowDownOnSquareIcon />
+                      <span>
+                        {isSubmitting
+                          ? intl.formatMessage(globalMessages.saving)
+                          : intl.formatMessage(globalMessages.save)}
+                      </span>
+                    </Button>
+                  </span>
+                </div>
+              </div>
+            </Form>
+          );
+        }}
+      </Formik>
+    </>
+  );
+};
+
+export default UserLibraryAccess;
@@ -21,6 +21,8 @@ const messages = defineMessages(
     toastSettingsFailure: 'Something went wrong while saving settings.',
     permissions: 'Permissions',
     unauthorizedDescription: 'You cannot modify your own permissions.',
+    subscriptionSnapshot:
+      'The permissions, request limits and media server access this user had before their subscription lapsed were saved on {date}. They will be restored automatically when the subscription is renewed.',
   }
 );
 
@@ -36,9 +38,10 @@ const UserPermissions = () => {
     data,
     error,
     mutate: revalidate,
-  } = useSWR<{ permissions?: number }>(
-    user ? `/api/v1/user/${user?.id}/settings/permissions` : null
-  );
+  } = useSWR<{
+    permissions?: number;
+    subscriptionSnapshotDate?: string | null;
+  }>(user ? `/api/v1/user/${user?.id}/settings/permissions` : null);
 
   if (!data && !error) {
     return <LoadingSpinner />;
@@ -76,6 +79,18 @@ const UserPermissions = () => {
       <div className="mb-6">
         <h3 className="heading">{intl.formatMessage(messages.permissions)}</h3>
       </div>
+      {data.subscriptionSnapshotDate && (
+        <Alert
+          title={intl.formatMessage(messages.subscriptionSnapshot, {
+            date: intl.formatDate(data.subscriptionSnapshotDate, {
+              year: 'numeric',
+              month: 'long',
+              day: 'numeric',
+            }),
+          })}
+          type="info"
+        />
+      )}
       <Formik
         initialValues={{
           currentPermissions: data?.permissions,
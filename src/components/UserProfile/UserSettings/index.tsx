@@ -9,6 +9,7 @@ import { useUser } from '@app/hooks/useUser';
 import globalMessages from '@app/i18n/globalMessages';
 import Error from '@app/pages/_error';
 import defineMessages from '@app/utils/defineMessages';
+import { MediaServerType } from '@server/constants/server';
 import type { UserSettingsNotificationsResponse } from '@server/interfaces/api/userSettingsInterfaces';
 import { hasPermission, Permission } from '@server/lib/permissions';
 import { useRouter } from 'next/router';
@@ -20,6 +21,7 @@ const messages = defineMessages('components.UserProfile.UserSettings', {
   menuChangePass: 'Password',
   menuNotifications: 'Notifications',
   menuPermissions: 'Permissions',
+  menuLibraryAccess: 'Library Access',
   unauthorizedDescription:
     "You do not have permission to modify this user's settings.",
 });
@@ -81,6 +83,15 @@ const UserSettings = ({ children }: UserSettingsProps) => {
       requiredPermission: Permission.MANAGE_USERS,
       hidden: currentUser?.id !== 1 && currentUser?.id === user.id,
     },
+    {
+      text: intl.formatMessage(messages.menuLibraryAccess),
+      route: '/settings/libraries',
+      regex: /\/settings\/libraries/,
+      requiredPermission: Permission.MANAGE_USERS,
+      hidden:
+        settings.currentSettings.mediaServerType === MediaServerType.PLEX ||
+        !user.jellyfinUsername,
+    },
   ];
 
   if (currentUser?.id !== 1 && user.id === 1) {
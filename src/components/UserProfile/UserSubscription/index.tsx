@@ -0,0 +1,151 @@
+import Alert from '@app/components/Common/Alert';
+import Badge from '@app/components/Common/Badge';
+import Header from '@app/components/Common/Header';
+import LoadingSpinner from '@app/components/Common/LoadingSpinner';
+import PageTitle from '@app/components/Common/PageTitle';
+import RedeemVoucher from '@app/components/UserProfile/RedeemVoucher';
+import SubscriptionHistory from '@app/components/UserProfile/SubscriptionHistory';
+import { useUser } from '@app/hooks/useUser';
+import Error from '@app/pages/_error';
+import defineMessages from '@app/utils/defineMessages';
+import type { SubscriptionDetailsResponse } from '@server/interfaces/api/subscriptionInterfaces';
+import { useIntl } from 'react-intl';
+import useSWR from 'swr';
+
+const messages = defineMessages('components.UserProfile.UserSubscription', {
+  subscription: 'Your Subscription',
+  status: 'Status',
+  plan: 'Plan',
+  noPlan: 'No plan',
+  expires: 'Expires',
+  expired: 'Expired',
+  never: 'Never',
+  daysRemaining:
+    '{days, plural, =0 {Ends today} one {# day left} other {# days left}}',
+  statusActive: 'Active',
+  statusGrace: 'Grace Period',
+  statusLifetime: 'Lifetime',
+  statusExpired: 'Expired',
+  statusNone: 'No Subscription',
+  gracePeriod:
+    'Your subscription has expired. You keep your access until {date}, renew before then to avoid losing it.',
+  expiredAlert:
+    'Your subscription has expired. Renew it to get your access back.',
+  renew: 'How to Renew',
+});
+
+const UserSubscription = () => {
+  const intl = useIntl();
+  const { user } = useUser();
+  const { data, error } = useSWR<SubscriptionDetailsResponse>(
+    user ? `/api/v1/user/${user.id}/subscription` : null
+  );
+
+  if (!data && !error) {
+    return <LoadingSpinner />;
+  }
+
+  if (!data || !user) {
+    return <Error statusCode={500} />;
+  }
+
+  const formatDate = (date: Date | string) =>
+    intl.formatDate(date, {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+
+  return (
+    <>
+      <PageTitle title={intl.formatMessage(messages.subscription)} />
+      <div className="mt-1 mb-5">
+        <Header>{intl.formatMessage(messages.subscription)}</Header>
+      </div>
+      {data.subscriptionStatus === 'grace' && data.gracePeriodEndDate && (
+        <Alert
+          type="warning"
+          title={intl.formatMessage(messages.gracePeriod, {
+            date: formatDate(data.gracePeriodEndDate),
+          })}
+        />
+      )}
+      {data.subscriptionStatus === 'expired' && (
+        <Alert type="error" title={intl.formatMessage(messages.expiredAlert)} />
+      )}
+      <dl className="grid grid-cols-1 gap-5 lg:grid-cols-3">
+        <div className="overflow-hidden rounded-lg bg-gray-800 bg-opacity-50 px-4 py-5 shadow ring-1 ring-gray-700 sm:p-6">
+          <dt className="truncate text-sm font-bold text-gray-300">
+            {intl.formatMessage(messages.status)}
+          </dt>
+          <dd className="mt-2">
+            {data.subscriptionStatus === 'active' ? (
+              <Badge badgeType="success">
+                {intl.formatMessage(messages.statusActive)}
+              </Badge>
+            ) : data.subscriptionStatus === 'grace' ? (
+              <Badge badgeType="warning">
+                {intl.formatMessage(messages.statusGrace)}
+              </Badge>
+            ) : data.subscriptionStatus === 'lifetime' ? (
+              <Badge badgeType="primary">
+                {intl.formatMessage(messages.statusLifetime)}
+              </Badge>
+            ) : data.subscriptionStatus === 'expired' ? (
+              <Badge badgeType="danger">
+                {intl.formatMessage(messages.statusExpired)}
+              </Badge>
+            ) : (
+              <Badge>{intl.formatMessage(messages.statusNone)}</Badge>
+            )}
+          </dd>
+        </div>
+        <div className="overflow-hidden rounded-lg bg-gray-800 bg-opacity-50 px-4 py-5 shadow ring-1 ring-gray-700 sm:p-6">
+          <dt className="truncate text-sm font-bold text-gray-300">
+            {intl.formatMessage(messages.plan)}
+          </dt>
+          <dd className="mt-1 text-3xl font-semibold text-white">
+            {data.subscriptionPlan?.name ?? intl.formatMessage(messages.noPlan)}
+          </dd>
+        </div>
+        <div className="overflow-hidden rounded-lg bg-gray-800 bg-opacity-50 px-4 py-5 shadow ring-1 ring-gray-700 sm:p-6">
+          <dt className="truncate text-sm font-bold text-gray-300">
+            {data.subscriptionStatus === 'expired' ||
+            data.subscriptionStatus === 'grace'
+              ? intl.formatMessage(messages.expired)
+              : intl.formatMessage(messages.expires)}
+          </dt>
+          <dd className="mt-1 text-3xl font-semibold text-white">
+            {data.subscriptionExpirationDate
+              ? formatDate(data.subscriptionExpirationDate)
+              : intl.formatMessage(messages.never)}
+          </dd>
+          {data.subscriptionStatus === 'active' &&
+            data.daysRemaining !== null && (
+              <dd className="mt-1 text-sm text-gray-400">
+                {intl.formatMessage(messages.daysRemaining, {
+                  days: data.daysRemaining,
+                })}
+              </dd>
+            )}
+        </div>
+      </dl>
+      {data.renewalInstructions && (
+        <>
+          <div className="slider-header">
+            <div className="slider-title">
+              <span>{intl.formatMessage(messages.renew)}</span>
+            </div>
+          </div>
+          <p className="whitespace-pre-wrap text-sm text-gray-300">
+            {data.renewalInstructions}
+          </p>
+        </>
+      )}
+      {data.subscriptionStatus !== 'lifetime' && <RedeemVoucher />}
+      <SubscriptionHistory userId={user.id} />
+    </>
+  );
+};
+
+export default UserSubscription;
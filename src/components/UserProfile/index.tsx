@@ -6,6 +6,9 @@ import RequestCard from '@app/components/RequestCard';
 import Slider from '@app/components/Slider';
 import TmdbTitleCard from '@app/components/TitleCard/TmdbTitleCard';
 import ProfileHeader from '@app/components/UserProfile/ProfileHeader';
+import RedeemVoucher from '@app/components/UserProfile/RedeemVoucher';
+import SubscriptionHistory from '@app/components/UserProfile/SubscriptionHistory';
+import SuspiciousActivity from '@app/components/UserProfile/SuspiciousActivity';
 import { Permission, UserType, useUser } from '@app/hooks/useUser';
 import Error from '@app/pages/_error';
 import defineMessages from '@app/utils/defineMessages';
@@ -395,6 +398,14 @@ const UserProfile = () => {
             />
           </>
         )}
+      {user.id === currentUser?.id && <RedeemVoucher />}
+      {(user.id === currentUser?.id ||
+        currentHasPermission(Permission.MANAGE_USERS)) && (
+        <SubscriptionHistory userId={user.id} />
+      )}
+      {currentHasPermission(Permission.MANAGE_USERS) && (
+        <SuspiciousActivity userId={user.id} />
+      )}
     </>
   );
 };
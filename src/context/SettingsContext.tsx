@@ -22,6 +22,7 @@ const defaultSettings = {
   mediaServerType: MediaServerType.NOT_CONFIGURED,
   partialRequestsEnabled: true,
   enableSpecialEpisodes: false,
+  requireDeclineReason: false,
   cacheImages: false,
   vapidPublic: '',
   enablePushRegistration: false,
@@ -23,7 +23,7 @@ export interface User {
   updatedAt: Date;
   requestCount: number;
   settings?: UserSettings;
-  subscriptionStatus?: 'active' | 'expired' | 'lifetime' | null;
+  subscriptionStatus?: 'active' | 'grace' | 'expired' | 'lifetime' | null;
   subscriptionExpirationDate?: Date | null;
   isLifetimeSubscriber?: boolean;
 }
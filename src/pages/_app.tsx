@@ -128,7 +128,7 @@ const CoreApp: Omit<NextAppComponentType, 'origGetInitialProps'> = ({
     loadLocaleData(currentLocale).then(setMessages);
   }, [currentLocale]);
 
-  if (router.pathname.match(/(login|setup|resetpassword)/)) {
+  if (router.pathname.match(/(login|setup|resetpassword|^\/invite\/)/)) {
     component = <Component {...pageProps} />;
   } else {
     component = (
@@ -200,6 +200,7 @@ CoreApp.getInitialProps = async (initialProps) => {
     mediaServerType: MediaServerType.NOT_CONFIGURED,
     partialRequestsEnabled: true,
     enableSpecialEpisodes: false,
+    requireDeclineReason: false,
     cacheImages: false,
     vapidPublic: '',
     enablePushRegistration: false,
@@ -250,7 +251,7 @@ CoreApp.getInitialProps = async (initialProps) => {
         // If there is no user, and ctx.res is set (to check if we are on the server side)
         // _AND_ we are not already on the login or setup route, redirect to /login with a 307
         // before anything actually renders
-        if (!router.pathname.match(/(login|setup|resetpassword)/)) {
+        if (!router.pathname.match(/(login|setup|resetpassword|^\/invite\/)/)) {
           ctx.res.writeHead(307, {
             Location: '/login',
           });
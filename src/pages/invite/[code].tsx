@@ -0,0 +1,8 @@
+import Invite from '@app/components/Invite';
+import type { NextPage } from 'next';
+
+const InvitePage: NextPage = () => {
+  return <Invite />;
+};
+
+export default InvitePage;
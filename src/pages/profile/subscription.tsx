@@ -0,0 +1,8 @@
+import UserSubscription from '@app/components/UserProfile/UserSubscription';
+import type { NextPage } from 'next';
+
+const UserSubscriptionPage: NextPage = () => {
+  return <UserSubscription />;
+};
+
+export default UserSubscriptionPage;
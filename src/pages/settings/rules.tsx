@@ -0,0 +1,16 @@
+import SettingsApprovalRules from '@app/components/Settings/SettingsApprovalRules';
+import SettingsLayout from '@app/components/Settings/SettingsLayout';
+import useRouteGuard from '@app/hooks/useRouteGuard';
+import { Permission } from '@app/hooks/useUser';
+import type { NextPage } from 'next';
+
+const SettingsApprovalRulesPage: NextPage = () => {
+  useRouteGuard(Permission.ADMIN);
+  return (
+    <SettingsLayout>
+      <SettingsApprovalRules />
+    </SettingsLayout>
+  );
+};
+
+export default SettingsApprovalRulesPage;
@@ -0,0 +1,16 @@
+import SettingsLayout from '@app/components/Settings/SettingsLayout';
+import SettingsSubscriptions from '@app/components/Settings/SettingsSubscriptions';
+import useRouteGuard from '@app/hooks/useRouteGuard';
+import { Permission } from '@app/hooks/useUser';
+import type { NextPage } from 'next';
+
+const SettingsSubscriptionsPage: NextPage = () => {
+  useRouteGuard(Permission.ADMIN);
+  return (
+    <SettingsLayout>
+      <SettingsSubscriptions />
+    </SettingsLayout>
+  );
+};
+
+export default SettingsSubscriptionsPage;
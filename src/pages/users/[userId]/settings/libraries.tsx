@@ -0,0 +1,16 @@
+import UserSettings from '@app/components/UserProfile/UserSettings';
+import UserLibraryAccess from '@app/components/UserProfile/UserSettings/UserLibraryAccess';
+import useRouteGuard from '@app/hooks/useRouteGuard';
+import { Permission } from '@app/hooks/useUser';
+import type { NextPage } from 'next';
+
+const UserLibraryAccessPage: NextPage = () => {
+  useRouteGuard(Permission.MANAGE_USERS);
+  return (
+    <UserSettings>
+      <UserLibraryAccess />
+    </UserSettings>
+  );
+};
+
+export default UserLibraryAccessPage;
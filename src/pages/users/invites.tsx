@@ -0,0 +1,11 @@
+import InviteList from '@app/components/InviteList';
+import useRouteGuard from '@app/hooks/useRouteGuard';
+import { Permission } from '@app/hooks/useUser';
+import type { NextPage } from 'next';
+
+const InvitesPage: NextPage = () => {
+  useRouteGuard(Permission.MANAGE_USERS);
+  return <InviteList />;
+};
+
+export default InvitesPage;